@@ -3,6 +3,7 @@ import { ConfigManager } from '../../core/config.manager';
 import { FileSystemService } from '../../core/filesystem.service';
 import { SymlinkService } from '../../core/symlink.service';
 import { GitService, GitStatus } from '../../core/git.service';
+import { StorageCollisionService } from '../../core/storage-collision.service';
 import { PrivateConfig } from '../../types/config.types';
 
 // Mock all dependencies
@@ -50,7 +51,9 @@ describe('AddCommand', () => {
       migrate: jest.fn(),
       getCached: jest.fn(),
       clearCache: jest.fn(),
-      getConfigPath: jest.fn(),
+      getStoragePath: jest.fn().mockResolvedValue('/test/workspace/.private-storage'),
+      getConfigPath: jest.fn().mockResolvedValue('/test/workspace/.private-config.json'),
+      getPrivateRepoPath: jest.fn().mockResolvedValue('/test/workspace/.git-private'),
     } as unknown as jest.Mocked<ConfigManager>;
 
     mockFileSystem = {
@@ -66,6 +69,7 @@ describe('AddCommand', () => {
       writeFile: jest.fn(),
       readFile: jest.fn(),
       getLinkStats: jest.fn(),
+      hashPath: jest.fn(),
       validatePath: jest.fn(),
       validatePathString: jest.fn(),
     } as unknown as jest.Mocked<FileSystemService>;
@@ -101,12 +105,15 @@ describe('AddCommand', () => {
       checkout: jest.fn(),
       merge: jest.fn(),
       reset: jest.fn(),
+      resolveRevision: jest.fn(),
       hasUncommittedChanges: jest.fn(),
       getRepositoryRoot: jest.fn(),
       isTracked: jest.fn(),
+      isIgnored: jest.fn(),
       getCurrentBranch: jest.fn(),
       checkRepositoryHealth: jest.fn(),
       getWorkingDirectory: jest.fn(),
+      setExcludesFile: jest.fn(),
     } as unknown as jest.Mocked<GitService>;
 
     // Setup default mock behaviors
@@ -123,6 +130,7 @@ describe('AddCommand', () => {
         verboseOutput: false,
         createBackups: true,
         maxBackups: 5,
+        excludeTrackedPaths: 'info-exclude',
       },
       metadata: {
         projectName: 'test-project',
@@ -148,8 +156,16 @@ describe('AddCommand', () => {
       return Promise.resolve(existingPaths.includes(path));
     });
 
+    mockFileSystem.getLinkStats.mockResolvedValue({
+      isDirectory: () => false,
+      mode: 0o100644,
+    } as unknown as Awaited<ReturnType<FileSystemService['getLinkStats']>>);
+    mockFileSystem.hashPath.mockResolvedValue({ sha256: 'a'.repeat(64), size: 12 });
+
     SymlinkService.supportsSymlinks = jest.fn().mockResolvedValue(true);
     mockGitServiceInstance.isRepository.mockResolvedValue(true);
+    mockGitServiceInstance.isTracked.mockResolvedValue(false);
+    mockGitServiceInstance.isIgnored.mockResolvedValue(false);
     mockGitServiceInstance.getStatus.mockResolvedValue({
       current: null,
       tracking: null,
@@ -189,7 +205,59 @@ describe('AddCommand', () => {
 
       expect(result.success).toBe(true);
       expect(result.message).toContain('Successfully added');
-      expect(mockConfigManager.addTrackedPath).toHaveBeenCalledWith('file1.txt');
+      expect(mockConfigManager.addTrackedPath).toHaveBeenCalledWith('file1.txt', {
+        mainRepoState: 'untracked',
+        isDirectory: false,
+        mode: 0o644,
+        size: 12,
+        sha256: 'a'.repeat(64),
+      });
+    });
+
+    it('should put back the displaced version when the add fails after resolving a collision', async () => {
+      mockFileSystem.pathExists.mockImplementation((path: string) => {
+        return Promise.resolve(
+          ['/test/workspace/.env', '/test/workspace/.private-storage'].includes(path),
+        );
+      });
+      mockFileSystem.isDirectory.mockResolvedValue(false);
+      jest.spyOn(StorageCollisionService.prototype, 'find').mockResolvedValue([{ path: '.env' }]);
+      jest
+        .spyOn(StorageCollisionService.prototype, 'planConflictCopies')
+        .mockResolvedValue({ '.env': '.git-private/conflicts/t/.env' });
+      const resolve = jest
+        .spyOn(StorageCollisionService.prototype, 'resolve')
+        .mockResolvedValue(undefined);
+      const restore = jest
+        .spyOn(StorageCollisionService.prototype, 'restore')
+        .mockResolvedValue(undefined);
+      mockFileSystem.moveFileAtomic.mockRejectedValue(new Error('Disk full'));
+
+      const result = await addCommand.execute('.env', {
+        verbose: false,
+        collision: 'keep-storage',
+      });
+
+      expect(result.success).toBe(false);
+      expect(resolve).toHaveBeenCalledWith(
+        '.env',
+        '.git-private/conflicts/t/.env',
+        'keep-storage',
+        '/test/workspace/.private-storage',
+      );
+      expect(restore).toHaveBeenCalledWith(
+        '.env',
+        '.git-private/conflicts/t/.env',
+        'keep-storage',
+        '/test/workspace/.private-storage',
+      );
+      expect(restore.mock.invocationCallOrder[0]).toBeGreaterThan(
+        resolve.mock.invocationCallOrder[0],
+      );
+      expect(mockFileSystem.writeFileAtomic).toHaveBeenCalledWith(
+        expect.stringContaining('journal'),
+        expect.stringContaining('"collision"'),
+      );
     });
 
     it('should handle multiple file addition successfully', async () => {
@@ -216,11 +284,10 @@ describe('AddCommand', () => {
 
       expect(result.success).toBe(true);
       expect(result.message).toContain('Successfully added 3 files');
-      expect(mockConfigManager.addMultipleTrackedPaths).toHaveBeenCalledWith([
-        'file1.txt',
-        'file2.txt',
-        'dir1',
-      ]);
+      expect(mockConfigManager.addMultipleTrackedPaths).toHaveBeenCalledWith(
+        ['file1.txt', 'file2.txt', 'dir1'],
+        expect.any(Map),
+      );
     });
 
     it('should validate batch size limits', async () => {
@@ -232,6 +299,37 @@ describe('AddCommand', () => {
       expect(result.message).toContain('Cannot process more than 100 files');
     });
 
+    it('should report a plan without touching anything in dry run mode', async () => {
+      mockFileSystem.pathExists.mockImplementation((path: string) => {
+        return Promise.resolve(
+          ['/test/workspace/file1.txt', '/test/workspace/.private-storage'].includes(path),
+        );
+      });
+      mockFileSystem.isDirectory.mockResolvedValue(false);
+
+      const result = await addCommand.execute('file1.txt', { dryRun: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(
+        expect.objectContaining({
+          command: 'add',
+          moves: [{ from: 'file1.txt', to: '.private-storage/file1.txt' }],
+          symlinks: [{ action: 'create', link: 'file1.txt', target: '.private-storage/file1.txt' }],
+        }),
+      );
+      expect(mockFileSystem.moveFileAtomic).not.toHaveBeenCalled();
+      expect(mockSymlinkService.create).not.toHaveBeenCalled();
+      expect(mockConfigManager.addTrackedPath).not.toHaveBeenCalled();
+      expect(mockGitServiceInstance.addFiles).not.toHaveBeenCalled();
+    });
+
+    it('should fail when a glob pattern matches nothing', async () => {
+      const result = await addCommand.execute(['**/.env*'], { verbose: false });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('No files match pattern: **/.env*');
+    });
+
     it('should handle invalid paths in batch operation', async () => {
       mockFileSystem.pathExists.mockImplementation((path: string) => {
         return Promise.resolve(
@@ -258,6 +356,7 @@ describe('AddCommand', () => {
           verboseOutput: false,
           createBackups: true,
           maxBackups: 5,
+          excludeTrackedPaths: 'info-exclude',
         },
         metadata: {
           projectName: 'test-project',
@@ -334,6 +433,7 @@ describe('AddCommand', () => {
           verboseOutput: false,
           createBackups: true,
           maxBackups: 5,
+          excludeTrackedPaths: 'info-exclude',
         },
         metadata: {
           projectName: 'test-project',
@@ -391,13 +491,45 @@ describe('AddCommand', () => {
       expect(mockFileSystem.moveFileAtomic).toHaveBeenCalledTimes(2);
       expect(mockSymlinkService.create).toHaveBeenCalledTimes(2);
       expect(mockGitServiceInstance.addFilesAndCommit).toHaveBeenCalledWith(
+        ['file1.txt', 'file2.txt', '.pgit-manifest.json'],
+        'Add files to private tracking',
+      );
+      const [, details] = mockConfigManager.addMultipleTrackedPaths.mock.calls[0];
+      expect(mockConfigManager.addMultipleTrackedPaths).toHaveBeenCalledWith(
         ['file1.txt', 'file2.txt'],
+        expect.any(Map),
+      );
+      expect(details?.get('file2.txt')).toEqual(
+        expect.objectContaining({ mainRepoState: 'untracked', size: 12 }),
+      );
+    });
+
+    it('should record exclude patterns for directories in .pgitignore', async () => {
+      mockFileSystem.moveFileAtomic.mockResolvedValue(undefined);
+      mockFileSystem.clearRollbackActions.mockReturnValue(undefined);
+      mockFileSystem.isDirectory.mockImplementation((path: string) =>
+        Promise.resolve(path === '/test/workspace/.private-storage/notes'),
+      );
+      mockFileSystem.pathExists.mockResolvedValue(false);
+      mockSymlinkService.create.mockResolvedValue(undefined);
+      mockGitServiceInstance.isRepository.mockResolvedValue(true);
+      mockGitServiceInstance.addFilesAndCommit.mockResolvedValue('commit-hash');
+      mockConfigManager.addMultipleTrackedPaths.mockResolvedValue({} as PrivateConfig);
+
+      await (addCommand as AddCommand)['executeMultipleAddOperation'](['notes', '.env'], {
+        verbose: false,
+        exclude: ['*.log', '/build/'],
+      });
+
+      expect(mockGitServiceInstance.setExcludesFile).toHaveBeenCalledWith('.pgitignore');
+      expect(mockFileSystem.writeFileAtomic).toHaveBeenCalledWith(
+        '/test/workspace/.private-storage/.pgitignore',
+        '# Excluded when adding notes, .env\n/notes/**/*.log\n/notes/build/\n',
+      );
+      expect(mockGitServiceInstance.addFilesAndCommit).toHaveBeenCalledWith(
+        ['notes', '.env', '.pgitignore', '.pgit-manifest.json'],
         'Add files to private tracking',
       );
-      expect(mockConfigManager.addMultipleTrackedPaths).toHaveBeenCalledWith([
-        'file1.txt',
-        'file2.txt',
-      ]);
     });
 
     it('should handle git operation failure', async () => {
@@ -0,0 +1,141 @@
+import { CloneCommand } from '../../commands/clone.command';
+import { ConfigManager } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { SymlinkService } from '../../core/symlink.service';
+import { GitService } from '../../core/git.service';
+import { GitignoreService } from '../../core/gitignore.service';
+import { ManifestService } from '../../core/manifest.service';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager');
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/git.service');
+jest.mock('../../core/symlink.service');
+jest.mock('../../core/gitignore.service');
+jest.mock('../../core/manifest.service');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+const MockedFileSystemService = jest.mocked(FileSystemService);
+const MockedSymlinkService = jest.mocked(SymlinkService);
+const MockedGitService = jest.mocked(GitService);
+const MockedGitignoreService = jest.mocked(GitignoreService);
+const MockedManifestService = jest.mocked(ManifestService);
+
+describe('CloneCommand', () => {
+  let cloneCommand: CloneCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockFileSystem: jest.Mocked<FileSystemService>;
+  let mockGitServiceInstance: jest.Mocked<GitService>;
+  let mockGitignoreService: jest.Mocked<GitignoreService>;
+  let mockManifestService: jest.Mocked<ManifestService>;
+  const testWorkingDir = '/test/workspace';
+  const remoteUrl = 'file:///srv/private.git';
+
+  beforeEach(() => {
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    MockedFileSystemService.mockImplementation(() => mockFileSystem);
+    MockedSymlinkService.mockImplementation(() => ({}) as unknown as SymlinkService);
+    MockedGitService.mockImplementation(() => mockGitServiceInstance);
+    MockedGitignoreService.mockImplementation(() => mockGitignoreService);
+    MockedManifestService.mockImplementation(() => mockManifestService);
+
+    mockConfigManager = {
+      exists: jest.fn(),
+      create: jest.fn(),
+      addRemote: jest.fn(),
+      addMultipleTrackedPaths: jest.fn(),
+    } as unknown as jest.Mocked<ConfigManager>;
+
+    mockFileSystem = {
+      pathExists: jest.fn(),
+      createDirectory: jest.fn(),
+      remove: jest.fn(),
+    } as unknown as jest.Mocked<FileSystemService>;
+
+    mockGitServiceInstance = {
+      isRepository: jest.fn(),
+      cloneRepository: jest.fn(),
+      setExcludesFile: jest.fn(),
+    } as unknown as jest.Mocked<GitService>;
+
+    mockGitignoreService = {
+      addPrivateEntries: jest.fn(),
+    } as unknown as jest.Mocked<GitignoreService>;
+
+    mockManifestService = {
+      read: jest.fn(),
+      linkTrackedPaths: jest.fn(),
+      getTrackedFileDetails: jest.fn(),
+    } as unknown as jest.Mocked<ManifestService>;
+
+    mockConfigManager.exists.mockResolvedValue(false);
+    mockFileSystem.pathExists.mockResolvedValue(false);
+    mockGitServiceInstance.isRepository.mockResolvedValue(true);
+    mockGitignoreService.addPrivateEntries.mockResolvedValue(true);
+    mockManifestService.read.mockResolvedValue({
+      manifestVersion: 1,
+      trackedPaths: ['.env', 'config/secrets.json'],
+      linkStrategies: { '.env': 'copy' },
+    });
+    mockManifestService.linkTrackedPaths.mockResolvedValue({
+      linked: ['.env'],
+      alreadyLinked: [],
+      repaired: [],
+      conflicts: ['config/secrets.json'],
+      missing: [],
+    });
+
+    cloneCommand = new CloneCommand(testWorkingDir);
+  });
+
+  it('should clone, rebuild the configuration and link tracked paths', async () => {
+    const details = new Map([
+      ['.env', { mainRepoState: 'unknown' as const, linkStrategy: 'copy' as const }],
+    ]);
+    mockManifestService.getTrackedFileDetails.mockResolvedValue(details);
+
+    const result = await cloneCommand.execute(remoteUrl, { branch: 'main' });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain('1 conflict(s)');
+    expect(mockGitServiceInstance.cloneRepository).toHaveBeenCalledWith(
+      remoteUrl,
+      'origin',
+      'main',
+    );
+    expect(mockConfigManager.create).toHaveBeenCalledWith(testWorkingDir);
+    expect(mockConfigManager.addRemote).toHaveBeenCalledWith({ name: 'origin', url: remoteUrl });
+    expect(mockManifestService.linkTrackedPaths).toHaveBeenCalledWith(
+      testWorkingDir,
+      ['.env', 'config/secrets.json'],
+      { '.env': 'copy' },
+    );
+    expect(mockManifestService.getTrackedFileDetails).toHaveBeenCalledWith(['.env'], {
+      '.env': 'copy',
+    });
+    expect(mockConfigManager.addMultipleTrackedPaths).toHaveBeenCalledWith(['.env'], details);
+    expect(mockGitignoreService.addPrivateEntries).toHaveBeenCalled();
+  });
+
+  it('should refuse to clone into an initialized directory', async () => {
+    mockConfigManager.exists.mockResolvedValue(true);
+
+    const result = await cloneCommand.execute(remoteUrl);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.name).toBe('AlreadyInitializedError');
+    expect(mockGitServiceInstance.cloneRepository).not.toHaveBeenCalled();
+  });
+
+  it('should roll back when the remote has no manifest', async () => {
+    mockManifestService.read.mockResolvedValue(null);
+
+    const result = await cloneCommand.execute(remoteUrl);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('not a pgit repository');
+    expect(mockFileSystem.remove).toHaveBeenCalledWith('/test/workspace/.git-private');
+    expect(mockFileSystem.remove).toHaveBeenCalledWith('/test/workspace/.private-storage');
+    expect(mockConfigManager.create).not.toHaveBeenCalled();
+  });
+});
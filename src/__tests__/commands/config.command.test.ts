@@ -0,0 +1,144 @@
+import { ConfigCommand } from '../../commands/config.command';
+import { ConfigManager, ConfigValidationError } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { GitignoreService } from '../../core/gitignore.service';
+import { PrivateConfig } from '../../types/config.types';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager', () => ({
+  ...jest.requireActual('../../core/config.manager'),
+  ConfigManager: jest.fn(),
+}));
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/gitignore.service');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+
+describe('ConfigCommand', () => {
+  let configCommand: ConfigCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  const testWorkingDir = '/test/workspace';
+
+  const createConfig = (): PrivateConfig => ({
+    version: '1.2.0',
+    trackedPaths: [],
+    storagePath: '.private-storage',
+    privateRepoPath: '.git-private',
+    initialized: new Date(),
+    settings: {
+      autoGitignore: true,
+      autoCleanup: true,
+      verboseOutput: false,
+      createBackups: true,
+      maxBackups: 5,
+      excludeTrackedPaths: 'info-exclude',
+    },
+    metadata: {
+      projectName: 'test-project',
+      mainRepoPath: '/test/workspace',
+      cliVersion: '1.2.0',
+      platform: 'test',
+      lastModified: new Date(),
+    },
+  });
+
+  beforeEach(() => {
+    mockConfigManager = {
+      exists: jest.fn().mockResolvedValue(true),
+      load: jest.fn().mockResolvedValue(createConfig()),
+      updateSettings: jest.fn(),
+    } as unknown as jest.Mocked<ConfigManager>;
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    jest.mocked(FileSystemService).mockImplementation(() => ({}) as FileSystemService);
+
+    configCommand = new ConfigCommand(testWorkingDir);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the value of a setting', async () => {
+    const result = await configCommand.get('settings.maxBackups');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ key: 'maxBackups', value: 5 });
+  });
+
+  it('should reject unknown settings', async () => {
+    const result = await configCommand.set('colors', 'true');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Unknown setting \'colors\'');
+    expect(mockConfigManager.updateSettings).not.toHaveBeenCalled();
+  });
+
+  it('should coerce values to the type of the setting', async () => {
+    await configCommand.set('autoCleanup', 'off');
+    await configCommand.set('maxBackups', '10');
+
+    expect(mockConfigManager.updateSettings).toHaveBeenCalledWith({ autoCleanup: false });
+    expect(mockConfigManager.updateSettings).toHaveBeenCalledWith({ maxBackups: 10 });
+  });
+
+  it('should name the field when a value cannot be coerced', async () => {
+    const result = await configCommand.set('createBackups', 'maybe');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(
+      'Invalid value for settings.createBackups: expected true or false, received \'maybe\'',
+    );
+  });
+
+  it('should accept the values of a choice setting and move the tracked paths', async () => {
+    const config = createConfig();
+    config.trackedPaths = ['.env'];
+    config.settings.excludeTrackedPaths = 'gitignore';
+    mockConfigManager.updateSettings.mockResolvedValue(config);
+    const updateTrackedPaths = jest.fn().mockResolvedValue([]);
+    jest
+      .mocked(GitignoreService)
+      .mockImplementation(() => ({ updateTrackedPaths }) as unknown as GitignoreService);
+
+    const invalid = await configCommand.set('excludeTrackedPaths', 'index');
+    const result = await configCommand.set('excludeTrackedPaths', 'GitIgnore');
+
+    expect(invalid.message).toBe(
+      'Invalid value for settings.excludeTrackedPaths: expected one of info-exclude, gitignore, off, received \'index\'',
+    );
+    expect(result.success).toBe(true);
+    expect(mockConfigManager.updateSettings).toHaveBeenCalledWith({
+      excludeTrackedPaths: 'gitignore',
+    });
+    expect(updateTrackedPaths).toHaveBeenCalledWith(['.env'], 'gitignore');
+  });
+
+  it('should report schema validation errors', async () => {
+    mockConfigManager.updateSettings.mockRejectedValue(
+      new ConfigValidationError(
+        'Invalid value for settings.maxBackups: Number must be less than or equal to 20',
+      ),
+    );
+
+    const result = await configCommand.set('maxBackups', '50');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('settings.maxBackups');
+  });
+
+  it('should reset a setting to its default', async () => {
+    const result = await configCommand.unset('verboseOutput');
+
+    expect(result.success).toBe(true);
+    expect(mockConfigManager.updateSettings).toHaveBeenCalledWith({ verboseOutput: false });
+  });
+
+  it('should fail when not initialized', async () => {
+    mockConfigManager.exists.mockResolvedValue(false);
+
+    const result = await configCommand.list();
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(1);
+  });
+});
@@ -0,0 +1,200 @@
+import { DoctorCommand } from '../../commands/doctor.command';
+import { ConfigManager } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { GitService } from '../../core/git.service';
+import { GitignoreService } from '../../core/gitignore.service';
+import { PlatformDetector } from '../../utils/platform.detector';
+import { run_in_terminal } from '../../utils/command.executor';
+import { DoctorReport, PrivateConfig } from '../../types/config.types';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager');
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/git.service');
+jest.mock('../../core/gitignore.service');
+jest.mock('../../utils/platform.detector');
+jest.mock('../../utils/command.executor');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+const MockedFileSystemService = jest.mocked(FileSystemService);
+const MockedGitService = jest.mocked(GitService);
+const MockedGitignoreService = jest.mocked(GitignoreService);
+const mockedRunInTerminal = jest.mocked(run_in_terminal);
+
+describe('DoctorCommand', () => {
+  let doctorCommand: DoctorCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockFileSystem: jest.Mocked<FileSystemService>;
+  let mockGitService: jest.Mocked<GitService>;
+  const testWorkingDir = '/test/workspace';
+
+  const createConfig = (mainRepoPath = testWorkingDir): PrivateConfig => ({
+    version: '1.2.0',
+    trackedPaths: ['.env'],
+    storagePath: '.private-storage',
+    privateRepoPath: '.git-private',
+    initialized: new Date(),
+    settings: {
+      autoGitignore: true,
+      autoCleanup: true,
+      verboseOutput: false,
+      createBackups: true,
+      maxBackups: 5,
+      excludeTrackedPaths: 'info-exclude',
+    },
+    metadata: {
+      projectName: 'test-project',
+      mainRepoPath,
+      cliVersion: '1.2.0',
+      platform: 'test',
+      lastModified: new Date(),
+    },
+  });
+
+  const getCheck = (report: DoctorReport, name: string): DoctorReport['checks'][number] => {
+    const check = report.checks.find(candidate => candidate.name === name);
+    if (!check) {
+      throw new Error(`Missing check ${name}`);
+    }
+    return check;
+  };
+
+  beforeEach(() => {
+    mockConfigManager = {
+      exists: jest.fn().mockResolvedValue(true),
+      load: jest.fn().mockResolvedValue(createConfig()),
+      validate: jest.fn().mockResolvedValue({ valid: true, errors: [], warnings: [] }),
+      getConfigPath: jest.fn().mockResolvedValue('/test/workspace/.private-config.json'),
+    } as unknown as jest.Mocked<ConfigManager>;
+
+    mockFileSystem = {
+      pathExists: jest.fn().mockResolvedValue(true),
+      trustPath: jest.fn(),
+    } as unknown as jest.Mocked<FileSystemService>;
+
+    mockGitService = {
+      isRepository: jest.fn().mockResolvedValue(true),
+      checkRepositoryHealth: jest.fn().mockResolvedValue({ isHealthy: true, issues: [] }),
+      isIgnored: jest.fn().mockResolvedValue(true),
+      isTracked: jest.fn().mockResolvedValue(false),
+    } as unknown as jest.Mocked<GitService>;
+
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    MockedFileSystemService.mockImplementation(() => mockFileSystem);
+    MockedGitService.mockImplementation(() => mockGitService);
+    MockedGitignoreService.mockImplementation(
+      () =>
+        ({
+          getIgnoreEntries: jest.fn((paths: string[]) =>
+            paths.map(entry => entry.replace(`${testWorkingDir}/`, '')),
+          ),
+        }) as unknown as GitignoreService,
+    );
+
+    mockedRunInTerminal.mockResolvedValue({
+      exitCode: 0,
+      stdout: 'git version 2.43.0',
+      stderr: '',
+      command: 'git --version',
+    });
+    jest.mocked(PlatformDetector.supportsSymlinks).mockResolvedValue(true);
+    jest.mocked(PlatformDetector.getPlatformName).mockReturnValue('Linux');
+    jest.mocked(PlatformDetector.checkPermissions).mockResolvedValue({
+      readable: true,
+      writable: true,
+      executable: true,
+    });
+
+    doctorCommand = new DoctorCommand(testWorkingDir);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should pass every check on a healthy setup', async () => {
+    const result = await doctorCommand.execute();
+    const report = result.data as DoctorReport;
+
+    expect(result.success).toBe(true);
+    expect(report.failures).toBe(0);
+    expect(report.warnings).toBe(0);
+    expect(report.checks.map(check => check.name)).toEqual([
+      'Git',
+      'Symbolic links',
+      'Permissions',
+      'Main repository',
+      'Configuration',
+      'Private storage permissions',
+      'Private repository',
+      'Ignore rules',
+      'Committed storage',
+      'Project location',
+    ]);
+    expect(getCheck(report, 'Git').message).toBe('git 2.43.0');
+  });
+
+  it('should fail with recovery suggestions when git is missing', async () => {
+    mockedRunInTerminal.mockResolvedValue({
+      exitCode: 127,
+      stdout: '',
+      stderr: 'git: command not found',
+      command: 'git --version',
+    });
+
+    const result = await doctorCommand.execute();
+    const check = getCheck(result.data as DoctorReport, 'Git');
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(1);
+    expect(check.status).toBe('fail');
+    expect(check.details).toEqual(['git: command not found']);
+    expect(check.suggestions.map(suggestion => suggestion.action)).toContain('Install git');
+  });
+
+  it('should report private paths that are not ignored or are committed', async () => {
+    mockGitService.isIgnored.mockImplementation(entry =>
+      Promise.resolve(entry !== '.private-config.json'),
+    );
+    mockGitService.isTracked.mockImplementation(entry =>
+      Promise.resolve(entry === '.private-storage'),
+    );
+
+    const result = await doctorCommand.execute();
+    const report = result.data as DoctorReport;
+
+    expect(getCheck(report, 'Ignore rules')).toMatchObject({
+      status: 'warn',
+      details: ['.private-config.json'],
+    });
+    expect(getCheck(report, 'Committed storage')).toMatchObject({
+      status: 'fail',
+      details: ['.private-storage'],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should warn when the project was moved', async () => {
+    mockConfigManager.load.mockResolvedValue(createConfig('/old/workspace'));
+
+    const result = await doctorCommand.execute();
+    const check = getCheck(result.data as DoctorReport, 'Project location');
+
+    expect(result.success).toBe(true);
+    expect(check.status).toBe('warn');
+    expect(check.details[0]).toContain('/old/workspace');
+  });
+
+  it('should only run environment checks when not initialized', async () => {
+    mockConfigManager.exists.mockResolvedValue(false);
+
+    const result = await doctorCommand.execute();
+    const report = result.data as DoctorReport;
+    const check = getCheck(report, 'Configuration');
+
+    expect(report.checks).toHaveLength(5);
+    expect(check.status).toBe('fail');
+    expect(check.suggestions[0].command).toBe('private init');
+    expect(mockGitService.isTracked).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitOpsCommand } from '../../commands/gitops.command';
+import { ConfigManager } from '../../core/config.manager';
+import { GitService } from '../../core/git.service';
+
+jest.mock('../../core/git.service');
+
+describe('GitOpsCommand', () => {
+  let projectDir: string;
+  let storageDir: string;
+  let configManager: ConfigManager;
+  let mockGitService: jest.Mocked<GitService>;
+
+  const track = async (relativePath: string, content: string): Promise<void> => {
+    fs.writeFileSync(path.join(storageDir, relativePath), content);
+    fs.symlinkSync(path.join(storageDir, relativePath), path.join(projectDir, relativePath));
+    await configManager.addTrackedPath(relativePath, { mainRepoState: 'untracked' });
+  };
+
+  beforeEach(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgit-gitops-'));
+    storageDir = path.join(projectDir, '.private-storage');
+    fs.mkdirSync(storageDir);
+    fs.mkdirSync(path.join(projectDir, '.git-private'));
+
+    configManager = new ConfigManager(projectDir);
+    await configManager.create(projectDir);
+
+    mockGitService = {
+      isRepository: jest.fn().mockResolvedValue(true),
+      resolveRevision: jest.fn().mockResolvedValue(null),
+      parseDate: jest.fn().mockResolvedValue(new Date('2026-01-01T00:00:00Z')),
+      findCommitBefore: jest.fn().mockResolvedValue('1a2b3c4d5e6f'),
+      listFilesAt: jest.fn().mockResolvedValue(['.env']),
+      restoreFiles: jest.fn(() =>
+        Promise.resolve(fs.writeFileSync(path.join(storageDir, '.env'), 'A=1\n')),
+      ),
+    } as unknown as jest.Mocked<GitService>;
+    jest.mocked(GitService).mockImplementation(() => mockGitService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  describe('restore', () => {
+    it('should restore a path from a date after backing up its content', async () => {
+      await track('.env', 'A=2\n');
+
+      const result = await new GitOpsCommand(projectDir).restore(['.env'], {
+        from: '3 days ago',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockGitService.findCommitBefore).toHaveBeenCalledWith('3 days ago');
+      expect(mockGitService.restoreFiles).toHaveBeenCalledWith('1a2b3c4d5e6f', ['.env']);
+      expect(fs.readFileSync(path.join(projectDir, '.env'), 'utf8')).toBe('A=1\n');
+      expect(fs.lstatSync(path.join(projectDir, '.env')).isSymbolicLink()).toBe(true);
+
+      const { backupDir } = result.data as { backupDir: string };
+      expect(fs.readFileSync(path.join(backupDir, '.env'), 'utf8')).toBe('A=2\n');
+    });
+
+    it('should refuse a source that is neither a revision nor a date', async () => {
+      await track('.env', 'A=2\n');
+      mockGitService.parseDate.mockResolvedValue(null);
+
+      const result = await new GitOpsCommand(projectDir).restore(['.env'], { from: 'mian' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('\'mian\' is neither a private revision nor a date');
+      expect(mockGitService.findCommitBefore).not.toHaveBeenCalled();
+      expect(mockGitService.restoreFiles).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a path that did not exist at the revision', async () => {
+      await track('.npmrc', 'registry=a\n');
+
+      const result = await new GitOpsCommand(projectDir).restore(['.npmrc'], {
+        from: 'HEAD~1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('.npmrc did not exist at 1a2b3c4d');
+      expect(mockGitService.restoreFiles).not.toHaveBeenCalled();
+    });
+
+    it('should refuse paths together with --all', async () => {
+      const result = await new GitOpsCommand(projectDir).restore(['.env'], {
+        from: 'HEAD',
+        all: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Paths cannot be given together with --all');
+    });
+  });
+});
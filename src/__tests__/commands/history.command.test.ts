@@ -0,0 +1,148 @@
+import { HistoryCommand } from '../../commands/history.command';
+import { ConfigManager } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { GitService } from '../../core/git.service';
+import { HistoryEntry, PrivateConfig } from '../../types/config.types';
+import { Stats } from 'fs';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager');
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/git.service');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+const MockedFileSystemService = jest.mocked(FileSystemService);
+const MockedGitService = jest.mocked(GitService);
+
+describe('HistoryCommand', () => {
+  let historyCommand: HistoryCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockFileSystem: jest.Mocked<FileSystemService>;
+  let mockGitServiceInstance: jest.Mocked<GitService>;
+  const testWorkingDir = '/test/workspace';
+  const historyPath = '/test/workspace/.git-private/history.jsonl';
+
+  const createEntry = (overrides: Partial<HistoryEntry>): HistoryEntry => ({
+    id: 'entry-1',
+    operation: 'commit',
+    timestamp: new Date('2026-01-01T00:00:00Z'),
+    paths: ['.env'],
+    privateHead: { before: 'aaa111', after: 'bbb222' },
+    ...overrides,
+  });
+
+  const writeHistory = (entries: HistoryEntry[]): void => {
+    mockFileSystem.pathExists.mockImplementation((path: string) =>
+      Promise.resolve(path === historyPath),
+    );
+    mockFileSystem.readFile.mockResolvedValue(
+      entries.map(entry => JSON.stringify(entry)).join('\n'),
+    );
+  };
+
+  beforeEach(() => {
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    MockedFileSystemService.mockImplementation(() => mockFileSystem);
+    MockedGitService.mockImplementation(() => mockGitServiceInstance);
+
+    mockConfigManager = {
+      exists: jest.fn().mockResolvedValue(true),
+      load: jest.fn().mockResolvedValue({
+        version: '1.2.0',
+        trackedPaths: ['.env'],
+        storagePath: '.private-storage',
+        privateRepoPath: '.git-private',
+      } as PrivateConfig),
+      getPrivateRepoPath: jest.fn().mockResolvedValue('/test/workspace/.git-private'),
+      getStoragePath: jest.fn().mockResolvedValue('/test/workspace/.private-storage'),
+    } as unknown as jest.Mocked<ConfigManager>;
+
+    mockFileSystem = {
+      pathExists: jest.fn().mockResolvedValue(false),
+      readFile: jest.fn(),
+      appendFile: jest.fn(),
+      hashPath: jest.fn(),
+      getLinkStats: jest.fn(),
+      moveFileAtomic: jest.fn(),
+    } as unknown as jest.Mocked<FileSystemService>;
+
+    mockGitServiceInstance = {
+      resolveRevision: jest.fn().mockResolvedValue('bbb222'),
+      reset: jest.fn(),
+    } as unknown as jest.Mocked<GitService>;
+
+    historyCommand = new HistoryCommand(testWorkingDir);
+  });
+
+  it('should list recorded operations newest first', async () => {
+    writeHistory([createEntry({ id: 'first' }), createEntry({ id: 'second' })]);
+
+    const result = await historyCommand.list();
+
+    expect(result.success).toBe(true);
+    expect((result.data as HistoryEntry[]).map(entry => entry.id)).toEqual(['second', 'first']);
+  });
+
+  it('should undo the last commit and record the undo', async () => {
+    writeHistory([createEntry({})]);
+
+    const result = await historyCommand.undo();
+
+    expect(result.success).toBe(true);
+    expect(mockGitServiceInstance.reset).toHaveBeenCalledWith('soft', 'aaa111');
+    expect(mockFileSystem.appendFile).toHaveBeenCalledWith(
+      historyPath,
+      expect.stringContaining('"undoes":"entry-1"'),
+    );
+  });
+
+  it('should skip operations that were already undone', async () => {
+    writeHistory([
+      createEntry({ id: 'first', privateHead: { before: 'aaa111', after: 'bbb222' } }),
+      createEntry({ id: 'second', privateHead: { before: 'bbb222', after: 'ccc333' } }),
+      createEntry({ id: 'third', operation: 'undo', undoes: 'second', privateHead: undefined }),
+    ]);
+
+    const result = await historyCommand.undo();
+
+    expect(result.success).toBe(true);
+    expect(mockGitServiceInstance.reset).toHaveBeenCalledWith('soft', 'aaa111');
+  });
+
+  it('should refuse when the private repository has moved on', async () => {
+    writeHistory([createEntry({})]);
+    mockGitServiceInstance.resolveRevision.mockResolvedValue('ccc333');
+
+    const result = await historyCommand.undo();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.name).toBe('UndoError');
+    expect(result.message).toContain('the private repository has moved on');
+    expect(mockGitServiceInstance.reset).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to undo an add whose files changed since', async () => {
+    writeHistory([
+      createEntry({
+        operation: 'add',
+        hashes: { '.env': 'a'.repeat(64) },
+        transaction: {
+          operation: 'add',
+          paths: ['.env'],
+          storagePath: '/test/workspace/.private-storage',
+          privateHead: 'aaa111',
+          mainIndexPaths: [],
+          details: { '.env': { mainRepoState: 'untracked' } },
+        },
+      }),
+    ]);
+    mockFileSystem.getLinkStats.mockResolvedValue({ isSymbolicLink: () => true } as Stats);
+    mockFileSystem.hashPath.mockResolvedValue({ sha256: 'b'.repeat(64), size: 4 });
+
+    const result = await historyCommand.undo();
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Cannot undo add .env: .env has changed since it was added');
+    expect(mockFileSystem.moveFileAtomic).not.toHaveBeenCalled();
+  });
+});
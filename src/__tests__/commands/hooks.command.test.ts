@@ -0,0 +1,164 @@
+import { HooksCommand } from '../../commands/hooks.command';
+import { ConfigManager } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { GitService } from '../../core/git.service';
+import { HookService } from '../../core/hook.service';
+import { PrivateConfig } from '../../types/config.types';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager');
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/git.service');
+jest.mock('../../core/hook.service');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+const MockedFileSystemService = jest.mocked(FileSystemService);
+const MockedGitService = jest.mocked(GitService);
+const MockedHookService = jest.mocked(HookService);
+
+describe('HooksCommand', () => {
+  let hooksCommand: HooksCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockGitServiceInstance: jest.Mocked<GitService>;
+  let mockHookService: jest.Mocked<HookService>;
+  const testWorkingDir = '/test/workspace';
+
+  const createConfig = (trackedPaths: string[]): PrivateConfig => ({
+    version: '1.0.0-beta.1',
+    trackedPaths,
+    storagePath: '.private-storage',
+    privateRepoPath: '.git-private',
+    initialized: new Date(),
+    settings: {
+      autoGitignore: true,
+      autoCleanup: true,
+      verboseOutput: false,
+      createBackups: true,
+      maxBackups: 5,
+      excludeTrackedPaths: 'info-exclude',
+    },
+    metadata: {
+      projectName: 'test-project',
+      mainRepoPath: '/test/workspace',
+      cliVersion: '1.0.0-beta.1',
+      platform: 'test',
+      lastModified: new Date(),
+    },
+  });
+
+  beforeEach(() => {
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    MockedFileSystemService.mockImplementation(() => ({}) as unknown as FileSystemService);
+    MockedGitService.mockImplementation(() => mockGitServiceInstance);
+    MockedHookService.mockImplementation(() => mockHookService);
+
+    mockConfigManager = {
+      exists: jest.fn(),
+      load: jest.fn(),
+    } as unknown as jest.Mocked<ConfigManager>;
+
+    mockGitServiceInstance = {
+      isRepository: jest.fn(),
+      getHooksDirectory: jest.fn(),
+      getStagedFiles: jest.fn(),
+    } as unknown as jest.Mocked<GitService>;
+
+    mockHookService = {
+      install: jest.fn(),
+      uninstall: jest.fn(),
+      getOriginalHookPath: jest.fn(),
+    } as unknown as jest.Mocked<HookService>;
+
+    mockConfigManager.exists.mockResolvedValue(true);
+    mockConfigManager.load.mockResolvedValue(createConfig(['.env', 'config/secrets']));
+    mockGitServiceInstance.isRepository.mockResolvedValue(true);
+    mockGitServiceInstance.getHooksDirectory.mockResolvedValue('/test/workspace/.git/hooks');
+
+    hooksCommand = new HooksCommand(testWorkingDir);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('check', () => {
+    it('should block staged tracked paths and files inside private directories', async () => {
+      mockGitServiceInstance.getStagedFiles.mockResolvedValue([
+        'src/index.ts',
+        '.env',
+        'config/secrets/api.json',
+        'config/secrets.example',
+        '.private-storage/.env',
+        '.git-private/HEAD',
+      ]);
+
+      const result = await hooksCommand.check();
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.data).toEqual({
+        blocked: ['.env', 'config/secrets/api.json', '.private-storage/.env', '.git-private/HEAD'],
+      });
+      expect(result.message).toContain('Commit blocked');
+    });
+
+    it('should pass when no private paths are staged', async () => {
+      mockGitServiceInstance.getStagedFiles.mockResolvedValue(['src/index.ts', '.env.example']);
+
+      const result = await hooksCommand.check();
+
+      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
+    });
+
+    it('should never block commits when private tracking is not initialized', async () => {
+      mockConfigManager.exists.mockResolvedValue(false);
+
+      const result = await hooksCommand.check();
+
+      expect(result.success).toBe(true);
+      expect(mockGitServiceInstance.getStagedFiles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('install', () => {
+    it('should install the hook in the main repository hooks directory', async () => {
+      mockHookService.install.mockResolvedValue({
+        hookPath: '/test/workspace/.git/hooks/pre-commit',
+        chained: true,
+        updated: false,
+      });
+
+      const result = await hooksCommand.install();
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Pre-commit hook installed, existing hook is chained');
+      expect(MockedHookService).toHaveBeenCalledWith('/test/workspace/.git/hooks');
+    });
+
+    it('should fail when private tracking is not initialized', async () => {
+      mockConfigManager.exists.mockResolvedValue(false);
+
+      const result = await hooksCommand.install();
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('not initialized');
+      expect(mockHookService.install).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('uninstall', () => {
+    it('should report the restored original hook', async () => {
+      mockHookService.uninstall.mockResolvedValue({
+        hookPath: '/test/workspace/.git/hooks/pre-commit',
+        removed: true,
+        restored: true,
+      });
+
+      const result = await hooksCommand.uninstall();
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Pre-commit hook removed, original hook restored');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MvCommand } from '../../commands/mv.command';
+import { ConfigManager } from '../../core/config.manager';
+import { GitService } from '../../core/git.service';
+
+jest.mock('../../core/git.service');
+
+describe('MvCommand', () => {
+  let projectDir: string;
+  let storageDir: string;
+  let configManager: ConfigManager;
+  let mockGitService: jest.Mocked<GitService>;
+
+  const track = async (relativePath: string, content: string): Promise<void> => {
+    fs.mkdirSync(path.dirname(path.join(storageDir, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(storageDir, relativePath), content);
+    fs.symlinkSync(path.join(storageDir, relativePath), path.join(projectDir, relativePath));
+    await configManager.addTrackedPath(relativePath, { mainRepoState: 'untracked' });
+  };
+
+  beforeEach(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgit-mv-'));
+    storageDir = path.join(projectDir, '.private-storage');
+    fs.mkdirSync(storageDir);
+    fs.mkdirSync(path.join(projectDir, '.git-private'));
+    fs.mkdirSync(path.join(projectDir, '.git', 'info'), { recursive: true });
+
+    configManager = new ConfigManager(projectDir);
+    await configManager.create(projectDir);
+
+    mockGitService = {
+      isRepository: jest.fn().mockResolvedValue(true),
+      isTracked: jest.fn().mockResolvedValue(true),
+      resolveRevision: jest.fn().mockResolvedValue('abc123'),
+      move: jest.fn((from: string, to: string) =>
+        Promise.resolve(fs.renameSync(path.join(storageDir, from), path.join(storageDir, to))),
+      ),
+      addFiles: jest.fn(),
+      commit: jest.fn().mockResolvedValue('def456'),
+      reset: jest.fn(),
+      getExcludeFilePath: jest
+        .fn()
+        .mockResolvedValue(path.join(projectDir, '.git', 'info', 'exclude')),
+    } as unknown as jest.Mocked<GitService>;
+    jest.mocked(GitService).mockImplementation(() => mockGitService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  it('should move a tracked file into a directory that does not exist yet', async () => {
+    await track('.env', 'A=1\n');
+
+    const result = await new MvCommand(projectDir).execute('.env', 'config/local/.env');
+
+    expect(result.success).toBe(true);
+    expect(mockGitService.move).toHaveBeenCalledWith('.env', 'config/local/.env');
+    expect(mockGitService.commit).toHaveBeenCalledWith(
+      'Move .env to config/local/.env in private tracking',
+    );
+    expect(fs.existsSync(path.join(projectDir, '.env'))).toBe(false);
+    expect(fs.lstatSync(path.join(projectDir, 'config/local/.env')).isSymbolicLink()).toBe(true);
+    expect(fs.readFileSync(path.join(projectDir, 'config/local/.env'), 'utf8')).toBe('A=1\n');
+    expect((await configManager.load()).trackedPaths).toEqual(['config/local/.env']);
+    expect(fs.readFileSync(path.join(projectDir, '.git', 'info', 'exclude'), 'utf8')).toContain(
+      '/config/local/.env',
+    );
+    expect(
+      JSON.parse(fs.readFileSync(path.join(storageDir, '.pgit-manifest.json'), 'utf8'))
+        .trackedPaths,
+    ).toEqual(['config/local/.env']);
+    expect(mockGitService.addFiles).toHaveBeenCalledWith(['.pgit-manifest.json']);
+  });
+
+  it('should move a tracked path into an existing directory', async () => {
+    await track('.env', 'A=1\n');
+    fs.mkdirSync(path.join(projectDir, 'config'));
+
+    const result = await new MvCommand(projectDir).execute('.env', 'config');
+
+    expect(result.success).toBe(true);
+    expect((await configManager.load()).trackedPaths).toEqual(['config/.env']);
+    expect(fs.existsSync(path.join(storageDir, 'config/.env'))).toBe(true);
+  });
+
+  it('should refuse a destination that already exists', async () => {
+    await track('.env', 'A=1\n');
+    fs.writeFileSync(path.join(projectDir, '.env.local'), 'B=2\n');
+
+    const result = await new MvCommand(projectDir).execute('.env', '.env.local');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Destination already exists: .env.local');
+    expect(mockGitService.move).not.toHaveBeenCalled();
+  });
+
+  it('should roll back every step when the commit fails', async () => {
+    await track('.env', 'A=1\n');
+    mockGitService.commit.mockRejectedValue(new Error('commit failed'));
+
+    const result = await new MvCommand(projectDir).execute('.env', 'config/local/.env');
+
+    expect(result.success).toBe(false);
+    expect(mockGitService.reset).toHaveBeenCalledWith('mixed', 'abc123');
+    expect(fs.lstatSync(path.join(projectDir, '.env')).isSymbolicLink()).toBe(true);
+    expect(fs.readFileSync(path.join(storageDir, '.env'), 'utf8')).toBe('A=1\n');
+    expect(fs.existsSync(path.join(storageDir, 'config'))).toBe(false);
+    expect(fs.existsSync(path.join(storageDir, '.pgit-manifest.json'))).toBe(false);
+    expect((await configManager.load()).trackedPaths).toEqual(['.env']);
+    expect(fs.existsSync(path.join(projectDir, '.git-private', 'journal.json'))).toBe(false);
+  });
+});
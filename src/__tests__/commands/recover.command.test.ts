@@ -0,0 +1,204 @@
+import { RecoverCommand } from '../../commands/recover.command';
+import { ConfigManager } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { SymlinkService } from '../../core/symlink.service';
+import { GitService } from '../../core/git.service';
+import { GitignoreService } from '../../core/gitignore.service';
+import { FileNotFoundError } from '../../errors/filesystem.error';
+import { PrivateConfig, TransactionJournal } from '../../types/config.types';
+import { Stats } from 'fs';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager');
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/git.service');
+jest.mock('../../core/symlink.service');
+jest.mock('../../core/gitignore.service');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+const MockedFileSystemService = jest.mocked(FileSystemService);
+const MockedSymlinkService = jest.mocked(SymlinkService);
+const MockedGitService = jest.mocked(GitService);
+
+describe('RecoverCommand', () => {
+  let recoverCommand: RecoverCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockFileSystem: jest.Mocked<FileSystemService>;
+  let mockSymlinkService: jest.Mocked<SymlinkService>;
+  let mockGitServiceInstance: jest.Mocked<GitService>;
+  let files: Map<string, 'file' | 'symlink'>;
+  const testWorkingDir = '/test/workspace';
+  const journalPath = '/test/workspace/.git-private/journal.json';
+
+  const createJournal = (overrides: Partial<TransactionJournal> = {}): TransactionJournal => ({
+    id: 'journal-1',
+    operation: 'add',
+    pid: process.pid,
+    startedAt: new Date('2026-01-01T00:00:00Z'),
+    paths: ['.env'],
+    storagePath: '/test/workspace/.private-storage',
+    privateHead: 'abc123',
+    mainIndexPaths: [],
+    details: { '.env': { mainRepoState: 'untracked' } },
+    steps: [
+      { name: 'unindex', path: '.env', done: true },
+      { name: 'move', path: '.env', done: true },
+      { name: 'link', path: '.env', done: false },
+      { name: 'commit', done: false },
+      { name: 'config', done: false },
+    ],
+    ...overrides,
+  });
+
+  const createConfig = (trackedPaths: string[]): PrivateConfig =>
+    ({
+      version: '1.2.0',
+      trackedPaths,
+      storagePath: '.private-storage',
+      privateRepoPath: '.git-private',
+    }) as PrivateConfig;
+
+  const writeJournal = (journal: TransactionJournal): void => {
+    mockFileSystem.readFile.mockResolvedValue(JSON.stringify(journal));
+    files.set(journalPath, 'file');
+  };
+
+  beforeEach(() => {
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    MockedFileSystemService.mockImplementation(() => mockFileSystem);
+    MockedSymlinkService.mockImplementation(() => mockSymlinkService);
+    MockedGitService.mockImplementation(() => mockGitServiceInstance);
+
+    files = new Map();
+
+    mockConfigManager = {
+      exists: jest.fn().mockResolvedValue(true),
+      load: jest.fn().mockResolvedValue(createConfig([])),
+      addMultipleTrackedPaths: jest.fn(),
+      removeMultipleTrackedPaths: jest.fn(),
+      getPrivateRepoPath: jest.fn().mockResolvedValue('/test/workspace/.git-private'),
+    } as unknown as jest.Mocked<ConfigManager>;
+
+    mockFileSystem = {
+      pathExists: jest.fn((path: string) => Promise.resolve(files.has(path))),
+      getLinkStats: jest.fn((path: string) => {
+        const type = files.get(path);
+        if (!type) {
+          return Promise.reject(new FileNotFoundError(`Path not found: ${path}`));
+        }
+        return Promise.resolve({ isSymbolicLink: () => type === 'symlink' } as Stats);
+      }),
+      readFile: jest.fn(),
+      writeFileAtomic: jest.fn(),
+      remove: jest.fn((path: string) => Promise.resolve(void files.delete(path))),
+      moveFileAtomic: jest.fn((source: string, target: string) => {
+        files.delete(source);
+        files.set(target, 'file');
+        return Promise.resolve();
+      }),
+      clearRollbackActions: jest.fn(),
+      isDirectory: jest.fn().mockResolvedValue(false),
+    } as unknown as jest.Mocked<FileSystemService>;
+
+    mockSymlinkService = {
+      create: jest.fn(),
+      remove: jest.fn((path: string) => Promise.resolve(void files.delete(path))),
+    } as unknown as jest.Mocked<SymlinkService>;
+
+    mockGitServiceInstance = {
+      isRepository: jest.fn().mockResolvedValue(true),
+      isTracked: jest.fn().mockResolvedValue(false),
+      addFiles: jest.fn(),
+      getStagedFiles: jest.fn().mockResolvedValue(['.env']),
+      commit: jest.fn(),
+      removeFromIndex: jest.fn(),
+      removeFilesAndCommit: jest.fn(),
+      reset: jest.fn(),
+      checkoutFiles: jest.fn(),
+    } as unknown as jest.Mocked<GitService>;
+
+    recoverCommand = new RecoverCommand(testWorkingDir);
+  });
+
+  it('should report when there is nothing to recover', async () => {
+    const result = await recoverCommand.execute({ rollback: true });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('No interrupted operation to recover');
+  });
+
+  it('should ask how to recover when no mode is given', async () => {
+    writeJournal(createJournal());
+
+    const result = await recoverCommand.execute();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.name).toBe('TransactionPendingError');
+    expect(result.message).toContain('add of .env');
+    expect(result.message).toContain('2/5 steps done');
+    expect(mockFileSystem.remove).not.toHaveBeenCalled();
+  });
+
+  it('should roll back an interrupted add and remove the journal', async () => {
+    writeJournal(createJournal());
+    files.set('/test/workspace/.private-storage/.env', 'file');
+
+    const result = await recoverCommand.execute({ rollback: true });
+
+    expect(result.success).toBe(true);
+    expect(mockFileSystem.moveFileAtomic).toHaveBeenCalledWith(
+      '/test/workspace/.private-storage/.env',
+      '/test/workspace/.env',
+    );
+    expect(mockGitServiceInstance.reset).toHaveBeenCalledWith('mixed', 'abc123');
+    expect(mockGitServiceInstance.checkoutFiles).toHaveBeenCalledWith(['.pgit-manifest.json']);
+    expect(mockConfigManager.removeMultipleTrackedPaths).not.toHaveBeenCalled();
+    expect(GitignoreService.prototype.syncTrackedPathsFromConfig).toHaveBeenCalledWith(
+      mockConfigManager,
+    );
+    expect(files.has(journalPath)).toBe(false);
+  });
+
+  it('should complete an interrupted add from where it stopped', async () => {
+    writeJournal(createJournal());
+    files.set('/test/workspace/.private-storage/.env', 'file');
+
+    const result = await recoverCommand.execute({ complete: true });
+
+    expect(result.success).toBe(true);
+    expect(mockFileSystem.moveFileAtomic).not.toHaveBeenCalled();
+    expect(mockSymlinkService.create).toHaveBeenCalledWith(
+      '/test/workspace/.private-storage/.env',
+      '/test/workspace/.env',
+      expect.objectContaining({ force: true }),
+    );
+    expect(mockFileSystem.writeFileAtomic).toHaveBeenCalledWith(
+      '/test/workspace/.private-storage/.pgit-manifest.json',
+      expect.stringContaining('".env"'),
+    );
+    expect(mockGitServiceInstance.addFiles).toHaveBeenCalledWith(['.env', '.pgit-manifest.json']);
+    expect(mockGitServiceInstance.commit).toHaveBeenCalledWith(
+      'Add file to private tracking: .env',
+    );
+    expect(mockConfigManager.addMultipleTrackedPaths).toHaveBeenCalledWith(
+      ['.env'],
+      new Map([['.env', { mainRepoState: 'untracked' }]]),
+    );
+    expect(GitignoreService.prototype.syncTrackedPathsFromConfig).toHaveBeenCalledWith(
+      mockConfigManager,
+    );
+  });
+
+  it('should refuse to overwrite when both copies of a path exist', async () => {
+    writeJournal(createJournal({ operation: 'remove' }));
+    files.set('/test/workspace/.env', 'file');
+    files.set('/test/workspace/.private-storage/.env', 'file');
+
+    const result = await recoverCommand.execute({ rollback: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.name).toBe('TransactionError');
+    expect(result.message).toContain('Both .env and its private copy exist');
+    expect(files.has(journalPath)).toBe(true);
+  });
+});
@@ -0,0 +1,208 @@
+import { RelocateCommand } from '../../commands/relocate.command';
+import { ConfigManager } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { GitignoreService } from '../../core/gitignore.service';
+import { SymlinkService } from '../../core/symlink.service';
+import { PrivateConfig } from '../../types/config.types';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager');
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/gitignore.service');
+jest.mock('../../core/symlink.service');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+const MockedFileSystemService = jest.mocked(FileSystemService);
+const MockedGitignoreService = jest.mocked(GitignoreService);
+const MockedSymlinkService = jest.mocked(SymlinkService);
+
+describe('RelocateCommand', () => {
+  let relocateCommand: RelocateCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockFileSystem: jest.Mocked<FileSystemService>;
+  let mockGitignoreService: jest.Mocked<GitignoreService>;
+  let mockSymlinkService: jest.Mocked<SymlinkService>;
+  const testWorkingDir = '/test/workspace';
+
+  const createConfig = (trackedPaths: string[]): PrivateConfig => ({
+    version: '1.0.0-beta.1',
+    trackedPaths,
+    storagePath: '.private-storage',
+    privateRepoPath: '.git-private',
+    initialized: new Date(),
+    settings: {
+      autoGitignore: true,
+      autoCleanup: true,
+      verboseOutput: false,
+      createBackups: true,
+      maxBackups: 5,
+      excludeTrackedPaths: 'info-exclude',
+    },
+    metadata: {
+      projectName: 'test-project',
+      mainRepoPath: '/test/workspace',
+      cliVersion: '1.0.0-beta.1',
+      platform: 'test',
+      lastModified: new Date(),
+    },
+  });
+
+  beforeEach(() => {
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    MockedFileSystemService.mockImplementation(() => mockFileSystem);
+    MockedGitignoreService.mockImplementation(() => mockGitignoreService);
+    MockedSymlinkService.mockImplementation(() => mockSymlinkService);
+
+    mockConfigManager = {
+      exists: jest.fn(),
+      load: jest.fn(),
+      setStoragePath: jest.fn(),
+      getStoragePath: jest.fn().mockResolvedValue('/test/workspace/.private-storage'),
+      getConfigPath: jest.fn().mockResolvedValue('/test/workspace/.private-config.json'),
+    } as unknown as jest.Mocked<ConfigManager>;
+
+    mockFileSystem = {
+      pathExists: jest.fn(),
+      moveFileAtomic: jest.fn(),
+      clearRollbackActions: jest.fn(),
+      trustPath: jest.fn(),
+      readFile: jest.fn(),
+      writeFileAtomic: jest.fn(),
+    } as unknown as jest.Mocked<FileSystemService>;
+
+    mockGitignoreService = {
+      addPrivateEntries: jest.fn(),
+      replacePrivateEntry: jest.fn(),
+    } as unknown as jest.Mocked<GitignoreService>;
+
+    mockSymlinkService = {
+      repair: jest.fn(),
+    } as unknown as jest.Mocked<SymlinkService>;
+
+    mockConfigManager.exists.mockResolvedValue(true);
+    mockConfigManager.load.mockResolvedValue(createConfig(['.env', 'config/secrets.json']));
+    mockFileSystem.pathExists.mockResolvedValue(false);
+
+    relocateCommand = new RelocateCommand(testWorkingDir);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('execute', () => {
+    it('should move storage, update config and re-point every tracked link', async () => {
+      const result = await relocateCommand.execute('.secrets');
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Private storage moved to .secrets');
+      expect(mockFileSystem.moveFileAtomic).toHaveBeenCalledWith(
+        '/test/workspace/.private-storage',
+        '/test/workspace/.secrets',
+      );
+      expect(mockConfigManager.setStoragePath).toHaveBeenCalledWith('.secrets');
+      expect(mockSymlinkService.repair).toHaveBeenCalledWith(
+        '/test/workspace/.env',
+        '/test/workspace/.secrets/.env',
+      );
+      expect(mockSymlinkService.repair).toHaveBeenCalledWith(
+        '/test/workspace/config/secrets.json',
+        '/test/workspace/.secrets/config/secrets.json',
+      );
+      expect(mockGitignoreService.replacePrivateEntry).toHaveBeenCalledWith(
+        '.private-storage',
+        '.secrets',
+      );
+      expect(mockGitignoreService.addPrivateEntries).toHaveBeenCalledWith([
+        '.git-private',
+        '.secrets',
+        '/test/workspace/.private-config.json',
+      ]);
+    });
+
+    it('should replace the old storage entry in .gitignore', async () => {
+      const { GitignoreService: ActualGitignoreService } = jest.requireActual<
+        typeof import('../../core/gitignore.service')
+      >('../../core/gitignore.service');
+      MockedGitignoreService.mockImplementation(
+        (workingDir, fileSystem) => new ActualGitignoreService(workingDir, fileSystem),
+      );
+      let gitignore = [
+        'node_modules',
+        '',
+        '# Private Git Tracking (auto-generated)',
+        '.git-private',
+        '.private-storage',
+        '.private-config.json',
+        '.private-config.json.backup*',
+      ].join('\n');
+      mockFileSystem.pathExists.mockImplementation(filePath =>
+        Promise.resolve(filePath === '/test/workspace/.gitignore'),
+      );
+      mockFileSystem.readFile.mockImplementation(() => Promise.resolve(gitignore));
+      mockFileSystem.writeFileAtomic.mockImplementation((_filePath, content) => {
+        gitignore = String(content);
+        return Promise.resolve();
+      });
+
+      const result = await relocateCommand.execute('.secrets');
+
+      expect(result.success).toBe(true);
+      expect(gitignore).toBe(
+        [
+          'node_modules',
+          '',
+          '# Private Git Tracking (auto-generated)',
+          '.git-private',
+          '.secrets',
+          '.private-config.json',
+          '.private-config.json.backup*',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should keep directories outside the project absolute', async () => {
+      const result = await relocateCommand.execute('/data/private');
+
+      expect(result.success).toBe(true);
+      expect(mockConfigManager.setStoragePath).toHaveBeenCalledWith('/data/private');
+    });
+
+    it('should refuse an existing target', async () => {
+      mockFileSystem.pathExists.mockResolvedValue(true);
+
+      const result = await relocateCommand.execute('.secrets');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Target already exists: /test/workspace/.secrets');
+      expect(mockFileSystem.moveFileAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a target inside the current storage', async () => {
+      const result = await relocateCommand.execute('.private-storage/nested');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('must not overlap');
+    });
+
+    it('should move everything back when re-linking fails', async () => {
+      mockSymlinkService.repair
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('permission denied'));
+
+      const result = await relocateCommand.execute('.secrets');
+
+      expect(result.success).toBe(false);
+      expect(mockSymlinkService.repair).toHaveBeenLastCalledWith(
+        '/test/workspace/.env',
+        '/test/workspace/.private-storage/.env',
+      );
+      expect(mockConfigManager.setStoragePath).toHaveBeenLastCalledWith('.private-storage');
+      expect(mockFileSystem.moveFileAtomic).toHaveBeenLastCalledWith(
+        '/test/workspace/.secrets',
+        '/test/workspace/.private-storage',
+      );
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { RemoteCommand } from '../../commands/remote.command';
+import { ConfigManager } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { SymlinkService } from '../../core/symlink.service';
+import { GitService } from '../../core/git.service';
+import { ManifestService } from '../../core/manifest.service';
+import { SyncService } from '../../core/sync.service';
+import { GitignoreService } from '../../core/gitignore.service';
+import { PrivateConfig, RemoteConfig } from '../../types/config.types';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager');
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/git.service');
+jest.mock('../../core/symlink.service');
+jest.mock('../../core/manifest.service');
+jest.mock('../../core/sync.service');
+jest.mock('../../core/gitignore.service');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+const MockedFileSystemService = jest.mocked(FileSystemService);
+const MockedSymlinkService = jest.mocked(SymlinkService);
+const MockedGitService = jest.mocked(GitService);
+const MockedManifestService = jest.mocked(ManifestService);
+const MockedSyncService = jest.mocked(SyncService);
+
+describe('RemoteCommand', () => {
+  let remoteCommand: RemoteCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockFileSystem: jest.Mocked<FileSystemService>;
+  let mockSymlinkService: jest.Mocked<SymlinkService>;
+  let mockGitServiceInstance: jest.Mocked<GitService>;
+  let mockManifestService: jest.Mocked<ManifestService>;
+  let mockSyncService: jest.Mocked<SyncService>;
+  const testWorkingDir = '/test/workspace';
+  const origin: RemoteConfig = { name: 'origin', url: 'git@example.com:me/private.git' };
+
+  const createConfig = (trackedPaths: string[]): PrivateConfig => ({
+    version: '1.0.0-beta.1',
+    trackedPaths,
+    storagePath: '.private-storage',
+    privateRepoPath: '.git-private',
+    initialized: new Date(),
+    settings: {
+      autoGitignore: true,
+      autoCleanup: true,
+      verboseOutput: false,
+      createBackups: true,
+      maxBackups: 5,
+      excludeTrackedPaths: 'info-exclude',
+    },
+    metadata: {
+      projectName: 'test-project',
+      mainRepoPath: '/test/workspace',
+      cliVersion: '1.0.0-beta.1',
+      platform: 'test',
+      lastModified: new Date(),
+    },
+  });
+
+  beforeEach(() => {
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    MockedFileSystemService.mockImplementation(() => mockFileSystem);
+    MockedSymlinkService.mockImplementation(() => mockSymlinkService);
+    MockedGitService.mockImplementation(() => mockGitServiceInstance);
+    MockedManifestService.mockImplementation(() => mockManifestService);
+    MockedManifestService.getLinkStrategies.mockReturnValue({});
+    MockedSyncService.mockImplementation(() => mockSyncService);
+
+    mockConfigManager = {
+      exists: jest.fn(),
+      load: jest.fn(),
+      getRemotes: jest.fn(),
+      addRemote: jest.fn(),
+      removeRemote: jest.fn(),
+      addMultipleTrackedPaths: jest.fn(),
+      getStoragePath: jest.fn().mockResolvedValue('/test/workspace/.private-storage'),
+      getConfigPath: jest.fn().mockResolvedValue('/test/workspace/.private-config.json'),
+    } as unknown as jest.Mocked<ConfigManager>;
+
+    mockFileSystem = {
+      pathExists: jest.fn(),
+    } as unknown as jest.Mocked<FileSystemService>;
+
+    mockSymlinkService = {} as unknown as jest.Mocked<SymlinkService>;
+
+    mockGitServiceInstance = {
+      isRepository: jest.fn(),
+      getCurrentBranch: jest.fn(),
+      hasUncommittedChanges: jest.fn(),
+      setRemote: jest.fn(),
+      removeRemote: jest.fn(),
+      commitFiles: jest.fn(),
+      push: jest.fn(),
+      pull: jest.fn(),
+      fetch: jest.fn(),
+      resolveRevision: jest.fn(),
+      hasCommonHistory: jest.fn(),
+      getCommitCount: jest.fn(),
+      reset: jest.fn(),
+    } as unknown as jest.Mocked<GitService>;
+
+    mockManifestService = {
+      read: jest.fn(),
+      write: jest.fn(),
+      linkTrackedPaths: jest.fn(),
+      getTrackedFileDetails: jest.fn().mockResolvedValue(new Map()),
+    } as unknown as jest.Mocked<ManifestService>;
+
+    const emptyReport = { syncedIn: [], syncedOut: [], reabsorbed: [], conflicts: [], missing: [] };
+    mockSyncService = {
+      syncIn: jest.fn().mockResolvedValue(emptyReport),
+      sync: jest.fn().mockResolvedValue(emptyReport),
+    } as unknown as jest.Mocked<SyncService>;
+
+    mockConfigManager.exists.mockResolvedValue(true);
+    mockConfigManager.load.mockResolvedValue(createConfig(['.env']));
+    mockConfigManager.getRemotes.mockResolvedValue([origin]);
+    mockFileSystem.pathExists.mockResolvedValue(true);
+    mockGitServiceInstance.isRepository.mockResolvedValue(true);
+    mockGitServiceInstance.getCurrentBranch.mockResolvedValue('main');
+    mockGitServiceInstance.hasUncommittedChanges.mockResolvedValue(false);
+    mockGitServiceInstance.resolveRevision.mockResolvedValue('abc123');
+    mockGitServiceInstance.hasCommonHistory.mockResolvedValue(true);
+    mockGitServiceInstance.getCommitCount.mockResolvedValue(1);
+
+    remoteCommand = new RemoteCommand(testWorkingDir);
+  });
+
+  describe('add', () => {
+    it('should store the remote in config and the private repository', async () => {
+      const result = await remoteCommand.add('backup', '/srv/backup.git');
+
+      expect(result.success).toBe(true);
+      expect(mockConfigManager.addRemote).toHaveBeenCalledWith({
+        name: 'backup',
+        url: '/srv/backup.git',
+      });
+      expect(mockGitServiceInstance.setRemote).toHaveBeenCalledWith('backup', '/srv/backup.git');
+    });
+
+    it('should reject unsafe remote URLs', async () => {
+      const result = await remoteCommand.add('evil', 'ext::sh -c touch% /tmp/pwned');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Unsupported remote transport');
+      expect(mockConfigManager.addRemote).not.toHaveBeenCalled();
+    });
+
+    it('should remove the remote from config when git rejects it', async () => {
+      mockGitServiceInstance.setRemote.mockRejectedValue(new Error('git failed'));
+
+      const result = await remoteCommand.add('backup', '/srv/backup.git');
+
+      expect(result.success).toBe(false);
+      expect(mockConfigManager.removeRemote).toHaveBeenCalledWith('backup');
+    });
+  });
+
+  describe('push', () => {
+    it('should commit the manifest and push the current branch to origin', async () => {
+      MockedManifestService.getLinkStrategies.mockReturnValue({ '.env': 'copy' });
+      mockManifestService.write.mockResolvedValue(true);
+
+      const result = await remoteCommand.push();
+
+      expect(result.success).toBe(true);
+      expect(mockManifestService.write).toHaveBeenCalledWith(['.env'], { '.env': 'copy' });
+      expect(mockGitServiceInstance.commitFiles).toHaveBeenCalledWith(
+        ['.pgit-manifest.json'],
+        'Update pgit manifest',
+      );
+      expect(mockGitServiceInstance.push).toHaveBeenCalledWith('origin', 'main');
+    });
+
+    it('should not commit an unchanged manifest', async () => {
+      mockManifestService.write.mockResolvedValue(false);
+
+      await remoteCommand.push('origin', 'feature');
+
+      expect(mockGitServiceInstance.commitFiles).not.toHaveBeenCalled();
+      expect(mockGitServiceInstance.push).toHaveBeenCalledWith('origin', 'feature');
+    });
+
+    it('should fail when no remote is configured', async () => {
+      mockConfigManager.getRemotes.mockResolvedValue([]);
+
+      const result = await remoteCommand.push();
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('No remote configured');
+      expect(mockGitServiceInstance.push).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pull', () => {
+    it('should link new tracked paths from the manifest and report conflicts', async () => {
+      mockManifestService.read.mockResolvedValue({
+        manifestVersion: 1,
+        trackedPaths: ['.env', 'config/secrets.json', 'notes.md'],
+        linkStrategies: { 'config/secrets.json': 'copy' },
+      });
+      const details = new Map([
+        [
+          'config/secrets.json',
+          { mainRepoState: 'unknown' as const, linkStrategy: 'copy' as const },
+        ],
+      ]);
+      mockManifestService.getTrackedFileDetails.mockResolvedValue(details);
+      mockManifestService.linkTrackedPaths.mockResolvedValue({
+        linked: ['config/secrets.json'],
+        alreadyLinked: ['.env'],
+        repaired: [],
+        conflicts: ['notes.md'],
+        missing: [],
+      });
+
+      const result = await remoteCommand.pull();
+
+      expect(result.success).toBe(true);
+      expect(mockGitServiceInstance.pull).toHaveBeenCalledWith('origin', 'main');
+      expect(mockSyncService.syncIn).toHaveBeenCalled();
+      expect(mockSyncService.sync).toHaveBeenCalledWith({ direction: 'out', verbose: undefined });
+      expect(mockManifestService.linkTrackedPaths).toHaveBeenCalledWith(
+        testWorkingDir,
+        ['.env', 'config/secrets.json', 'notes.md'],
+        { 'config/secrets.json': 'copy' },
+      );
+      expect(mockManifestService.getTrackedFileDetails).toHaveBeenCalledWith(
+        ['config/secrets.json'],
+        { 'config/secrets.json': 'copy' },
+      );
+      expect(mockConfigManager.addMultipleTrackedPaths).toHaveBeenCalledWith(
+        ['config/secrets.json'],
+        details,
+      );
+      expect(GitignoreService.prototype.syncTrackedPathsFromConfig).toHaveBeenCalledWith(
+        mockConfigManager,
+      );
+      expect(result.data).toEqual(
+        expect.objectContaining({ newPaths: ['config/secrets.json'], conflicts: ['notes.md'] }),
+      );
+    });
+
+    it('should adopt the remote history in a freshly initialized repository', async () => {
+      mockConfigManager.load.mockResolvedValue(createConfig([]));
+      mockGitServiceInstance.hasCommonHistory.mockResolvedValue(false);
+      mockManifestService.read.mockResolvedValue(null);
+      mockManifestService.linkTrackedPaths.mockResolvedValue({
+        linked: [],
+        alreadyLinked: [],
+        repaired: [],
+        conflicts: [],
+        missing: [],
+      });
+
+      const result = await remoteCommand.pull();
+
+      expect(result.success).toBe(true);
+      expect(mockGitServiceInstance.reset).toHaveBeenCalledWith('hard', 'origin/main');
+      expect(mockGitServiceInstance.pull).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to replace unrelated history that has tracked files', async () => {
+      mockGitServiceInstance.hasCommonHistory.mockResolvedValue(false);
+
+      const result = await remoteCommand.pull();
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('unrelated to origin/main');
+      expect(mockGitServiceInstance.reset).not.toHaveBeenCalled();
+    });
+  });
+});
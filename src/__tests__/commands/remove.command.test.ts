@@ -0,0 +1,225 @@
+import { RemoveCommand } from '../../commands/remove.command';
+import { ConfigManager } from '../../core/config.manager';
+import { FileSystemService } from '../../core/filesystem.service';
+import { SymlinkService } from '../../core/symlink.service';
+import { GitService } from '../../core/git.service';
+import { PrivateConfig } from '../../types/config.types';
+
+// Mock all dependencies
+jest.mock('../../core/config.manager');
+jest.mock('../../core/filesystem.service');
+jest.mock('../../core/git.service');
+jest.mock('../../core/symlink.service');
+
+const MockedConfigManager = jest.mocked(ConfigManager);
+const MockedFileSystemService = jest.mocked(FileSystemService);
+const MockedSymlinkService = jest.mocked(SymlinkService);
+const MockedGitService = jest.mocked(GitService);
+
+describe('RemoveCommand', () => {
+  let removeCommand: RemoveCommand;
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockFileSystem: jest.Mocked<FileSystemService>;
+  let mockSymlinkService: jest.Mocked<SymlinkService>;
+  let mockGitServiceInstance: jest.Mocked<GitService>;
+  const testWorkingDir = '/test/workspace';
+
+  const createConfig = (trackedPaths: string[]): PrivateConfig => ({
+    version: '1.0.0-beta.1',
+    trackedPaths,
+    storagePath: '.private-storage',
+    privateRepoPath: '.git-private',
+    initialized: new Date(),
+    settings: {
+      autoGitignore: true,
+      autoCleanup: true,
+      verboseOutput: false,
+      createBackups: true,
+      maxBackups: 5,
+      excludeTrackedPaths: 'info-exclude',
+    },
+    metadata: {
+      projectName: 'test-project',
+      mainRepoPath: '/test/workspace',
+      cliVersion: '1.0.0-beta.1',
+      platform: 'test',
+      lastModified: new Date(),
+    },
+  });
+
+  beforeEach(() => {
+    MockedConfigManager.mockImplementation(() => mockConfigManager);
+    MockedFileSystemService.mockImplementation(() => mockFileSystem);
+    MockedSymlinkService.mockImplementation(() => mockSymlinkService);
+    MockedGitService.mockImplementation(() => mockGitServiceInstance);
+
+    mockConfigManager = {
+      exists: jest.fn(),
+      load: jest.fn(),
+      addMultipleTrackedPaths: jest.fn(),
+      removeMultipleTrackedPaths: jest.fn(),
+      getStoragePath: jest.fn().mockResolvedValue('/test/workspace/.private-storage'),
+      getConfigPath: jest.fn().mockResolvedValue('/test/workspace/.private-config.json'),
+      getPrivateRepoPath: jest.fn().mockResolvedValue('/test/workspace/.git-private'),
+      getTrackedFiles: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<ConfigManager>;
+
+    mockFileSystem = {
+      pathExists: jest.fn(),
+      moveFileAtomic: jest.fn(),
+      clearRollbackActions: jest.fn(),
+      isDirectory: jest.fn(),
+      readFile: jest.fn(),
+      writeFileAtomic: jest.fn(),
+      remove: jest.fn(),
+    } as unknown as jest.Mocked<FileSystemService>;
+
+    mockSymlinkService = {
+      create: jest.fn(),
+      remove: jest.fn(),
+    } as unknown as jest.Mocked<SymlinkService>;
+
+    mockGitServiceInstance = {
+      isRepository: jest.fn(),
+      addFiles: jest.fn(),
+      removeFilesAndCommit: jest.fn(),
+      purgeFromHistory: jest.fn(),
+      reset: jest.fn(),
+      resolveRevision: jest.fn(),
+    } as unknown as jest.Mocked<GitService>;
+
+    mockConfigManager.exists.mockResolvedValue(true);
+    mockConfigManager.load.mockResolvedValue(createConfig(['.env', 'config/secrets.json']));
+    mockFileSystem.pathExists.mockImplementation((path: string) => {
+      return Promise.resolve(
+        [
+          '/test/workspace/.private-storage',
+          '/test/workspace/.private-storage/.env',
+          '/test/workspace/.private-storage/config/secrets.json',
+        ].includes(path),
+      );
+    });
+    mockFileSystem.isDirectory.mockResolvedValue(false);
+    mockGitServiceInstance.isRepository.mockResolvedValue(true);
+    mockGitServiceInstance.removeFilesAndCommit.mockResolvedValue('abc123');
+
+    removeCommand = new RemoveCommand(testWorkingDir);
+  });
+
+  describe('execute', () => {
+    it('should remove a single tracked file', async () => {
+      const result = await removeCommand.execute('.env');
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('Successfully removed .env');
+      expect(mockGitServiceInstance.removeFilesAndCommit).toHaveBeenCalledWith(
+        ['.env'],
+        'Remove file from private tracking',
+      );
+      expect(mockSymlinkService.remove).toHaveBeenCalledWith('/test/workspace/.env');
+      expect(mockFileSystem.moveFileAtomic).toHaveBeenCalledWith(
+        '/test/workspace/.private-storage/.env',
+        '/test/workspace/.env',
+      );
+      expect(mockConfigManager.removeMultipleTrackedPaths).toHaveBeenCalledWith(['.env']);
+      expect(mockGitServiceInstance.purgeFromHistory).not.toHaveBeenCalled();
+    });
+
+    it('should remove multiple tracked files in one commit', async () => {
+      const result = await removeCommand.execute(['.env', 'config/secrets.json']);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('Successfully removed 2 files');
+      expect(mockGitServiceInstance.removeFilesAndCommit).toHaveBeenCalledTimes(1);
+      expect(mockFileSystem.moveFileAtomic).toHaveBeenCalledTimes(2);
+      expect(mockConfigManager.removeMultipleTrackedPaths).toHaveBeenCalledWith([
+        '.env',
+        'config/secrets.json',
+      ]);
+    });
+
+    it('should purge history and stage files when requested', async () => {
+      const result = await removeCommand.execute('.env', { purge: true, stage: true });
+
+      expect(result.success).toBe(true);
+      expect(mockGitServiceInstance.purgeFromHistory).toHaveBeenCalledWith(['.env']);
+      expect(mockGitServiceInstance.addFiles).toHaveBeenCalledWith(['.env']);
+    });
+
+    it('should report a plan without touching anything in dry run mode', async () => {
+      const result = await removeCommand.execute('.env', { dryRun: true, stage: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(
+        expect.objectContaining({
+          command: 'remove',
+          moves: [{ from: '.private-storage/.env', to: '.env' }],
+          symlinks: [{ action: 'remove', link: '.env', target: '.private-storage/.env' }],
+          commits: [
+            {
+              repository: 'private',
+              message: 'Remove file from private tracking',
+              files: ['.env', '.pgit-manifest.json'],
+            },
+          ],
+        }),
+      );
+      expect(mockGitServiceInstance.removeFilesAndCommit).not.toHaveBeenCalled();
+      expect(mockSymlinkService.remove).not.toHaveBeenCalled();
+      expect(mockFileSystem.moveFileAtomic).not.toHaveBeenCalled();
+      expect(mockConfigManager.removeMultipleTrackedPaths).not.toHaveBeenCalled();
+      expect(mockGitServiceInstance.addFiles).not.toHaveBeenCalled();
+    });
+
+    it('should reject conflicting history options', async () => {
+      const result = await removeCommand.execute('.env', { purge: true, keepHistory: true });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('cannot be used together');
+      expect(mockGitServiceInstance.removeFilesAndCommit).not.toHaveBeenCalled();
+    });
+
+    it('should reject paths that are not tracked', async () => {
+      const result = await removeCommand.execute('other.txt');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('NotTrackedError');
+    });
+
+    it('should report every invalid path in a batch', async () => {
+      const result = await removeCommand.execute(['.env', 'other.txt', 'missing.txt']);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('other.txt');
+      expect(result.message).toContain('missing.txt');
+      expect(mockGitServiceInstance.removeFilesAndCommit).not.toHaveBeenCalled();
+    });
+
+    it('should roll back completed steps when a later step fails', async () => {
+      mockConfigManager.removeMultipleTrackedPaths.mockRejectedValue(new Error('disk full'));
+      mockFileSystem.pathExists.mockImplementation((path: string) =>
+        Promise.resolve(!path.endsWith('journal.json')),
+      );
+      const manifest = '{\n  "manifestVersion": 1,\n  "trackedPaths": [".env"]\n}\n';
+      mockFileSystem.readFile.mockResolvedValue(manifest);
+
+      const result = await removeCommand.execute('.env');
+
+      expect(result.success).toBe(false);
+      expect(mockFileSystem.moveFileAtomic).toHaveBeenLastCalledWith(
+        '/test/workspace/.env',
+        '/test/workspace/.private-storage/.env',
+      );
+      expect(mockSymlinkService.create).toHaveBeenCalledWith(
+        '/test/workspace/.private-storage/.env',
+        '/test/workspace/.env',
+        expect.objectContaining({ force: true }),
+      );
+      expect(mockGitServiceInstance.reset).toHaveBeenCalledWith('mixed', 'HEAD~1');
+      expect(mockFileSystem.writeFileAtomic).toHaveBeenLastCalledWith(
+        '/test/workspace/.private-storage/.pgit-manifest.json',
+        manifest,
+      );
+    });
+  });
+});
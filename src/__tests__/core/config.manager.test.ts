@@ -12,6 +12,13 @@ describe('ConfigManager', () => {
   const testWorkingDir = '/test/workspace';
   const configPath = path.join(testWorkingDir, DEFAULT_PATHS.config);
 
+  // Tracked paths of the last configuration written to disk
+  const getWrittenPaths = (): string[] => {
+    const calls = (mockFileSystem.writeFileAtomic as jest.Mock).mock.calls;
+    const written = JSON.parse(calls[calls.length - 1][1]);
+    return written.trackedFiles.map((record: { path: string }) => record.path);
+  };
+
   beforeEach(() => {
     // Create mock FileSystemService with minimal required methods
     mockFileSystem = {
@@ -19,7 +26,10 @@ describe('ConfigManager', () => {
       readFile: jest.fn(),
       writeFileAtomic: jest.fn(),
       validatePathString: jest.fn(),
-      getStats: jest.fn(),
+      getLinkStats: jest.fn(),
+      trustPath: jest.fn(),
+      readDirectory: jest.fn(),
+      remove: jest.fn(),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any;
 
@@ -62,6 +72,7 @@ describe('ConfigManager', () => {
         verboseOutput: false,
         createBackups: true,
         maxBackups: 5,
+        excludeTrackedPaths: 'info-exclude',
       },
       metadata: {
         projectName: 'test-project',
@@ -78,7 +89,13 @@ describe('ConfigManager', () => {
 
       const result = await configManager.load();
 
-      expect(result).toEqual(validConfig);
+      expect(result).toEqual({
+        ...validConfig,
+        trackedFiles: [
+          { path: 'file1.txt', addedAt: validConfig.initialized, mainRepoState: 'unknown' },
+          { path: 'dir/file2.txt', addedAt: validConfig.initialized, mainRepoState: 'unknown' },
+        ],
+      });
       expect(mockFileSystem.readFile).toHaveBeenCalledWith(configPath);
     });
 
@@ -119,6 +136,7 @@ describe('ConfigManager', () => {
         verboseOutput: false,
         createBackups: true,
         maxBackups: 5,
+        excludeTrackedPaths: 'info-exclude',
       },
       metadata: {
         projectName: 'test-project',
@@ -165,10 +183,11 @@ describe('ConfigManager', () => {
       const config = await configManager.create(testWorkingDir);
 
       expect(config).toEqual({
-        version: '1.1.0',
+        version: '1.2.0',
         privateRepoPath: DEFAULT_PATHS.privateRepo,
         storagePath: DEFAULT_PATHS.storage,
         trackedPaths: [],
+        trackedFiles: [],
         initialized: expect.any(Date),
         settings: {
           autoGitignore: true,
@@ -176,11 +195,12 @@ describe('ConfigManager', () => {
           verboseOutput: false,
           createBackups: true,
           maxBackups: 5,
+          excludeTrackedPaths: 'info-exclude',
         },
         metadata: {
           projectName: 'workspace',
           mainRepoPath: testWorkingDir,
-          cliVersion: '1.1.0',
+          cliVersion: '1.2.0',
           platform: expect.any(String),
           lastModified: expect.any(Date),
         },
@@ -194,9 +214,62 @@ describe('ConfigManager', () => {
 
       const config = await configManager.create(testWorkingDir);
 
-      expect(config.version).toBe('1.1.0');
+      expect(config.version).toBe('1.2.0');
       expect(mockFileSystem.writeFileAtomic).toHaveBeenCalled();
     });
+
+    it('should create configuration with a custom storage directory', async () => {
+      (mockFileSystem.pathExists as jest.Mock).mockResolvedValue(false);
+      (mockFileSystem.writeFileAtomic as jest.Mock).mockResolvedValue(undefined);
+
+      const config = await configManager.create(testWorkingDir, {}, { storagePath: '.secrets' });
+
+      expect(config.storagePath).toBe('.secrets');
+      expect(await configManager.getStoragePath()).toBe(path.join(testWorkingDir, '.secrets'));
+    });
+  });
+
+  describe('custom config file', () => {
+    it('should read and write the configuration file passed to the constructor', async () => {
+      const customManager = new ConfigManager(testWorkingDir, mockFileSystem, 'pgit.json');
+      (mockFileSystem.pathExists as jest.Mock).mockResolvedValue(true);
+
+      await customManager.exists();
+
+      expect(mockFileSystem.pathExists).toHaveBeenCalledWith(
+        path.join(testWorkingDir, 'pgit.json'),
+      );
+    });
+  });
+
+  describe('findProjectRoot', () => {
+    it('should walk up to the directory holding the configuration', async () => {
+      (mockFileSystem.pathExists as jest.Mock).mockImplementation((filePath: string) =>
+        Promise.resolve(filePath === configPath),
+      );
+
+      const root = await ConfigManager.findProjectRoot(
+        path.join(testWorkingDir, 'src', 'utils'),
+        mockFileSystem,
+      );
+
+      expect(root).toBe(testWorkingDir);
+    });
+
+    it('should stop at the root of the main repository', async () => {
+      (mockFileSystem.pathExists as jest.Mock).mockImplementation((filePath: string) =>
+        Promise.resolve(
+          filePath === path.join(testWorkingDir, 'nested', '.git') || filePath === configPath,
+        ),
+      );
+
+      const root = await ConfigManager.findProjectRoot(
+        path.join(testWorkingDir, 'nested', 'src'),
+        mockFileSystem,
+      );
+
+      expect(root).toBeNull();
+    });
   });
 
   describe('addTrackedPath', () => {
@@ -212,6 +285,7 @@ describe('ConfigManager', () => {
         verboseOutput: false,
         createBackups: true,
         maxBackups: 5,
+        excludeTrackedPaths: 'info-exclude',
       },
       metadata: {
         projectName: 'test-project',
@@ -231,10 +305,41 @@ describe('ConfigManager', () => {
     it('should add new tracked path', async () => {
       await configManager.addTrackedPath('new-file.txt');
 
-      expect(mockFileSystem.writeFileAtomic).toHaveBeenCalledWith(
-        configPath,
-        expect.stringContaining('"trackedPaths": [\n    "existing.txt",\n    "new-file.txt"\n  ]'),
-      );
+      expect(getWrittenPaths()).toEqual(['existing.txt', 'new-file.txt']);
+    });
+
+    it('should record details of the added path', async () => {
+      await configManager.addTrackedPath('new-file.txt', {
+        mainRepoState: 'ignored',
+        isDirectory: false,
+        mode: 0o600,
+        size: 42,
+        sha256: 'b'.repeat(64),
+      });
+
+      const calls = (mockFileSystem.writeFileAtomic as jest.Mock).mock.calls;
+      const written = JSON.parse(calls[calls.length - 1][1]);
+      expect(written.trackedFiles).toEqual([
+        { path: 'existing.txt', addedAt: '2024-01-01T00:00:00.000Z', mainRepoState: 'unknown' },
+        {
+          path: 'new-file.txt',
+          addedAt: expect.any(String),
+          mainRepoState: 'ignored',
+          isDirectory: false,
+          mode: 0o600,
+          size: 42,
+          sha256: 'b'.repeat(64),
+        },
+      ]);
+    });
+
+    it('should look up the record of a tracked path', async () => {
+      expect(await configManager.getTrackedFile('./existing.txt')).toEqual({
+        path: 'existing.txt',
+        addedAt: initialConfig.initialized,
+        mainRepoState: 'unknown',
+      });
+      expect(await configManager.getTrackedFile('missing.txt')).toBeUndefined();
     });
 
     it('should not add duplicate paths', async () => {
@@ -246,11 +351,61 @@ describe('ConfigManager', () => {
     it('should normalize paths before adding', async () => {
       await configManager.addTrackedPath('./new-file.txt');
 
+      expect(getWrittenPaths()).toEqual(['existing.txt', 'new-file.txt']);
+    });
+  });
+
+  describe('updateSettings', () => {
+    const initialConfig = {
+      version: '1.2.0',
+      privateRepoPath: DEFAULT_PATHS.privateRepo,
+      storagePath: DEFAULT_PATHS.storage,
+      trackedFiles: [],
+      initialized: '2024-01-01T00:00:00.000Z',
+      settings: {
+        autoGitignore: true,
+        autoCleanup: true,
+        verboseOutput: false,
+        createBackups: true,
+        maxBackups: 5,
+        excludeTrackedPaths: 'info-exclude',
+      },
+      metadata: {
+        projectName: 'test-project',
+        mainRepoPath: '/test/workspace',
+        cliVersion: '1.2.0',
+        platform: 'test',
+        lastModified: '2024-01-01T00:00:00.000Z',
+      },
+    };
+
+    beforeEach(() => {
+      (mockFileSystem.pathExists as jest.Mock).mockResolvedValue(true);
+      (mockFileSystem.readFile as jest.Mock).mockResolvedValue(JSON.stringify(initialConfig));
+      (mockFileSystem.writeFileAtomic as jest.Mock).mockResolvedValue(undefined);
+      (mockFileSystem.readDirectory as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should back up the configuration before saving new settings', async () => {
+      const config = await configManager.updateSettings({ maxBackups: 10 });
+
+      expect(config.settings.maxBackups).toBe(10);
       expect(mockFileSystem.writeFileAtomic).toHaveBeenCalledWith(
+        expect.stringMatching(/\.private-config\.json\.backup\.\d+$/),
+        JSON.stringify(initialConfig),
+      );
+      expect(mockFileSystem.writeFileAtomic).toHaveBeenLastCalledWith(
         configPath,
-        expect.stringContaining('"trackedPaths": [\n    "existing.txt",\n    "new-file.txt"\n  ]'),
+        expect.stringContaining('"maxBackups": 10'),
       );
     });
+
+    it('should name the invalid setting and leave the file untouched', async () => {
+      await expect(configManager.updateSettings({ maxBackups: 50 })).rejects.toThrow(
+        'Invalid value for settings.maxBackups',
+      );
+      expect(mockFileSystem.writeFileAtomic).not.toHaveBeenCalled();
+    });
   });
 
   describe('removeTrackedPath', () => {
@@ -266,6 +421,7 @@ describe('ConfigManager', () => {
         verboseOutput: false,
         createBackups: true,
         maxBackups: 5,
+        excludeTrackedPaths: 'info-exclude',
       },
       metadata: {
         projectName: 'test-project',
@@ -285,10 +441,7 @@ describe('ConfigManager', () => {
     it('should remove existing tracked path', async () => {
       await configManager.removeTrackedPath('file2.txt');
 
-      expect(mockFileSystem.writeFileAtomic).toHaveBeenCalledWith(
-        configPath,
-        expect.stringContaining('"trackedPaths": [\n    "file1.txt",\n    "dir/file3.txt"\n  ]'),
-      );
+      expect(getWrittenPaths()).toEqual(['file1.txt', 'dir/file3.txt']);
     });
 
     it('should throw error for non-existent paths', async () => {
@@ -301,10 +454,17 @@ describe('ConfigManager', () => {
   describe('getHealth', () => {
     it('should return healthy status for valid config', async () => {
       const validConfig: PrivateConfig = {
-        version: '1.1.0',
+        version: '1.2.0',
         privateRepoPath: DEFAULT_PATHS.privateRepo,
         storagePath: DEFAULT_PATHS.storage,
         trackedPaths: ['file1.txt'],
+        trackedFiles: [
+          {
+            path: 'file1.txt',
+            addedAt: new Date('2024-01-01T00:00:00Z'),
+            mainRepoState: 'untracked',
+          },
+        ],
         initialized: new Date('2024-01-01T00:00:00Z'),
         settings: {
           autoGitignore: true,
@@ -312,18 +472,19 @@ describe('ConfigManager', () => {
           verboseOutput: false,
           createBackups: true,
           maxBackups: 5,
+          excludeTrackedPaths: 'info-exclude',
         },
         metadata: {
           projectName: 'test-project',
           mainRepoPath: '/test/workspace',
-          cliVersion: '1.1.0',
+          cliVersion: '1.2.0',
           platform: 'test',
           lastModified: new Date('2024-01-01T00:00:00Z'),
         },
       };
       (mockFileSystem.pathExists as jest.Mock).mockResolvedValue(true);
       (mockFileSystem.readFile as jest.Mock).mockResolvedValue(JSON.stringify(validConfig));
-      (mockFileSystem.getStats as jest.Mock).mockResolvedValue({
+      (mockFileSystem.getLinkStats as jest.Mock).mockResolvedValue({
         isSymbolicLink: jest.fn().mockReturnValue(true),
       });
 
@@ -331,7 +492,7 @@ describe('ConfigManager', () => {
 
       expect(health.valid).toBe(true);
       expect(health.exists).toBe(true);
-      expect(health.currentVersion).toBe('1.1.0');
+      expect(health.currentVersion).toBe('1.2.0');
       expect(health.needsMigration).toBe(false);
     });
 
@@ -368,6 +529,7 @@ describe('ConfigManager', () => {
           verboseOutput: false,
           createBackups: true,
           maxBackups: 5,
+          excludeTrackedPaths: 'info-exclude',
         },
         metadata: {
           projectName: 'test-project',
@@ -384,7 +546,109 @@ describe('ConfigManager', () => {
 
       expect(health.needsMigration).toBe(true);
       expect(health.currentVersion).toBe('0.9.0');
-      expect(health.targetVersion).toBe('1.1.0');
+      expect(health.targetVersion).toBe('1.2.0');
+    });
+  });
+
+  describe('migrate', () => {
+    const oldConfig = {
+      version: '1.0.0',
+      privateRepoPath: DEFAULT_PATHS.privateRepo,
+      storagePath: DEFAULT_PATHS.storage,
+      trackedPaths: ['.\\config\\secrets.json', '../outside.txt'],
+      initialized: '2024-01-01T00:00:00.000Z',
+      settings: {
+        autoGitignore: true,
+        autoCleanup: true,
+        verboseOutput: false,
+        createBackups: true,
+        maxBackups: 2,
+      },
+      metadata: {
+        projectName: 'test-project',
+        mainRepoPath: '/test/workspace',
+        cliVersion: '1.0.0',
+        platform: 'test',
+        lastModified: '2024-01-01T00:00:00.000Z',
+      },
+    };
+
+    beforeEach(() => {
+      (mockFileSystem.pathExists as jest.Mock).mockResolvedValue(true);
+      (mockFileSystem.readFile as jest.Mock).mockResolvedValue(JSON.stringify(oldConfig));
+      (mockFileSystem.writeFileAtomic as jest.Mock).mockResolvedValue(undefined);
+      // Existing backups plus every file written during the test
+      (mockFileSystem.readDirectory as jest.Mock).mockImplementation(() =>
+        Promise.resolve([
+          '.private-config.json',
+          '.private-config.json.backup.100',
+          '.private-config.json.backup.300',
+          '.private-config.json.backup.200',
+          ...(mockFileSystem.writeFileAtomic as jest.Mock).mock.calls.map(([file]) =>
+            path.basename(file),
+          ),
+        ]),
+      );
+    });
+
+    it('should mark destructive steps as unsafe', async () => {
+      const info = await configManager.getMigrationInfo();
+
+      expect(info?.fromVersion).toBe('1.0.0');
+      expect(info?.toVersion).toBe('1.2.0');
+      expect(info?.safe).toBe(false);
+      expect(info?.steps.map(step => step.id)).toEqual([
+        'normalize-tracked-paths',
+        'drop-unsafe-tracked-paths',
+        'convert-tracked-paths',
+      ]);
+    });
+
+    it('should refuse destructive steps unless allowed', async () => {
+      await expect(configManager.migrate()).rejects.toThrow(
+        'Migration includes destructive steps that need confirmation',
+      );
+      expect(mockFileSystem.writeFileAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should back up, rotate old backups and write the migrated configuration', async () => {
+      const result = await configManager.migrate({ allowDestructive: true });
+
+      expect(result.backupPath).toMatch(/\.private-config\.json\.backup\.\d+$/);
+      expect(mockFileSystem.writeFileAtomic).toHaveBeenCalledWith(
+        result.backupPath,
+        JSON.stringify(oldConfig),
+      );
+      expect(mockFileSystem.remove).toHaveBeenCalledTimes(2);
+      expect(mockFileSystem.remove).toHaveBeenCalledWith(`${configPath}.backup.100`);
+      expect(mockFileSystem.remove).toHaveBeenCalledWith(`${configPath}.backup.200`);
+      expect(mockFileSystem.remove).not.toHaveBeenCalledWith(result.backupPath);
+
+      const written = JSON.parse((mockFileSystem.writeFileAtomic as jest.Mock).mock.calls[1][1]);
+      expect(written.version).toBe('1.2.0');
+      expect(written.trackedPaths).toBeUndefined();
+      expect(written.trackedFiles).toEqual([
+        {
+          path: 'config/secrets.json',
+          addedAt: oldConfig.initialized,
+          mainRepoState: 'unknown',
+        },
+      ]);
+    });
+
+    it('should skip the backup when backups are disabled', async () => {
+      (mockFileSystem.readFile as jest.Mock).mockResolvedValue(
+        JSON.stringify({
+          ...oldConfig,
+          trackedPaths: ['.env'],
+          settings: { ...oldConfig.settings, createBackups: false },
+        }),
+      );
+
+      const result = await configManager.migrate();
+
+      expect(result.backupPath).toBeUndefined();
+      expect(mockFileSystem.writeFileAtomic).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -406,6 +670,7 @@ describe('ConfigManager', () => {
           verboseOutput: false,
           createBackups: true,
           maxBackups: 5,
+          excludeTrackedPaths: 'info-exclude',
         },
         metadata: {
           projectName: 'test-project',
@@ -443,6 +708,7 @@ describe('ConfigManager', () => {
           verboseOutput: false,
           createBackups: true,
           maxBackups: 5,
+          excludeTrackedPaths: 'info-exclude',
         },
         metadata: {
           projectName: 'test-project',
@@ -473,6 +739,7 @@ describe('ConfigManager', () => {
           verboseOutput: false,
           createBackups: true,
           maxBackups: 5,
+          excludeTrackedPaths: 'info-exclude',
         },
         metadata: {
           projectName: 'test-project',
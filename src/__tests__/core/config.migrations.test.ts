@@ -0,0 +1,117 @@
+import { ConfigMigration, ConfigMigrationRegistry } from '../../core/config.migrations';
+
+describe('ConfigMigrationRegistry', () => {
+  describe('getSteps', () => {
+    it('should return no steps for a current configuration', () => {
+      const steps = ConfigMigrationRegistry.getSteps({
+        version: '1.2.0',
+        trackedFiles: [{ path: '.env', addedAt: '2024-01-01T00:00:00.000Z' }],
+      });
+
+      expect(steps).toEqual([]);
+    });
+
+    it('should only include steps that change the configuration', () => {
+      const steps = ConfigMigrationRegistry.getSteps({
+        version: '1.0.0',
+        trackedPaths: ['./config\\secrets.json', 'config/secrets.json', '/etc/hosts'],
+      });
+
+      expect(steps?.map(step => step.id)).toEqual([
+        'normalize-tracked-paths',
+        'drop-unsafe-tracked-paths',
+        'convert-tracked-paths',
+      ]);
+      expect(steps?.[1]?.destructive).toBe(true);
+    });
+
+    it('should treat pre-releases like their release', () => {
+      const steps = ConfigMigrationRegistry.getSteps({
+        version: '1.0.0-beta.1',
+        trackedPaths: ['dir/'],
+      });
+
+      expect(steps?.map(step => step.id)).toEqual([
+        'normalize-tracked-paths',
+        'convert-tracked-paths',
+      ]);
+    });
+
+    it('should return null when no migration path exists', () => {
+      expect(ConfigMigrationRegistry.getSteps({ version: '0.9.0', trackedPaths: [] })).toBeNull();
+      expect(ConfigMigrationRegistry.getSteps({ trackedPaths: [] })).toBeNull();
+    });
+
+    it('should chain migrations across versions', () => {
+      const migrations: ConfigMigration[] = [
+        {
+          id: 'first',
+          fromVersion: '1.0.0',
+          toVersion: '1.1.0',
+          description: 'First',
+          destructive: false,
+          applies: () => true,
+          migrate: config => ({ ...config, first: true }),
+        },
+        {
+          id: 'second',
+          fromVersion: '1.1.0',
+          toVersion: '1.2.0',
+          description: 'Second',
+          destructive: false,
+          applies: config => config['first'] === true,
+          migrate: config => ({ ...config, second: true }),
+        },
+      ];
+
+      const steps = ConfigMigrationRegistry.getSteps({ version: '1.0.0' }, '1.2.0', migrations);
+
+      expect(steps?.map(step => step.id)).toEqual(['first', 'second']);
+      expect(ConfigMigrationRegistry.apply({ version: '1.0.0' }, steps || [])).toEqual({
+        version: '1.0.0',
+        first: true,
+        second: true,
+      });
+    });
+  });
+
+  describe('apply', () => {
+    it('should normalize and deduplicate tracked paths', () => {
+      const config = { version: '1.0.0', trackedPaths: ['.\\a\\b.txt', 'a/b.txt', 'dir/'] };
+      const steps = ConfigMigrationRegistry.getSteps(config, '1.1.0') || [];
+
+      expect(ConfigMigrationRegistry.apply(config, steps)).toEqual({
+        version: '1.0.0',
+        trackedPaths: ['a/b.txt', 'dir'],
+      });
+    });
+
+    it('should drop tracked paths outside the project', () => {
+      const config = { version: '1.0.0', trackedPaths: ['.env', '../other/.env', 'C:\\secrets'] };
+      const steps = ConfigMigrationRegistry.getSteps(config, '1.1.0') || [];
+
+      expect(ConfigMigrationRegistry.apply(config, steps)['trackedPaths']).toEqual(['.env']);
+    });
+
+    it('should convert tracked paths to records, keeping existing records', () => {
+      const config = {
+        version: '1.1.0',
+        initialized: '2024-01-01T00:00:00.000Z',
+        trackedPaths: ['.env', 'config'],
+        trackedFiles: [
+          { path: '.env', addedAt: '2024-02-01T00:00:00.000Z', mainRepoState: 'ignored' },
+        ],
+      };
+      const steps = ConfigMigrationRegistry.getSteps(config) || [];
+
+      expect(ConfigMigrationRegistry.apply(config, steps)).toEqual({
+        version: '1.1.0',
+        initialized: '2024-01-01T00:00:00.000Z',
+        trackedFiles: [
+          { path: '.env', addedAt: '2024-02-01T00:00:00.000Z', mainRepoState: 'ignored' },
+          { path: 'config', addedAt: '2024-01-01T00:00:00.000Z', mainRepoState: 'unknown' },
+        ],
+      });
+    });
+  });
+});
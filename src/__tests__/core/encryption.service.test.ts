@@ -0,0 +1,91 @@
+import { EncryptionService, EncryptionError } from '../../core/encryption.service';
+import { FileSystemService } from '../../core/filesystem.service';
+
+jest.mock('../../core/filesystem.service');
+
+describe('EncryptionService', () => {
+  let files: Map<string, string>;
+  let service: EncryptionService;
+
+  beforeEach(() => {
+    files = new Map();
+    const mockFileSystem = {
+      pathExists: jest.fn((filePath: string) => Promise.resolve(files.has(filePath))),
+      readFile: jest.fn((filePath: string) => Promise.resolve(files.get(filePath) ?? '')),
+      writeFileAtomic: jest.fn((filePath: string, content: string) => {
+        files.set(filePath, content);
+        return Promise.resolve();
+      }),
+      ensureDirectoryExists: jest.fn().mockResolvedValue(undefined),
+      remove: jest.fn((filePath: string) => {
+        files.delete(filePath);
+        return Promise.resolve();
+      }),
+    };
+    jest.mocked(FileSystemService).mockImplementation(() => mockFileSystem as never);
+
+    service = new EncryptionService('/test/workspace/.private-storage', new FileSystemService());
+  });
+
+  describe('encrypt and decrypt', () => {
+    const key = EncryptionService.generateKey();
+
+    it('should round trip data', () => {
+      const plaintext = Buffer.from('API_KEY=secret\n');
+      const encrypted = EncryptionService.encrypt(plaintext, key);
+
+      expect(EncryptionService.isEncrypted(encrypted)).toBe(true);
+      expect(encrypted.includes(plaintext)).toBe(false);
+      expect(EncryptionService.decrypt(encrypted, key)).toEqual(plaintext);
+    });
+
+    it('should produce identical output for identical content', () => {
+      const plaintext = Buffer.from('same content');
+
+      expect(EncryptionService.encrypt(plaintext, key)).toEqual(
+        EncryptionService.encrypt(plaintext, key),
+      );
+    });
+
+    it('should fail to decrypt with a different key', () => {
+      const encrypted = EncryptionService.encrypt(Buffer.from('data'), key);
+
+      expect(() => EncryptionService.decrypt(encrypted, EncryptionService.generateKey())).toThrow(
+        EncryptionError,
+      );
+    });
+  });
+
+  describe('enable and resolveKey', () => {
+    it('should unlock with the passphrase used to enable encryption', async () => {
+      const key = await service.enable({ passphrase: 'correct horse' });
+
+      expect(await service.isEnabled()).toBe(true);
+      expect(await service.loadKey()).toEqual(key);
+      expect(await service.resolveKey({ passphrase: 'correct horse' })).toEqual(key);
+    });
+
+    it('should reject an incorrect passphrase', async () => {
+      await service.enable({ passphrase: 'correct horse' });
+
+      await expect(service.resolveKey({ passphrase: 'wrong' })).rejects.toThrow(
+        'Incorrect passphrase',
+      );
+    });
+
+    it('should create a missing key file and unlock with it', async () => {
+      const key = await service.enable({ keyFile: '/test/pgit.key' });
+
+      expect(files.has('/test/pgit.key')).toBe(true);
+      expect(await service.resolveKey({ keyFile: '/test/pgit.key' })).toEqual(key);
+    });
+
+    it('should forget the key when locked', async () => {
+      await service.enable({ passphrase: 'correct horse' });
+      await service.removeKey();
+
+      expect(await service.isUnlocked()).toBe(false);
+      expect(await service.loadKey()).toBeNull();
+    });
+  });
+});
@@ -7,6 +7,7 @@ import {
   InvalidPathError,
   FileNotFoundError,
   PermissionError,
+  AtomicOperationError,
 } from '../../errors/filesystem.error';
 
 // Mock fs-extra
@@ -107,6 +108,50 @@ describe('FileSystemService', () => {
     });
   });
 
+  describe('moveFileAtomic', () => {
+    const exdev = Object.assign(new Error('cross-device link not permitted'), { code: 'EXDEV' });
+
+    beforeEach(() => {
+      mockedFs.pathExists.mockImplementation(filePath =>
+        Promise.resolve(filePath === '/test/source.txt'),
+      );
+      mockedFs.ensureDir.mockResolvedValue(undefined);
+      mockedFs.copy.mockResolvedValue(undefined);
+      mockedFs.remove.mockResolvedValue(undefined);
+    });
+
+    it('should copy through a temporary path when moving across file systems', async () => {
+      mockedFs.rename.mockRejectedValueOnce(exdev).mockResolvedValue(undefined);
+
+      await fileSystemService.moveFileAtomic('/test/source.txt', '/mnt/other/target.txt');
+
+      const tempPath = mockedFs.rename.mock.calls[1][0];
+      expect(tempPath).toMatch(/^\/mnt\/other\/target\.txt\.tmp\./);
+      expect(mockedFs.copy).toHaveBeenCalledWith('/test/source.txt', tempPath, {
+        preserveTimestamps: true,
+        dereference: false,
+      });
+      expect(mockedFs.rename).toHaveBeenLastCalledWith(tempPath, '/mnt/other/target.txt');
+      expect(mockedFs.remove).toHaveBeenCalledWith('/test/source.txt');
+    });
+
+    it('should keep the source when the cross-device copy fails', async () => {
+      mockedFs.rename.mockRejectedValue(exdev);
+      mockedFs.copy
+        .mockResolvedValueOnce(undefined) // backup of the source
+        .mockRejectedValue(new Error('No space left on device'));
+
+      await expect(
+        fileSystemService.moveFileAtomic('/test/source.txt', '/mnt/other/target.txt'),
+      ).rejects.toThrow(AtomicOperationError);
+
+      expect(mockedFs.remove).not.toHaveBeenCalledWith('/test/source.txt');
+      expect(mockedFs.remove).toHaveBeenCalledWith(
+        expect.stringMatching(/^\/mnt\/other\/target\.txt\.tmp\./),
+      );
+    });
+  });
+
   describe('validatePathString', () => {
     it('should not throw for valid paths', () => {
       expect(() => fileSystemService.validatePathString('valid/path')).not.toThrow();
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitService } from '../../core/git.service';
+import {
+  GitignoreService,
+  TRACKED_PATHS_BLOCK_END,
+  TRACKED_PATHS_BLOCK_START,
+} from '../../core/gitignore.service';
+
+jest.mock('../../core/git.service');
+
+describe('GitignoreService', () => {
+  let projectDir: string;
+  let excludePath: string;
+  let gitignoreService: GitignoreService;
+
+  const read = (relativePath: string): string =>
+    fs.readFileSync(path.join(projectDir, relativePath), 'utf8');
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgit-gitignore-'));
+    excludePath = path.join(projectDir, '.git', 'info', 'exclude');
+    fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+    fs.writeFileSync(excludePath, '# git ls-files --others --exclude-from=.git/info/exclude\n');
+
+    jest.mocked(GitService).mockImplementation(
+      () =>
+        ({
+          getExcludeFilePath: jest.fn().mockResolvedValue(excludePath),
+        }) as unknown as GitService,
+    );
+    gitignoreService = new GitignoreService(projectDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  it('should keep a block of anchored tracked paths in info/exclude', async () => {
+    await gitignoreService.updateTrackedPaths(['.env'], 'info-exclude');
+    const edits = await gitignoreService.updateTrackedPaths(
+      ['.env', 'config/*.json', 'notes '],
+      'info-exclude',
+    );
+
+    expect(read('.git/info/exclude')).toBe(
+      [
+        '# git ls-files --others --exclude-from=.git/info/exclude',
+        TRACKED_PATHS_BLOCK_START,
+        '/.env',
+        '/config/\\*.json',
+        '/notes\\ ',
+        TRACKED_PATHS_BLOCK_END,
+        '',
+      ].join('\n'),
+    );
+    expect(edits).toEqual([
+      expect.objectContaining({
+        file: '.git/info/exclude',
+        additions: ['/config/\\*.json', '/notes\\ '],
+        removals: [],
+      }),
+    ]);
+    expect(
+      await gitignoreService.planTrackedPaths(['.env', 'config/*.json', 'notes '], 'info-exclude'),
+    ).toEqual([]);
+  });
+
+  it('should move the block to .gitignore and drop it when switched off', async () => {
+    fs.writeFileSync(path.join(projectDir, '.gitignore'), 'node_modules/\n');
+    await gitignoreService.updateTrackedPaths(['.env'], 'info-exclude');
+
+    await gitignoreService.updateTrackedPaths(['.env'], 'gitignore');
+
+    expect(read('.git/info/exclude')).not.toContain(TRACKED_PATHS_BLOCK_START);
+    expect(read('.gitignore')).toBe(
+      `node_modules/\n${TRACKED_PATHS_BLOCK_START}\n/.env\n${TRACKED_PATHS_BLOCK_END}\n`,
+    );
+
+    await gitignoreService.updateTrackedPaths(['.env'], 'off');
+
+    expect(read('.gitignore')).toBe('node_modules/\n');
+  });
+});
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryService } from '../../core/history.service';
+
+describe('HistoryService', () => {
+  let historyDir: string;
+  let historyService: HistoryService;
+
+  beforeEach(() => {
+    historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgit-history-'));
+    historyService = new HistoryService(historyDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(historyDir, { recursive: true, force: true });
+  });
+
+  it('should append entries and read them back in order', async () => {
+    await historyService.record({ operation: 'add', paths: ['.env'] });
+    await historyService.record({
+      operation: 'commit',
+      paths: ['.env'],
+      privateHead: { before: 'abc', after: 'def' },
+    });
+
+    const entries = await historyService.read();
+
+    expect(entries.map(entry => entry.operation)).toEqual(['add', 'commit']);
+    expect(entries[1].privateHead).toEqual({ before: 'abc', after: 'def' });
+    expect(entries[0].timestamp).toBeInstanceOf(Date);
+    expect(fs.readFileSync(historyService.getFilePath(), 'utf8').split('\n')).toHaveLength(3);
+  });
+
+  it('should list undoable entries newest first without undone ones', async () => {
+    const add = await historyService.record({ operation: 'add', paths: ['.env'] });
+    const commit = await historyService.record({ operation: 'commit', paths: ['.env'] });
+    await historyService.record({ operation: 'undo', paths: ['.env'], undoes: commit?.id });
+    const remove = await historyService.record({ operation: 'remove', paths: ['.env'] });
+
+    const undoable = HistoryService.getUndoable(await historyService.read());
+
+    expect(undoable.map(entry => entry.id)).toEqual([remove?.id, add?.id]);
+  });
+});
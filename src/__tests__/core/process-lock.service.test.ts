@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProcessLockService } from '../../core/process-lock.service';
+import { ConcurrentOperationError } from '../../errors/specific.errors';
+import { PlatformDetector } from '../../utils/platform.detector';
+
+describe('ProcessLockService', () => {
+  let lockDir: string;
+  let lockService: ProcessLockService;
+
+  const writeLock = (pid: number): void => {
+    fs.writeFileSync(
+      lockService.getFilePath(),
+      JSON.stringify({ pid, command: 'pgit add', acquiredAt: new Date().toISOString() }),
+    );
+  };
+
+  beforeEach(() => {
+    lockDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgit-lock-'));
+    lockService = new ProcessLockService(lockDir);
+  });
+
+  afterEach(() => {
+    lockService.release();
+    fs.rmSync(lockDir, { recursive: true, force: true });
+  });
+
+  it('should record the owner and remove the lock file on release', async () => {
+    await lockService.acquire('pgit commit');
+
+    expect(await lockService.readOwner()).toEqual(
+      expect.objectContaining({ pid: process.pid, command: 'pgit commit' }),
+    );
+
+    lockService.release();
+    expect(fs.existsSync(lockService.getFilePath())).toBe(false);
+  });
+
+  it('should refuse a lock held by a running process', async () => {
+    writeLock(process.ppid);
+
+    const acquire = lockService.acquire('pgit commit');
+
+    await expect(acquire).rejects.toThrow(ConcurrentOperationError);
+    await expect(acquire).rejects.toThrow(/"pgit add" \(process \d+/);
+    await expect(acquire).rejects.toMatchObject({
+      lockPath: lockService.getFilePath(),
+      pid: process.ppid,
+    });
+  });
+
+  it('should take over a lock left behind by a process that is gone', async () => {
+    writeLock(999999999);
+
+    await lockService.acquire('pgit commit');
+
+    expect((await lockService.readOwner())?.pid).toBe(process.pid);
+  });
+
+  it('should not remove a lock another process took over in the meantime', async () => {
+    writeLock(999999999);
+    const isProcessAlive = jest.spyOn(PlatformDetector, 'isProcessAlive');
+    isProcessAlive.mockImplementationOnce(() => {
+      // Another waiting process replaces the abandoned lock with its own before this one acts
+      fs.rmSync(lockService.getFilePath());
+      writeLock(process.ppid);
+      return false;
+    });
+
+    await expect(lockService.acquire('pgit commit')).rejects.toThrow(ConcurrentOperationError);
+
+    expect((await lockService.readOwner())?.pid).toBe(process.ppid);
+    expect(fs.readdirSync(lockDir)).toHaveLength(1);
+  });
+
+  it('should wait for the lock to be released', async () => {
+    writeLock(process.ppid);
+    setTimeout(() => fs.rmSync(lockService.getFilePath()), 300);
+
+    await lockService.acquire('pgit commit', 5);
+
+    expect((await lockService.readOwner())?.pid).toBe(process.pid);
+  });
+});
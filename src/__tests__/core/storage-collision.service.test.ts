@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../../core/config.manager';
+import { StorageCollisionService } from '../../core/storage-collision.service';
+
+describe('StorageCollisionService', () => {
+  let projectDir: string;
+  let storageDir: string;
+  let collisionService: StorageCollisionService;
+
+  const write = (dir: string, relativePath: string, content: string | Buffer): void => {
+    fs.writeFileSync(path.join(dir, relativePath), content);
+  };
+
+  const read = (relativePath: string): string =>
+    fs.readFileSync(path.join(projectDir, relativePath), 'utf8');
+
+  beforeEach(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgit-collision-'));
+    storageDir = path.join(projectDir, '.private-storage');
+    fs.mkdirSync(storageDir);
+    fs.mkdirSync(path.join(projectDir, '.git-private'));
+
+    const configManager = new ConfigManager(projectDir);
+    await configManager.create(projectDir);
+    collisionService = new StorageCollisionService(projectDir, configManager);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should report stored paths with other content and diff text files', async () => {
+    write(storageDir, '.env', 'A=1\n');
+    write(projectDir, '.env', 'A=2\n');
+    write(storageDir, '.npmrc', 'registry=a\n');
+    write(projectDir, '.npmrc', 'registry=a\n');
+    write(storageDir, 'key.bin', Buffer.from([0, 1, 2]));
+    write(projectDir, 'key.bin', Buffer.from([0, 1, 3]));
+    write(projectDir, 'new.txt', 'new\n');
+
+    const collisions = await collisionService.find(['.env', '.npmrc', 'key.bin', 'new.txt']);
+
+    expect(collisions.map(collision => collision.path)).toEqual(['.env', 'key.bin']);
+    expect(collisions[0].diff).toContain('-A=1');
+    expect(collisions[0].diff).toContain('+A=2');
+    expect(collisions[1].diff).toBeUndefined();
+  });
+
+  it('should keep the version that is not tracked as a conflict copy', async () => {
+    write(storageDir, '.env', 'A=1\n');
+    write(projectDir, '.env', 'A=2\n');
+    write(storageDir, '.npmrc', 'registry=a\n');
+    write(projectDir, '.npmrc', 'registry=b\n');
+
+    const copies = await collisionService.planConflictCopies(
+      await collisionService.find(['.env', '.npmrc']),
+    );
+    await collisionService.resolve('.env', copies['.env'], 'keep-working');
+    await collisionService.resolve('.npmrc', copies['.npmrc'], 'keep-storage');
+
+    expect(fs.existsSync(path.join(storageDir, '.env'))).toBe(false);
+    expect(read('.env')).toBe('A=2\n');
+    expect(read(copies['.env'])).toBe('A=1\n');
+    expect(fs.existsSync(path.join(storageDir, '.npmrc'))).toBe(false);
+    expect(read('.npmrc')).toBe('registry=a\n');
+    expect(read(copies['.npmrc'])).toBe('registry=b\n');
+    expect(copies['.npmrc'].startsWith(path.join('.git-private', 'conflicts'))).toBe(true);
+  });
+
+  it('should put both versions back when restoring', async () => {
+    write(storageDir, '.env', 'A=1\n');
+    write(projectDir, '.env', 'A=2\n');
+    write(storageDir, '.npmrc', 'registry=a\n');
+    write(projectDir, '.npmrc', 'registry=b\n');
+    const copies = await collisionService.planConflictCopies(
+      await collisionService.find(['.env', '.npmrc']),
+    );
+    await collisionService.resolve('.env', copies['.env'], 'keep-working');
+    await collisionService.resolve('.npmrc', copies['.npmrc'], 'keep-storage');
+
+    await collisionService.restore('.env', copies['.env'], 'keep-working');
+    await collisionService.restore('.npmrc', copies['.npmrc'], 'keep-storage');
+
+    expect(fs.readFileSync(path.join(storageDir, '.env'), 'utf8')).toBe('A=1\n');
+    expect(read('.env')).toBe('A=2\n');
+    expect(fs.readFileSync(path.join(storageDir, '.npmrc'), 'utf8')).toBe('registry=a\n');
+    expect(read('.npmrc')).toBe('registry=b\n');
+    expect(fs.existsSync(path.join(projectDir, copies['.env']))).toBe(false);
+    expect(fs.existsSync(path.join(projectDir, copies['.npmrc']))).toBe(false);
+  });
+});
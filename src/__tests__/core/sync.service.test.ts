@@ -0,0 +1,135 @@
+import * as crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../../core/config.manager';
+import { SyncService } from '../../core/sync.service';
+
+describe('SyncService', () => {
+  let projectDir: string;
+  let storageDir: string;
+  let configManager: ConfigManager;
+  let syncService: SyncService;
+
+  const sha256 = (content: string): string =>
+    crypto.createHash('sha256').update(content).digest('hex');
+
+  const trackCopy = async (relativePath: string, content: string): Promise<void> => {
+    fs.writeFileSync(path.join(storageDir, relativePath), content);
+    fs.writeFileSync(path.join(projectDir, relativePath), content);
+    await configManager.addTrackedPath(relativePath, {
+      mainRepoState: 'untracked',
+      linkStrategy: 'copy',
+      syncedSha256: sha256(content),
+    });
+  };
+
+  const trackLink = async (relativePath: string, content: string): Promise<void> => {
+    fs.writeFileSync(path.join(storageDir, relativePath), content);
+    fs.symlinkSync(path.join(storageDir, relativePath), path.join(projectDir, relativePath));
+    await configManager.addTrackedPath(relativePath, { mainRepoState: 'untracked' });
+
+    const git = (...args: string[]): Buffer => execFileSync('git', args, { cwd: storageDir });
+    git('init', '-q');
+    git('add', relativePath);
+    git('-c', 'user.name=pgit', '-c', 'user.email=pgit@example.com', 'commit', '-q', '-m', 'Add');
+  };
+
+  // Editors save by writing a new file and renaming it over the link
+  const replaceLink = (relativePath: string, content: string): void => {
+    fs.writeFileSync(path.join(projectDir, `${relativePath}.tmp`), content);
+    fs.renameSync(
+      path.join(projectDir, `${relativePath}.tmp`),
+      path.join(projectDir, relativePath),
+    );
+  };
+
+  const read = (dir: string, relativePath: string): string =>
+    fs.readFileSync(path.join(dir, relativePath), 'utf8');
+
+  beforeEach(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgit-sync-'));
+    storageDir = path.join(projectDir, '.private-storage');
+    fs.mkdirSync(storageDir);
+
+    configManager = new ConfigManager(projectDir);
+    await configManager.create(projectDir);
+    syncService = new SyncService(projectDir, configManager);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should copy the side that changed since the last sync', async () => {
+    await trackCopy('.env', 'A=1\n');
+    await trackCopy('.npmrc', 'registry=a\n');
+    fs.writeFileSync(path.join(projectDir, '.env'), 'A=2\n');
+    fs.writeFileSync(path.join(storageDir, '.npmrc'), 'registry=b\n');
+
+    const report = await syncService.sync();
+
+    expect(report).toEqual({
+      syncedIn: ['.env'],
+      syncedOut: ['.npmrc'],
+      reabsorbed: [],
+      conflicts: [],
+      missing: [],
+    });
+    expect(read(storageDir, '.env')).toBe('A=2\n');
+    expect(read(projectDir, '.npmrc')).toBe('registry=b\n');
+    expect((await configManager.getTrackedFile('.env'))?.syncedSha256).toBe(sha256('A=2\n'));
+  });
+
+  it('should refuse to sync in a path changed on both sides', async () => {
+    await trackCopy('.env', 'A=1\n');
+    fs.writeFileSync(path.join(projectDir, '.env'), 'A=2\n');
+    fs.writeFileSync(path.join(storageDir, '.env'), 'A=3\n');
+
+    await expect(syncService.syncIn()).rejects.toThrow(
+      '.env changed both in the working tree and in private storage',
+    );
+    expect(read(storageDir, '.env')).toBe('A=3\n');
+
+    const report = await syncService.sync({ keep: 'working' });
+
+    expect(report.syncedIn).toEqual(['.env']);
+    expect(read(storageDir, '.env')).toBe('A=2\n');
+  });
+
+  it('should take over a file that replaced its symbolic link', async () => {
+    await trackLink('.env', 'A=1\n');
+    replaceLink('.env', 'A=2\n');
+
+    const report = await syncService.syncIn();
+
+    expect(report.reabsorbed).toEqual(['.env']);
+    expect(read(storageDir, '.env')).toBe('A=2\n');
+    expect(fs.lstatSync(path.join(projectDir, '.env')).isSymbolicLink()).toBe(true);
+  });
+
+  it('should not take over a replaced symbolic link when storage changed since the last commit', async () => {
+    await trackLink('.env', 'A=1\n');
+    fs.writeFileSync(path.join(storageDir, '.env'), 'A=3\n');
+    replaceLink('.env', 'A=2\n');
+
+    const report = await syncService.sync();
+
+    expect(report.conflicts).toEqual(['.env']);
+    expect(read(projectDir, '.env')).toBe('A=2\n');
+    expect(read(storageDir, '.env')).toBe('A=3\n');
+  });
+
+  it('should link again when the replacing file holds the committed content', async () => {
+    await trackLink('.env', 'A=1\n');
+    replaceLink('.env', 'A=1\n');
+    fs.writeFileSync(path.join(storageDir, '.env'), 'A=3\n');
+
+    const report = await syncService.sync();
+
+    expect(report.conflicts).toEqual([]);
+    expect(fs.lstatSync(path.join(projectDir, '.env')).isSymbolicLink()).toBe(true);
+    expect(read(storageDir, '.env')).toBe('A=3\n');
+  });
+});
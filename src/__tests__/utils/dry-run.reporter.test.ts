@@ -0,0 +1,30 @@
+import * as path from 'path';
+import { DryRunReporter } from '../../utils/dry-run.reporter';
+import { ProjectPaths } from '../../utils/project.paths';
+
+describe('DryRunReporter', () => {
+  const root = path.resolve('/project');
+
+  afterEach(() => {
+    ProjectPaths.configure(root, root);
+    jest.restoreAllMocks();
+  });
+
+  it('should show plan paths relative to the invocation directory', () => {
+    ProjectPaths.configure(root, path.join(root, 'deep'));
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const plan = DryRunReporter.createPlan('remove');
+    plan.moves.push({
+      from: path.join('.private-storage', 'deep', 'notes'),
+      to: path.join('deep', 'notes'),
+    });
+    plan.symlinks.push({ action: 'remove', link: path.join('deep', 'notes') });
+    DryRunReporter.display(plan);
+
+    const output = log.mock.calls.map(call => String(call[0])).join('\n');
+    expect(output).toContain(`${path.join('..', '.private-storage', 'deep', 'notes')} → notes`);
+    expect(output).toContain('- notes');
+    expect(plan.moves[0].to).toBe(path.join('deep', 'notes'));
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GlobMatcher } from '../../utils/glob.matcher';
+
+describe('GlobMatcher', () => {
+  let rootDir: string;
+
+  const createFile = (relativePath: string): void => {
+    const fullPath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, 'content');
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgit-glob-'));
+    createFile('.env');
+    createFile('.env.local');
+    createFile('app/.env.production');
+    createFile('config/db.local.json');
+    createFile('config/api.json');
+    createFile('node_modules/pkg/.env');
+    createFile('.git/.env');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('isGlobPattern', () => {
+    it('should detect glob syntax', () => {
+      expect(GlobMatcher.isGlobPattern('**/.env*')).toBe(true);
+      expect(GlobMatcher.isGlobPattern('config/*.local.json')).toBe(true);
+      expect(GlobMatcher.isGlobPattern('config/api.json')).toBe(false);
+    });
+  });
+
+  describe('expand', () => {
+    it('should match dotfiles recursively and skip excluded directories', async () => {
+      const matches = await GlobMatcher.expand(rootDir, '**/.env*', {
+        excludedNames: ['.git', 'node_modules'],
+      });
+
+      expect(matches).toEqual(['.env', '.env.local', path.join('app', '.env.production')]);
+    });
+
+    it('should skip excluded paths relative to the root', async () => {
+      createFile('.secrets/config/db.local.json');
+
+      const matches = await GlobMatcher.expand(rootDir, '**/*.local.json', {
+        excludedPaths: ['.secrets', 'config/api.json'],
+      });
+
+      expect(matches).toEqual([path.join('config', 'db.local.json')]);
+    });
+
+    it('should only walk from the static base of the pattern', async () => {
+      const matches = await GlobMatcher.expand(rootDir, 'config/*.local.json');
+
+      expect(matches).toEqual([path.join('config', 'db.local.json')]);
+    });
+
+    it('should not match symbolic links', async () => {
+      fs.symlinkSync(
+        path.join(rootDir, 'config/api.json'),
+        path.join(rootDir, 'config/x.local.json'),
+      );
+
+      const matches = await GlobMatcher.expand(rootDir, 'config/*.local.json');
+
+      expect(matches).toEqual([path.join('config', 'db.local.json')]);
+    });
+
+    it('should not escape the root directory', async () => {
+      const matches = await GlobMatcher.expand(rootDir, '../**/*.json');
+
+      expect(matches).toEqual([]);
+    });
+  });
+
+  describe('expandAll', () => {
+    it('should pass literal paths through and deduplicate matches', async () => {
+      const result = await GlobMatcher.expandAll(rootDir, ['.env', '.env*', 'missing/*.txt']);
+
+      expect(result.paths).toEqual(['.env', '.env.local']);
+      expect(result.expansions.get('.env*')).toEqual(['.env', '.env.local']);
+      expect(result.expansions.get('missing/*.txt')).toEqual([]);
+    });
+  });
+});
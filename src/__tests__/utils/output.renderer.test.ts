@@ -0,0 +1,111 @@
+import chalk from 'chalk';
+import { HumanRenderer, JsonRenderer, PlainRenderer } from '../../utils/output.renderer';
+import { BaseError } from '../../errors/base.error';
+
+class TestError extends BaseError {
+  public readonly code = 'TEST_ERROR';
+  public readonly recoverable = true;
+}
+
+describe('Output renderers', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  const written = (spy: jest.SpyInstance): string =>
+    spy.mock.calls.map(([chunk]) => String(chunk)).join('');
+
+  beforeEach(() => {
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  describe('HumanRenderer', () => {
+    const views = {
+      items: (data: unknown): string[] => (data as string[]).map(item => `- ${item}`),
+    };
+
+    it('should render the view instead of the message', () => {
+      new HumanRenderer(views).renderResult(
+        { success: true, message: 'Found 2 items', data: ['a', 'b'], exitCode: 0 },
+        { view: 'items' },
+      );
+
+      expect(written(stdout)).toBe('- a\n- b\n');
+    });
+
+    it('should drop success messages but keep errors when quiet', () => {
+      const renderer = new HumanRenderer(views, true);
+
+      renderer.renderResult({ success: true, message: 'Done', exitCode: 0 }, {});
+      renderer.renderResult({ success: false, exitCode: 1 }, { failureMessage: 'Broken' });
+
+      expect(written(stdout)).toBe('');
+      expect(written(stderr)).toContain('✗ Broken');
+    });
+
+    it('should print notices unless quiet', () => {
+      new HumanRenderer(views).renderNotice('Matched 2 path(s)');
+      new HumanRenderer(views, true).renderNotice('Matched 3 path(s)');
+
+      expect(written(stdout)).toBe('Matched 2 path(s)\n');
+    });
+  });
+
+  describe('PlainRenderer', () => {
+    it('should strip colors', () => {
+      const level = chalk.level;
+      chalk.level = 1;
+
+      new PlainRenderer({}).renderResult({ success: true, message: 'Saved', exitCode: 0 }, {});
+
+      chalk.level = level;
+      expect(written(stdout)).toBe('✓ Saved\n');
+    });
+  });
+
+  describe('JsonRenderer', () => {
+    it('should print the result as a single JSON document', () => {
+      new JsonRenderer().renderResult({
+        success: true,
+        message: 'Found 1 item',
+        data: [{ path: '.env' }],
+        exitCode: 0,
+      });
+
+      expect(JSON.parse(written(stdout))).toEqual({
+        success: true,
+        message: 'Found 1 item',
+        exitCode: 0,
+        data: [{ path: '.env' }],
+      });
+    });
+
+    it('should keep notices out of the JSON document', () => {
+      const renderer = new JsonRenderer();
+      renderer.renderNotice('Matched 2 path(s)');
+      renderer.renderResult({ success: true, message: 'Added', exitCode: 0 });
+
+      expect(JSON.parse(written(stdout))).toEqual({ success: true, message: 'Added', exitCode: 0 });
+    });
+
+    it('should serialize errors with BaseError.toJSON and drop stack traces', () => {
+      new JsonRenderer().renderError(new TestError('Something failed', 'details'));
+
+      const document = JSON.parse(written(stdout));
+      expect(document.success).toBe(false);
+      expect(document.error).toEqual({
+        error: true,
+        name: 'TestError',
+        code: 'TEST_ERROR',
+        message: 'Something failed',
+        details: 'details',
+        recoverable: true,
+      });
+    });
+  });
+});
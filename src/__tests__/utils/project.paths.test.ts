@@ -0,0 +1,33 @@
+import * as path from 'path';
+import { ProjectPaths } from '../../utils/project.paths';
+
+describe('ProjectPaths', () => {
+  const root = path.resolve('/project');
+
+  beforeEach(() => {
+    ProjectPaths.configure(root, path.join(root, 'src'));
+  });
+
+  it('should rebase path arguments onto the project root', () => {
+    expect(ProjectPaths.toProjectPath('config.json')).toBe(path.join('src', 'config.json'));
+    expect(ProjectPaths.toProjectPath('../.env')).toBe('.env');
+    expect(ProjectPaths.toProjectPath(path.join(root, 'docs'))).toBe('docs');
+  });
+
+  it('should keep paths outside the project relative so they are rejected', () => {
+    expect(ProjectPaths.toProjectPath('../../etc/passwd')).toBe(path.join('..', 'etc', 'passwd'));
+  });
+
+  it('should show project paths relative to the invocation directory', () => {
+    expect(ProjectPaths.toDisplayPath('.env')).toBe(path.join('..', '.env'));
+    expect(ProjectPaths.toDisplayPath(path.join('src', 'config.json'))).toBe('config.json');
+  });
+
+  it('should leave paths unchanged when started in the project root', () => {
+    ProjectPaths.configure(root, root);
+
+    expect(ProjectPaths.toDisplayPath(path.join('src', 'config.json'))).toBe(
+      path.join('src', 'config.json'),
+    );
+  });
+});
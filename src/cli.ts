@@ -1,16 +1,37 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
+import { Command, program } from 'commander';
 import chalk from 'chalk';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, resolve } from 'path';
 import { InitCommand } from './commands/init.command';
 import { StatusCommand } from './commands/status.command';
 import { AddCommand } from './commands/add.command';
+import { RemoveCommand } from './commands/remove.command';
+import { MvCommand } from './commands/mv.command';
 import { CommitCommand } from './commands/commit.command';
 import { GitOpsCommand } from './commands/gitops.command';
 import { CleanupCommand } from './commands/cleanup.command';
+import { DoctorCommand } from './commands/doctor.command';
+import { RemoteCommand } from './commands/remote.command';
+import { CloneCommand } from './commands/clone.command';
+import { EncryptionCommand } from './commands/encryption.command';
+import { HooksCommand } from './commands/hooks.command';
+import { RelocateCommand } from './commands/relocate.command';
+import { MigrateCommand } from './commands/migrate.command';
+import { LsCommand } from './commands/ls.command';
+import { ConfigCommand } from './commands/config.command';
+import { RecoverCommand } from './commands/recover.command';
+import { HistoryCommand } from './commands/history.command';
+import { SyncCommand } from './commands/sync.command';
+import { ConfigManager } from './core/config.manager';
+import { JournalService } from './core/journal.service';
+import { ProcessLockService } from './core/process-lock.service';
 import { EnhancedErrorHandler } from './errors/enhanced.error-handler';
+import { InvalidArgumentError } from './errors/specific.errors';
+import { OutputService, RenderOptions } from './utils/output.renderer';
+import { ProjectPaths } from './utils/project.paths';
+import { CommandResult, StorageCollisionResolution } from './types/config.types';
 
 /**
  * Main CLI entry point
@@ -30,33 +51,99 @@ async function main(): Promise<void> {
   program
     .name('pgit')
     .description('Private Git Tracking CLI - Manage private files with dual repositories')
-    .version(version);
+    .version(version)
+    .option('--json', 'Print results as JSON')
+    .option('-q, --quiet', 'Only print requested output and errors')
+    .option('--no-color', 'Disable colored output (also set by NO_COLOR)')
+    .option('-C <path>', 'Run as if pgit was started in <path>')
+    .option('--wait <seconds>', 'Wait for another running pgit command to finish (default: 0)')
+    .hook('preAction', async (_program, actionCommand) => {
+      const options = program.opts<{
+        json?: boolean;
+        quiet?: boolean;
+        color?: boolean;
+        C?: string;
+        wait?: string;
+      }>();
+      OutputService.configure(options);
+
+      if (options.C) {
+        changeDirectory(options.C);
+      }
+
+      // Commands run from the project root, path arguments and output stay relative to here
+      const invocationDir = process.cwd();
+      const root = await ConfigManager.findProjectRoot(invocationDir);
+      ProjectPaths.configure(root || invocationDir, invocationDir);
+
+      const commandPath = getCommandPath(actionCommand);
+      if (root && MUTATING_COMMANDS.includes(commandPath)) {
+        await acquireProcessLock(root, commandPath, options.wait);
+      }
+      if (root && !RECOVERY_AWARE_COMMANDS.includes(commandPath)) {
+        await warnAboutInterruptedOperation(root);
+      }
+    });
 
   // Initialize command
   program
     .command('init')
     .description('Initialize private git tracking in current directory')
+    .option('--encrypt', 'Encrypt files committed to the private repository')
+    .option('--key-file <path>', 'Use (or create) a key file instead of a passphrase')
+    .option('--storage-dir <dir>', 'Directory for private storage (default: .private-storage)')
+    .option(
+      '--external-storage',
+      'Keep private storage in the user data directory, outside the project',
+    )
+    .option('--config <file>', 'Configuration file (default: .private-config.json)')
     .option('-v, --verbose', 'Show verbose output')
     .action(async options => {
       try {
         const initCommand = new InitCommand();
-        const result = await initCommand.execute({ verbose: options.verbose });
-
-        if (result.success) {
-          console.log(
-            chalk.green(`✓ ${result.message || 'Private git tracking initialized successfully'}`),
-          );
-        } else {
-          console.error(
-            chalk.red(`✗ ${result.message || 'Failed to initialize private git tracking'}`),
-          );
-          process.exit(result.exitCode);
-        }
+        const result = await initCommand.execute({
+          verbose: options.verbose,
+          encrypt: options.encrypt,
+          keyFile: options.keyFile,
+          storageDir: options.storageDir,
+          externalStorage: options.externalStorage,
+          configFile: options.config,
+        });
+
+        renderResult(result, {
+          successMessage: 'Private git tracking initialized successfully',
+          failureMessage: 'Failed to initialize private git tracking',
+        });
       } catch (error) {
         handleError(error, 'init');
       }
     });
 
+  // Clone command
+  program
+    .command('clone <url>')
+    .description('Clone a private repository and link its files into the current directory')
+    .option('-b, --branch <branch>', 'Branch of the private repository to check out')
+    .option('-o, --origin <name>', 'Name of the remote (default: origin)')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (url, options) => {
+      try {
+        const cloneCommand = new CloneCommand();
+        const result = await cloneCommand.execute(url, {
+          verbose: options.verbose,
+          branch: options.branch,
+          origin: options.origin,
+        });
+
+        renderResult(result, {
+          successMessage: 'Private repository cloned successfully',
+          failureMessage: 'Failed to clone private repository',
+        });
+      } catch (error) {
+        handleError(error, 'clone');
+      }
+    });
+
   // Status command
   program
     .command('status')
@@ -64,15 +151,14 @@ async function main(): Promise<void> {
     .option('-v, --verbose', 'Show verbose output')
     .action(async options => {
       try {
-        const statusCommand = new StatusCommand();
+        const statusCommand = new StatusCommand(ProjectPaths.getRoot());
         const result = await statusCommand.execute({ verbose: options.verbose });
 
-        if (result.success) {
-          console.log(result.message || 'Status retrieved successfully');
-        } else {
-          console.error(chalk.red(`✗ ${result.message || 'Failed to get status'}`));
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          view: 'status',
+          verbose: options.verbose,
+          failureMessage: 'Failed to get status',
+        });
       } catch (error) {
         handleError(error);
       }
@@ -85,15 +171,34 @@ async function main(): Promise<void> {
     .option('-v, --verbose', 'Show verbose output')
     .action(async options => {
       try {
-        const statusCommand = new StatusCommand();
+        const statusCommand = new StatusCommand(ProjectPaths.getRoot());
         const result = await statusCommand.executePrivateOnly({ verbose: options.verbose });
 
-        if (result.success) {
-          console.log(result.message || 'Private status retrieved successfully');
-        } else {
-          console.error(chalk.red(`✗ ${result.message || 'Failed to get private status'}`));
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          view: 'private-status',
+          verbose: options.verbose,
+          failureMessage: 'Failed to get private status',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Ls command
+  program
+    .command('ls')
+    .description('List tracked paths with their recorded details')
+    .option('-v, --verbose', 'Show full hashes and timestamps')
+    .action(async options => {
+      try {
+        const lsCommand = new LsCommand(ProjectPaths.getRoot());
+        const result = await lsCommand.execute();
+
+        renderResult(result, {
+          view: 'ls',
+          verbose: options.verbose,
+          failureMessage: 'Failed to list tracked paths',
+        });
       } catch (error) {
         handleError(error);
       }
@@ -103,22 +208,96 @@ async function main(): Promise<void> {
   program
     .command('add <path...>')
     .description('Add file(s) or directory(ies) to private tracking')
+    .option(
+      '-e, --exclude <pattern>',
+      'Exclude files matching pattern (gitignore syntax, repeatable)',
+      (pattern: string, previous: string[]) => [...previous, pattern],
+      [],
+    )
+    .option(
+      '--link <strategy>',
+      'How the paths appear in the project: symlink (default), hardlink or copy',
+    )
+    .option('--keep-working', 'Track the project version of paths that already exist in storage')
+    .option('--keep-storage', 'Track the stored version of paths that already exist in storage')
+    .option('--abort', 'Stop when a path already exists in storage with other content')
+    .option('--dry-run', 'Show what would be done without making changes')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (paths, options) => {
+      try {
+        const addCommand = new AddCommand(ProjectPaths.getRoot());
+        const result = await addCommand.execute(
+          paths.map((inputPath: string) => ProjectPaths.toProjectPath(inputPath)),
+          {
+            verbose: options.verbose,
+            exclude: options.exclude,
+            link: options.link,
+            collision: getCollisionResolution(options),
+            dryRun: options.dryRun,
+          },
+        );
+
+        renderResult(result, {
+          successMessage: 'Files added to private tracking successfully',
+          failureMessage: 'Failed to add files to private tracking',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Remove command
+  program
+    .command('remove <path...>')
+    .alias('untrack')
+    .description('Remove file(s) or directory(ies) from private tracking')
+    .option('--keep-history', 'Keep the file history in the private repository (default)')
+    .option('--purge', 'Erase the file from the private repository history')
+    .option('--stage', 'Stage the restored file(s) in the main repository')
+    .option('--dry-run', 'Show what would be done without making changes')
     .option('-v, --verbose', 'Show verbose output')
     .action(async (paths, options) => {
       try {
-        const addCommand = new AddCommand();
-        const result = await addCommand.execute(paths, { verbose: options.verbose });
+        const removeCommand = new RemoveCommand(ProjectPaths.getRoot());
+        const result = await removeCommand.execute(
+          paths.map((inputPath: string) => ProjectPaths.toProjectPath(inputPath)),
+          {
+            verbose: options.verbose,
+            keepHistory: options.keepHistory,
+            purge: options.purge,
+            stage: options.stage,
+            dryRun: options.dryRun,
+          },
+        );
+
+        renderResult(result, {
+          successMessage: 'Files removed from private tracking successfully',
+          failureMessage: 'Failed to remove files from private tracking',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Mv command
+  program
+    .command('mv <source> <destination>')
+    .description('Move or rename a tracked file or directory')
+    .option('--dry-run', 'Show what would be done without making changes')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (source, destination, options) => {
+      try {
+        const mvCommand = new MvCommand(ProjectPaths.getRoot());
+        const result = await mvCommand.execute(
+          ProjectPaths.toProjectPath(source),
+          ProjectPaths.toProjectPath(destination),
+          { verbose: options.verbose, dryRun: options.dryRun },
+        );
 
-        if (result.success) {
-          console.log(
-            chalk.green(`✓ ${result.message || 'Files added to private tracking successfully'}`),
-          );
-        } else {
-          console.error(
-            chalk.red(`✗ ${result.message || 'Failed to add files to private tracking'}`),
-          );
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          successMessage: 'Tracked path moved successfully',
+          failureMessage: 'Failed to move tracked path',
+        });
       } catch (error) {
         handleError(error);
       }
@@ -129,24 +308,20 @@ async function main(): Promise<void> {
     .command('commit')
     .description('Commit changes to private repository')
     .option('-m, --message <message>', 'Commit message')
+    .option('--dry-run', 'Show what would be done without making changes')
     .option('-v, --verbose', 'Show verbose output')
     .action(async options => {
       try {
-        const commitCommand = new CommitCommand();
-        const result = await commitCommand.execute(options.message, { verbose: options.verbose });
+        const commitCommand = new CommitCommand(ProjectPaths.getRoot());
+        const result = await commitCommand.execute(options.message, {
+          verbose: options.verbose,
+          dryRun: options.dryRun,
+        });
 
-        if (result.success) {
-          console.log(
-            chalk.green(
-              `✓ ${result.message || 'Changes committed to private repository successfully'}`,
-            ),
-          );
-        } else {
-          console.error(
-            chalk.red(`✗ ${result.message || 'Failed to commit changes to private repository'}`),
-          );
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          successMessage: 'Changes committed to private repository successfully',
+          failureMessage: 'Failed to commit changes to private repository',
+        });
       } catch (error) {
         handleError(error);
       }
@@ -158,22 +333,24 @@ async function main(): Promise<void> {
     .description('Show commit history of private repository')
     .option('-n, --max-count <number>', 'Limit number of commits', '10')
     .option('--oneline', 'Show each commit on a single line')
+    .option('-p, --patch', 'Show the changes of each commit')
     .option('-v, --verbose', 'Show verbose output')
     .action(async options => {
       try {
-        const gitOpsCommand = new GitOpsCommand();
+        const gitOpsCommand = new GitOpsCommand(ProjectPaths.getRoot());
         const result = await gitOpsCommand.log(
           {
             maxCount: parseInt(options.maxCount) || 10,
             oneline: options.oneline,
+            patch: options.patch,
           },
           { verbose: options.verbose },
         );
 
-        if (!result.success) {
-          console.error(chalk.red(`✗ ${result.message || 'Failed to get commit history'}`));
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          view: options.oneline ? 'log-oneline' : 'log',
+          failureMessage: 'Failed to get commit history',
+        });
       } catch (error) {
         handleError(error);
       }
@@ -184,18 +361,76 @@ async function main(): Promise<void> {
     .command('add-changes')
     .description('Stage changes in private repository')
     .option('-A, --all', 'Stage all changes')
+    .option('--dry-run', 'Show what would be done without making changes')
     .option('-v, --verbose', 'Show verbose output')
     .action(async options => {
       try {
-        const gitOpsCommand = new GitOpsCommand();
-        const result = await gitOpsCommand.addChanges(options.all, { verbose: options.verbose });
+        const gitOpsCommand = new GitOpsCommand(ProjectPaths.getRoot());
+        const result = await gitOpsCommand.addChanges(options.all, {
+          verbose: options.verbose,
+          dryRun: options.dryRun,
+        });
+
+        renderResult(result, {
+          successMessage: 'Changes staged successfully',
+          failureMessage: 'Failed to stage changes',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Restore command
+  program
+    .command('restore [paths...]')
+    .description('Restore tracked paths from private history without moving HEAD')
+    .requiredOption('--from <rev|date>', 'Revision or date to restore from, e.g. "3 days ago"')
+    .option('--all', 'Restore every tracked path')
+    .option('--dry-run', 'Show what would be done without making changes')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (paths: string[], options) => {
+      try {
+        const gitOpsCommand = new GitOpsCommand(ProjectPaths.getRoot());
+        const result = await gitOpsCommand.restore(
+          paths.map(inputPath => ProjectPaths.toProjectPath(inputPath)),
+          { from: options.from, all: options.all },
+          { verbose: options.verbose, dryRun: options.dryRun },
+        );
 
-        if (result.success) {
-          console.log(chalk.green(`✓ ${result.message || 'Changes staged successfully'}`));
-        } else {
-          console.error(chalk.red(`✗ ${result.message || 'Failed to stage changes'}`));
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          successMessage: 'Files restored successfully',
+          failureMessage: 'Failed to restore files',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Sync command
+  program
+    .command('sync [paths...]')
+    .description('Copy changes between hard linked or copied paths and private storage')
+    .option('--keep-working', 'Resolve conflicts with the files in the project')
+    .option('--keep-storage', 'Resolve conflicts with the files in private storage')
+    .option('--dry-run', 'Show what would be done without making changes')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (paths: string[], options) => {
+      try {
+        const syncCommand = new SyncCommand(ProjectPaths.getRoot());
+        const result = await syncCommand.execute(
+          paths.map(inputPath => ProjectPaths.toProjectPath(inputPath)),
+          {
+            keepWorking: options.keepWorking,
+            keepStorage: options.keepStorage,
+            dryRun: options.dryRun,
+            verbose: options.verbose,
+          },
+        );
+
+        renderResult(result, {
+          successMessage: 'Sync completed',
+          failureMessage: 'Sync failed',
+        });
       } catch (error) {
         handleError(error);
       }
@@ -210,7 +445,7 @@ async function main(): Promise<void> {
     .option('-v, --verbose', 'Show verbose output')
     .action(async options => {
       try {
-        const gitOpsCommand = new GitOpsCommand();
+        const gitOpsCommand = new GitOpsCommand(ProjectPaths.getRoot());
         const result = await gitOpsCommand.diff(
           {
             cached: options.cached,
@@ -219,10 +454,7 @@ async function main(): Promise<void> {
           { verbose: options.verbose },
         );
 
-        if (!result.success) {
-          console.error(chalk.red(`✗ ${result.message || 'Failed to get differences'}`));
-          process.exit(result.exitCode);
-        }
+        renderResult(result, { view: 'diff', failureMessage: 'Failed to get differences' });
       } catch (error) {
         handleError(error);
       }
@@ -236,17 +468,16 @@ async function main(): Promise<void> {
     .option('-v, --verbose', 'Show verbose output')
     .action(async (name, options) => {
       try {
-        const gitOpsCommand = new GitOpsCommand();
+        const gitOpsCommand = new GitOpsCommand(ProjectPaths.getRoot());
         const result = await gitOpsCommand.branch(name, options.create, {
           verbose: options.verbose,
         });
 
-        if (result.success && name && options.create) {
-          console.log(chalk.green(`✓ ${result.message || 'Branch created successfully'}`));
-        } else if (!result.success) {
-          console.error(chalk.red(`✗ ${result.message || 'Failed to perform branch operation'}`));
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          view: 'branches',
+          successMessage: 'Branch created successfully',
+          failureMessage: 'Failed to perform branch operation',
+        });
       } catch (error) {
         handleError(error);
       }
@@ -256,40 +487,480 @@ async function main(): Promise<void> {
   program
     .command('checkout <target>')
     .description('Switch branches or restore files in private repository')
+    .option('--dry-run', 'Show what would be done without making changes')
     .option('-v, --verbose', 'Show verbose output')
     .action(async (target, options) => {
       try {
-        const gitOpsCommand = new GitOpsCommand();
-        const result = await gitOpsCommand.checkout(target, { verbose: options.verbose });
+        const gitOpsCommand = new GitOpsCommand(ProjectPaths.getRoot());
+        const result = await gitOpsCommand.checkout(target, {
+          verbose: options.verbose,
+          dryRun: options.dryRun,
+        });
+
+        renderResult(result, {
+          successMessage: 'Checkout completed successfully',
+          failureMessage: 'Failed to checkout',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Remote commands
+  const remote = program.command('remote').description('Manage remotes of the private repository');
+
+  remote
+    .command('add <name> <url>')
+    .description('Add a remote for the private repository')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (name, url, options) => {
+      try {
+        const remoteCommand = new RemoteCommand(ProjectPaths.getRoot());
+        const result = await remoteCommand.add(name, url, { verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Remote added successfully',
+          failureMessage: 'Failed to add remote',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  remote
+    .command('remove <name>')
+    .alias('rm')
+    .description('Remove a remote from the private repository')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (name, options) => {
+      try {
+        const remoteCommand = new RemoteCommand(ProjectPaths.getRoot());
+        const result = await remoteCommand.remove(name, { verbose: options.verbose });
 
-        if (result.success) {
-          console.log(chalk.green(`✓ ${result.message || 'Checkout completed successfully'}`));
-        } else {
-          console.error(chalk.red(`✗ ${result.message || 'Failed to checkout'}`));
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          successMessage: 'Remote removed successfully',
+          failureMessage: 'Failed to remove remote',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  remote
+    .command('list', { isDefault: true })
+    .description('List remotes of the private repository')
+    .option('-v, --verbose', 'Show remote URLs')
+    .action(async options => {
+      try {
+        const remoteCommand = new RemoteCommand(ProjectPaths.getRoot());
+        const result = await remoteCommand.list();
+
+        renderResult(result, {
+          view: 'remotes',
+          verbose: options.verbose,
+          failureMessage: 'Failed to list remotes',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Push command
+  program
+    .command('push [remote] [branch]')
+    .description('Push private repository to a remote')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (remoteName, branch, options) => {
+      try {
+        const remoteCommand = new RemoteCommand(ProjectPaths.getRoot());
+        const result = await remoteCommand.push(remoteName, branch, { verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Pushed successfully',
+          failureMessage: 'Failed to push',
+        });
       } catch (error) {
         handleError(error);
       }
     });
 
+  // Pull command
+  program
+    .command('pull [remote] [branch]')
+    .description('Pull private repository from a remote and relink tracked files')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (remoteName, branch, options) => {
+      try {
+        const remoteCommand = new RemoteCommand(ProjectPaths.getRoot());
+        const result = await remoteCommand.pull(remoteName, branch, { verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Pulled successfully',
+          failureMessage: 'Failed to pull',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Fetch command
+  program
+    .command('fetch [remote]')
+    .description('Fetch private repository from a remote')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (remoteName, options) => {
+      try {
+        const remoteCommand = new RemoteCommand(ProjectPaths.getRoot());
+        const result = await remoteCommand.fetch(remoteName, { verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Fetched successfully',
+          failureMessage: 'Failed to fetch',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Unlock command
+  program
+    .command('unlock')
+    .description('Decrypt private files using the passphrase or key file')
+    .option('--key-file <path>', 'Key file to unlock with')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async options => {
+      try {
+        const encryptionCommand = new EncryptionCommand(ProjectPaths.getRoot());
+        const result = await encryptionCommand.unlock({
+          verbose: options.verbose,
+          keyFile: options.keyFile && ProjectPaths.toAbsolutePath(options.keyFile),
+        });
+
+        renderResult(result, {
+          successMessage: 'Private storage unlocked',
+          failureMessage: 'Failed to unlock private storage',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Lock command
+  program
+    .command('lock')
+    .description('Forget the encryption key and leave only encrypted private files')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async options => {
+      try {
+        const encryptionCommand = new EncryptionCommand(ProjectPaths.getRoot());
+        const result = await encryptionCommand.lock({ verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Private storage locked',
+          failureMessage: 'Failed to lock private storage',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Hooks commands
+  const hooks = program
+    .command('hooks')
+    .description('Manage the main repository pre-commit hook that blocks private paths');
+
+  hooks
+    .command('install')
+    .description('Install the pre-commit hook, chaining any existing hook')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async options => {
+      try {
+        const hooksCommand = new HooksCommand(ProjectPaths.getRoot());
+        const result = await hooksCommand.install({ verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Pre-commit hook installed',
+          failureMessage: 'Failed to install pre-commit hook',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  hooks
+    .command('uninstall')
+    .description('Remove the pre-commit hook and restore the original one')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async options => {
+      try {
+        const hooksCommand = new HooksCommand(ProjectPaths.getRoot());
+        const result = await hooksCommand.uninstall({ verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Pre-commit hook removed',
+          failureMessage: 'Failed to uninstall pre-commit hook',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Staged file check, invoked by the pre-commit hook
+  hooks.command('check', { hidden: true }).action(async () => {
+    try {
+      const result = await new HooksCommand(ProjectPaths.getRoot()).check();
+
+      if (!result.success) {
+        console.error(chalk.red(`✗ ${result.message || 'Failed to check staged files'}`));
+        process.exit(result.exitCode);
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+  // Migrate command
+  program
+    .command('migrate')
+    .description('Upgrade the configuration file to the current format')
+    .option('--dry-run', 'Show the migration steps without changing anything')
+    .option('-y, --yes', 'Apply destructive steps without asking')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async options => {
+      try {
+        const migrateCommand = new MigrateCommand(ProjectPaths.getRoot());
+        const result = await migrateCommand.execute({
+          verbose: options.verbose,
+          dryRun: options.dryRun,
+          yes: options.yes,
+        });
+
+        renderResult(result, {
+          successMessage: 'Configuration migrated',
+          failureMessage: 'Failed to migrate configuration',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Config commands
+  const config = program.command('config').description('Read and write configuration settings');
+
+  config
+    .command('get <key>')
+    .description('Print the value of a setting')
+    .action(async key => {
+      try {
+        const configCommand = new ConfigCommand(ProjectPaths.getRoot());
+        const result = await configCommand.get(key);
+
+        renderResult(result, { view: 'setting', failureMessage: 'Failed to get setting' });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  config
+    .command('set <key> <value>')
+    .description('Change the value of a setting')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (key, value, options) => {
+      try {
+        const configCommand = new ConfigCommand(ProjectPaths.getRoot());
+        const result = await configCommand.set(key, value, { verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Setting updated',
+          failureMessage: 'Failed to set setting',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  config
+    .command('unset <key>')
+    .description('Reset a setting to its default value')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (key, options) => {
+      try {
+        const configCommand = new ConfigCommand(ProjectPaths.getRoot());
+        const result = await configCommand.unset(key, { verbose: options.verbose });
+
+        renderResult(result, {
+          successMessage: 'Setting reset',
+          failureMessage: 'Failed to unset setting',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  config
+    .command('list', { isDefault: true })
+    .description('List all settings')
+    .option('-v, --verbose', 'Show defaults of changed settings')
+    .action(async options => {
+      try {
+        const configCommand = new ConfigCommand(ProjectPaths.getRoot());
+        const result = await configCommand.list();
+
+        renderResult(result, {
+          view: 'settings',
+          verbose: options.verbose,
+          failureMessage: 'Failed to list settings',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Relocate storage command
+  program
+    .command('relocate-storage <new-dir>')
+    .description('Move private storage to another directory and re-point tracked links')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (newDir, options) => {
+      try {
+        const relocateCommand = new RelocateCommand(ProjectPaths.getRoot());
+        const result = await relocateCommand.execute(ProjectPaths.toAbsolutePath(newDir), {
+          verbose: options.verbose,
+        });
+
+        renderResult(result, {
+          successMessage: 'Private storage relocated',
+          failureMessage: 'Failed to relocate private storage',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Git filter used by encrypted storage, invoked by git itself
+  program.command('filter <mode> [file]', { hidden: true }).action(async (mode, file) => {
+    try {
+      if (!['clean', 'smudge', 'textconv'].includes(mode)) {
+        throw new Error(`Unknown filter mode: ${mode}`);
+      }
+      await new EncryptionCommand().filter(mode, file);
+    } catch (error) {
+      process.stderr.write(`pgit: ${error instanceof Error ? error.message : String(error)}\n`);
+      process.exit(1);
+    }
+  });
+
   // Cleanup command
   program
     .command('cleanup')
     .description('Fix and repair private git tracking system')
     .option('--force', 'Force cleanup operations')
+    .option('--dry-run', 'Show what would be done without making changes')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async options => {
+      try {
+        const cleanupCommand = new CleanupCommand(ProjectPaths.getRoot());
+        const result = await cleanupCommand.execute(options.force, {
+          verbose: options.verbose,
+          dryRun: options.dryRun,
+        });
+
+        renderResult(result, {
+          view: options.dryRun ? undefined : 'cleanup',
+          summary: true,
+          successMessage: 'Cleanup completed successfully',
+          failureMessage: 'Cleanup completed with issues',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Recover command
+  program
+    .command('recover')
+    .description('Roll back or complete an add or remove that was interrupted')
+    .option('--rollback', 'Undo the interrupted operation')
+    .option('--complete', 'Finish the interrupted operation')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async options => {
+      try {
+        const recoverCommand = new RecoverCommand(ProjectPaths.getRoot());
+        const result = await recoverCommand.execute({
+          rollback: options.rollback,
+          complete: options.complete,
+          verbose: options.verbose,
+        });
+
+        renderResult(result, {
+          successMessage: 'Recovery completed',
+          failureMessage: 'Recovery failed',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // History command
+  program
+    .command('history')
+    .description('List recorded operations, newest first')
+    .option('-n, --limit <number>', 'Only show the most recent operations')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async options => {
+      try {
+        const historyCommand = new HistoryCommand(ProjectPaths.getRoot());
+        const result = await historyCommand.list({
+          limit: parseInt(options.limit) || undefined,
+          verbose: options.verbose,
+        });
+
+        renderResult(result, {
+          view: 'history',
+          verbose: options.verbose,
+          failureMessage: 'Failed to read operation history',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Undo command
+  program
+    .command('undo [count]')
+    .description('Undo the last operation, or the last <count> operations, while it is still safe')
+    .option('-v, --verbose', 'Show verbose output')
+    .action(async (count, options) => {
+      try {
+        const historyCommand = new HistoryCommand(ProjectPaths.getRoot());
+        const result = await historyCommand.undo(count === undefined ? 1 : Number(count), {
+          verbose: options.verbose,
+        });
+
+        renderResult(result, {
+          successMessage: 'Undo completed',
+          failureMessage: 'Undo failed',
+        });
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Doctor command
+  program
+    .command('doctor')
+    .description('Diagnose the environment and the private git tracking setup')
     .option('-v, --verbose', 'Show verbose output')
     .action(async options => {
       try {
-        const cleanupCommand = new CleanupCommand();
-        const result = await cleanupCommand.execute(options.force, { verbose: options.verbose });
+        const doctorCommand = new DoctorCommand(ProjectPaths.getRoot());
+        const result = await doctorCommand.execute({ verbose: options.verbose });
 
-        if (result.success) {
-          console.log(chalk.green(`✓ ${result.message || 'Cleanup completed successfully'}`));
-        } else {
-          console.error(chalk.red(`✗ ${result.message || 'Cleanup completed with issues'}`));
-          process.exit(result.exitCode);
-        }
+        renderResult(result, {
+          view: 'doctor',
+          verbose: options.verbose,
+          failureMessage: 'Diagnostics found problems',
+        });
       } catch (error) {
         handleError(error);
       }
@@ -315,10 +986,177 @@ async function main(): Promise<void> {
   await program.parseAsync(process.argv);
 }
 
+/**
+ * Change to the directory given with -C, like git
+ */
+function changeDirectory(directory: string): void {
+  const targetDir = resolve(directory);
+  if (!existsSync(targetDir) || !statSync(targetDir).isDirectory()) {
+    throw new InvalidArgumentError(`Cannot change to '${directory}': not a directory`);
+  }
+  process.chdir(targetDir);
+}
+
+/**
+ * Get how add resolves storage collisions from its --keep-working, --keep-storage and --abort options
+ */
+function getCollisionResolution(options: {
+  keepWorking?: boolean;
+  keepStorage?: boolean;
+  abort?: boolean;
+}): StorageCollisionResolution | undefined {
+  const chosen = (
+    [
+      ['keep-working', options.keepWorking],
+      ['keep-storage', options.keepStorage],
+      ['abort', options.abort],
+    ] as const
+  ).filter(([, enabled]) => enabled);
+
+  if (chosen.length > 1) {
+    throw new InvalidArgumentError(
+      'Options --keep-working, --keep-storage and --abort cannot be used together',
+      'add',
+    );
+  }
+
+  return chosen[0]?.[0];
+}
+
+/**
+ * Commands that deal with interrupted operations themselves or must stay quiet
+ */
+const RECOVERY_AWARE_COMMANDS = [
+  'add',
+  'remove',
+  'mv',
+  'recover',
+  'undo',
+  'cleanup',
+  'doctor',
+  'filter',
+  'hooks check',
+];
+
+/**
+ * Commands that change the configuration, storage or a repository, they run one at a time per project.
+ * The filter and hook commands are left out because git runs them inside a locked command.
+ */
+const MUTATING_COMMANDS = [
+  'add',
+  'remove',
+  'mv',
+  'commit',
+  'add-changes',
+  'restore',
+  'sync',
+  'branch',
+  'checkout',
+  'remote add',
+  'remote remove',
+  'push',
+  'pull',
+  'fetch',
+  'unlock',
+  'lock',
+  'hooks install',
+  'hooks uninstall',
+  'migrate',
+  'config set',
+  'config unset',
+  'relocate-storage',
+  'cleanup',
+  'recover',
+  'undo',
+];
+
+/**
+ * Get the name of a subcommand including its parent commands, such as "remote add"
+ */
+function getCommandPath(command: Command): string {
+  const names: string[] = [];
+  for (let current: Command | null = command; current?.parent; current = current.parent) {
+    names.unshift(current.name());
+  }
+  return names.join(' ');
+}
+
+/**
+ * Take the process lock of an initialized project, it is released when the process exits
+ */
+async function acquireProcessLock(
+  root: string,
+  commandPath: string,
+  wait: string | undefined,
+): Promise<void> {
+  const waitSeconds = wait === undefined ? 0 : Number(wait);
+  if (!Number.isFinite(waitSeconds) || waitSeconds < 0) {
+    throw new InvalidArgumentError(`Invalid --wait value '${wait}': expected a number of seconds`);
+  }
+
+  const configManager = new ConfigManager(root);
+  if (!(await configManager.exists())) {
+    return;
+  }
+
+  let lockDir: string;
+  try {
+    lockDir = await configManager.getPrivateRepoPath();
+  } catch {
+    // Configuration problems are reported by the command itself
+    return;
+  }
+
+  // So is a missing private repository directory
+  if (existsSync(lockDir)) {
+    await new ProcessLockService(lockDir).acquire(`pgit ${commandPath}`, waitSeconds);
+  }
+}
+
+/**
+ * Warn when an earlier add or remove was interrupted, so it is recovered before anything else changes
+ */
+async function warnAboutInterruptedOperation(root: string): Promise<void> {
+  try {
+    const configManager = new ConfigManager(root);
+    if (!(await configManager.exists())) {
+      return;
+    }
+
+    const journal = await new JournalService(await configManager.getPrivateRepoPath()).read();
+    if (journal && JournalService.isStale(journal)) {
+      console.warn(chalk.yellow(`⚠ Interrupted ${JournalService.describe(journal)}`));
+      console.warn(
+        chalk.yellow(
+          '  Run "pgit recover --rollback" to undo it or "pgit recover --complete" to finish it',
+        ),
+      );
+    }
+  } catch {
+    // Configuration and journal problems are reported by the command itself
+  }
+}
+
+/**
+ * Render a command result with the active renderer, failures exit with the result's exit code
+ */
+function renderResult(result: CommandResult, options: RenderOptions): void {
+  OutputService.getRenderer().renderResult(result, options);
+
+  if (!result.success) {
+    process.exit(result.exitCode);
+  }
+}
+
 /**
  * Handle errors with enhanced formatting and recovery suggestions
  */
 function handleError(error: unknown, command?: string): void {
+  if (OutputService.getFormat() === 'json') {
+    OutputService.getRenderer().renderError(error);
+    process.exit(1);
+  }
+
   const context = EnhancedErrorHandler.createContext(command, [], process.cwd());
   EnhancedErrorHandler.handleError(error, context);
   process.exit(1);
@@ -1,13 +1,45 @@
 import * as path from 'path';
 import chalk from 'chalk';
-import { CommandResult, CommandOptions, DEFAULT_PATHS } from '../types/config.types';
+import {
+  CommandResult,
+  CommandOptions,
+  MainRepoState,
+  TrackedFileDetails,
+  DEFAULT_PATHS,
+  DryRunPlan,
+  EXCLUDED_PATHS,
+  TransactionRecord,
+  LinkStrategy,
+  LINK_STRATEGIES,
+  StorageCollisionResolution,
+  StorageCollisionPlan,
+} from '../types/config.types';
 import { ConfigManager } from '../core/config.manager';
 import { FileSystemService } from '../core/filesystem.service';
 import { GitService } from '../core/git.service';
 import { SymlinkService } from '../core/symlink.service';
+import { LinkService } from '../core/link.service';
+import { PgitignoreService } from '../core/pgitignore.service';
+import { ManifestService } from '../core/manifest.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { HistoryService } from '../core/history.service';
+import { JournalService } from '../core/journal.service';
+import { StorageCollision, StorageCollisionService } from '../core/storage-collision.service';
 import { BaseError } from '../errors/base.error';
 import { InputValidator } from '../utils/input.validator';
-import { PathNotFoundError, UnsafePathError, InvalidInputError } from '../errors/specific.errors';
+import { GlobMatcher } from '../utils/glob.matcher';
+import { DryRunReporter } from '../utils/dry-run.reporter';
+import { PromptService } from '../utils/prompt.service';
+import { ProjectPaths } from '../utils/project.paths';
+import { OutputService } from '../utils/output.renderer';
+import {
+  PathNotFoundError,
+  UnsafePathError,
+  InvalidInputError,
+  OperationInterruptedError,
+  InvalidArgumentError,
+  StorageCollisionError,
+} from '../errors/specific.errors';
 
 /**
  * Multi-path validation result interface
@@ -73,13 +105,13 @@ export class AddCommand {
   private readonly workingDir: string;
   private readonly fileSystem: FileSystemService;
   private readonly configManager: ConfigManager;
-  private readonly symlinkService: SymlinkService;
+  private readonly linkService: LinkService;
 
   constructor(workingDir?: string) {
     this.workingDir = workingDir || process.cwd();
     this.fileSystem = new FileSystemService();
     this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
-    this.symlinkService = new SymlinkService(this.fileSystem);
+    this.linkService = new LinkService(this.fileSystem);
   }
 
   /**
@@ -91,7 +123,10 @@ export class AddCommand {
   ): Promise<CommandResult> {
     try {
       // Handle both single and multiple file inputs
-      const pathsArray = Array.isArray(filePaths) ? filePaths : [filePaths];
+      const inputPaths = Array.isArray(filePaths) ? filePaths : [filePaths];
+
+      // Expand glob patterns relative to the project root
+      const pathsArray = await this.expandPathPatterns(inputPaths, options.exclude);
 
       // Limit the number of files that can be processed in a single batch
       const MAX_BATCH_SIZE = 100;
@@ -110,7 +145,7 @@ export class AddCommand {
       }
 
       // Validate environment
-      await this.validateEnvironment();
+      await this.validateEnvironment(options.link);
 
       // Validate and process multiple paths
       const validationResult = await this.validateAndNormalizeMultiplePaths(pathsArray);
@@ -147,17 +182,69 @@ export class AddCommand {
         }
       }
 
+      // Paths left in private storage, e.g. by an earlier remove --keep-storage, must not be overwritten
+      const collisionService = new StorageCollisionService(
+        this.workingDir,
+        this.configManager,
+        this.fileSystem,
+      );
+      const collisions = await collisionService.find(validationResult.normalizedPaths);
+
+      // Report the plan without touching the disk
+      if (options.dryRun) {
+        const plan = await this.buildAddPlan(validationResult.normalizedPaths, options);
+        for (const collision of collisions) {
+          plan.warnings.push(
+            `${collision.path} already exists in private storage with different content, ${
+              options.collision
+                ? `resolving with --${options.collision}`
+                : 'use --keep-working or --keep-storage'
+            }`,
+          );
+        }
+        DryRunReporter.display(plan);
+
+        return {
+          success: true,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: 0,
+        };
+      }
+
+      // The version that is not kept is moved aside as the first step of the add
+      const collision: StorageCollisionPlan | undefined =
+        collisions.length > 0
+          ? {
+              resolution: await this.chooseCollisionResolution(
+                collisionService,
+                collisions,
+                options.collision,
+              ),
+              conflictCopies: await collisionService.planConflictCopies(collisions),
+            }
+          : undefined;
+      const conflictCopies = Object.values(collision?.conflictCopies || {});
+
       // Execute the add operation atomically for all files
-      await this.executeMultipleAddOperation(validationResult.normalizedPaths, options);
+      await this.executeMultipleAddOperation(validationResult.normalizedPaths, options, collision);
+      await new GitignoreService(this.workingDir, this.fileSystem).syncTrackedPathsFromConfig(
+        this.configManager,
+        options.verbose,
+      );
 
-      const successMessage =
+      let successMessage =
         pathsArray.length === 1
-          ? `Successfully added ${validationResult.normalizedPaths[0]} to private tracking`
+          ? `Successfully added ${ProjectPaths.toDisplayPath(validationResult.normalizedPaths[0])} to private tracking`
           : `Successfully added ${validationResult.normalizedPaths.length} files to private tracking`;
+      if (conflictCopies.length > 0) {
+        successMessage += `, the other version of ${collisions.map(collision => collision.path).join(', ')} was kept in ${path.dirname(conflictCopies[0])}`;
+      }
 
       return {
         success: true,
         message: successMessage,
+        data: { addedPaths: validationResult.normalizedPaths, conflictCopies },
         exitCode: 0,
       };
     } catch (error) {
@@ -166,7 +253,7 @@ export class AddCommand {
           success: false,
           message: error.message,
           error,
-          exitCode: 1,
+          exitCode: error instanceof OperationInterruptedError ? error.exitCode : 1,
         };
       }
 
@@ -179,10 +266,102 @@ export class AddCommand {
     }
   }
 
+  /**
+   * Decide which version of colliding paths to keep, asking when no option chose one.
+   * Differences are shown for text files so the choice can be made knowingly.
+   */
+  private async chooseCollisionResolution(
+    collisionService: StorageCollisionService,
+    collisions: StorageCollision[],
+    resolution?: StorageCollisionResolution,
+  ): Promise<Exclude<StorageCollisionResolution, 'abort'>> {
+    const paths = collisions.map(collision => collision.path);
+    const error = new StorageCollisionError(
+      `${paths.join(', ')} already exist${collisions.length === 1 ? 's' : ''} in private storage with different content, add with --keep-working or --keep-storage to choose the version to track`,
+      {
+        paths,
+        workingDir: this.workingDir,
+        storagePath: await this.configManager.getStoragePath(),
+        conflictsPath: await collisionService.getConflictsPath(),
+      },
+    );
+
+    if (resolution === 'abort') {
+      throw error;
+    }
+    if (resolution) {
+      return resolution;
+    }
+
+    for (const collision of collisions) {
+      console.log(
+        chalk.yellow(`⚠️  ${collision.path} already exists in private storage with other content`),
+      );
+      console.log(
+        collision.diff
+          ? collision.diff.trimEnd()
+          : chalk.gray('   Binary files or directories differ'),
+      );
+    }
+
+    if (!PromptService.isInteractive()) {
+      throw error;
+    }
+
+    const answer = (
+      await PromptService.ask('Keep the (w)orking tree version, the (s)torage version or (a)bort? ')
+    ).toLowerCase();
+    if (answer === 'w' || answer === 'working') {
+      return 'keep-working';
+    }
+    if (answer === 's' || answer === 'storage') {
+      return 'keep-storage';
+    }
+
+    throw error;
+  }
+
+  /**
+   * Expand glob patterns into concrete paths and show what each pattern matched
+   */
+  private async expandPathPatterns(
+    inputPaths: string[],
+    excludePatterns: string[] = [],
+  ): Promise<string[]> {
+    // Storage, the private repository and the config file may live anywhere in the project
+    const privatePaths = [
+      await this.configManager.getStoragePath(),
+      await this.configManager.getPrivateRepoPath(),
+      await this.configManager.getConfigPath(),
+    ].map(privatePath => path.relative(this.workingDir, privatePath));
+
+    const { paths, expansions } = await GlobMatcher.expandAll(this.workingDir, inputPaths, {
+      excludedNames: EXCLUDED_PATHS,
+      excludedPaths: privatePaths,
+      excludePatterns,
+    });
+
+    for (const [pattern, matches] of expansions) {
+      if (matches.length === 0) {
+        throw new PathNotFoundError(`No files match pattern: ${pattern}`);
+      }
+
+      const renderer = OutputService.getRenderer();
+      renderer.renderNotice(
+        chalk.blue(`🔍 Pattern '${pattern}' matched ${matches.length} path(s):`),
+      );
+      for (const match of matches) {
+        renderer.renderNotice(chalk.gray(`   ${ProjectPaths.toDisplayPath(match)}`));
+      }
+    }
+
+    return paths;
+  }
+
   /**
    * Validate that the environment is ready for add operation
    */
-  private async validateEnvironment(): Promise<void> {
+  private async validateEnvironment(strategy: LinkStrategy = 'symlink'): Promise<void> {
     // Check if private git tracking is initialized
     if (!(await this.configManager.exists())) {
       throw new NotInitializedError(
@@ -190,15 +369,22 @@ export class AddCommand {
       );
     }
 
+    if (!LINK_STRATEGIES.includes(strategy)) {
+      throw new InvalidArgumentError(
+        `Invalid link strategy '${strategy}': expected one of ${LINK_STRATEGIES.join(', ')}`,
+        'link',
+      );
+    }
+
     // Check if symbolic links are supported
-    if (!(await SymlinkService.supportsSymlinks())) {
+    if (strategy === 'symlink' && !(await SymlinkService.supportsSymlinks())) {
       throw new AddError(
-        'This platform does not support symbolic links, which are required for private file tracking.',
+        'This platform does not support symbolic links, use "--link copy" to track files as copies instead.',
       );
     }
 
     // Check if private storage directory exists
-    const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+    const storagePath = await this.configManager.getStoragePath();
     if (!(await this.fileSystem.pathExists(storagePath))) {
       throw new AddError(
         'Private storage directory does not exist. The initialization may have failed.',
@@ -270,6 +456,19 @@ export class AddCommand {
     // Create safe absolute path
     const safePath = InputValidator.createSafePath(this.workingDir, validation.normalizedPath);
 
+    // Storage and configuration may live at custom locations the input validator does not know
+    const privatePaths = [
+      await this.configManager.getStoragePath(),
+      await this.configManager.getConfigPath(),
+    ];
+    if (
+      privatePaths.some(
+        privatePath => safePath === privatePath || safePath.startsWith(`${privatePath}${path.sep}`),
+      )
+    ) {
+      throw new UnsafePathError(`Path is part of private git tracking itself: ${filePath}`);
+    }
+
     // Check if file/directory exists
     if (!(await this.fileSystem.pathExists(safePath))) {
       throw new PathNotFoundError(`Path does not exist: ${filePath}`);
@@ -311,12 +510,137 @@ export class AddCommand {
     }
   }
 
+  /**
+   * Collect the facts recorded in the configuration for a path about to be tracked
+   */
+  private async describeTrackedPath(
+    relativePath: string,
+    strategy: LinkStrategy = 'symlink',
+    collision?: StorageCollisionPlan,
+  ): Promise<TrackedFileDetails> {
+    // With --keep-storage the stored version is the one that ends up tracked
+    const fullPath =
+      collision?.resolution === 'keep-storage' && collision.conflictCopies[relativePath]
+        ? path.join(await this.configManager.getStoragePath(), relativePath)
+        : path.join(this.workingDir, relativePath);
+    const stats = await this.fileSystem.getLinkStats(fullPath);
+    const { sha256, size } = await this.fileSystem.hashPath(fullPath);
+
+    return {
+      mainRepoState: await this.getMainRepoState(relativePath),
+      isDirectory: stats.isDirectory(),
+      mode: stats.mode & 0o7777,
+      size,
+      sha256,
+      // Hard links and copies are synced from the content they start with
+      ...(strategy !== 'symlink' && { linkStrategy: strategy, syncedSha256: sha256 }),
+    };
+  }
+
+  /**
+   * Get the state of a path in the main repository
+   */
+  private async getMainRepoState(relativePath: string): Promise<MainRepoState> {
+    try {
+      const gitService = new GitService(this.workingDir, this.fileSystem);
+
+      if (!(await gitService.isRepository())) {
+        return 'unknown';
+      }
+      if (await gitService.isTracked(relativePath)) {
+        return 'tracked';
+      }
+      return (await gitService.isIgnored(relativePath)) ? 'ignored' : 'untracked';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  /**
+   * Build the dry run plan for adding paths, mirroring executeMultipleAddOperation
+   */
+  private async buildAddPlan(
+    relativePaths: string[],
+    options: CommandOptions,
+  ): Promise<DryRunPlan> {
+    const plan = DryRunReporter.createPlan('add');
+    const privateStoragePath = await this.configManager.getStoragePath();
+    const storageDisplayPath = path.relative(this.workingDir, privateStoragePath);
+
+    if (!(await new GitService(privateStoragePath, this.fileSystem).isRepository())) {
+      throw new AddError('Private git repository not found. The initialization may have failed.');
+    }
+
+    const mainIndexRemovals: string[] = [];
+    for (const relativePath of relativePaths) {
+      const gitState = await this.getFileGitState(relativePath);
+      if (gitState.isTracked) {
+        mainIndexRemovals.push(relativePath);
+      }
+
+      const storagePath = path.join(storageDisplayPath, relativePath);
+      plan.moves.push({ from: relativePath, to: storagePath });
+      plan.symlinks.push({ action: 'create', link: relativePath, target: storagePath });
+    }
+
+    if (mainIndexRemovals.length > 0) {
+      plan.indexChanges.push({ repository: 'main', action: 'remove', paths: mainIndexRemovals });
+    }
+
+    const privateFiles = [...relativePaths];
+    const excludeRules = await this.getExcludeRules(
+      relativePaths,
+      options.exclude,
+      this.workingDir,
+    );
+    if (excludeRules.length > 0) {
+      const pgitignoreService = new PgitignoreService(privateStoragePath, this.fileSystem);
+      const additions = await pgitignoreService.getNewRules(excludeRules);
+
+      if (additions.length > 0) {
+        plan.ignoreFileEdits.push({
+          file: path.join(storageDisplayPath, DEFAULT_PATHS.pgitignore),
+          additions,
+        });
+        privateFiles.push(DEFAULT_PATHS.pgitignore);
+      }
+    }
+
+    if (options.exclude && options.exclude.length > 0 && excludeRules.length === 0) {
+      plan.warnings.push('Exclude patterns only apply to directories, no rules will be recorded');
+    }
+
+    privateFiles.push(DEFAULT_PATHS.manifest);
+    plan.indexChanges.push({ repository: 'private', action: 'add', paths: privateFiles });
+    plan.commits.push({
+      repository: 'private',
+      message:
+        relativePaths.length === 1
+          ? `Add file to private tracking: ${relativePaths[0]}`
+          : 'Add files to private tracking',
+      files: privateFiles,
+    });
+    plan.configChanges.push(
+      `Add tracked path(s) to ${ProjectPaths.toDisplayPath(await this.configManager.getConfigPath())}: ${relativePaths.map(relativePath => ProjectPaths.toDisplayPath(relativePath)).join(', ')}`,
+    );
+
+    const config = await this.configManager.load();
+    await new GitignoreService(this.workingDir, this.fileSystem).planTrackedPathsFromConfig(
+      this.configManager,
+      [...config.trackedPaths, ...relativePaths],
+      plan,
+    );
+
+    return plan;
+  }
+
   /**
    * Execute atomic add operation for multiple files
    */
   private async executeMultipleAddOperation(
     relativePaths: string[],
     options: CommandOptions,
+    collision?: StorageCollisionPlan,
   ): Promise<void> {
     if (relativePaths.length === 0) {
       throw new AddError('No valid paths to process');
@@ -324,36 +648,49 @@ export class AddCommand {
 
     if (relativePaths.length === 1) {
       // Use the existing single file operation for single files
-      return this.executeAddOperation(relativePaths[0], options);
+      return this.executeAddOperation(relativePaths[0], options, collision);
     }
 
     // For multiple files, implement atomic batch operation
+    const privateStoragePath = await this.configManager.getStoragePath();
     const rollbackActions: Array<() => Promise<void>> = [];
     const processedPaths: string[] = [];
     const originalGitStates = new Map<string, { isTracked: boolean; isStaged: boolean }>();
 
-    try {
-      if (options.verbose) {
-        console.log(chalk.gray(`   Processing ${relativePaths.length} files atomically...`));
-      }
+    if (options.verbose) {
+      console.log(chalk.gray(`   Processing ${relativePaths.length} files atomically...`));
+    }
 
-      // Step 1: Record original git states for all files
-      for (const relativePath of relativePaths) {
-        const originalState = await this.getFileGitState(relativePath);
-        originalGitStates.set(relativePath, originalState);
-      }
+    // Step 1: Record original git states and tracking details for all files
+    const details = new Map<string, TrackedFileDetails>();
+    for (const relativePath of relativePaths) {
+      const originalState = await this.getFileGitState(relativePath);
+      originalGitStates.set(relativePath, originalState);
+      details.set(
+        relativePath,
+        await this.describeTrackedPath(relativePath, options.link, collision),
+      );
+    }
+
+    const journal = await this.beginJournal(
+      relativePaths,
+      originalGitStates,
+      details,
+      options,
+      ['commit', 'config'],
+      collision,
+    );
+
+    try {
+      // First move the version of colliding paths that is not kept to its conflict copy
+      await this.resolveCollisions(collision, rollbackActions, journal);
 
       // Step 2: Remove all files from main git index
       if (options.verbose) {
         console.log(chalk.gray('   Removing files from main git index...'));
       }
 
-      for (const relativePath of relativePaths) {
-        await this.removeFromMainGitIndex(relativePath);
-        processedPaths.push(relativePath);
-      }
-
-      // Add rollback for all git operations
+      // Rollback actions are registered up front so an interrupted loop is undone as well
       rollbackActions.push(async () => {
         for (const relativePath of processedPaths) {
           const originalState = originalGitStates.get(relativePath);
@@ -363,26 +700,22 @@ export class AddCommand {
         }
       });
 
+      for (const relativePath of relativePaths) {
+        await this.removeFromMainGitIndex(relativePath);
+        processedPaths.push(relativePath);
+        await journal.completeStep('unindex', relativePath);
+      }
+
       // Step 3: Move all files to private storage
       if (options.verbose) {
         console.log(chalk.gray('   Moving files to private storage...'));
       }
 
       const movedFiles: string[] = [];
-      for (const relativePath of relativePaths) {
-        const originalPath = path.join(this.workingDir, relativePath);
-        const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage, relativePath);
-
-        await this.fileSystem.moveFileAtomic(originalPath, storagePath);
-        this.fileSystem.clearRollbackActions();
-        movedFiles.push(relativePath);
-      }
-
-      // Add rollback for file moves
       rollbackActions.push(async () => {
         for (const relativePath of movedFiles.reverse()) {
           const originalPath = path.join(this.workingDir, relativePath);
-          const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage, relativePath);
+          const storagePath = path.join(privateStoragePath, relativePath);
 
           if (await this.fileSystem.pathExists(storagePath)) {
             if (await this.fileSystem.pathExists(originalPath)) {
@@ -394,68 +727,78 @@ export class AddCommand {
         }
       });
 
+      for (const relativePath of relativePaths) {
+        const originalPath = path.join(this.workingDir, relativePath);
+        const storagePath = path.join(privateStoragePath, relativePath);
+
+        await this.fileSystem.moveFileAtomic(originalPath, storagePath);
+        this.fileSystem.clearRollbackActions();
+        movedFiles.push(relativePath);
+        await journal.completeStep('move', relativePath);
+      }
+
       // Step 4: Create all symbolic links
       if (options.verbose) {
         console.log(chalk.gray('   Creating symbolic links...'));
       }
 
       const createdLinks: string[] = [];
-      for (const relativePath of relativePaths) {
-        const originalPath = path.join(this.workingDir, relativePath);
-        const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage, relativePath);
-
-        const isDirectory = await this.fileSystem.isDirectory(storagePath);
-        await this.symlinkService.create(storagePath, originalPath, {
-          force: true,
-          createParents: true,
-          isDirectory,
-        });
-        createdLinks.push(relativePath);
-      }
-
-      // Add rollback for symbolic links
       rollbackActions.push(async () => {
         for (const relativePath of createdLinks.reverse()) {
           const originalPath = path.join(this.workingDir, relativePath);
-          await this.symlinkService.remove(originalPath);
+          await this.linkService.remove(originalPath, options.link);
         }
       });
 
+      for (const relativePath of relativePaths) {
+        const originalPath = path.join(this.workingDir, relativePath);
+        const storagePath = path.join(privateStoragePath, relativePath);
+
+        await this.linkService.create(storagePath, originalPath, options.link);
+        createdLinks.push(relativePath);
+        await journal.completeStep('link', relativePath);
+      }
+
       // Step 5: Add all files to private git repository and commit in one transaction
       if (options.verbose) {
         console.log(chalk.gray('   Adding files to private git repository...'));
       }
 
-      const privateStoragePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
       const gitService = new GitService(privateStoragePath, this.fileSystem);
 
       if (!(await gitService.isRepository())) {
         throw new AddError('Private git repository not found. The initialization may have failed.');
       }
 
+      // Record exclude patterns for directories so excluded files stay untracked
+      const excludeFiles = await this.applyExcludePatterns(relativePaths, options, rollbackActions);
+      await journal.completeStep('exclude');
+      const manifestFiles = await this.updateManifest(details, rollbackActions);
+
       // Use the new atomic commit method
       const commitHash = await gitService.addFilesAndCommit(
-        relativePaths,
+        [...relativePaths, ...excludeFiles, ...manifestFiles],
         'Add files to private tracking',
       );
 
       // Add rollback for git operations
       rollbackActions.push(async () => {
         try {
-          // Reset the private repository to before the commit
-          await gitService.reset('hard', 'HEAD~1');
+          // Undo the commit but keep the files, the move rollback takes them back
+          await gitService.reset('mixed', 'HEAD~1');
         } catch {
           // If reset fails, try to remove files individually
           await gitService.removeFromIndex(relativePaths, false);
         }
       });
+      await journal.completeStep('commit');
 
       // Step 6: Update configuration with all paths
       if (options.verbose) {
         console.log(chalk.gray('   Updating configuration...'));
       }
 
-      await this.configManager.addMultipleTrackedPaths(relativePaths);
+      await this.configManager.addMultipleTrackedPaths(relativePaths, details);
 
       // Add rollback for configuration
       rollbackActions.push(async () => {
@@ -465,6 +808,7 @@ export class AddCommand {
           // Ignore errors during rollback
         }
       });
+      await journal.completeStep('config');
 
       if (options.verbose) {
         console.log(
@@ -473,42 +817,288 @@ export class AddCommand {
         console.log(chalk.gray(`   Commit hash: ${commitHash}`));
       }
     } catch (error) {
-      // Execute rollback in reverse order
-      if (options.verbose) {
-        console.log(chalk.yellow('   Rolling back changes due to error...'));
+      await this.rollback(rollbackActions, journal, options);
+      throw error;
+    }
+
+    await this.recordHistory(await journal.finish());
+  }
+
+  /**
+   * Record the add in the transaction journal before touching the disk,
+   * so an interrupted add can be finished or undone by "pgit recover"
+   */
+  private async beginJournal(
+    relativePaths: string[],
+    originalGitStates: Map<string, { isTracked: boolean; isStaged: boolean }>,
+    details: Map<string, TrackedFileDetails>,
+    options: CommandOptions,
+    finalSteps: string[],
+    collision?: StorageCollisionPlan,
+  ): Promise<JournalService> {
+    const privateStoragePath = await this.configManager.getStoragePath();
+    const exclude = !!options.exclude && options.exclude.length > 0;
+
+    let privateHead: string | undefined;
+    try {
+      const gitService = new GitService(privateStoragePath, this.fileSystem);
+      privateHead = (await gitService.resolveRevision('HEAD')) || undefined;
+    } catch {
+      // A missing private repository is reported by the operation itself
+    }
+
+    const journal = new JournalService(await this.configManager.getPrivateRepoPath());
+    await journal.begin({
+      operation: 'add',
+      paths: relativePaths,
+      storagePath: privateStoragePath,
+      privateHead,
+      mainIndexPaths: relativePaths.filter(
+        relativePath => originalGitStates.get(relativePath)?.isTracked,
+      ),
+      details: Object.fromEntries(details),
+      exclude,
+      collision,
+      steps: [
+        ...Object.keys(collision?.conflictCopies || {}).map(relativePath => ({
+          name: 'resolve',
+          path: relativePath,
+        })),
+        ...['unindex', 'move', 'link'].flatMap(name =>
+          relativePaths.map(relativePath => ({ name, path: relativePath })),
+        ),
+        ...(exclude ? [{ name: 'exclude' }] : []),
+        ...finalSteps.map(name => ({ name })),
+      ],
+    });
+
+    return journal;
+  }
+
+  /**
+   * Move the version that is not kept of each colliding path to its conflict copy.
+   * The rollback runs after the files are back in the project and puts the conflict copies back.
+   */
+  private async resolveCollisions(
+    collision: StorageCollisionPlan | undefined,
+    rollbackActions: Array<() => Promise<void>>,
+    journal: JournalService,
+  ): Promise<void> {
+    if (!collision) {
+      return;
+    }
+
+    const collisionService = new StorageCollisionService(
+      this.workingDir,
+      this.configManager,
+      this.fileSystem,
+    );
+    const storagePath = await this.configManager.getStoragePath();
+    const resolvedPaths: string[] = [];
+
+    rollbackActions.push(async () => {
+      for (const relativePath of resolvedPaths.reverse()) {
+        await collisionService.restore(
+          relativePath,
+          collision.conflictCopies[relativePath],
+          collision.resolution,
+          storagePath,
+        );
       }
+    });
 
-      for (const rollbackAction of rollbackActions.reverse()) {
-        try {
-          await rollbackAction();
-        } catch (rollbackError) {
-          // Log rollback errors but don't throw to avoid masking original error
-          console.error(
-            chalk.red(
-              `   Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`,
-            ),
-          );
-        }
+    for (const [relativePath, conflictCopy] of Object.entries(collision.conflictCopies)) {
+      // Registered before moving, restoring checks the disk and also undoes a half resolved path
+      resolvedPaths.push(relativePath);
+      await collisionService.resolve(relativePath, conflictCopy, collision.resolution, storagePath);
+      await journal.completeStep('resolve', relativePath);
+    }
+  }
+
+  /**
+   * Record the completed add in the operation history for "pgit undo"
+   */
+  private async recordHistory(transaction: TransactionRecord | undefined): Promise<void> {
+    if (!transaction) {
+      return;
+    }
+
+    const history = new HistoryService(
+      await this.configManager.getPrivateRepoPath(),
+      this.fileSystem,
+    );
+    const gitService = new GitService(transaction.storagePath, this.fileSystem);
+
+    await history.record({
+      operation: 'add',
+      paths: transaction.paths,
+      privateHead: {
+        before: transaction.privateHead,
+        after: (await gitService.resolveRevision('HEAD')) || undefined,
+      },
+      configDiff: { added: transaction.paths, removed: [] },
+      hashes: await history.hashPaths(transaction.storagePath, transaction.paths),
+      transaction,
+    });
+  }
+
+  /**
+   * Run rollback actions in reverse order. The journal is removed when everything was undone,
+   * otherwise it is kept so "pgit recover --rollback" can finish the job.
+   */
+  private async rollback(
+    rollbackActions: Array<() => Promise<void>>,
+    journal: JournalService,
+    options: CommandOptions,
+  ): Promise<void> {
+    if (options.verbose) {
+      console.log(chalk.yellow('   Rolling back changes due to error...'));
+    }
+
+    let rollbackFailed = false;
+    for (const rollbackAction of rollbackActions.reverse()) {
+      try {
+        await rollbackAction();
+      } catch (rollbackError) {
+        // Log rollback errors but don't throw to avoid masking original error
+        rollbackFailed = true;
+        console.error(
+          chalk.red(
+            `   Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`,
+          ),
+        );
       }
+    }
 
-      throw error;
+    if (rollbackFailed) {
+      journal.release();
+      console.error(chalk.yellow('   Run "pgit recover --rollback" to finish rolling back'));
+    } else {
+      await journal.finish();
     }
   }
 
+  /**
+   * Record exclude patterns for added directories in .pgitignore.
+   * Returns additional files that must be committed together with the added paths.
+   */
+  private async applyExcludePatterns(
+    relativePaths: string[],
+    options: CommandOptions,
+    rollbackActions: Array<() => Promise<void>>,
+  ): Promise<string[]> {
+    const privateStoragePath = await this.configManager.getStoragePath();
+    const gitService = new GitService(privateStoragePath, this.fileSystem);
+
+    // Make sure the private repository respects .pgitignore, also for repositories created earlier
+    await gitService.setExcludesFile(DEFAULT_PATHS.pgitignore);
+
+    const excludeRules = await this.getExcludeRules(
+      relativePaths,
+      options.exclude,
+      privateStoragePath,
+    );
+    if (excludeRules.length === 0) {
+      return [];
+    }
+
+    if (options.verbose) {
+      console.log(chalk.gray(`   Updating ${DEFAULT_PATHS.pgitignore}...`));
+    }
+
+    const pgitignoreService = new PgitignoreService(privateStoragePath, this.fileSystem);
+    const previousContent = await pgitignoreService.readContent();
+    const addedRules = await pgitignoreService.addRules(
+      excludeRules,
+      `Excluded when adding ${relativePaths.join(', ')}`,
+    );
+
+    rollbackActions.push(async () => {
+      await pgitignoreService.restoreContent(previousContent);
+    });
+
+    return addedRules.length > 0 ? [DEFAULT_PATHS.pgitignore] : [];
+  }
+
+  /**
+   * Add the new paths to the manifest so the store alone is enough to set the project up again.
+   * Returns the files that must be committed together with the added paths.
+   */
+  private async updateManifest(
+    details: Map<string, TrackedFileDetails>,
+    rollbackActions: Array<() => Promise<void>>,
+  ): Promise<string[]> {
+    const manifestService = new ManifestService(
+      await this.configManager.getStoragePath(),
+      this.fileSystem,
+    );
+    const previousContent = await manifestService.readContent();
+
+    rollbackActions.push(async () => {
+      await manifestService.restoreContent(previousContent);
+    });
+
+    return (await manifestService.writeFromConfig(await this.configManager.load(), details))
+      ? [DEFAULT_PATHS.manifest]
+      : [];
+  }
+
+  /**
+   * Build .pgitignore rules for exclude patterns, scoped to each added directory.
+   * The root directory is where the paths currently live (project root or private storage).
+   */
+  private async getExcludeRules(
+    relativePaths: string[],
+    excludePatterns: string[] = [],
+    rootDir: string,
+  ): Promise<string[]> {
+    if (excludePatterns.length === 0) {
+      return [];
+    }
+
+    const rules: string[] = [];
+    for (const relativePath of relativePaths) {
+      if (await this.fileSystem.isDirectory(path.join(rootDir, relativePath))) {
+        for (const pattern of excludePatterns) {
+          rules.push(PgitignoreService.scopeToDirectory(relativePath, pattern));
+        }
+      }
+    }
+
+    return rules;
+  }
+
   /**
    * Execute the complete add operation atomically for a single file
    */
-  private async executeAddOperation(relativePath: string, options: CommandOptions): Promise<void> {
+  private async executeAddOperation(
+    relativePath: string,
+    options: CommandOptions,
+    collision?: StorageCollisionPlan,
+  ): Promise<void> {
     const originalPath = path.join(this.workingDir, relativePath);
-    const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage, relativePath);
+    const storagePath = path.join(await this.configManager.getStoragePath(), relativePath);
 
     // Store rollback actions
     const rollbackActions: Array<() => Promise<void>> = [];
 
-    // Record original git state before making any changes
+    // Record original git state and tracking details before making any changes
     const originalGitState = await this.getFileGitState(relativePath);
+    const details = await this.describeTrackedPath(relativePath, options.link, collision);
+
+    const journal = await this.beginJournal(
+      [relativePath],
+      new Map([[relativePath, originalGitState]]),
+      new Map([[relativePath, details]]),
+      options,
+      ['config', 'commit'],
+      collision,
+    );
 
     try {
+      // First move the version that is not kept to its conflict copy
+      await this.resolveCollisions(collision, rollbackActions, journal);
+
       if (options.verbose) {
         console.log(chalk.gray('   Removing from main git index...'));
       }
@@ -519,6 +1109,7 @@ export class AddCommand {
         // Restore to original git state
         await this.restoreToOriginalGitState(relativePath, originalGitState);
       });
+      await journal.completeStep('unindex', relativePath);
 
       if (options.verbose) {
         console.log(chalk.gray('   Moving file to private storage...'));
@@ -539,6 +1130,7 @@ export class AddCommand {
           this.fileSystem.clearRollbackActions();
         }
       });
+      await journal.completeStep('move', relativePath);
 
       if (options.verbose) {
         console.log(chalk.gray('   Creating symbolic link...'));
@@ -552,24 +1144,30 @@ export class AddCommand {
         );
       }
 
-      // Step 3: Create symbolic link
-      const isDirectory = await this.fileSystem.isDirectory(storagePath);
-      await this.symlinkService.create(storagePath, originalPath, {
-        force: true,
-        createParents: true,
-        isDirectory,
-      });
+      // Step 3: Create symbolic link, hard link or copy
+      await this.linkService.create(storagePath, originalPath, options.link);
       rollbackActions.push(async () => {
-        // Remove symbolic link
-        await this.symlinkService.remove(originalPath);
+        // Remove symbolic link, hard link or copy
+        await this.linkService.remove(originalPath, options.link);
       });
+      await journal.completeStep('link', relativePath);
 
       if (options.verbose) {
         console.log(chalk.gray('   Adding to private git repository...'));
       }
 
-      // Step 4: Add to private git repository
-      await this.addToPrivateGit(relativePath);
+      // Step 4: Add to private git repository, recording exclude patterns first
+      const excludeFiles = await this.applyExcludePatterns(
+        [relativePath],
+        options,
+        rollbackActions,
+      );
+      await journal.completeStep('exclude');
+      const manifestFiles = await this.updateManifest(
+        new Map([[relativePath, details]]),
+        rollbackActions,
+      );
+      await this.addToPrivateGit(relativePath, [...excludeFiles, ...manifestFiles]);
       rollbackActions.push(async () => {
         // Remove from private git
         await this.removeFromPrivateGit(relativePath);
@@ -580,7 +1178,7 @@ export class AddCommand {
       }
 
       // Step 5: Update configuration
-      await this.configManager.addTrackedPath(relativePath);
+      await this.configManager.addTrackedPath(relativePath, details);
       rollbackActions.push(async () => {
         // Remove from tracked paths
         try {
@@ -589,6 +1187,7 @@ export class AddCommand {
           // Ignore errors during rollback
         }
       });
+      await journal.completeStep('config');
 
       if (options.verbose) {
         console.log(chalk.gray('   Committing to private repository...'));
@@ -596,31 +1195,17 @@ export class AddCommand {
 
       // Step 6: Commit to private repository
       await this.commitToPrivateGit(relativePath, 'Add file to private tracking');
+      await journal.completeStep('commit');
 
       if (options.verbose) {
         console.log(chalk.green('   ✓ File successfully added to private tracking'));
       }
     } catch (error) {
-      // Execute rollback in reverse order
-      if (options.verbose) {
-        console.log(chalk.yellow('   Rolling back changes due to error...'));
-      }
-
-      for (const rollbackAction of rollbackActions.reverse()) {
-        try {
-          await rollbackAction();
-        } catch (rollbackError) {
-          // Log rollback errors but don't throw to avoid masking original error
-          console.error(
-            chalk.red(
-              `   Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`,
-            ),
-          );
-        }
-      }
-
+      await this.rollback(rollbackActions, journal, options);
       throw error;
     }
+
+    await this.recordHistory(await journal.finish());
   }
 
   /**
@@ -653,22 +1238,25 @@ export class AddCommand {
   /**
    * Add file to private git repository
    */
-  private async addToPrivateGit(relativePath: string): Promise<void> {
-    const privateStoragePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+  private async addToPrivateGit(
+    relativePath: string,
+    additionalFiles: string[] = [],
+  ): Promise<void> {
+    const privateStoragePath = await this.configManager.getStoragePath();
     const gitService = new GitService(privateStoragePath, this.fileSystem);
 
     if (!(await gitService.isRepository())) {
       throw new AddError('Private git repository not found. The initialization may have failed.');
     }
 
-    await gitService.addFiles([relativePath]);
+    await gitService.addFiles([relativePath, ...additionalFiles]);
   }
 
   /**
    * Commit changes to private git repository
    */
   private async commitToPrivateGit(relativePath: string, message: string): Promise<void> {
-    const privateStoragePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+    const privateStoragePath = await this.configManager.getStoragePath();
     const gitService = new GitService(privateStoragePath, this.fileSystem);
 
     await gitService.commit(`${message}: ${relativePath}`);
@@ -679,10 +1267,11 @@ export class AddCommand {
    */
   private async removeFromPrivateGit(relativePath: string): Promise<void> {
     try {
-      const privateStoragePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+      const privateStoragePath = await this.configManager.getStoragePath();
       const gitService = new GitService(privateStoragePath, this.fileSystem);
 
-      await gitService.removeFromIndex(relativePath, false);
+      // Unstage only, the file itself is moved back by the move rollback
+      await gitService.removeFromIndex(relativePath, true);
     } catch {
       // Ignore errors during rollback
     }
@@ -1,11 +1,25 @@
 import * as path from 'path';
 import chalk from 'chalk';
-import { CommandResult, CommandOptions, DEFAULT_PATHS } from '../types/config.types';
-import { ConfigManager } from '../core/config.manager';
+import {
+  CleanupResult,
+  CommandResult,
+  CommandOptions,
+  DEFAULT_PATHS,
+  DryRunPlan,
+  IndexEntry,
+  LinkStrategy,
+} from '../types/config.types';
+import { ConfigManager, BACKUP_SUFFIX } from '../core/config.manager';
 import { FileSystemService } from '../core/filesystem.service';
 import { GitService } from '../core/git.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { HistoryService } from '../core/history.service';
+import { JournalService } from '../core/journal.service';
 import { SymlinkService } from '../core/symlink.service';
+import { LinkService } from '../core/link.service';
+import { SyncService } from '../core/sync.service';
 import { BaseError } from '../errors/base.error';
+import { DryRunReporter } from '../utils/dry-run.reporter';
 
 /**
  * Cleanup command specific errors
@@ -20,18 +34,6 @@ export class NotInitializedError extends BaseError {
   public readonly recoverable = false;
 }
 
-/**
- * Cleanup result information
- */
-export interface CleanupResult {
-  repairedSymlinks: number;
-  cleanedIndexEntries: number;
-  updatedGitignore: boolean;
-  configValidated: boolean;
-  issues: string[];
-  warnings: string[];
-}
-
 /**
  * Cleanup command for system repair and maintenance
  */
@@ -40,12 +42,14 @@ export class CleanupCommand {
   private readonly fileSystem: FileSystemService;
   private readonly configManager: ConfigManager;
   private readonly symlinkService: SymlinkService;
+  private readonly linkService: LinkService;
 
   constructor(workingDir?: string) {
     this.workingDir = workingDir || process.cwd();
     this.fileSystem = new FileSystemService();
     this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
     this.symlinkService = new SymlinkService(this.fileSystem);
+    this.linkService = new LinkService(this.fileSystem);
   }
 
   /**
@@ -62,45 +66,85 @@ export class CleanupCommand {
 
       const result: CleanupResult = {
         repairedSymlinks: 0,
+        reabsorbedPaths: [],
         cleanedIndexEntries: 0,
         updatedGitignore: false,
+        updatedExcludeFiles: [],
         configValidated: false,
         issues: [],
         warnings: [],
       };
 
-      // Step 1: Validate and repair configuration
+      // In dry run mode repairs are recorded in the plan instead of being applied
+      const plan = options.dryRun ? DryRunReporter.createPlan('cleanup') : undefined;
+
+      // Step 1: Report add or remove operations that were interrupted
+      if (options.verbose) {
+        console.log(chalk.gray('   Checking for interrupted operations...'));
+      }
+      await this.checkInterruptedOperations(result, options.verbose);
+
+      // Step 2: Validate and repair configuration
       if (options.verbose) {
         console.log(chalk.gray('   Validating configuration...'));
       }
       await this.validateAndRepairConfig(result, options.verbose);
 
-      // Step 2: Repair broken symbolic links
+      // Step 3: Repair broken symbolic links
       if (options.verbose) {
         console.log(chalk.gray('   Checking and repairing symbolic links...'));
       }
-      await this.repairSymbolicLinks(result, options.verbose);
+      await this.repairSymbolicLinks(result, options.verbose, plan);
 
-      // Step 3: Clean up git index issues
+      // Step 4: Clean up git index issues
       if (options.verbose) {
         console.log(chalk.gray('   Cleaning up git index...'));
       }
-      await this.cleanupGitIndex(result, force, options.verbose);
+      const mainIndex = await this.cleanupGitIndex(result, force, options.verbose, plan);
 
-      // Step 4: Update .gitignore if needed
+      // Step 5: Update .gitignore if needed
       if (options.verbose) {
         console.log(chalk.gray('   Checking .gitignore...'));
       }
-      await this.updateGitignoreIfNeeded(result, options.verbose);
+      const gitignore = await this.updateGitignoreIfNeeded(result, options.verbose, plan);
 
-      // Step 5: Validate repositories
+      // Step 6: Bring the tracked paths hidden from the main repository up to date
+      if (options.verbose) {
+        console.log(chalk.gray('   Checking tracked paths in ignore files...'));
+      }
+      await this.updateTrackedPathExclusions(result, options.verbose, plan);
+
+      // Step 7: Validate repositories
       if (options.verbose) {
         console.log(chalk.gray('   Validating repositories...'));
       }
       await this.validateRepositories(result, options.verbose);
 
-      // Display results
-      this.displayCleanupResults(result);
+      if (plan) {
+        plan.warnings.push(...result.issues, ...result.warnings);
+        DryRunReporter.display(plan);
+
+        return {
+          success: result.issues.length === 0,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: result.issues.length === 0 ? 0 : 1,
+        };
+      }
+
+      // Record what a forced cleanup changed in the operation history for "pgit undo"
+      if (force && (mainIndex || gitignore)) {
+        const history = new HistoryService(
+          await this.configManager.getPrivateRepoPath(),
+          this.fileSystem,
+        );
+        await history.record({
+          operation: 'cleanup',
+          paths: mainIndex?.before.map(entry => entry.path) ?? [],
+          mainIndex,
+          gitignore,
+        });
+      }
 
       const hasIssues = result.issues.length > 0;
 
@@ -162,7 +206,7 @@ export class CleanupCommand {
 
       if (health.needsMigration) {
         result.warnings.push(
-          `Configuration needs migration from ${health.currentVersion} to ${health.targetVersion}`,
+          `Configuration needs migration from ${health.currentVersion} to ${health.targetVersion}, run "pgit migrate"`,
         );
       }
     } catch (error) {
@@ -175,20 +219,81 @@ export class CleanupCommand {
   /**
    * Repair broken symbolic links
    */
-  private async repairSymbolicLinks(result: CleanupResult, verbose?: boolean): Promise<void> {
+  private async repairSymbolicLinks(
+    result: CleanupResult,
+    verbose?: boolean,
+    plan?: DryRunPlan,
+  ): Promise<void> {
     try {
       const config = await this.configManager.load();
-      const storagePath = path.join(this.workingDir, config.storagePath);
+      const storagePath = path.resolve(this.workingDir, config.storagePath);
+      const records = await this.configManager.getTrackedFiles();
+
+      // Files that editors saved over their symbolic link are taken over before links are repaired
+      const reabsorb = await new SyncService(
+        this.workingDir,
+        this.configManager,
+        this.fileSystem,
+      ).sync({
+        paths: records
+          .filter(record => !record.linkStrategy || record.linkStrategy === 'symlink')
+          .map(record => record.path),
+        dryRun: !!plan,
+        verbose,
+      });
+      result.reabsorbedPaths.push(...reabsorb.reabsorbed);
+      for (const conflict of reabsorb.conflicts) {
+        result.issues.push(
+          `${conflict} replaced its symbolic link and private storage changed since, keep one with "pgit sync --keep-working" or "pgit sync --keep-storage"`,
+        );
+      }
+      for (const relativePath of reabsorb.reabsorbed) {
+        plan?.moves.push({
+          from: relativePath,
+          to: path.join(config.storagePath, relativePath),
+        });
+      }
+
+      for (const record of records) {
+        const trackedPath = record.path;
+        // A repair would delete the newer content
+        if (reabsorb.conflicts.includes(trackedPath)) {
+          continue;
+        }
 
-      for (const trackedPath of config.trackedPaths) {
         const linkPath = path.join(this.workingDir, trackedPath);
         const targetPath = path.join(storagePath, trackedPath);
 
+        if (record.linkStrategy && record.linkStrategy !== 'symlink') {
+          await this.repairLinkedCopy(record.linkStrategy, trackedPath, targetPath, result, {
+            verbose,
+            plan,
+          });
+          continue;
+        }
+
         const linkInfo = await this.symlinkService.validate(linkPath);
+        // Links left pointing at a previous storage location are repaired as well
+        const pointsElsewhere = linkInfo.isHealthy && linkInfo.targetPath !== targetPath;
+
+        if (!linkInfo.isHealthy || pointsElsewhere) {
+          if (plan) {
+            plan.symlinks.push({
+              action: 'repair',
+              link: trackedPath,
+              target: path.join(config.storagePath, trackedPath),
+            });
+            continue;
+          }
 
-        if (!linkInfo.isHealthy) {
           if (verbose) {
-            console.log(chalk.yellow(`     Repairing broken symlink: ${trackedPath}`));
+            console.log(
+              chalk.yellow(
+                pointsElsewhere
+                  ? `     Re-pointing symlink at private storage: ${trackedPath}`
+                  : `     Repairing broken symlink: ${trackedPath}`,
+              ),
+            );
           }
 
           try {
@@ -215,13 +320,63 @@ export class CleanupCommand {
   }
 
   /**
-   * Clean up git index issues
+   * Recreate a missing or replaced hard link or copy from storage,
+   * content that differs from storage is left for "pgit sync"
+   */
+  private async repairLinkedCopy(
+    strategy: LinkStrategy,
+    trackedPath: string,
+    targetPath: string,
+    result: CleanupResult,
+    options: { verbose?: boolean; plan?: DryRunPlan },
+  ): Promise<void> {
+    const linkPath = path.join(this.workingDir, trackedPath);
+
+    try {
+      const state = await this.linkService.inspect(targetPath, linkPath, strategy);
+
+      if (state.healthy || !state.repairable) {
+        if (options.verbose) {
+          console.log(
+            state.healthy
+              ? chalk.green(`     ✓ Healthy ${strategy}: ${trackedPath}`)
+              : chalk.yellow(`     Skipping ${trackedPath}: ${state.reason || 'not in sync'}`),
+          );
+        }
+        return;
+      }
+
+      if (options.plan) {
+        options.plan.symlinks.push({
+          action: 'repair',
+          link: trackedPath,
+          target: path.relative(this.workingDir, targetPath),
+        });
+        return;
+      }
+
+      await this.linkService.create(targetPath, linkPath, strategy);
+      result.repairedSymlinks++;
+
+      if (options.verbose) {
+        console.log(chalk.green(`       ✓ Repaired ${strategy}: ${trackedPath}`));
+      }
+    } catch (error) {
+      result.issues.push(
+        `Failed to repair ${strategy} ${trackedPath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Clean up git index issues, returns the index entries of the paths before and after
    */
   private async cleanupGitIndex(
     result: CleanupResult,
     force: boolean,
     verbose?: boolean,
-  ): Promise<void> {
+    plan?: DryRunPlan,
+  ): Promise<{ before: IndexEntry[]; after: IndexEntry[] } | undefined> {
     try {
       const gitService = new GitService(this.workingDir, this.fileSystem);
 
@@ -239,7 +394,13 @@ export class CleanupCommand {
         }
 
         if (trackedPrivateFiles.length > 0) {
-          if (force) {
+          if (force && plan) {
+            plan.indexChanges.push({
+              repository: 'main',
+              action: 'remove',
+              paths: trackedPrivateFiles,
+            });
+          } else if (force) {
             if (verbose) {
               console.log(
                 chalk.yellow(
@@ -248,6 +409,7 @@ export class CleanupCommand {
               );
             }
 
+            const entriesBefore = await gitService.getIndexEntries(trackedPrivateFiles);
             await gitService.removeFromIndex(trackedPrivateFiles, true);
             result.cleanedIndexEntries = trackedPrivateFiles.length;
 
@@ -258,6 +420,11 @@ export class CleanupCommand {
                 ),
               );
             }
+
+            return {
+              before: entriesBefore,
+              after: await gitService.getIndexEntries(trackedPrivateFiles),
+            };
           } else {
             result.warnings.push(
               `Found ${trackedPrivateFiles.length} private file(s) in git index. Use --force to remove them.`,
@@ -272,39 +439,46 @@ export class CleanupCommand {
         `Git index cleanup error: ${error instanceof Error ? error.message : String(error)}`,
       );
     }
+
+    return undefined;
   }
 
   /**
-   * Update .gitignore if needed
+   * Update .gitignore if needed, returns its content before and after an update
    */
-  private async updateGitignoreIfNeeded(result: CleanupResult, verbose?: boolean): Promise<void> {
+  private async updateGitignoreIfNeeded(
+    result: CleanupResult,
+    verbose?: boolean,
+    plan?: DryRunPlan,
+  ): Promise<{ before: string; after: string } | undefined> {
     try {
       const gitignorePath = path.join(this.workingDir, '.gitignore');
+      const config = await this.configManager.load();
+      const configPath = await this.configManager.getConfigPath();
+      const gitignoreService = new GitignoreService(this.workingDir, this.fileSystem);
       const requiredEntries = [
         '# Private Git Tracking (auto-generated)',
-        '.git-private',
-        '.private-storage',
-        '.private-config.json',
+        ...gitignoreService.getIgnoreEntries([
+          config.privateRepoPath,
+          config.storagePath,
+          configPath,
+          `${configPath}${BACKUP_SUFFIX}*`,
+        ]),
       ];
 
       let gitignoreContent = '';
-      let needsUpdate = false;
-
       if (await this.fileSystem.pathExists(gitignorePath)) {
         gitignoreContent = await this.fileSystem.readFile(gitignorePath);
-      } else {
-        needsUpdate = true;
       }
 
-      // Check if all required entries are present
-      for (const entry of requiredEntries) {
-        if (!gitignoreContent.includes(entry)) {
-          needsUpdate = true;
-          break;
-        }
-      }
+      // Only add the entries that are missing
+      const existingLines = gitignoreContent.split(/\r?\n/).map(line => line.trim());
+      const missingEntries = requiredEntries.filter(entry => !existingLines.includes(entry));
+      const needsUpdate = missingEntries.length > 0;
 
-      if (needsUpdate) {
+      if (needsUpdate && plan) {
+        plan.ignoreFileEdits.push({ file: DEFAULT_PATHS.gitignore, additions: missingEntries });
+      } else if (needsUpdate) {
         if (verbose) {
           console.log(chalk.yellow('     Updating .gitignore...'));
         }
@@ -312,7 +486,7 @@ export class CleanupCommand {
         const newContent =
           gitignoreContent.trim() +
           (gitignoreContent.trim() ? '\n\n' : '') +
-          requiredEntries.join('\n') +
+          missingEntries.join('\n') +
           '\n';
 
         await this.fileSystem.writeFileAtomic(gitignorePath, newContent);
@@ -321,6 +495,8 @@ export class CleanupCommand {
         if (verbose) {
           console.log(chalk.green('       ✓ Updated .gitignore'));
         }
+
+        return { before: gitignoreContent, after: newContent };
       } else if (verbose) {
         console.log(chalk.green('     ✓ .gitignore is up to date'));
       }
@@ -329,6 +505,92 @@ export class CleanupCommand {
         `Gitignore update error: ${error instanceof Error ? error.message : String(error)}`,
       );
     }
+
+    return undefined;
+  }
+
+  /**
+   * Check the block of tracked paths in .git/info/exclude or .gitignore against the configuration
+   */
+  private async updateTrackedPathExclusions(
+    result: CleanupResult,
+    verbose?: boolean,
+    plan?: DryRunPlan,
+  ): Promise<void> {
+    try {
+      const config = await this.configManager.load();
+      const gitignoreService = new GitignoreService(this.workingDir, this.fileSystem);
+
+      const edits = plan
+        ? await gitignoreService.planTrackedPaths(
+            config.trackedPaths,
+            config.settings.excludeTrackedPaths,
+          )
+        : await gitignoreService.updateTrackedPaths(
+            config.trackedPaths,
+            config.settings.excludeTrackedPaths,
+          );
+
+      for (const edit of edits) {
+        if (plan) {
+          plan.ignoreFileEdits.push({
+            file: edit.file,
+            additions: edit.additions,
+            removals: edit.removals,
+          });
+        } else {
+          result.updatedExcludeFiles.push(edit.file);
+          if (verbose) {
+            console.log(chalk.green(`       ✓ Updated tracked paths in ${edit.file}`));
+          }
+        }
+      }
+
+      if (edits.length === 0 && verbose) {
+        console.log(chalk.green('     ✓ Tracked paths in ignore files are up to date'));
+      }
+    } catch (error) {
+      result.issues.push(
+        `Tracked path exclusion error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Report an interrupted add or remove, it is recovered with "pgit recover" rather than repaired here
+   */
+  private async checkInterruptedOperations(
+    result: CleanupResult,
+    verbose?: boolean,
+  ): Promise<void> {
+    try {
+      const journalService = new JournalService(
+        await this.configManager.getPrivateRepoPath(),
+        this.fileSystem,
+      );
+      const journal = await journalService.read();
+
+      if (!journal) {
+        if (verbose) {
+          console.log(chalk.green('     ✓ No interrupted operations'));
+        }
+        return;
+      }
+
+      if (JournalService.isStale(journal)) {
+        result.issues.push(
+          `Interrupted ${JournalService.describe(journal)}. Run "pgit recover --rollback" or "pgit recover --complete".`,
+        );
+      } else {
+        result.warnings.push(
+          `A ${journal.operation} operation is still running (process ${journal.pid})`,
+        );
+      }
+    } catch (error) {
+      result.issues.push(
+        `Transaction journal error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
   }
 
   /**
@@ -349,7 +611,7 @@ export class CleanupCommand {
       }
 
       // Validate private repository
-      const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+      const storagePath = await this.configManager.getStoragePath();
       if (await this.fileSystem.pathExists(storagePath)) {
         const privateGitService = new GitService(storagePath, this.fileSystem);
         if (await privateGitService.isRepository()) {
@@ -372,48 +634,4 @@ export class CleanupCommand {
       );
     }
   }
-
-  /**
-   * Display cleanup results
-   */
-  private displayCleanupResults(result: CleanupResult): void {
-    console.log();
-    console.log(chalk.blue.bold('🧹 Cleanup Results'));
-
-    if (result.repairedSymlinks > 0) {
-      console.log(`   ${chalk.green('✓')} Repaired ${result.repairedSymlinks} symbolic link(s)`);
-    }
-
-    if (result.cleanedIndexEntries > 0) {
-      console.log(`   ${chalk.green('✓')} Cleaned ${result.cleanedIndexEntries} git index entries`);
-    }
-
-    if (result.updatedGitignore) {
-      console.log(`   ${chalk.green('✓')} Updated .gitignore`);
-    }
-
-    if (result.configValidated) {
-      console.log(`   ${chalk.green('✓')} Configuration validated`);
-    }
-
-    if (result.warnings.length > 0) {
-      console.log();
-      console.log(chalk.yellow.bold('⚠️  Warnings:'));
-      for (const warning of result.warnings) {
-        console.log(`   ${chalk.yellow('•')} ${warning}`);
-      }
-    }
-
-    if (result.issues.length > 0) {
-      console.log();
-      console.log(chalk.red.bold('❌ Issues:'));
-      for (const issue of result.issues) {
-        console.log(`   ${chalk.red('•')} ${issue}`);
-      }
-    }
-
-    if (result.issues.length === 0 && result.warnings.length === 0) {
-      console.log(`   ${chalk.green('✓')} No issues found`);
-    }
-  }
 }
@@ -0,0 +1,258 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { CommandResult, CommandOptions, DEFAULT_PATHS } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitService } from '../core/git.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { SymlinkService } from '../core/symlink.service';
+import { ManifestService, LinkTrackedPathsResult } from '../core/manifest.service';
+import { EncryptionService } from '../core/encryption.service';
+import { BaseError } from '../errors/base.error';
+import { InputValidator } from '../utils/input.validator';
+
+/**
+ * Clone command specific errors
+ */
+export class CloneError extends BaseError {
+  public readonly code = 'CLONE_ERROR';
+  public readonly recoverable = true;
+}
+
+export class AlreadyInitializedError extends BaseError {
+  public readonly code = 'ALREADY_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Clone command options
+ */
+export interface CloneOptions extends CommandOptions {
+  /** Branch of the private repository to check out */
+  branch?: string;
+  /** Name for the remote, defaults to origin */
+  origin?: string;
+}
+
+/**
+ * Clone command for bootstrapping private files from a remote on a fresh checkout
+ */
+export class CloneCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+  private readonly symlinkService: SymlinkService;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+    this.symlinkService = new SymlinkService(this.fileSystem);
+  }
+
+  /**
+   * Execute the clone command
+   */
+  public async execute(url: string, options: CloneOptions = {}): Promise<CommandResult> {
+    const rollbackActions: Array<() => Promise<void>> = [];
+
+    try {
+      const remoteName = options.origin || 'origin';
+      InputValidator.validateRemoteUrl(url);
+      InputValidator.validateRemoteName(remoteName);
+      if (options.branch) {
+        InputValidator.validateBranchName(options.branch);
+      }
+
+      await this.validateEnvironment();
+
+      if (options.verbose) {
+        console.log(chalk.blue(`📥 Cloning private repository from ${url}...`));
+      }
+
+      const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+      const privateRepoPath = path.join(this.workingDir, DEFAULT_PATHS.privateRepo);
+
+      // Clone into the storage directory
+      await this.fileSystem.createDirectory(storagePath);
+      rollbackActions.push(async () => {
+        await this.fileSystem.remove(storagePath);
+      });
+      await this.fileSystem.createDirectory(privateRepoPath);
+      rollbackActions.push(async () => {
+        await this.fileSystem.remove(privateRepoPath);
+      });
+
+      const gitService = new GitService(storagePath, this.fileSystem);
+      await gitService.cloneRepository(url, remoteName, options.branch);
+
+      // Local git configuration is not cloned
+      await gitService.setExcludesFile(DEFAULT_PATHS.pgitignore);
+
+      // Read the manifest committed by "pgit push"
+      const manifestService = new ManifestService(
+        storagePath,
+        this.fileSystem,
+        this.symlinkService,
+      );
+      const manifest = await manifestService.read();
+      if (!manifest) {
+        throw new CloneError(
+          `Remote is not a pgit repository: ${DEFAULT_PATHS.manifest} not found`,
+          'Run "pgit push" from a machine that tracks the private files first',
+        );
+      }
+
+      // Rebuild the configuration
+      if (options.verbose) {
+        console.log(chalk.gray(`   Creating ${DEFAULT_PATHS.config}...`));
+      }
+      await this.configManager.create(this.workingDir);
+      rollbackActions.push(async () => {
+        await this.fileSystem.remove(path.join(this.workingDir, DEFAULT_PATHS.config));
+      });
+      await this.configManager.addRemote({ name: remoteName, url });
+
+      // Create the link of every tracked path
+      if (options.verbose) {
+        console.log(chalk.gray('   Creating links...'));
+      }
+      const linkResult = await manifestService.linkTrackedPaths(
+        this.workingDir,
+        manifest.trackedPaths,
+        manifest.linkStrategies,
+      );
+
+      // Conflicting paths are left untracked so "pgit pull" can link them once resolved
+      const trackedPaths = [
+        ...linkResult.linked,
+        ...linkResult.alreadyLinked,
+        ...linkResult.repaired,
+      ];
+      if (trackedPaths.length > 0) {
+        await this.configManager.addMultipleTrackedPaths(
+          trackedPaths,
+          await manifestService.getTrackedFileDetails(trackedPaths, manifest.linkStrategies),
+        );
+      }
+
+      await this.updateGitignore(options.verbose);
+
+      this.displayLinkResult(linkResult, options.verbose);
+
+      if (await new EncryptionService(storagePath, this.fileSystem).isEnabled()) {
+        console.log(
+          chalk.yellow('🔒 Private files are encrypted. Run "pgit unlock" to decrypt them.'),
+        );
+      }
+
+      return {
+        success: true,
+        message: `Cloned private repository with ${trackedPaths.length} tracked path(s)${
+          linkResult.conflicts.length > 0 ? `, ${linkResult.conflicts.length} conflict(s)` : ''
+        }`,
+        data: { remote: remoteName, url, trackedPaths, ...linkResult },
+        exitCode: 0,
+      };
+    } catch (error) {
+      for (const action of rollbackActions.reverse()) {
+        try {
+          await action();
+        } catch {
+          // Keep rolling back the remaining steps
+        }
+      }
+
+      if (error instanceof BaseError) {
+        return {
+          success: false,
+          message: error.message,
+          error,
+          exitCode: 1,
+        };
+      }
+
+      return {
+        success: false,
+        message: 'Failed to clone private repository',
+        error: error instanceof Error ? error : new Error(String(error)),
+        exitCode: 1,
+      };
+    }
+  }
+
+  /**
+   * Validate that clone runs in a main repository without private git tracking
+   */
+  private async validateEnvironment(): Promise<void> {
+    const mainGitService = new GitService(this.workingDir, this.fileSystem);
+    if (!(await mainGitService.isRepository())) {
+      throw new CloneError(
+        'Current directory is not a git repository. Run "pgit clone" inside a checkout of the main repository.',
+      );
+    }
+
+    if (await this.configManager.exists()) {
+      throw new AlreadyInitializedError(
+        'Private git tracking is already initialized in this directory. Use "pgit pull" to update it.',
+      );
+    }
+
+    for (const directory of [DEFAULT_PATHS.storage, DEFAULT_PATHS.privateRepo]) {
+      if (await this.fileSystem.pathExists(path.join(this.workingDir, directory))) {
+        throw new AlreadyInitializedError(`Private directory already exists: ${directory}`);
+      }
+    }
+  }
+
+  /**
+   * Update .gitignore to exclude private system files, and hide the linked paths from the main repository
+   */
+  private async updateGitignore(verbose?: boolean): Promise<void> {
+    try {
+      const gitignoreService = new GitignoreService(this.workingDir, this.fileSystem);
+
+      if ((await gitignoreService.addPrivateEntries()) && verbose) {
+        console.log(chalk.gray('   ✓ Updated .gitignore with private git exclusions'));
+      }
+
+      const config = await this.configManager.load();
+      for (const edit of await gitignoreService.updateTrackedPaths(
+        config.trackedPaths,
+        config.settings.excludeTrackedPaths,
+      )) {
+        if (verbose) {
+          console.log(chalk.gray(`   ✓ Updated tracked paths in ${edit.file}`));
+        }
+      }
+    } catch (error) {
+      // This is not critical, so we log a warning but don't fail
+      console.log(
+        chalk.yellow(
+          `   ⚠️  Warning: Could not update .gitignore: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Display linked paths and conflicts
+   */
+  private displayLinkResult(result: LinkTrackedPathsResult, verbose?: boolean): void {
+    if (verbose) {
+      for (const linked of [...result.linked, ...result.repaired]) {
+        console.log(chalk.green(`   ✓ Linked ${linked}`));
+      }
+    }
+    for (const conflict of result.conflicts) {
+      console.log(
+        chalk.yellow(
+          `   ⚠ Conflict: ${conflict} exists as a real file, move it away and run "pgit pull" to link it`,
+        ),
+      );
+    }
+    for (const missing of result.missing) {
+      console.log(chalk.yellow(`   ⚠ Missing from private storage: ${missing}`));
+    }
+  }
+}
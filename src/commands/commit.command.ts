@@ -1,11 +1,13 @@
-import * as path from 'path';
 import chalk from 'chalk';
-import { CommandResult, CommandOptions, DEFAULT_PATHS } from '../types/config.types';
+import { CommandResult, CommandOptions } from '../types/config.types';
 import { ConfigManager } from '../core/config.manager';
 import { FileSystemService } from '../core/filesystem.service';
 import { GitService } from '../core/git.service';
+import { HistoryService } from '../core/history.service';
+import { SyncService } from '../core/sync.service';
 import { BaseError } from '../errors/base.error';
 import { InputValidator } from '../utils/input.validator';
+import { DryRunReporter } from '../utils/dry-run.reporter';
 import { InvalidArgumentError } from '../errors/specific.errors';
 
 /**
@@ -56,15 +58,51 @@ export class CommitCommand {
       const commitMessage = this.validateCommitMessage(message);
 
       // Get private repository path
-      const privateStoragePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+      const privateStoragePath = await this.configManager.getStoragePath();
       const gitService = new GitService(privateStoragePath, this.fileSystem);
 
+      // Copy edits of hard linked and copied paths into storage first
+      const synced = await new SyncService(
+        this.workingDir,
+        this.configManager,
+        this.fileSystem,
+      ).syncIn({ dryRun: options.dryRun, verbose: options.verbose });
+
       // Check if there are changes to commit
-      const hasChanges = await this.checkForChanges(gitService, options.verbose);
+      const hasChanges =
+        (await this.checkForChanges(gitService, options.verbose)) ||
+        (!!options.dryRun && synced.syncedIn.length + synced.reabsorbed.length > 0);
       if (!hasChanges) {
         throw new NoChangesToCommitError('No changes to commit in private repository');
       }
 
+      // Report the plan without touching the repository
+      if (options.dryRun) {
+        const status = await gitService.getStatus();
+        const files = [
+          ...new Set([
+            ...status.files.map(file => file.path),
+            ...synced.syncedIn,
+            ...synced.reabsorbed,
+          ]),
+        ];
+        const plan = DryRunReporter.createPlan('commit');
+
+        plan.indexChanges.push({ repository: 'private', action: 'add', paths: files });
+        plan.commits.push({ repository: 'private', message: commitMessage, files });
+        DryRunReporter.display(plan);
+
+        return {
+          success: true,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: 0,
+        };
+      }
+
+      const headBefore = await gitService.resolveRevision('HEAD');
+      const changedFiles = (await gitService.getStatus()).files.map(file => file.path);
+
       // Stage all changes
       if (options.verbose) {
         console.log(chalk.gray('   Staging all changes...'));
@@ -81,6 +119,20 @@ export class CommitCommand {
         console.log(chalk.green(`   ✓ Commit created: ${commitHash.substring(0, 8)}`));
       }
 
+      // Record the commit in the operation history for "pgit undo"
+      const history = new HistoryService(
+        await this.configManager.getPrivateRepoPath(),
+        this.fileSystem,
+      );
+      await history.record({
+        operation: 'commit',
+        paths: changedFiles,
+        privateHead: {
+          before: headBefore || undefined,
+          after: (await gitService.resolveRevision('HEAD')) || undefined,
+        },
+      });
+
       return {
         success: true,
         message: `Successfully committed changes to private repository: ${commitHash.substring(0, 8)}`,
@@ -118,7 +170,7 @@ export class CommitCommand {
     }
 
     // Check if private storage directory exists
-    const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+    const storagePath = await this.configManager.getStoragePath();
     if (!(await this.fileSystem.pathExists(storagePath))) {
       throw new CommitError(
         'Private storage directory does not exist. The initialization may have failed.',
@@ -0,0 +1,274 @@
+import chalk from 'chalk';
+import { z } from 'zod';
+import {
+  CommandResult,
+  CommandOptions,
+  ConfigSettings,
+  DEFAULT_SETTINGS,
+  PrivateConfig,
+} from '../types/config.types';
+import { ConfigSettingsSchema } from '../types/config.schema';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { BaseError } from '../errors/base.error';
+
+/**
+ * Config command specific errors
+ */
+export class ConfigCommandError extends BaseError {
+  public readonly code = 'CONFIG_COMMAND_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+type SettingKey = keyof ConfigSettings;
+
+/**
+ * Config command for reading and writing configuration settings
+ */
+export class ConfigCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+  }
+
+  /**
+   * Get the value of a setting
+   */
+  public async get(key: string): Promise<CommandResult> {
+    try {
+      const settingKey = this.resolveKey(key);
+      const settings = await this.loadSettings();
+
+      return {
+        success: true,
+        message: `${settingKey} = ${settings[settingKey]}`,
+        data: { key: settingKey, value: settings[settingKey] },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to get setting '${key}'`);
+    }
+  }
+
+  /**
+   * Change the value of a setting
+   */
+  public async set(
+    key: string,
+    value: string,
+    options: CommandOptions = {},
+  ): Promise<CommandResult> {
+    try {
+      const settingKey = this.resolveKey(key);
+      await this.loadSettings();
+      const coerced = this.coerceValue(settingKey, value);
+
+      if (options.verbose) {
+        console.log(chalk.blue(`⚙️  Setting ${settingKey} to ${coerced}...`));
+      }
+
+      const config = await this.configManager.updateSettings({ [settingKey]: coerced });
+      await this.applySetting(settingKey, config, options.verbose);
+
+      return {
+        success: true,
+        message: `Set ${settingKey} to ${coerced}`,
+        data: { key: settingKey, value: coerced },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to set setting '${key}'`);
+    }
+  }
+
+  /**
+   * Reset a setting to its default value
+   */
+  public async unset(key: string, options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      const settingKey = this.resolveKey(key);
+      await this.loadSettings();
+      const defaultValue = DEFAULT_SETTINGS[settingKey];
+
+      if (options.verbose) {
+        console.log(chalk.blue(`⚙️  Resetting ${settingKey} to ${defaultValue}...`));
+      }
+
+      const config = await this.configManager.updateSettings({ [settingKey]: defaultValue });
+      await this.applySetting(settingKey, config, options.verbose);
+
+      return {
+        success: true,
+        message: `Reset ${settingKey} to its default (${defaultValue})`,
+        data: { key: settingKey, value: defaultValue },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to unset setting '${key}'`);
+    }
+  }
+
+  /**
+   * Get all settings
+   */
+  public async list(): Promise<CommandResult> {
+    try {
+      const settings = await this.loadSettings();
+
+      return {
+        success: true,
+        message: `Found ${this.getKeys().length} settings`,
+        data: settings,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list settings');
+    }
+  }
+
+  /**
+   * Load the current settings
+   */
+  private async loadSettings(): Promise<ConfigSettings> {
+    if (!(await this.configManager.exists())) {
+      throw new NotInitializedError(
+        'Private git tracking is not initialized. Run "private init" first.',
+      );
+    }
+
+    const config = await this.configManager.load();
+    return config.settings;
+  }
+
+  /**
+   * Apply a changed setting that has effects outside the configuration
+   */
+  private async applySetting(
+    settingKey: SettingKey,
+    config: PrivateConfig,
+    verbose?: boolean,
+  ): Promise<void> {
+    if (settingKey !== 'excludeTrackedPaths') {
+      return;
+    }
+
+    // Move the tracked paths to the ignore file now named by the setting
+    try {
+      const edits = await new GitignoreService(this.workingDir, this.fileSystem).updateTrackedPaths(
+        config.trackedPaths,
+        config.settings.excludeTrackedPaths,
+      );
+
+      if (verbose) {
+        for (const edit of edits) {
+          console.log(chalk.gray(`   Updated tracked paths in ${edit.file}`));
+        }
+      }
+    } catch (error) {
+      console.log(
+        chalk.yellow(
+          `   ⚠️  Warning: Could not update the tracked paths in the ignore files: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Get the names of all settings
+   */
+  private getKeys(): SettingKey[] {
+    return Object.keys(ConfigSettingsSchema.shape) as SettingKey[];
+  }
+
+  /**
+   * Resolve a setting name, accepting the "settings." prefix used in the configuration file
+   */
+  private resolveKey(key: string): SettingKey {
+    const name = key.replace(/^settings\./, '');
+    const settingKey = this.getKeys().find(candidate => candidate === name);
+
+    if (!settingKey) {
+      throw new ConfigCommandError(
+        `Unknown setting '${key}'`,
+        `Available settings: ${this.getKeys().join(', ')}`,
+      );
+    }
+
+    return settingKey;
+  }
+
+  /**
+   * Convert a command line value to the type of the setting
+   */
+  private coerceValue(settingKey: SettingKey, value: string): unknown {
+    const shape = ConfigSettingsSchema.shape[settingKey];
+    const field = shape instanceof z.ZodDefault ? shape.removeDefault() : shape;
+    const normalized = value.trim().toLowerCase();
+
+    if (field instanceof z.ZodBoolean) {
+      if (['true', 'yes', 'on', '1'].includes(normalized)) {
+        return true;
+      }
+      if (['false', 'no', 'off', '0'].includes(normalized)) {
+        return false;
+      }
+      throw new ConfigCommandError(
+        `Invalid value for settings.${settingKey}: expected true or false, received '${value}'`,
+      );
+    }
+
+    if (field instanceof z.ZodNumber) {
+      const numeric = Number(normalized);
+      if (normalized === '' || !Number.isFinite(numeric)) {
+        throw new ConfigCommandError(
+          `Invalid value for settings.${settingKey}: expected a number, received '${value}'`,
+        );
+      }
+      return numeric;
+    }
+
+    if (field instanceof z.ZodEnum) {
+      const options = field.options as string[];
+      if (!options.includes(normalized)) {
+        throw new ConfigCommandError(
+          `Invalid value for settings.${settingKey}: expected one of ${options.join(', ')}, received '${value}'`,
+        );
+      }
+      return normalized;
+    }
+
+    return value;
+  }
+
+  /**
+   * Convert an error to a command result
+   */
+  private handleError(error: unknown, defaultMessage: string): CommandResult {
+    if (error instanceof BaseError) {
+      return {
+        success: false,
+        message: error.message,
+        error,
+        exitCode: 1,
+      };
+    }
+
+    return {
+      success: false,
+      message: defaultMessage,
+      error: error instanceof Error ? error : new Error(String(error)),
+      exitCode: 1,
+    };
+  }
+}
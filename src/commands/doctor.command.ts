@@ -0,0 +1,448 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import {
+  CommandResult,
+  CommandOptions,
+  DoctorCheck,
+  DoctorReport,
+  PrivateConfig,
+} from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitService } from '../core/git.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { BaseError } from '../errors/base.error';
+import { EnhancedErrorHandler } from '../errors/enhanced.error-handler';
+import {
+  ConfigValidationFailedError,
+  FilePermissionError,
+  GitNotFoundError,
+  GitOperationFailedError,
+  GitRepositoryNotFoundError,
+  PrivateFilesExposedError,
+  ProjectMovedError,
+  SymlinkNotSupportedError,
+} from '../errors/specific.errors';
+import { PlatformDetector } from '../utils/platform.detector';
+import { run_in_terminal } from '../utils/command.executor';
+
+/**
+ * Doctor command specific errors
+ */
+export class DoctorError extends BaseError {
+  public readonly code = 'DOCTOR_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Oldest git version the CLI is tested with
+ */
+export const MIN_GIT_VERSION = '2.0.0';
+
+/**
+ * Doctor command for diagnosing the environment and the installation
+ */
+export class DoctorCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+
+    // The repository health checks look at .git, which is read only here
+    this.fileSystem.trustPath(path.join(this.workingDir, '.git'));
+  }
+
+  /**
+   * Execute doctor command
+   */
+  public async execute(options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      const checks: DoctorCheck[] = [];
+      const run = async (
+        name: string,
+        check: () => Promise<DoctorCheck> | DoctorCheck,
+      ): Promise<void> => {
+        if (options.verbose) {
+          console.log(chalk.gray(`   Checking ${name.toLowerCase()}...`));
+        }
+        checks.push(await this.runCheck(name, check));
+      };
+
+      await run('Git', () => this.checkGit());
+      await run('Symbolic links', () => this.checkSymlinks());
+      await run('Permissions', () => this.checkPermissions('Permissions', this.workingDir));
+      await run('Main repository', () => this.checkRepository(this.workingDir, 'Main'));
+
+      if (await this.configManager.exists()) {
+        await run('Configuration', () => this.checkConfiguration());
+
+        // The remaining checks need a configuration that loads
+        const config = await this.loadConfig();
+        if (config) {
+          const storagePath = path.resolve(this.workingDir, config.storagePath);
+
+          await run('Private storage permissions', () =>
+            this.checkPermissions('Private storage permissions', storagePath),
+          );
+          await run('Private repository', () => this.checkRepository(storagePath, 'Private'));
+          await run('Ignore rules', () => this.checkIgnoreRules(config));
+          await run('Committed storage', () => this.checkCommittedStorage(config));
+          await run('Project location', () => this.checkProjectLocation(config));
+        }
+      } else {
+        checks.push(
+          this.createCheck(
+            'Configuration',
+            'fail',
+            new NotInitializedError(
+              'Private git tracking is not initialized. Run "private init" first.',
+            ),
+          ),
+        );
+      }
+
+      const report: DoctorReport = {
+        checks,
+        passed: checks.filter(check => check.status === 'pass').length,
+        warnings: checks.filter(check => check.status === 'warn').length,
+        failures: checks.filter(check => check.status === 'fail').length,
+      };
+
+      if (report.failures > 0) {
+        return {
+          success: false,
+          message: `${report.failures} check(s) failed, ${report.warnings} warning(s)`,
+          data: report,
+          exitCode: 1,
+        };
+      }
+
+      return {
+        success: true,
+        message:
+          report.warnings > 0
+            ? `All checks passed with ${report.warnings} warning(s)`
+            : 'All checks passed',
+        data: report,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to run diagnostics');
+    }
+  }
+
+  /**
+   * Run a check, an unexpected error fails the check instead of the whole report
+   */
+  private async runCheck(
+    name: string,
+    check: () => Promise<DoctorCheck> | DoctorCheck,
+  ): Promise<DoctorCheck> {
+    try {
+      return await check();
+    } catch (error) {
+      return this.createCheck(
+        name,
+        'fail',
+        new DoctorError(
+          `Check could not be completed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Check that git is installed and recent enough
+   */
+  private async checkGit(): Promise<DoctorCheck> {
+    const result = await run_in_terminal('git --version');
+
+    if (result.exitCode !== 0) {
+      return this.createCheck(
+        'Git',
+        'fail',
+        new GitNotFoundError('Git is not installed or not on the PATH', result.stderr),
+      );
+    }
+
+    const version = result.stdout.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+    if (!version) {
+      return this.createCheck(
+        'Git',
+        'warn',
+        new GitOperationFailedError(`Could not determine the git version from '${result.stdout}'`),
+      );
+    }
+
+    const installed = version.slice(1).map(part => Number(part || 0));
+    const minimum = MIN_GIT_VERSION.split('.').map(Number);
+    const index = installed.findIndex((part, i) => part !== minimum[i]);
+    if (index !== -1 && installed[index] < minimum[index]) {
+      return this.createCheck(
+        'Git',
+        'warn',
+        new GitNotFoundError(
+          `Git ${version[0]} is older than the minimum supported version ${MIN_GIT_VERSION}`,
+        ),
+      );
+    }
+
+    return this.createCheck('Git', 'pass', `git ${version[0]}`);
+  }
+
+  /**
+   * Check that symbolic links can be created
+   */
+  private async checkSymlinks(): Promise<DoctorCheck> {
+    if (!(await PlatformDetector.supportsSymlinks())) {
+      return this.createCheck(
+        'Symbolic links',
+        'fail',
+        new SymlinkNotSupportedError(
+          `Symbolic links are not supported on ${PlatformDetector.getPlatformName()}`,
+        ),
+      );
+    }
+
+    return this.createCheck(
+      'Symbolic links',
+      'pass',
+      `Supported on ${PlatformDetector.getPlatformName()}`,
+    );
+  }
+
+  /**
+   * Check read and write access to a directory
+   */
+  private async checkPermissions(name: string, dirPath: string): Promise<DoctorCheck> {
+    const displayPath = path.relative(this.workingDir, dirPath) || '.';
+    const permissions = await PlatformDetector.checkPermissions(dirPath);
+    const missing = [
+      permissions.readable ? undefined : 'read',
+      permissions.writable ? undefined : 'write',
+    ].filter((access): access is string => access !== undefined);
+
+    if (missing.length > 0) {
+      return this.createCheck(
+        name,
+        'fail',
+        new FilePermissionError(`No ${missing.join(' or ')} access to ${displayPath}`),
+      );
+    }
+
+    return this.createCheck(name, 'pass', `Read and write access to ${displayPath}`);
+  }
+
+  /**
+   * Check the health of a git repository
+   */
+  private async checkRepository(repoPath: string, label: string): Promise<DoctorCheck> {
+    const name = `${label} repository`;
+    const gitService = new GitService(repoPath, this.fileSystem);
+
+    if (!(await this.fileSystem.pathExists(repoPath)) || !(await gitService.isRepository())) {
+      return this.createCheck(
+        name,
+        label === 'Main' ? 'warn' : 'fail',
+        new GitRepositoryNotFoundError(
+          `${path.relative(this.workingDir, repoPath) || '.'} is not a git repository`,
+        ),
+      );
+    }
+
+    const health = await gitService.checkRepositoryHealth();
+    if (!health.isHealthy) {
+      return this.createCheck(
+        name,
+        'fail',
+        new GitOperationFailedError(`${name} has problems`),
+        health.issues,
+      );
+    }
+
+    return this.createCheck(name, 'pass', 'Healthy');
+  }
+
+  /**
+   * Check the configuration file
+   */
+  private async checkConfiguration(): Promise<DoctorCheck> {
+    const validation = await this.configManager.validate();
+
+    if (!validation.valid) {
+      return this.createCheck(
+        'Configuration',
+        'fail',
+        new ConfigValidationFailedError('Configuration is invalid'),
+        [...validation.errors, ...validation.warnings],
+      );
+    }
+
+    if (validation.warnings.length > 0) {
+      return this.createCheck(
+        'Configuration',
+        'warn',
+        `Valid with ${validation.warnings.length} warning(s)`,
+        validation.warnings,
+      );
+    }
+
+    return this.createCheck('Configuration', 'pass', 'Valid');
+  }
+
+  /**
+   * Check that the main repository ignores the private git tracking paths
+   */
+  private async checkIgnoreRules(config: PrivateConfig): Promise<DoctorCheck> {
+    const gitService = new GitService(this.workingDir, this.fileSystem);
+    if (!(await gitService.isRepository())) {
+      return this.createCheck('Ignore rules', 'pass', 'No main repository to check');
+    }
+
+    const gitignoreService = new GitignoreService(this.workingDir, this.fileSystem);
+    const entries = gitignoreService.getIgnoreEntries([
+      config.privateRepoPath,
+      config.storagePath,
+      await this.configManager.getConfigPath(),
+    ]);
+
+    const unignored: string[] = [];
+    for (const entry of entries) {
+      if (!(await gitService.isIgnored(entry))) {
+        unignored.push(entry);
+      }
+    }
+
+    if (unignored.length > 0) {
+      return this.createCheck(
+        'Ignore rules',
+        'warn',
+        new PrivateFilesExposedError(
+          `${unignored.length} private git tracking path(s) are not ignored by the main repository`,
+        ),
+        unignored,
+      );
+    }
+
+    return this.createCheck('Ignore rules', 'pass', 'Private git tracking paths are ignored');
+  }
+
+  /**
+   * Check that private storage has not been committed to the main repository
+   */
+  private async checkCommittedStorage(config: PrivateConfig): Promise<DoctorCheck> {
+    const gitService = new GitService(this.workingDir, this.fileSystem);
+    if (!(await gitService.isRepository())) {
+      return this.createCheck('Committed storage', 'pass', 'No main repository to check');
+    }
+
+    const committed: string[] = [];
+    for (const entry of new GitignoreService(this.workingDir, this.fileSystem).getIgnoreEntries([
+      config.storagePath,
+      config.privateRepoPath,
+    ])) {
+      if (await gitService.isTracked(entry)) {
+        committed.push(entry);
+      }
+    }
+
+    if (committed.length > 0) {
+      return this.createCheck(
+        'Committed storage',
+        'fail',
+        new PrivateFilesExposedError('Private storage is tracked by the main repository'),
+        committed,
+      );
+    }
+
+    return this.createCheck(
+      'Committed storage',
+      'pass',
+      'Private storage is not tracked by the main repository',
+    );
+  }
+
+  /**
+   * Check that the configuration was created for the current directory
+   */
+  private checkProjectLocation(config: PrivateConfig): DoctorCheck {
+    const recordedPath = path.resolve(config.metadata.mainRepoPath);
+    const currentPath = path.resolve(this.workingDir);
+
+    if (recordedPath !== currentPath) {
+      return this.createCheck(
+        'Project location',
+        'warn',
+        new ProjectMovedError(
+          'The configuration was created in another directory',
+          `Recorded ${recordedPath}, running in ${currentPath}`,
+        ),
+      );
+    }
+
+    return this.createCheck('Project location', 'pass', 'Matches the current directory');
+  }
+
+  /**
+   * Load the configuration, or nothing when it cannot be loaded
+   */
+  private async loadConfig(): Promise<PrivateConfig | undefined> {
+    try {
+      return await this.configManager.load();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Create a check result, problems are described by an error to reuse its recovery suggestions
+   */
+  private createCheck(
+    name: string,
+    status: DoctorCheck['status'],
+    problem: string | BaseError,
+    details: string[] = [],
+  ): DoctorCheck {
+    if (typeof problem === 'string') {
+      return { name, status, message: problem, details, suggestions: [] };
+    }
+
+    return {
+      name,
+      status,
+      message: problem.message,
+      details: problem.details ? [problem.details, ...details] : details,
+      suggestions: EnhancedErrorHandler.getSuggestions(problem),
+    };
+  }
+
+  /**
+   * Convert an error to a command result
+   */
+  private handleError(error: unknown, defaultMessage: string): CommandResult {
+    if (error instanceof BaseError) {
+      return {
+        success: false,
+        message: error.message,
+        error,
+        exitCode: 1,
+      };
+    }
+
+    return {
+      success: false,
+      message: defaultMessage,
+      error: error instanceof Error ? error : new Error(String(error)),
+      exitCode: 1,
+    };
+  }
+}
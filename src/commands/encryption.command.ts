@@ -0,0 +1,309 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import chalk from 'chalk';
+import { CommandResult, CommandOptions } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitService } from '../core/git.service';
+import {
+  EncryptionService,
+  EncryptionError,
+  KeySource,
+  PLAINTEXT_FILES,
+} from '../core/encryption.service';
+import { BaseError } from '../errors/base.error';
+import { PromptService } from '../utils/prompt.service';
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Options for commands handling encrypted storage
+ */
+export interface EncryptionOptions extends CommandOptions {
+  /** Key file to use instead of a passphrase */
+  keyFile?: string;
+}
+
+/**
+ * Step of the git filter protocol
+ */
+export type FilterMode = 'clean' | 'smudge' | 'textconv';
+
+/**
+ * Encryption command for locking and unlocking encrypted private storage
+ */
+export class EncryptionCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+  }
+
+  /**
+   * Make the key available and decrypt the working copies in private storage
+   */
+  public async unlock(options: EncryptionOptions = {}): Promise<CommandResult> {
+    try {
+      const gitService = await this.getPrivateGitService();
+      const encryptionService = await this.getEncryptionService();
+
+      if (!(await encryptionService.isEnabled())) {
+        throw new EncryptionError('Encryption is not enabled for this private repository');
+      }
+
+      if (await encryptionService.isUnlocked()) {
+        // Filters are local git configuration, make sure they exist after a clone
+        await gitService.configureEncryptionFilter(EncryptionService.getFilterCommand());
+        return {
+          success: true,
+          message: 'Private storage is already unlocked',
+          exitCode: 0,
+        };
+      }
+
+      await this.ensureNoUncommittedChanges(gitService, 'unlocking');
+
+      const key = await encryptionService.resolveKey(await this.getKeySource(options));
+
+      if (options.verbose) {
+        console.log(chalk.blue('🔓 Unlocking private storage...'));
+      }
+
+      await encryptionService.saveKey(key);
+      try {
+        await gitService.configureEncryptionFilter(EncryptionService.getFilterCommand());
+        const files = await this.refreshWorkingCopies(gitService, options.verbose);
+
+        return {
+          success: true,
+          message: `Private storage unlocked, ${files.length} file(s) decrypted`,
+          data: { files },
+          exitCode: 0,
+        };
+      } catch (error) {
+        await encryptionService.removeKey();
+        throw error;
+      }
+    } catch (error) {
+      return this.handleError(error, 'Failed to unlock private storage');
+    }
+  }
+
+  /**
+   * Forget the key and replace the working copies in private storage with ciphertext
+   */
+  public async lock(options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      const gitService = await this.getPrivateGitService();
+      const encryptionService = await this.getEncryptionService();
+
+      if (!(await encryptionService.isEnabled())) {
+        throw new EncryptionError('Encryption is not enabled for this private repository');
+      }
+
+      if (!(await encryptionService.isUnlocked())) {
+        return {
+          success: true,
+          message: 'Private storage is already locked',
+          exitCode: 0,
+        };
+      }
+
+      await this.ensureNoUncommittedChanges(gitService, 'locking');
+
+      if (options.verbose) {
+        console.log(chalk.blue('🔒 Locking private storage...'));
+      }
+
+      await encryptionService.removeKey();
+      const files = await this.refreshWorkingCopies(gitService, options.verbose);
+
+      return {
+        success: true,
+        message: `Private storage locked, ${files.length} file(s) encrypted`,
+        data: { files },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to lock private storage');
+    }
+  }
+
+  /**
+   * Run one step of the git filter protocol.
+   * Git runs filters from the root of the private repository, so the working directory is the storage.
+   */
+  public async filter(mode: FilterMode, file?: string): Promise<void> {
+    this.fileSystem.trustPath(this.workingDir);
+    const encryptionService = new EncryptionService(this.workingDir, this.fileSystem);
+    const key = await encryptionService.loadKey();
+    let data: Buffer;
+
+    if (mode === 'textconv') {
+      if (!file) {
+        throw new EncryptionError('textconv requires a file');
+      }
+      data = await this.fileSystem.readBinaryFile(path.resolve(this.workingDir, file));
+    } else {
+      data = await this.readStdin();
+    }
+
+    if (mode === 'clean') {
+      if (EncryptionService.isEncrypted(data)) {
+        await this.writeStdout(data);
+        return;
+      }
+      if (!key) {
+        throw new EncryptionError(
+          'Private storage is locked, run "pgit unlock" before staging changes',
+        );
+      }
+      await this.writeStdout(EncryptionService.encrypt(data, key));
+      return;
+    }
+
+    if (!EncryptionService.isEncrypted(data)) {
+      await this.writeStdout(data);
+    } else if (key) {
+      await this.writeStdout(EncryptionService.decrypt(data, key));
+    } else if (mode === 'textconv') {
+      // Include a content hash so diffs still show which versions differ
+      const hash = crypto.createHash('sha256').update(data).digest('hex').slice(0, 8);
+      await this.writeStdout(Buffer.from(`[encrypted ${hash}, run "pgit unlock" to view]\n`));
+    } else {
+      // Locked checkouts keep the ciphertext
+      await this.writeStdout(data);
+    }
+  }
+
+  /**
+   * Rewrite encrypted files from the index so the smudge filter runs with the current key
+   */
+  private async refreshWorkingCopies(gitService: GitService, verbose?: boolean): Promise<string[]> {
+    const storagePath = await this.configManager.getStoragePath();
+    const files = (await gitService.listFiles()).filter(file => !PLAINTEXT_FILES.includes(file));
+
+    for (const file of files) {
+      const filePath = path.join(storagePath, file);
+      if (await this.fileSystem.pathExists(filePath)) {
+        await this.fileSystem.remove(filePath);
+      }
+    }
+
+    await gitService.checkoutFiles(files);
+
+    if (verbose) {
+      for (const file of files) {
+        console.log(chalk.gray(`   ${file}`));
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Refuse to rewrite working copies that have uncommitted changes
+   */
+  private async ensureNoUncommittedChanges(gitService: GitService, action: string): Promise<void> {
+    if (await gitService.hasUncommittedChanges()) {
+      throw new EncryptionError(
+        `Private repository has uncommitted changes, commit them before ${action}`,
+      );
+    }
+  }
+
+  /**
+   * Get the key source from options or by asking for the passphrase
+   */
+  private async getKeySource(options: EncryptionOptions): Promise<KeySource> {
+    if (options.keyFile) {
+      return { keyFile: path.resolve(this.workingDir, options.keyFile) };
+    }
+
+    const encryptionService = await this.getEncryptionService();
+    const metadata = await encryptionService.readMetadata();
+    if (metadata?.kdf === 'keyfile') {
+      throw new EncryptionError('This private repository uses a key file, pass it with --key-file');
+    }
+
+    return { passphrase: await PromptService.askPassphrase() };
+  }
+
+  /**
+   * Read all of standard input
+   */
+  private readStdin(): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      process.stdin.on('data', chunk => chunks.push(Buffer.from(chunk)));
+      process.stdin.on('end', () => resolve(Buffer.concat(chunks)));
+      process.stdin.on('error', reject);
+    });
+  }
+
+  /**
+   * Write to standard output and wait until it is flushed
+   */
+  private writeStdout(data: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      process.stdout.write(data, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Get encryption service for private storage
+   */
+  private async getEncryptionService(): Promise<EncryptionService> {
+    return new EncryptionService(await this.configManager.getStoragePath(), this.fileSystem);
+  }
+
+  /**
+   * Get private git service instance
+   */
+  private async getPrivateGitService(): Promise<GitService> {
+    if (!(await this.configManager.exists())) {
+      throw new NotInitializedError(
+        'Private git tracking is not initialized. Run "private init" first.',
+      );
+    }
+
+    const privateStoragePath = await this.configManager.getStoragePath();
+    const gitService = new GitService(privateStoragePath, this.fileSystem);
+
+    if (!(await gitService.isRepository())) {
+      throw new EncryptionError(
+        'Private storage is not a git repository. The initialization may have failed.',
+      );
+    }
+
+    return gitService;
+  }
+
+  /**
+   * Handle errors consistently
+   */
+  private handleError(error: unknown, defaultMessage: string): CommandResult {
+    if (error instanceof BaseError) {
+      return {
+        success: false,
+        message: error.message,
+        error,
+        exitCode: 1,
+      };
+    }
+
+    return {
+      success: false,
+      message: defaultMessage,
+      error: error instanceof Error ? error : new Error(String(error)),
+      exitCode: 1,
+    };
+  }
+}
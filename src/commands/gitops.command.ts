@@ -1,10 +1,20 @@
 import * as path from 'path';
 import chalk from 'chalk';
-import { CommandResult, CommandOptions, DEFAULT_PATHS } from '../types/config.types';
+import {
+  CommandResult,
+  CommandOptions,
+  DEFAULT_PATHS,
+  DryRunPlan,
+  PrivateConfig,
+} from '../types/config.types';
 import { ConfigManager } from '../core/config.manager';
 import { FileSystemService } from '../core/filesystem.service';
-import { GitService, GitLogEntry } from '../core/git.service';
+import { GitService } from '../core/git.service';
+import { HistoryService } from '../core/history.service';
+import { SyncService } from '../core/sync.service';
 import { BaseError } from '../errors/base.error';
+import { InvalidArgumentError } from '../errors/specific.errors';
+import { DryRunReporter } from '../utils/dry-run.reporter';
 
 /**
  * Git operations command specific errors
@@ -25,6 +35,7 @@ export class NotInitializedError extends BaseError {
 export interface LogOptions {
   maxCount?: number;
   oneline?: boolean;
+  patch?: boolean;
 }
 
 /**
@@ -35,6 +46,16 @@ export interface DiffOptions {
   nameOnly?: boolean;
 }
 
+/**
+ * Options for restoring tracked paths from private history
+ */
+export interface RestoreOptions {
+  /** Revision or date to restore from, dates are resolved through the private log */
+  from: string;
+  /** Restore every tracked path */
+  all?: boolean;
+}
+
 /**
  * Git operations command for private repository
  */
@@ -66,10 +87,10 @@ export class GitOpsCommand {
       const logEntries = await gitService.getLog({
         maxCount: options.maxCount || 10,
         oneline: options.oneline || false,
+        patch: options.patch || false,
       });
 
       if (logEntries.length === 0) {
-        console.log(chalk.yellow('No commits found in private repository'));
         return {
           success: true,
           message: 'No commits found',
@@ -78,9 +99,6 @@ export class GitOpsCommand {
         };
       }
 
-      // Display log entries
-      this.displayLogEntries(logEntries, options.oneline);
-
       return {
         success: true,
         message: `Retrieved ${logEntries.length} commit(s)`,
@@ -112,7 +130,6 @@ export class GitOpsCommand {
       });
 
       if (!diffOutput.trim()) {
-        console.log(chalk.yellow('No differences found'));
         return {
           success: true,
           message: 'No differences found',
@@ -121,9 +138,6 @@ export class GitOpsCommand {
         };
       }
 
-      // Display diff output
-      console.log(diffOutput);
-
       return {
         success: true,
         message: 'Differences retrieved successfully',
@@ -150,6 +164,38 @@ export class GitOpsCommand {
         );
       }
 
+      // Copy edits of hard linked and copied paths into storage first
+      const synced = await this.getSyncService().syncIn({
+        dryRun: cmdOptions.dryRun,
+        verbose: cmdOptions.verbose,
+      });
+
+      if (cmdOptions.dryRun) {
+        const status = await gitService.getStatus();
+        const files = [
+          ...new Set([
+            ...(all
+              ? status.files.map(file => file.path)
+              : [...status.modified, ...status.untracked]),
+            ...synced.syncedIn,
+            ...synced.reabsorbed,
+          ]),
+        ];
+        const plan = DryRunReporter.createPlan('add-changes');
+
+        if (files.length > 0) {
+          plan.indexChanges.push({ repository: 'private', action: 'add', paths: files });
+        }
+        DryRunReporter.display(plan);
+
+        return {
+          success: true,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: 0,
+        };
+      }
+
       if (all) {
         await gitService.addAll();
       } else {
@@ -221,14 +267,6 @@ export class GitOpsCommand {
 
         const branches = await gitService.getBranches();
 
-        console.log(chalk.bold('Branches:'));
-        for (const branch of branches.all) {
-          const isCurrent = branch === branches.current;
-          const marker = isCurrent ? chalk.green('* ') : '  ';
-          const branchColor = isCurrent ? chalk.green : chalk.white;
-          console.log(`${marker}${branchColor(branch)}`);
-        }
-
         return {
           success: true,
           message: `Found ${branches.all.length} branch(es)`,
@@ -252,15 +290,62 @@ export class GitOpsCommand {
         console.log(chalk.blue(`🔄 Checking out '${target}' in private repository...`));
       }
 
+      if (cmdOptions.dryRun) {
+        const plan = await this.buildCheckoutPlan(gitService, target);
+        DryRunReporter.display(plan);
+
+        return {
+          success: true,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: 0,
+        };
+      }
+
+      // Only branch and commit checkouts are recorded, restoring a file cannot be reversed
+      const isRevision = !!(await gitService.resolveRevision(target));
+      const branchBefore = await gitService.getCurrentBranch();
+      const headBefore = await gitService.resolveRevision('HEAD');
+
+      // Unsynced edits of hard linked and copied paths would be lost when storage changes
+      const syncService = this.getSyncService();
+      await syncService.syncIn({ verbose: cmdOptions.verbose });
+
       await gitService.checkout(target);
 
       if (cmdOptions.verbose) {
         console.log(chalk.green(`   ✓ Switched to '${target}'`));
       }
 
+      const synced = await syncService.sync({ direction: 'out', verbose: cmdOptions.verbose });
+      if (synced.conflicts.length > 0) {
+        console.warn(
+          chalk.yellow(
+            `   Warning: ${SyncService.createConflictError(synced.conflicts).message}, run "pgit sync" to resolve`,
+          ),
+        );
+      }
+
+      if (isRevision) {
+        const history = new HistoryService(
+          await this.configManager.getPrivateRepoPath(),
+          this.fileSystem,
+        );
+        await history.record({
+          operation: 'checkout',
+          paths: [],
+          privateHead: {
+            before: headBefore || undefined,
+            after: (await gitService.resolveRevision('HEAD')) || undefined,
+          },
+          branch: { before: branchBefore, after: await gitService.getCurrentBranch() },
+        });
+      }
+
       return {
         success: true,
         message: `Switched to '${target}' successfully`,
+        data: { target },
         exitCode: 0,
       };
     } catch (error) {
@@ -268,6 +353,212 @@ export class GitOpsCommand {
     }
   }
 
+  /**
+   * Build the dry run plan for a checkout of a branch, commit or tracked file
+   */
+  private async buildCheckoutPlan(gitService: GitService, target: string): Promise<DryRunPlan> {
+    const plan = DryRunReporter.createPlan('checkout');
+
+    if (await gitService.resolveRevision(target)) {
+      const currentBranch = await gitService.getCurrentBranch();
+      const changedFiles = await gitService.getChangedFiles('HEAD', target);
+
+      plan.refChanges.push({
+        repository: 'private',
+        from: currentBranch,
+        to: target,
+        files: changedFiles,
+      });
+
+      if (await gitService.hasUncommittedChanges()) {
+        plan.warnings.push(
+          'Private repository has uncommitted changes that may block the checkout',
+        );
+      }
+    } else if (await gitService.isTracked(target)) {
+      plan.refChanges.push({
+        repository: 'private',
+        from: 'working tree',
+        to: 'index',
+        files: [target],
+      });
+    } else {
+      throw new GitOpsError(`Unknown branch, commit or tracked path: ${target}`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Restore tracked paths to their content at a revision or date without moving HEAD.
+   * The current content is backed up first, links keep pointing at storage.
+   */
+  public async restore(
+    relativePaths: string[],
+    options: RestoreOptions,
+    cmdOptions: CommandOptions = {},
+  ): Promise<CommandResult> {
+    try {
+      if (options.all && relativePaths.length > 0) {
+        throw new InvalidArgumentError('Paths cannot be given together with --all', 'restore');
+      }
+      if (!options.all && relativePaths.length === 0) {
+        throw new InvalidArgumentError(
+          'Specify the paths to restore, or --all to restore every tracked path',
+          'restore',
+        );
+      }
+
+      const gitService = await this.getPrivateGitService();
+      const config = await this.configManager.load();
+      const requestedPaths = options.all
+        ? config.trackedPaths
+        : relativePaths.map(relativePath => path.normalize(relativePath));
+
+      const untracked = requestedPaths.filter(
+        relativePath => this.getOwningTrackedPaths(config, [relativePath]).length === 0,
+      );
+      if (untracked.length > 0) {
+        throw new GitOpsError(`Not tracked: ${untracked.join(', ')}`);
+      }
+
+      const revision = await this.resolveRestoreSource(gitService, options.from);
+      const shortRevision = revision.substring(0, 8);
+
+      // Paths added after the revision have nothing to restore
+      const filesAtRevision = await gitService.listFilesAt(revision, requestedPaths);
+      const missing = requestedPaths.filter(
+        relativePath =>
+          !filesAtRevision.some(
+            file => file === relativePath || file.startsWith(`${relativePath}/`),
+          ),
+      );
+      if (missing.length > 0 && !options.all) {
+        throw new GitOpsError(`${missing.join(', ')} did not exist at ${shortRevision}`);
+      }
+      for (const relativePath of missing) {
+        console.warn(
+          chalk.yellow(`   Warning: ${relativePath} did not exist at ${shortRevision}, skipped`),
+        );
+      }
+
+      const restorePaths = requestedPaths.filter(relativePath => !missing.includes(relativePath));
+      const ownerPaths = this.getOwningTrackedPaths(config, restorePaths);
+      const backupDir = path.join(
+        await this.configManager.getPrivateRepoPath(),
+        DEFAULT_PATHS.backups,
+        new Date().toISOString().replace(/[:.]/g, '-'),
+      );
+
+      if (cmdOptions.verbose) {
+        console.log(chalk.blue(`🔄 Restoring ${restorePaths.join(', ')} from ${shortRevision}...`));
+      }
+
+      if (cmdOptions.dryRun) {
+        const plan = DryRunReporter.createPlan('restore');
+        plan.refChanges.push({
+          repository: 'private',
+          from: 'working tree',
+          to: shortRevision,
+          files: restorePaths,
+        });
+        plan.indexChanges.push({ repository: 'private', action: 'add', paths: restorePaths });
+        plan.warnings.push(
+          `Current content would be backed up to ${path.relative(this.workingDir, backupDir)}`,
+        );
+        DryRunReporter.display(plan);
+
+        return {
+          success: true,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: 0,
+        };
+      }
+
+      // Unsynced edits of hard linked and copied paths belong in the backup
+      const syncService = this.getSyncService();
+      await syncService.syncIn({ paths: ownerPaths, verbose: cmdOptions.verbose });
+
+      const storagePath = await this.configManager.getStoragePath();
+      for (const relativePath of restorePaths) {
+        if (await this.fileSystem.pathExists(path.join(storagePath, relativePath))) {
+          await this.fileSystem.copyFileAtomic(
+            path.join(storagePath, relativePath),
+            path.join(backupDir, relativePath),
+          );
+        }
+      }
+
+      if (cmdOptions.verbose) {
+        console.log(chalk.gray(`   Backed up current content to ${backupDir}`));
+      }
+
+      await gitService.restoreFiles(revision, restorePaths);
+
+      // Symbolic links see the restored content, hard links and copies are refreshed
+      const synced = await syncService.sync({
+        direction: 'out',
+        paths: ownerPaths,
+        verbose: cmdOptions.verbose,
+      });
+      if (synced.conflicts.length > 0) {
+        console.warn(
+          chalk.yellow(
+            `   Warning: ${SyncService.createConflictError(synced.conflicts).message}, run "pgit sync" to resolve`,
+          ),
+        );
+      }
+
+      return {
+        success: true,
+        message: `Restored ${restorePaths.length} path(s) from ${shortRevision}, run "pgit commit" to keep them. The previous content is in ${path.relative(this.workingDir, backupDir)}`,
+        data: { revision, paths: restorePaths, skipped: missing, backupDir },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to restore from private history');
+    }
+  }
+
+  /**
+   * Resolve --from to a commit, a revision first and otherwise a date looked up in the private log
+   */
+  private async resolveRestoreSource(gitService: GitService, from: string): Promise<string> {
+    const revision = await gitService.resolveRevision(from);
+    if (revision) {
+      return revision;
+    }
+
+    if (!(await gitService.parseDate(from))) {
+      throw new GitOpsError(
+        `'${from}' is neither a private revision nor a date`,
+        'Use a branch, tag or commit of the private repository, or a date like "2 days ago" or "2024-05-01"',
+      );
+    }
+
+    const commit = await gitService.findCommitBefore(from);
+    if (!commit) {
+      throw new GitOpsError(
+        `No private commit matches '${from}', expected a revision or a date after the first commit`,
+      );
+    }
+
+    return commit;
+  }
+
+  /**
+   * Get the tracked paths that are or contain any of the given paths
+   */
+  private getOwningTrackedPaths(config: PrivateConfig, relativePaths: string[]): string[] {
+    return config.trackedPaths.filter(trackedPath =>
+      relativePaths.some(
+        relativePath =>
+          relativePath === trackedPath || relativePath.startsWith(`${trackedPath}${path.sep}`),
+      ),
+    );
+  }
+
   /**
    * Execute git reset command
    */
@@ -323,6 +614,13 @@ export class GitOpsCommand {
     }
   }
 
+  /**
+   * Get the service syncing hard linked and copied paths with storage
+   */
+  private getSyncService(): SyncService {
+    return new SyncService(this.workingDir, this.configManager, this.fileSystem);
+  }
+
   /**
    * Get private git service instance
    */
@@ -334,7 +632,7 @@ export class GitOpsCommand {
       );
     }
 
-    const privateStoragePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+    const privateStoragePath = await this.configManager.getStoragePath();
 
     if (!(await this.fileSystem.pathExists(privateStoragePath))) {
       throw new GitOpsError(
@@ -353,28 +651,6 @@ export class GitOpsCommand {
     return gitService;
   }
 
-  /**
-   * Display log entries in formatted output
-   */
-  private displayLogEntries(logEntries: GitLogEntry[], oneline?: boolean): void {
-    console.log(chalk.bold('📜 Commit History (Private Repository):'));
-    console.log();
-
-    for (const entry of logEntries) {
-      if (oneline) {
-        const shortHash = entry.hash.substring(0, 8);
-        console.log(`${chalk.yellow(shortHash)} ${entry.message}`);
-      } else {
-        console.log(`${chalk.yellow('commit')} ${entry.hash}`);
-        console.log(`${chalk.cyan('Author:')} ${entry.author} <${entry.email}>`);
-        console.log(`${chalk.cyan('Date:')} ${entry.date}`);
-        console.log();
-        console.log(`    ${entry.message}`);
-        console.log();
-      }
-    }
-  }
-
   /**
    * Handle errors consistently
    */
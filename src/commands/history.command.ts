@@ -0,0 +1,448 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { CommandResult, CommandOptions, HistoryEntry, IndexEntry } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitService } from '../core/git.service';
+import { HistoryService } from '../core/history.service';
+import { JournalService } from '../core/journal.service';
+import { LinkService } from '../core/link.service';
+import { TransactionService } from '../core/transaction.service';
+import { BaseError } from '../errors/base.error';
+import { InvalidArgumentError, TransactionPendingError } from '../errors/specific.errors';
+
+/**
+ * Options for the history command
+ */
+export interface HistoryOptions extends CommandOptions {
+  /** Only list the most recent entries */
+  limit?: number;
+}
+
+/**
+ * History command specific errors
+ */
+export class UndoError extends BaseError {
+  public readonly code = 'UNDO_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * History command listing recorded operations and undoing them.
+ * An operation is only undone while nothing it touched has changed since.
+ */
+export class HistoryCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+  private readonly linkService: LinkService;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+    this.linkService = new LinkService(this.fileSystem);
+  }
+
+  /**
+   * List recorded operations, newest first
+   */
+  public async list(options: HistoryOptions = {}): Promise<CommandResult> {
+    try {
+      const history = await this.getHistoryService();
+      const entries = (await history.read()).reverse();
+
+      return {
+        success: true,
+        message:
+          entries.length === 0
+            ? 'No operations recorded yet'
+            : `${entries.length} operation(s) recorded`,
+        data: options.limit ? entries.slice(0, options.limit) : entries,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to read operation history');
+    }
+  }
+
+  /**
+   * Undo the most recent operations that were not undone yet, newest first
+   */
+  public async undo(count = 1, options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      if (!Number.isInteger(count) || count < 1) {
+        throw new InvalidArgumentError(
+          `Invalid number of operations '${count}': expected a positive integer`,
+          'undo',
+        );
+      }
+
+      const history = await this.getHistoryService();
+
+      const journal = await new JournalService(
+        await this.configManager.getPrivateRepoPath(),
+        this.fileSystem,
+      ).read();
+      if (journal) {
+        throw new TransactionPendingError(
+          `An interrupted ${JournalService.describe(journal)} must be recovered first. Run "pgit recover --rollback" or "pgit recover --complete".`,
+        );
+      }
+
+      const undoable = HistoryService.getUndoable(await history.read());
+      if (undoable.length === 0) {
+        return {
+          success: true,
+          message: 'Nothing to undo',
+          exitCode: 0,
+        };
+      }
+
+      if (count > undoable.length) {
+        throw new InvalidArgumentError(
+          `Only ${undoable.length} operation(s) can be undone`,
+          'undo',
+        );
+      }
+
+      const undone: string[] = [];
+      for (const entry of undoable.slice(0, count)) {
+        const description = HistoryService.describe(entry);
+
+        const blocker = await this.getUndoBlocker(entry);
+        if (blocker) {
+          throw new UndoError(
+            `${undone.length > 0 ? `Undid ${undone.join(', ')}. ` : ''}Cannot undo ${description}: ${blocker}`,
+          );
+        }
+
+        if (options.verbose) {
+          console.log(chalk.blue(`↩️  Undoing ${description}...`));
+        }
+
+        await this.reverse(entry, options.verbose);
+        await history.record({ operation: 'undo', paths: entry.paths, undoes: entry.id });
+        undone.push(description);
+      }
+
+      return {
+        success: true,
+        message: `Undid ${undone.join(', ')}`,
+        data: { undone },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to undo operation');
+    }
+  }
+
+  /**
+   * Explain why an entry cannot be undone safely, or return null if it can
+   */
+  private async getUndoBlocker(entry: HistoryEntry): Promise<string | null> {
+    const privateGit = new GitService(await this.configManager.getStoragePath(), this.fileSystem);
+
+    if (entry.operation === 'cleanup') {
+      return this.getCleanupBlocker(entry);
+    }
+
+    if (!entry.privateHead?.after) {
+      return 'the commit it created was not recorded';
+    }
+    if (!entry.privateHead.before) {
+      return 'there is no earlier private commit to go back to';
+    }
+    if ((await privateGit.resolveRevision('HEAD')) !== entry.privateHead.after) {
+      return 'the private repository has moved on since, undo or reset the later commits first';
+    }
+
+    switch (entry.operation) {
+      case 'add':
+        return this.getAddBlocker(entry);
+      case 'remove':
+        return this.getRemoveBlocker(entry);
+      case 'mv':
+        return this.getMoveBlocker(entry);
+      case 'checkout':
+        if (!entry.branch) {
+          return 'the branch it switched from was not recorded';
+        }
+        if ((await privateGit.getCurrentBranch()) !== entry.branch.after) {
+          return `the private repository is no longer on '${entry.branch.after}'`;
+        }
+        if (await privateGit.hasUncommittedChanges()) {
+          return 'the private repository has uncommitted changes, commit them first';
+        }
+        return null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * An add is undone while its paths are still tracked, linked and unchanged
+   */
+  private async getAddBlocker(entry: HistoryEntry): Promise<string | null> {
+    if (!entry.transaction) {
+      return 'the paths it moved were not recorded';
+    }
+
+    const config = await this.configManager.load();
+    const storagePath = await this.configManager.getStoragePath();
+
+    for (const relativePath of entry.paths) {
+      if (!config.trackedPaths.includes(relativePath)) {
+        return `${relativePath} is no longer tracked`;
+      }
+
+      const linked = await this.linkService.isLinked(
+        path.join(storagePath, relativePath),
+        path.join(this.workingDir, relativePath),
+        entry.transaction.details[relativePath]?.linkStrategy,
+      );
+      if (!linked) {
+        return `${relativePath} in the project is no longer a link to private storage`;
+      }
+
+      if (!(await this.isUnchanged(entry, storagePath, relativePath))) {
+        return `${relativePath} has changed since it was added`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * A remove is undone while its paths are untracked and unchanged in the project
+   */
+  private async getRemoveBlocker(entry: HistoryEntry): Promise<string | null> {
+    if (!entry.transaction) {
+      return 'the paths it moved were not recorded';
+    }
+    if (entry.transaction.purge) {
+      return 'its files were purged from the private history';
+    }
+
+    const config = await this.configManager.load();
+    const storagePath = await this.configManager.getStoragePath();
+
+    for (const relativePath of entry.paths) {
+      if (config.trackedPaths.includes(relativePath)) {
+        return `${relativePath} is tracked again`;
+      }
+
+      if (await this.fileSystem.pathExists(path.join(storagePath, relativePath))) {
+        return `${relativePath} exists in private storage again`;
+      }
+
+      if (!(await this.isUnchanged(entry, this.workingDir, relativePath))) {
+        return `${relativePath} has changed since it was removed`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * A move is undone while the new paths are still tracked, linked and unchanged,
+   * and nothing took the old paths
+   */
+  private async getMoveBlocker(entry: HistoryEntry): Promise<string | null> {
+    if (!entry.transaction?.renames) {
+      return 'the paths it moved were not recorded';
+    }
+
+    const config = await this.configManager.load();
+    const storagePath = await this.configManager.getStoragePath();
+
+    for (const [fromPath, toPath] of Object.entries(entry.transaction.renames)) {
+      if (!config.trackedPaths.includes(toPath)) {
+        return `${toPath} is no longer tracked`;
+      }
+      if (config.trackedPaths.includes(fromPath)) {
+        return `${fromPath} is tracked again`;
+      }
+
+      const linked = await this.linkService.isLinked(
+        path.join(storagePath, toPath),
+        path.join(this.workingDir, toPath),
+        entry.transaction.details[fromPath]?.linkStrategy,
+      );
+      if (!linked) {
+        return `${toPath} in the project is no longer a link to private storage`;
+      }
+
+      if (!(await this.isUnchanged(entry, storagePath, toPath))) {
+        return `${toPath} has changed since it was moved`;
+      }
+
+      if (
+        (await this.fileSystem.pathExists(path.join(this.workingDir, fromPath))) ||
+        (await this.fileSystem.pathExists(path.join(storagePath, fromPath)))
+      ) {
+        return `${fromPath} exists again`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * A cleanup is undone while the main index entries and .gitignore are as it left them
+   */
+  private async getCleanupBlocker(entry: HistoryEntry): Promise<string | null> {
+    if (entry.mainIndex) {
+      const mainGit = new GitService(this.workingDir, this.fileSystem);
+      const current = await mainGit.getIndexEntries(entry.paths);
+
+      if (!this.isSameIndex(current, entry.mainIndex.after)) {
+        return 'the main repository index changed since, the paths were staged again';
+      }
+    }
+
+    if (entry.gitignore && (await this.readGitignore()) !== entry.gitignore.after) {
+      return '.gitignore changed since';
+    }
+
+    return null;
+  }
+
+  /**
+   * Reverse an entry that was checked by getUndoBlocker
+   */
+  private async reverse(entry: HistoryEntry, verbose?: boolean): Promise<void> {
+    const storagePath = await this.configManager.getStoragePath();
+    const privateGit = new GitService(storagePath, this.fileSystem);
+    const transactionService = new TransactionService(
+      this.workingDir,
+      this.configManager,
+      this.fileSystem,
+    );
+
+    const { transaction, branch } = entry;
+    const headBefore = entry.privateHead?.before;
+
+    if (entry.operation === 'cleanup') {
+      await this.reverseCleanup(entry);
+    } else if (entry.operation === 'add' && transaction) {
+      // Storage may have been relocated since, the recorded path is not used
+      await transactionService.rollbackAdd({ ...transaction, storagePath }, verbose);
+    } else if (entry.operation === 'remove' && transaction) {
+      await transactionService.rollbackRemove({ ...transaction, storagePath }, verbose);
+    } else if (entry.operation === 'mv' && transaction) {
+      await transactionService.rollbackMove({ ...transaction, storagePath }, verbose);
+    } else if (entry.operation === 'commit' && headBefore) {
+      // The committed changes stay staged
+      await privateGit.reset('soft', headBefore);
+    } else if (entry.operation === 'checkout' && branch && headBefore) {
+      await privateGit.checkout(branch.before === 'HEAD' ? headBefore : branch.before);
+    }
+
+    if (verbose) {
+      console.log(chalk.gray(`   Restored the state before ${HistoryService.describe(entry)}`));
+    }
+  }
+
+  /**
+   * Put back the main index entries and .gitignore content from before a cleanup
+   */
+  private async reverseCleanup(entry: HistoryEntry): Promise<void> {
+    if (entry.mainIndex) {
+      const mainGit = new GitService(this.workingDir, this.fileSystem);
+      await mainGit.restoreIndexEntries(entry.mainIndex.before);
+    }
+
+    if (entry.gitignore) {
+      const gitignorePath = path.join(this.workingDir, '.gitignore');
+      if (entry.gitignore.before) {
+        await this.fileSystem.writeFileAtomic(gitignorePath, entry.gitignore.before);
+      } else {
+        await this.fileSystem.remove(gitignorePath);
+      }
+    }
+  }
+
+  /**
+   * Check that a path still has the hash recorded right after the operation
+   */
+  private async isUnchanged(
+    entry: HistoryEntry,
+    rootDir: string,
+    relativePath: string,
+  ): Promise<boolean> {
+    const recorded = entry.hashes?.[relativePath];
+
+    try {
+      return (
+        !!recorded &&
+        (await this.fileSystem.hashPath(path.join(rootDir, relativePath))).sha256 === recorded
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Compare two lists of index entries regardless of order
+   */
+  private isSameIndex(current: IndexEntry[], expected: IndexEntry[]): boolean {
+    const format = (entries: IndexEntry[]): string =>
+      entries
+        .map(entry => `${entry.mode} ${entry.hash} ${entry.path}`)
+        .sort()
+        .join('\n');
+
+    return format(current) === format(expected);
+  }
+
+  /**
+   * Read .gitignore of the project, empty when it does not exist
+   */
+  private async readGitignore(): Promise<string> {
+    const gitignorePath = path.join(this.workingDir, '.gitignore');
+
+    return (await this.fileSystem.pathExists(gitignorePath))
+      ? this.fileSystem.readFile(gitignorePath)
+      : '';
+  }
+
+  /**
+   * Get the history service after checking the project is initialized
+   */
+  private async getHistoryService(): Promise<HistoryService> {
+    if (!(await this.configManager.exists())) {
+      throw new NotInitializedError(
+        'Private git tracking is not initialized. Run "private init" first.',
+      );
+    }
+
+    return new HistoryService(await this.configManager.getPrivateRepoPath(), this.fileSystem);
+  }
+
+  /**
+   * Handle errors and create appropriate command result
+   */
+  private handleError(error: unknown, defaultMessage: string): CommandResult {
+    if (error instanceof BaseError) {
+      return {
+        success: false,
+        message: error.message,
+        error,
+        exitCode: 1,
+      };
+    }
+
+    return {
+      success: false,
+      message: defaultMessage,
+      error: error instanceof Error ? error : new Error(String(error)),
+      exitCode: 1,
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { CommandResult, CommandOptions } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitService } from '../core/git.service';
+import { HookService } from '../core/hook.service';
+import { BaseError } from '../errors/base.error';
+
+/**
+ * Hooks command specific errors
+ */
+export class HooksError extends BaseError {
+  public readonly code = 'HOOKS_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Hooks command for guarding the main repository against committing private paths
+ */
+export class HooksCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+  }
+
+  /**
+   * Install the pre-commit guard in the main repository
+   */
+  public async install(options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      const hookService = await this.getHookService();
+
+      if (options.verbose) {
+        console.log(chalk.blue('🪝 Installing pre-commit hook...'));
+      }
+
+      const result = await hookService.install();
+
+      if (options.verbose) {
+        console.log(chalk.gray(`   Hook: ${result.hookPath}`));
+        if (result.chained) {
+          console.log(chalk.gray(`   Existing hook kept: ${hookService.getOriginalHookPath()}`));
+        }
+      }
+
+      let message = result.updated ? 'Pre-commit hook updated' : 'Pre-commit hook installed';
+      if (result.chained) {
+        message += ', existing hook is chained';
+      }
+
+      return {
+        success: true,
+        message,
+        data: result,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to install pre-commit hook');
+    }
+  }
+
+  /**
+   * Remove the pre-commit guard and restore the hook it replaced
+   */
+  public async uninstall(options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      const hookService = await this.getHookService();
+
+      if (options.verbose) {
+        console.log(chalk.blue('🪝 Removing pre-commit hook...'));
+      }
+
+      const result = await hookService.uninstall();
+
+      if (!result.removed) {
+        return {
+          success: true,
+          message: 'Pre-commit hook is not installed',
+          data: result,
+          exitCode: 0,
+        };
+      }
+
+      return {
+        success: true,
+        message: result.restored
+          ? 'Pre-commit hook removed, original hook restored'
+          : 'Pre-commit hook removed',
+        data: result,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to uninstall pre-commit hook');
+    }
+  }
+
+  /**
+   * Check the main repository index for private paths, run by the pre-commit hook
+   */
+  public async check(): Promise<CommandResult> {
+    try {
+      // Nothing to guard once private tracking is gone, never block commits in that case
+      if (!(await this.configManager.exists())) {
+        return { success: true, data: { blocked: [] }, exitCode: 0 };
+      }
+
+      const config = await this.configManager.load();
+      const gitService = new GitService(this.workingDir, this.fileSystem);
+      const privatePaths = [...config.trackedPaths, config.storagePath, config.privateRepoPath];
+      const blocked = this.findPrivatePaths(await gitService.getStagedFiles(), privatePaths);
+
+      if (blocked.length === 0) {
+        return { success: true, data: { blocked }, exitCode: 0 };
+      }
+
+      return {
+        success: false,
+        message: [
+          'Commit blocked, private paths are staged in the main repository:',
+          ...blocked.map(file => `  ${file}`),
+          'Unstage them with "git restore --staged <path>" or run "pgit cleanup --force".',
+        ].join('\n'),
+        data: { blocked },
+        exitCode: 1,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to check staged files');
+    }
+  }
+
+  /**
+   * Find staged files that are private paths or live inside one
+   */
+  private findPrivatePaths(stagedFiles: string[], privatePaths: string[]): string[] {
+    const prefixes = privatePaths
+      .map(privatePath => path.normalize(privatePath).split(path.sep).join('/'))
+      .map(privatePath => privatePath.replace(/\/+$/, ''))
+      .filter(privatePath => privatePath.length > 0 && privatePath !== '.');
+
+    return stagedFiles.filter(file =>
+      prefixes.some(prefix => file === prefix || file.startsWith(`${prefix}/`)),
+    );
+  }
+
+  /**
+   * Get hook service for the main repository
+   */
+  private async getHookService(): Promise<HookService> {
+    if (!(await this.configManager.exists())) {
+      throw new NotInitializedError(
+        'Private git tracking is not initialized. Run "private init" first.',
+      );
+    }
+
+    const gitService = new GitService(this.workingDir, this.fileSystem);
+    if (!(await gitService.isRepository())) {
+      throw new HooksError('Current directory is not a git repository');
+    }
+
+    return new HookService(await gitService.getHooksDirectory());
+  }
+
+  /**
+   * Handle errors consistently
+   */
+  private handleError(error: unknown, defaultMessage: string): CommandResult {
+    if (error instanceof BaseError) {
+      return {
+        success: false,
+        message: error.message,
+        error,
+        exitCode: 1,
+      };
+    }
+
+    return {
+      success: false,
+      message: defaultMessage,
+      error: error instanceof Error ? error : new Error(String(error)),
+      exitCode: 1,
+    };
+  }
+}
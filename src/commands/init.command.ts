@@ -1,10 +1,16 @@
 import * as path from 'path';
+import * as crypto from 'crypto';
 import chalk from 'chalk';
 import { CommandResult, CommandOptions, DEFAULT_PATHS } from '../types/config.types';
-import { ConfigManager } from '../core/config.manager';
+import { ConfigManager, BACKUP_SUFFIX } from '../core/config.manager';
 import { FileSystemService } from '../core/filesystem.service';
 import { GitService } from '../core/git.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { SymlinkService } from '../core/symlink.service';
+import { ManifestService, LinkTrackedPathsResult } from '../core/manifest.service';
+import { EncryptionService, KeySource } from '../core/encryption.service';
 import { PlatformDetector } from '../utils/platform.detector';
+import { PromptService } from '../utils/prompt.service';
 import { BaseError } from '../errors/base.error';
 
 /**
@@ -20,13 +26,31 @@ export class AlreadyInitializedError extends BaseError {
   public readonly recoverable = false;
 }
 
+/**
+ * Init command options
+ */
+export interface InitOptions extends CommandOptions {
+  /** Encrypt files committed to the private repository */
+  encrypt?: boolean;
+  /** Key file for encryption, created if it does not exist. A passphrase is used otherwise. */
+  keyFile?: string;
+  /** Private storage directory, relative to the project root */
+  storageDir?: string;
+  /** Keep private storage in the user data directory instead of the project */
+  externalStorage?: boolean;
+  /** Configuration file, relative to the project root */
+  configFile?: string;
+}
+
 /**
  * Initialize private git tracking command
  */
 export class InitCommand {
   private readonly workingDir: string;
   private readonly fileSystem: FileSystemService;
-  private readonly configManager: ConfigManager;
+  private configManager: ConfigManager;
+  private storageDir: string = DEFAULT_PATHS.storage;
+  private configFile: string = DEFAULT_PATHS.config;
 
   constructor(workingDir?: string) {
     this.workingDir = workingDir || process.cwd();
@@ -37,24 +61,40 @@ export class InitCommand {
   /**
    * Execute the init command
    */
-  public async execute(options: CommandOptions = {}): Promise<CommandResult> {
+  public async execute(options: InitOptions = {}): Promise<CommandResult> {
     try {
       if (options.verbose) {
         console.log(chalk.blue('🔧 Initializing private git tracking...'));
       }
 
+      // Apply a custom layout before anything is checked or created
+      this.applyLayout(options);
+
       // Check if already initialized
-      await this.checkNotAlreadyInitialized();
+      const adoptStorage = await this.checkNotAlreadyInitialized(options);
 
       // Validate environment
       await this.validateEnvironment(options.verbose);
 
+      // External storage outlives the project directory, pick it up instead of starting over
+      if (adoptStorage) {
+        return await this.adoptStorage(options);
+      }
+
+      // Ask for the passphrase before anything is created
+      const keySource = options.encrypt ? await this.getKeySource(options) : undefined;
+
       // Create directory structure
       await this.createDirectoryStructure(options.verbose);
 
       // Initialize private git repository
       await this.initializePrivateRepository(options.verbose);
 
+      // Set up encryption at rest
+      if (keySource) {
+        await this.setupEncryption(keySource, options.verbose);
+      }
+
       // Create configuration
       await this.createConfiguration(options.verbose);
 
@@ -62,11 +102,14 @@ export class InitCommand {
       await this.updateGitignore(options.verbose);
 
       // Create initial commit in private repository
-      await this.createInitialCommit(options.verbose);
+      await this.createInitialCommit(options.verbose, Boolean(keySource));
 
       return {
         success: true,
-        message: 'Private git tracking initialized successfully',
+        message: keySource
+          ? 'Private git tracking initialized successfully with encryption'
+          : 'Private git tracking initialized successfully',
+        data: { workingDir: this.workingDir, encrypted: Boolean(keySource) },
         exitCode: 0,
       };
     } catch (error) {
@@ -89,9 +132,75 @@ export class InitCommand {
   }
 
   /**
-   * Check if private git tracking is already initialized
+   * Use the storage directory and configuration file given on the command line
    */
-  private async checkNotAlreadyInitialized(): Promise<void> {
+  private applyLayout(options: InitOptions): void {
+    if (options.externalStorage && options.storageDir) {
+      throw new InitError('--external-storage cannot be combined with --storage-dir');
+    }
+
+    if (options.storageDir) {
+      this.storageDir = this.toProjectPath(options.storageDir, '--storage-dir');
+    }
+
+    if (options.externalStorage) {
+      this.storageDir = this.getExternalStorageDir();
+    }
+
+    if (options.configFile) {
+      this.configFile = this.toProjectPath(options.configFile, '--config');
+      this.configManager = new ConfigManager(this.workingDir, this.fileSystem, this.configFile);
+    }
+
+    const storagePath = path.resolve(this.workingDir, this.storageDir);
+    const configPath = path.resolve(this.workingDir, this.configFile);
+    if (configPath === storagePath || configPath.startsWith(`${storagePath}${path.sep}`)) {
+      throw new InitError('The configuration file cannot be stored inside private storage');
+    }
+
+    this.fileSystem.trustPath(storagePath);
+  }
+
+  /**
+   * Private storage outside the project, named after the project and a hash of its location
+   * so that projects with the same name do not share storage
+   */
+  private getExternalStorageDir(): string {
+    const projectRoot = path.resolve(this.workingDir);
+    const projectName = path.basename(projectRoot).replace(/[^A-Za-z0-9._-]/g, '-') || 'project';
+    const projectHash = crypto.createHash('sha256').update(projectRoot).digest('hex').slice(0, 12);
+
+    return path.join(PlatformDetector.getDataDirectory(), 'pgit', `${projectName}-${projectHash}`);
+  }
+
+  /**
+   * Normalize a layout path, keeping it relative when it is inside the project
+   */
+  private toProjectPath(inputPath: string, optionName: string): string {
+    const absolutePath = path.resolve(this.workingDir, inputPath.trim());
+    const relativePath = path.relative(this.workingDir, absolutePath);
+
+    if (!inputPath.trim() || !relativePath) {
+      throw new InitError(`${optionName} must not point at the project root`);
+    }
+
+    if (absolutePath.split(path.sep).includes('.git')) {
+      throw new InitError(`${optionName} must not point inside a .git directory`);
+    }
+
+    const isInsideProject =
+      relativePath !== '..' &&
+      !relativePath.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relativePath);
+
+    return isInsideProject ? relativePath : absolutePath;
+  }
+
+  /**
+   * Check if private git tracking is already initialized.
+   * Returns true when existing external storage should be adopted.
+   */
+  private async checkNotAlreadyInitialized(options: InitOptions): Promise<boolean> {
     if (await this.configManager.exists()) {
       throw new AlreadyInitializedError(
         'Private git tracking is already initialized in this directory. Use "private status" to check current state.',
@@ -100,7 +209,7 @@ export class InitCommand {
 
     // Check if directories already exist
     const privateRepoPath = path.join(this.workingDir, DEFAULT_PATHS.privateRepo);
-    const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+    const storagePath = path.resolve(this.workingDir, this.storageDir);
 
     if (await this.fileSystem.pathExists(privateRepoPath)) {
       throw new AlreadyInitializedError(
@@ -108,11 +217,125 @@ export class InitCommand {
       );
     }
 
-    if (await this.fileSystem.pathExists(storagePath)) {
-      throw new AlreadyInitializedError(
-        `Private storage directory already exists: ${DEFAULT_PATHS.storage}`,
+    if (!(await this.fileSystem.pathExists(storagePath))) {
+      return false;
+    }
+
+    if (
+      options.externalStorage &&
+      (await new GitService(storagePath, this.fileSystem).isRepository())
+    ) {
+      if (options.encrypt) {
+        throw new InitError(
+          'Existing private storage cannot be encrypted again',
+          'Run "pgit init --external-storage" without --encrypt, then "pgit unlock" if it is encrypted',
+        );
+      }
+
+      return true;
+    }
+
+    throw new AlreadyInitializedError(
+      `Private storage directory already exists: ${this.storageDir}`,
+    );
+  }
+
+  /**
+   * Rebuild the configuration and links of a project from existing external storage,
+   * after the project directory was cleaned or checked out again at the same location
+   */
+  private async adoptStorage(options: InitOptions): Promise<CommandResult> {
+    const storagePath = path.resolve(this.workingDir, this.storageDir);
+    const manifestService = new ManifestService(
+      storagePath,
+      this.fileSystem,
+      new SymlinkService(this.fileSystem),
+    );
+
+    if (options.verbose) {
+      console.log(chalk.gray(`   Adopting existing private storage ${this.storageDir}...`));
+    }
+
+    const manifest = await manifestService.read();
+    if (!manifest) {
+      console.log(
+        chalk.yellow(
+          `   ⚠️  Warning: ${DEFAULT_PATHS.manifest} not found in private storage, no tracked paths can be restored`,
+        ),
       );
     }
+
+    await this.fileSystem.createDirectory(path.join(this.workingDir, DEFAULT_PATHS.privateRepo));
+    await this.createConfiguration(options.verbose);
+
+    // Remotes live in the storage repository, bring them back into the configuration
+    for (const remote of await new GitService(storagePath, this.fileSystem).getRemotes()) {
+      await this.configManager.addRemote(remote);
+    }
+
+    const linkResult = await manifestService.linkTrackedPaths(
+      this.workingDir,
+      manifest?.trackedPaths || [],
+      manifest?.linkStrategies,
+    );
+
+    // Conflicting paths are left untracked rather than overwritten
+    const trackedPaths = [
+      ...linkResult.linked,
+      ...linkResult.alreadyLinked,
+      ...linkResult.repaired,
+    ];
+    if (trackedPaths.length > 0) {
+      await this.configManager.addMultipleTrackedPaths(
+        trackedPaths,
+        await manifestService.getTrackedFileDetails(trackedPaths, manifest?.linkStrategies),
+      );
+    }
+
+    await this.updateGitignore(options.verbose);
+    await new GitignoreService(this.workingDir, this.fileSystem).syncTrackedPathsFromConfig(
+      this.configManager,
+      options.verbose,
+    );
+
+    this.displayLinkResult(linkResult, options.verbose);
+
+    const encrypted = await new EncryptionService(storagePath, this.fileSystem).isEnabled();
+    if (encrypted) {
+      console.log(
+        chalk.yellow('🔒 Private files are encrypted. Run "pgit unlock" to decrypt them.'),
+      );
+    }
+
+    return {
+      success: true,
+      message: `Adopted existing private storage with ${trackedPaths.length} tracked path(s)${
+        linkResult.conflicts.length > 0 ? `, ${linkResult.conflicts.length} conflict(s)` : ''
+      }`,
+      data: { workingDir: this.workingDir, encrypted, adopted: true, trackedPaths, ...linkResult },
+      exitCode: 0,
+    };
+  }
+
+  /**
+   * Display linked paths and conflicts
+   */
+  private displayLinkResult(result: LinkTrackedPathsResult, verbose?: boolean): void {
+    if (verbose) {
+      for (const linked of [...result.linked, ...result.repaired]) {
+        console.log(chalk.green(`   ✓ Linked ${linked}`));
+      }
+    }
+    for (const conflict of result.conflicts) {
+      console.log(
+        chalk.yellow(
+          `   ⚠ Conflict: ${conflict} exists as a real file and was left untracked, its private version stays in storage`,
+        ),
+      );
+    }
+    for (const missing of result.missing) {
+      console.log(chalk.yellow(`   ⚠ Missing from private storage: ${missing}`));
+    }
   }
 
   /**
@@ -169,7 +392,7 @@ export class InitCommand {
     }
 
     const privateRepoPath = path.join(this.workingDir, DEFAULT_PATHS.privateRepo);
-    const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+    const storagePath = path.resolve(this.workingDir, this.storageDir);
 
     try {
       // Create private repository directory
@@ -181,7 +404,7 @@ export class InitCommand {
       // Create private storage directory
       await this.fileSystem.createDirectory(storagePath);
       if (verbose) {
-        console.log(chalk.gray(`   ✓ Created ${DEFAULT_PATHS.storage}/`));
+        console.log(chalk.gray(`   ✓ Created ${this.storageDir}/`));
       }
     } catch (error) {
       throw new InitError(
@@ -200,12 +423,15 @@ export class InitCommand {
     }
 
     try {
-      const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+      const storagePath = path.resolve(this.workingDir, this.storageDir);
       const privateGitService = new GitService(storagePath, this.fileSystem);
 
       // Initialize git repository in storage directory
       await privateGitService.initRepository();
 
+      // Respect .pgitignore rules inside tracked directories
+      await privateGitService.setExcludesFile(DEFAULT_PATHS.pgitignore);
+
       if (verbose) {
         console.log(chalk.green('   ✓ Private git repository initialized'));
       }
@@ -217,6 +443,51 @@ export class InitCommand {
     }
   }
 
+  /**
+   * Get the key source for encryption from options or by asking for a passphrase
+   */
+  private async getKeySource(options: InitOptions): Promise<KeySource> {
+    if (options.keyFile) {
+      return { keyFile: path.resolve(this.workingDir, options.keyFile) };
+    }
+
+    return { passphrase: await PromptService.askPassphrase(true) };
+  }
+
+  /**
+   * Enable encryption at rest for the private repository
+   */
+  private async setupEncryption(keySource: KeySource, verbose?: boolean): Promise<void> {
+    if (verbose) {
+      console.log(chalk.gray('   Setting up encryption...'));
+    }
+
+    try {
+      const storagePath = path.resolve(this.workingDir, this.storageDir);
+      const encryptionService = new EncryptionService(storagePath, this.fileSystem);
+      const privateGitService = new GitService(storagePath, this.fileSystem);
+
+      await encryptionService.enable(keySource);
+      await encryptionService.writeGitattributes();
+      await privateGitService.configureEncryptionFilter(EncryptionService.getFilterCommand());
+
+      if (verbose) {
+        console.log(
+          chalk.green(
+            keySource.keyFile
+              ? `   ✓ Encryption enabled with key file ${keySource.keyFile}`
+              : '   ✓ Encryption enabled with passphrase',
+          ),
+        );
+      }
+    } catch (error) {
+      throw new InitError(
+        'Failed to set up encryption',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Create the initial configuration
    */
@@ -226,10 +497,15 @@ export class InitCommand {
     }
 
     try {
-      await this.configManager.create(this.workingDir);
+      await this.configManager.create(this.workingDir, {}, { storagePath: this.storageDir });
+
+      // Commands look for the default file first, record where the configuration lives otherwise
+      if (this.configFile !== DEFAULT_PATHS.config) {
+        await this.configManager.saveConfigFileSetting(this.configFile);
+      }
 
       if (verbose) {
-        console.log(chalk.green(`   ✓ Configuration created: ${DEFAULT_PATHS.config}`));
+        console.log(chalk.green(`   ✓ Configuration created: ${this.configFile}`));
       }
     } catch (error) {
       throw new InitError(
@@ -248,41 +524,16 @@ export class InitCommand {
     }
 
     try {
-      const gitignorePath = path.join(this.workingDir, DEFAULT_PATHS.gitignore);
-
-      // Read existing .gitignore or create empty content
-      let gitignoreContent = '';
-      if (await this.fileSystem.pathExists(gitignorePath)) {
-        gitignoreContent = await this.fileSystem.readFile(gitignorePath);
-      }
+      const gitignoreService = new GitignoreService(this.workingDir, this.fileSystem);
 
-      // Define private git entries
-      const privateEntries = [
-        '',
-        '# Private Git Tracking (auto-generated)',
+      const privatePaths = [
         DEFAULT_PATHS.privateRepo,
-        DEFAULT_PATHS.storage,
-        DEFAULT_PATHS.config,
-        '',
+        this.storageDir,
+        this.configFile,
+        `${this.configFile}${BACKUP_SUFFIX}*`,
       ];
 
-      // Check if entries already exist
-      const entriesToAdd: string[] = [];
-      for (const entry of privateEntries) {
-        if (entry.trim() && !gitignoreContent.includes(entry)) {
-          entriesToAdd.push(entry);
-        }
-      }
-
-      // Add entries if needed
-      if (entriesToAdd.length > 0) {
-        if (gitignoreContent && !gitignoreContent.endsWith('\n')) {
-          gitignoreContent += '\n';
-        }
-        gitignoreContent += entriesToAdd.join('\n');
-
-        await this.fileSystem.writeFileAtomic(gitignorePath, gitignoreContent);
-
+      if (await gitignoreService.addPrivateEntries(privatePaths)) {
         if (verbose) {
           console.log(chalk.green('   ✓ Updated .gitignore with private git exclusions'));
         }
@@ -302,13 +553,13 @@ export class InitCommand {
   /**
    * Create initial commit in private repository
    */
-  private async createInitialCommit(verbose?: boolean): Promise<void> {
+  private async createInitialCommit(verbose?: boolean, encrypted = false): Promise<void> {
     if (verbose) {
       console.log(chalk.gray('   Creating initial commit in private repository...'));
     }
 
     try {
-      const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+      const storagePath = path.resolve(this.workingDir, this.storageDir);
       const privateGitService = new GitService(storagePath, this.fileSystem);
 
       // Create initial README file
@@ -326,8 +577,12 @@ Do not modify this directory manually. Use the \`private\` CLI commands instead.
 
       await this.fileSystem.writeFileAtomic(readmePath, readmeContent);
 
-      // Add and commit the README
-      await privateGitService.addFiles(['README.md']);
+      // Add and commit the README, plus the encryption settings other machines need to unlock
+      await privateGitService.addFiles(
+        encrypted
+          ? ['README.md', DEFAULT_PATHS.gitattributes, DEFAULT_PATHS.encryption]
+          : ['README.md'],
+      );
       const commitHash = await privateGitService.commit(
         'Initial commit: Private files storage initialized',
       );
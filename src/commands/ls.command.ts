@@ -0,0 +1,68 @@
+import { CommandResult } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { BaseError } from '../errors/base.error';
+
+/**
+ * Ls command specific errors
+ */
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Ls command for listing tracked paths with their recorded details, displayed by the ls view
+ */
+export class LsCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+  }
+
+  /**
+   * Execute the ls command
+   */
+  public async execute(): Promise<CommandResult> {
+    try {
+      if (!(await this.configManager.exists())) {
+        throw new NotInitializedError(
+          'Private git tracking is not initialized. Run "private init" first.',
+        );
+      }
+
+      const records = await this.configManager.getTrackedFiles();
+
+      return {
+        success: true,
+        message:
+          records.length === 0
+            ? 'No paths are tracked'
+            : `${records.length} tracked path${records.length === 1 ? '' : 's'}`,
+        data: records,
+        exitCode: 0,
+      };
+    } catch (error) {
+      if (error instanceof BaseError) {
+        return {
+          success: false,
+          message: error.message,
+          error,
+          exitCode: 1,
+        };
+      }
+
+      return {
+        success: false,
+        message: 'Failed to list tracked paths',
+        error: error instanceof Error ? error : new Error(String(error)),
+        exitCode: 1,
+      };
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { CommandResult, CommandOptions, MigrationStep } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { BaseError } from '../errors/base.error';
+import { DryRunReporter } from '../utils/dry-run.reporter';
+import { PromptService } from '../utils/prompt.service';
+
+/**
+ * Options for the migrate command
+ */
+export interface MigrateOptions extends CommandOptions {
+  /** Apply destructive steps without asking */
+  yes?: boolean;
+}
+
+/**
+ * Migrate command specific errors
+ */
+export class MigrateError extends BaseError {
+  public readonly code = 'MIGRATE_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Migrate command for upgrading the configuration file to the current format
+ */
+export class MigrateCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+  }
+
+  /**
+   * Execute the migrate command
+   */
+  public async execute(options: MigrateOptions = {}): Promise<CommandResult> {
+    try {
+      if (!(await this.configManager.exists())) {
+        throw new NotInitializedError(
+          'Private git tracking is not initialized. Run "private init" first.',
+        );
+      }
+
+      const migrationInfo = await this.configManager.getMigrationInfo();
+
+      if (!migrationInfo) {
+        const config = await this.configManager.load();
+        return {
+          success: true,
+          message: `Configuration is up to date (version ${config.version})`,
+          exitCode: 0,
+        };
+      }
+
+      const configFile = path.relative(this.workingDir, await this.configManager.getConfigPath());
+
+      if (options.dryRun) {
+        const plan = DryRunReporter.createPlan('migrate');
+        for (const step of migrationInfo.steps) {
+          plan.configChanges.push(
+            step.destructive ? `${step.description} (destructive)` : step.description,
+          );
+          if (step.destructive) {
+            plan.warnings.push(`Step ${step.id} drops information and needs confirmation`);
+          }
+        }
+        plan.configChanges.push(
+          `Update ${configFile} from version ${migrationInfo.fromVersion} to ${migrationInfo.toVersion}`,
+        );
+        DryRunReporter.display(plan);
+
+        return {
+          success: true,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: 0,
+        };
+      }
+
+      if (
+        !migrationInfo.safe &&
+        !options.yes &&
+        !(await this.confirmDestructiveSteps(migrationInfo.steps))
+      ) {
+        return {
+          success: false,
+          message: 'Migration cancelled',
+          exitCode: 1,
+        };
+      }
+
+      if (options.verbose) {
+        console.log(
+          chalk.blue(
+            `🔄 Migrating ${configFile} from ${migrationInfo.fromVersion} to ${migrationInfo.toVersion}...`,
+          ),
+        );
+      }
+
+      const result = await this.configManager.migrate({ allowDestructive: true });
+
+      if (options.verbose) {
+        for (const step of result.steps) {
+          console.log(chalk.gray(`   ${step.description}`));
+        }
+        if (result.backupPath) {
+          console.log(
+            chalk.gray(`   Backup: ${path.relative(this.workingDir, result.backupPath)}`),
+          );
+        }
+      }
+
+      return {
+        success: true,
+        message: `Configuration migrated from ${result.fromVersion} to ${result.toVersion}`,
+        data: result,
+        exitCode: 0,
+      };
+    } catch (error) {
+      if (error instanceof BaseError) {
+        return {
+          success: false,
+          message: error.message,
+          error,
+          exitCode: 1,
+        };
+      }
+
+      return {
+        success: false,
+        message: 'Failed to migrate configuration',
+        error: error instanceof Error ? error : new Error(String(error)),
+        exitCode: 1,
+      };
+    }
+  }
+
+  /**
+   * Ask before running steps that drop information
+   */
+  private confirmDestructiveSteps(steps: MigrationStep[]): Promise<boolean> {
+    if (!PromptService.isInteractive()) {
+      throw new MigrateError(
+        'Migration includes destructive steps, run "pgit migrate --dry-run" to review them and "pgit migrate --yes" to apply',
+      );
+    }
+
+    console.log(chalk.yellow('⚠️  The following steps drop information:'));
+    for (const step of steps.filter(step => step.destructive)) {
+      console.log(chalk.yellow(`   • ${step.description}`));
+    }
+
+    return PromptService.confirm('Apply them?');
+  }
+}
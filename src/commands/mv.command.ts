@@ -0,0 +1,559 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import {
+  CommandResult,
+  CommandOptions,
+  DEFAULT_PATHS,
+  DryRunPlan,
+  TrackedFileDetails,
+  TransactionRecord,
+} from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitService } from '../core/git.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { LinkService } from '../core/link.service';
+import { PgitignoreService } from '../core/pgitignore.service';
+import { ManifestService } from '../core/manifest.service';
+import { SyncService } from '../core/sync.service';
+import { HistoryService } from '../core/history.service';
+import { JournalService } from '../core/journal.service';
+import { TransactionService } from '../core/transaction.service';
+import { BaseError } from '../errors/base.error';
+import { InputValidator } from '../utils/input.validator';
+import { DryRunReporter } from '../utils/dry-run.reporter';
+import { ProjectPaths } from '../utils/project.paths';
+import {
+  NotTrackedError,
+  UnsafePathError,
+  InvalidInputError,
+  OperationInterruptedError,
+} from '../errors/specific.errors';
+
+/**
+ * Mv command specific errors
+ */
+export class MvError extends BaseError {
+  public readonly code = 'MV_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Mv command for moving or renaming a tracked path. The stored copy is renamed in the private
+ * repository, so its history continues under the new name.
+ */
+export class MvCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+  private readonly linkService: LinkService;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+    this.linkService = new LinkService(this.fileSystem);
+  }
+
+  /**
+   * Move a tracked path, into the destination when it is an existing directory
+   */
+  public async execute(
+    source: string,
+    destination: string,
+    options: CommandOptions = {},
+  ): Promise<CommandResult> {
+    try {
+      if (!(await this.configManager.exists())) {
+        throw new NotInitializedError(
+          'Private git tracking is not initialized. Run "private init" first.',
+        );
+      }
+
+      const fromPath = await this.validateSource(source);
+      const toPath = await this.validateDestination(fromPath, destination);
+
+      if (options.verbose) {
+        console.log(chalk.blue(`🔄 Moving ${fromPath} to ${toPath}...`));
+      }
+
+      // Report the plan without touching the disk
+      if (options.dryRun) {
+        const plan = await this.buildMovePlan(fromPath, toPath);
+        DryRunReporter.display(plan);
+
+        return {
+          success: true,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: 0,
+        };
+      }
+
+      await this.executeMoveOperation(fromPath, toPath, options);
+      await new GitignoreService(this.workingDir, this.fileSystem).syncTrackedPathsFromConfig(
+        this.configManager,
+        options.verbose,
+      );
+
+      return {
+        success: true,
+        message: `Moved ${ProjectPaths.toDisplayPath(fromPath)} to ${ProjectPaths.toDisplayPath(toPath)}`,
+        data: { from: fromPath, to: toPath },
+        exitCode: 0,
+      };
+    } catch (error) {
+      if (error instanceof BaseError) {
+        return {
+          success: false,
+          message: error.message,
+          error,
+          exitCode: error instanceof OperationInterruptedError ? error.exitCode : 1,
+        };
+      }
+
+      return {
+        success: false,
+        message: 'Failed to move tracked path',
+        error: error instanceof Error ? error : new Error(String(error)),
+        exitCode: 1,
+      };
+    }
+  }
+
+  /**
+   * Validate that the source is a tracked path with a private copy
+   */
+  private async validateSource(source: string): Promise<string> {
+    const fromPath = this.normalizePath(source);
+    const config = await this.configManager.load();
+
+    if (!config.trackedPaths.includes(fromPath)) {
+      throw new NotTrackedError(`Path is not tracked: ${fromPath}`);
+    }
+
+    const storagePath = path.join(await this.configManager.getStoragePath(), fromPath);
+    if (!(await this.fileSystem.pathExists(storagePath))) {
+      throw new MvError(
+        `Private copy is missing from storage: ${fromPath}. Run "pgit cleanup" first.`,
+      );
+    }
+
+    return fromPath;
+  }
+
+  /**
+   * Resolve the new path and check that nothing is in the way, in the project or in storage
+   */
+  private async validateDestination(fromPath: string, destination: string): Promise<string> {
+    // The project root is a directory like any other
+    let toPath = path.normalize(destination) === '.' ? '' : this.normalizePath(destination);
+
+    // Like git mv, an existing directory receives the path
+    const destinationPath = path.join(this.workingDir, toPath);
+    if (
+      (await this.fileSystem.pathExists(destinationPath)) &&
+      (await this.fileSystem.isDirectory(destinationPath))
+    ) {
+      toPath = path.join(toPath, path.basename(fromPath));
+    }
+
+    if (toPath === fromPath) {
+      throw new MvError(`${fromPath} is already at ${toPath}`);
+    }
+    if (toPath.startsWith(`${fromPath}${path.sep}`)) {
+      throw new MvError(`Cannot move ${fromPath} into itself`);
+    }
+
+    const privatePaths = [
+      await this.configManager.getStoragePath(),
+      await this.configManager.getPrivateRepoPath(),
+      await this.configManager.getConfigPath(),
+    ];
+    const absolutePath = path.join(this.workingDir, toPath);
+    if (
+      privatePaths.some(
+        privatePath =>
+          absolutePath === privatePath || absolutePath.startsWith(`${privatePath}${path.sep}`),
+      )
+    ) {
+      throw new UnsafePathError(`Path is part of private git tracking itself: ${destination}`);
+    }
+
+    // Tracked directories are links into storage, nothing can be moved into or around them
+    const config = await this.configManager.load();
+    const overlapping = config.trackedPaths.find(
+      trackedPath =>
+        trackedPath !== fromPath &&
+        (toPath === trackedPath ||
+          toPath.startsWith(`${trackedPath}${path.sep}`) ||
+          trackedPath.startsWith(`${toPath}${path.sep}`)),
+    );
+    if (overlapping) {
+      throw new MvError(`Destination ${toPath} overlaps the tracked path ${overlapping}`);
+    }
+
+    if (await this.fileSystem.pathExists(path.join(this.workingDir, toPath))) {
+      throw new MvError(`Destination already exists: ${toPath}`);
+    }
+    if (
+      await this.fileSystem.pathExists(path.join(await this.configManager.getStoragePath(), toPath))
+    ) {
+      throw new MvError(`Destination already exists in private storage: ${toPath}`);
+    }
+
+    return toPath;
+  }
+
+  /**
+   * Validate a path and make it relative to the project root
+   */
+  private normalizePath(inputPath: string): string {
+    const validation = InputValidator.validatePath(inputPath, {
+      allowAbsolutePaths: false,
+      allowParentDirectory: false,
+      maxPathLength: 255,
+    });
+
+    if (!validation.isValid) {
+      if (validation.securityRisk) {
+        throw new UnsafePathError(inputPath, validation.issues.join(', '));
+      }
+      throw new InvalidInputError(`Invalid path: ${validation.issues.join(', ')}`);
+    }
+
+    const safePath = InputValidator.createSafePath(this.workingDir, validation.normalizedPath);
+    return path.relative(this.workingDir, safePath);
+  }
+
+  /**
+   * Build the dry run plan for a move, mirroring executeMoveOperation
+   */
+  private async buildMovePlan(fromPath: string, toPath: string): Promise<DryRunPlan> {
+    const plan = DryRunReporter.createPlan('mv');
+    const privateStoragePath = await this.configManager.getStoragePath();
+    const storageDisplayPath = path.relative(this.workingDir, privateStoragePath);
+
+    if (!(await new GitService(privateStoragePath, this.fileSystem).isRepository())) {
+      throw new MvError('Private git repository not found. The initialization may have failed.');
+    }
+
+    plan.symlinks.push({ action: 'remove', link: fromPath });
+    plan.moves.push({
+      from: path.join(storageDisplayPath, fromPath),
+      to: path.join(storageDisplayPath, toPath),
+    });
+    plan.symlinks.push({
+      action: 'create',
+      link: toPath,
+      target: path.join(storageDisplayPath, toPath),
+    });
+
+    const privateFiles = [fromPath, toPath];
+    if (await this.hasScopedRules(privateStoragePath, fromPath)) {
+      plan.warnings.push(
+        `Exclude rules of ${fromPath} in ${DEFAULT_PATHS.pgitignore} will be moved to ${toPath}`,
+      );
+      privateFiles.push(DEFAULT_PATHS.pgitignore);
+    }
+    privateFiles.push(DEFAULT_PATHS.manifest);
+
+    plan.indexChanges.push({ repository: 'private', action: 'remove', paths: [fromPath] });
+    plan.indexChanges.push({ repository: 'private', action: 'add', paths: [toPath] });
+    plan.commits.push({
+      repository: 'private',
+      message: TransactionService.getMoveMessage({ [fromPath]: toPath }),
+      files: privateFiles,
+    });
+    plan.configChanges.push(
+      `Rename tracked path in ${ProjectPaths.toDisplayPath(await this.configManager.getConfigPath())}: ${ProjectPaths.toDisplayPath(fromPath)} → ${ProjectPaths.toDisplayPath(toPath)}`,
+    );
+
+    const config = await this.configManager.load();
+    await new GitignoreService(this.workingDir, this.fileSystem).planTrackedPathsFromConfig(
+      this.configManager,
+      config.trackedPaths.map(trackedPath => (trackedPath === fromPath ? toPath : trackedPath)),
+      plan,
+    );
+
+    return plan;
+  }
+
+  /**
+   * Check whether .pgitignore has rules scoped to a tracked directory
+   */
+  private async hasScopedRules(privateStoragePath: string, relativePath: string): Promise<boolean> {
+    const prefix = `/${relativePath.split(path.sep).join('/')}/`;
+    const rules = await new PgitignoreService(privateStoragePath, this.fileSystem).readRules();
+
+    return rules.some(rule => rule.replace(/^!/, '').startsWith(prefix));
+  }
+
+  /**
+   * Execute the move atomically, every completed step is rolled back when a later one fails
+   */
+  private async executeMoveOperation(
+    fromPath: string,
+    toPath: string,
+    options: CommandOptions,
+  ): Promise<void> {
+    const rollbackActions: Array<() => Promise<void>> = [];
+    const privateStoragePath = await this.configManager.getStoragePath();
+    const privateGitService = new GitService(privateStoragePath, this.fileSystem);
+
+    if (!(await privateGitService.isRepository())) {
+      throw new MvError('Private git repository not found. The initialization may have failed.');
+    }
+
+    const record = await this.configManager.getTrackedFile(fromPath);
+    const strategy = record?.linkStrategy;
+    const details: TrackedFileDetails = {
+      mainRepoState: record?.mainRepoState || 'unknown',
+      isDirectory: record?.isDirectory,
+      mode: record?.mode,
+      size: record?.size,
+      sha256: record?.sha256,
+      linkStrategy: record?.linkStrategy,
+      syncedSha256: record?.syncedSha256,
+    };
+
+    // Edits to hard links and copies go into storage first, the working copy is recreated from it
+    await new SyncService(this.workingDir, this.configManager, this.fileSystem).syncIn({
+      paths: [fromPath],
+      verbose: options.verbose,
+    });
+
+    const pgitignoreService = new PgitignoreService(privateStoragePath, this.fileSystem);
+    const pgitignoreContent = await pgitignoreService.readContent();
+    const privateHead = (await privateGitService.resolveRevision('HEAD')) || undefined;
+
+    const journal = new JournalService(await this.configManager.getPrivateRepoPath());
+    await journal.begin({
+      operation: 'mv',
+      paths: [fromPath],
+      storagePath: privateStoragePath,
+      privateHead,
+      mainIndexPaths: [],
+      details: { [fromPath]: details },
+      exclude: await this.hasScopedRules(privateStoragePath, fromPath),
+      renames: { [fromPath]: toPath },
+      steps: ['unlink', 'move', 'commit', 'config', 'link'].map(name => ({
+        name,
+        path: fromPath,
+      })),
+    });
+
+    const oldStoragePath = path.join(privateStoragePath, fromPath);
+    const newStoragePath = path.join(privateStoragePath, toPath);
+    const oldProjectPath = path.join(this.workingDir, fromPath);
+    const newProjectPath = path.join(this.workingDir, toPath);
+
+    try {
+      // Step 1: Remove the link at the old location
+      if (options.verbose) {
+        console.log(chalk.gray(`   Removing ${fromPath} from the project...`));
+      }
+
+      rollbackActions.push(async () => {
+        await this.linkService.create(oldStoragePath, oldProjectPath, strategy);
+      });
+      await this.linkService.remove(oldProjectPath, strategy);
+      await journal.completeStep('unlink', fromPath);
+
+      // Step 2: Rename the stored copy in the private repository
+      if (options.verbose) {
+        console.log(chalk.gray(`   Moving private copy to ${toPath}...`));
+      }
+
+      const createdStorageDirs = await this.createParentDirectories(newStoragePath);
+      rollbackActions.push(async () => {
+        if (
+          (await this.fileSystem.pathExists(newStoragePath)) &&
+          !(await this.fileSystem.pathExists(oldStoragePath))
+        ) {
+          await this.fileSystem.moveFileAtomic(newStoragePath, oldStoragePath);
+          this.fileSystem.clearRollbackActions();
+        }
+        // The index and the commit go back to the old path, which is on disk again
+        if (privateHead) {
+          await privateGitService.reset('mixed', privateHead);
+        }
+        await this.removeEmptyDirectories(createdStorageDirs);
+      });
+
+      if (await privateGitService.isTracked(fromPath)) {
+        await privateGitService.move(fromPath, toPath);
+      } else {
+        await this.fileSystem.moveFileAtomic(oldStoragePath, newStoragePath);
+        this.fileSystem.clearRollbackActions();
+        await privateGitService.addFiles([toPath]);
+      }
+
+      // Exclude rules of a moved directory follow it
+      rollbackActions.push(async () => {
+        await pgitignoreService.restoreContent(pgitignoreContent);
+      });
+      if (await pgitignoreService.renameDirectory(fromPath, toPath)) {
+        await privateGitService.addFiles([DEFAULT_PATHS.pgitignore]);
+      }
+
+      // So does its entry in the manifest
+      const manifestService = new ManifestService(privateStoragePath, this.fileSystem);
+      const manifestContent = await manifestService.readContent();
+      rollbackActions.push(async () => {
+        await manifestService.restoreContent(manifestContent);
+      });
+      if (
+        await manifestService.writeFromConfig(
+          await this.configManager.load(),
+          new Map([[toPath, details]]),
+          [fromPath],
+        )
+      ) {
+        await privateGitService.addFiles([DEFAULT_PATHS.manifest]);
+      }
+      await journal.completeStep('move', fromPath);
+
+      // Step 3: Commit the rename
+      const commitHash = await privateGitService.commit(
+        TransactionService.getMoveMessage({ [fromPath]: toPath }),
+      );
+      await journal.completeStep('commit', fromPath);
+
+      // Step 4: Update configuration
+      if (options.verbose) {
+        console.log(chalk.gray('   Updating configuration...'));
+      }
+
+      await this.configManager.renameTrackedPath(fromPath, toPath);
+      rollbackActions.push(async () => {
+        await this.configManager.renameTrackedPath(toPath, fromPath);
+      });
+      await journal.completeStep('config', fromPath);
+
+      // Step 5: Link the new location, creating missing parent directories
+      if (options.verbose) {
+        console.log(chalk.gray(`   Linking ${toPath}...`));
+      }
+
+      const createdProjectDirs = await this.createParentDirectories(newProjectPath);
+      rollbackActions.push(async () => {
+        await this.linkService.remove(newProjectPath, strategy);
+        await this.removeEmptyDirectories(createdProjectDirs);
+      });
+      await this.linkService.create(newStoragePath, newProjectPath, strategy);
+      await journal.completeStep('link', fromPath);
+
+      if (options.verbose) {
+        console.log(chalk.gray(`   Commit hash: ${commitHash}`));
+      }
+    } catch (error) {
+      await this.rollback(rollbackActions, journal, options);
+      throw error;
+    }
+
+    await this.recordHistory(await journal.finish());
+  }
+
+  /**
+   * Run rollback actions in reverse order, keeping the journal when one of them fails
+   */
+  private async rollback(
+    rollbackActions: Array<() => Promise<void>>,
+    journal: JournalService,
+    options: CommandOptions,
+  ): Promise<void> {
+    if (options.verbose) {
+      console.log(chalk.yellow('   Rolling back changes due to error...'));
+    }
+
+    let rollbackFailed = false;
+    for (const rollbackAction of rollbackActions.reverse()) {
+      try {
+        await rollbackAction();
+      } catch (rollbackError) {
+        // Log rollback errors but don't throw to avoid masking original error
+        rollbackFailed = true;
+        console.error(
+          chalk.red(
+            `   Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`,
+          ),
+        );
+      }
+    }
+
+    if (rollbackFailed) {
+      journal.release();
+      console.error(chalk.yellow('   Run "pgit recover --rollback" to finish rolling back'));
+    } else {
+      await journal.finish();
+    }
+  }
+
+  /**
+   * Create the missing parent directories of a path, returns them outermost first
+   */
+  private async createParentDirectories(targetPath: string): Promise<string[]> {
+    const missing: string[] = [];
+    for (
+      let dir = path.dirname(targetPath);
+      !(await this.fileSystem.pathExists(dir));
+      dir = path.dirname(dir)
+    ) {
+      missing.unshift(dir);
+    }
+
+    for (const dir of missing) {
+      await this.fileSystem.createDirectory(dir);
+    }
+
+    return missing;
+  }
+
+  /**
+   * Remove directories created for a move if they are still empty, innermost first
+   */
+  private async removeEmptyDirectories(directories: string[]): Promise<void> {
+    for (const dir of [...directories].reverse()) {
+      if (
+        (await this.fileSystem.pathExists(dir)) &&
+        (await this.fileSystem.readDirectory(dir)).length === 0
+      ) {
+        await this.fileSystem.remove(dir);
+      }
+    }
+  }
+
+  /**
+   * Record the completed move in the operation history for "pgit undo"
+   */
+  private async recordHistory(transaction: TransactionRecord | undefined): Promise<void> {
+    if (!transaction?.renames) {
+      return;
+    }
+
+    const history = new HistoryService(
+      await this.configManager.getPrivateRepoPath(),
+      this.fileSystem,
+    );
+    const gitService = new GitService(transaction.storagePath, this.fileSystem);
+    const newPaths = Object.values(transaction.renames);
+
+    await history.record({
+      operation: 'mv',
+      paths: [...transaction.paths, ...newPaths],
+      privateHead: {
+        before: transaction.privateHead,
+        after: (await gitService.resolveRevision('HEAD')) || undefined,
+      },
+      configDiff: { added: newPaths, removed: transaction.paths },
+      hashes: await history.hashPaths(transaction.storagePath, newPaths),
+      transaction,
+    });
+  }
+}
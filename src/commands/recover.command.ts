@@ -0,0 +1,153 @@
+import chalk from 'chalk';
+import { CommandResult, CommandOptions } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { JournalService } from '../core/journal.service';
+import { TransactionService } from '../core/transaction.service';
+import { BaseError } from '../errors/base.error';
+import { InvalidArgumentError, TransactionPendingError } from '../errors/specific.errors';
+
+/**
+ * Options for the recover command
+ */
+export interface RecoverOptions extends CommandOptions {
+  /** Undo the interrupted operation */
+  rollback?: boolean;
+  /** Finish the interrupted operation */
+  complete?: boolean;
+}
+
+/**
+ * Recover command specific errors
+ */
+export class RecoverError extends BaseError {
+  public readonly code = 'RECOVER_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Recover command for add, remove and mv operations interrupted by a crash or signal.
+ * Recovering again after a failed recovery is safe.
+ */
+export class RecoverCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+  }
+
+  /**
+   * Roll back or complete the operation recorded in the transaction journal
+   */
+  public async execute(options: RecoverOptions = {}): Promise<CommandResult> {
+    try {
+      if (options.rollback && options.complete) {
+        throw new InvalidArgumentError(
+          'Options --rollback and --complete cannot be used together',
+          'recover',
+        );
+      }
+
+      if (!(await this.configManager.exists())) {
+        throw new NotInitializedError(
+          'Private git tracking is not initialized. Run "private init" first.',
+        );
+      }
+
+      const journalService = new JournalService(
+        await this.configManager.getPrivateRepoPath(),
+        this.fileSystem,
+      );
+      const journal = await journalService.read();
+
+      if (!journal) {
+        return {
+          success: true,
+          message: 'No interrupted operation to recover',
+          exitCode: 0,
+        };
+      }
+
+      if (!JournalService.isStale(journal)) {
+        throw new RecoverError(
+          `The ${journal.operation} operation of process ${journal.pid} is still running`,
+        );
+      }
+
+      const description = JournalService.describe(journal);
+      if (!options.rollback && !options.complete) {
+        throw new TransactionPendingError(
+          `Interrupted ${description}. Run "pgit recover --rollback" to undo it or "pgit recover --complete" to finish it.`,
+        );
+      }
+
+      if (options.verbose) {
+        console.log(
+          chalk.blue(
+            `🔄 ${options.rollback ? 'Rolling back' : 'Completing'} interrupted ${description}...`,
+          ),
+        );
+      }
+
+      const transactionService = new TransactionService(
+        this.workingDir,
+        this.configManager,
+        this.fileSystem,
+      );
+      if (journal.operation === 'add') {
+        await (options.rollback
+          ? transactionService.rollbackAdd(journal, options.verbose)
+          : transactionService.completeAdd(journal));
+      } else if (journal.operation === 'mv') {
+        await (options.rollback
+          ? transactionService.rollbackMove(journal, options.verbose)
+          : transactionService.completeMove(journal));
+      } else {
+        await (options.rollback
+          ? transactionService.rollbackRemove(journal, options.verbose)
+          : transactionService.completeRemove(journal));
+      }
+
+      await journalService.finish();
+
+      return {
+        success: true,
+        message: `${options.rollback ? 'Rolled back' : 'Completed'} interrupted ${journal.operation} of ${journal.paths.join(', ')}`,
+        data: { operation: journal.operation, paths: journal.paths },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to recover interrupted operation');
+    }
+  }
+
+  /**
+   * Handle errors and create appropriate command result
+   */
+  private handleError(error: unknown, defaultMessage: string): CommandResult {
+    if (error instanceof BaseError) {
+      return {
+        success: false,
+        message: error.message,
+        error,
+        exitCode: 1,
+      };
+    }
+
+    return {
+      success: false,
+      message: defaultMessage,
+      error: error instanceof Error ? error : new Error(String(error)),
+      exitCode: 1,
+    };
+  }
+}
@@ -0,0 +1,214 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { CommandResult, CommandOptions } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { SymlinkService } from '../core/symlink.service';
+import { BaseError } from '../errors/base.error';
+
+/**
+ * Relocate command specific errors
+ */
+export class RelocateError extends BaseError {
+  public readonly code = 'RELOCATE_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Relocate command for moving private storage to another directory
+ */
+export class RelocateCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+  private readonly symlinkService: SymlinkService;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+    this.symlinkService = new SymlinkService(this.fileSystem);
+  }
+
+  /**
+   * Move private storage to a new directory and re-point all tracked links
+   */
+  public async execute(newDir: string, options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      if (!(await this.configManager.exists())) {
+        throw new NotInitializedError(
+          'Private git tracking is not initialized. Run "private init" first.',
+        );
+      }
+
+      const config = await this.configManager.load();
+      const oldStoragePath = await this.configManager.getStoragePath();
+      const storageDir = this.toProjectPath(newDir);
+      const newStoragePath = path.resolve(this.workingDir, storageDir);
+
+      await this.validateTarget(oldStoragePath, newStoragePath);
+
+      if (options.verbose) {
+        console.log(chalk.blue('📦 Relocating private storage...'));
+        console.log(chalk.gray(`   From: ${oldStoragePath}`));
+        console.log(chalk.gray(`   To: ${newStoragePath}`));
+      }
+
+      const rollbackActions: Array<() => Promise<void>> = [];
+
+      try {
+        this.fileSystem.trustPath(newStoragePath);
+        await this.fileSystem.moveFileAtomic(oldStoragePath, newStoragePath);
+        this.fileSystem.clearRollbackActions();
+        rollbackActions.push(async () => {
+          await this.fileSystem.moveFileAtomic(newStoragePath, oldStoragePath);
+          this.fileSystem.clearRollbackActions();
+        });
+
+        const oldStorageDir = config.storagePath;
+        await this.configManager.setStoragePath(storageDir);
+        rollbackActions.push(async () => {
+          await this.configManager.setStoragePath(oldStorageDir);
+        });
+
+        // Hard links and copies do not point at storage, "pgit sync" links them again if needed
+        const unlinked = (config.trackedFiles || [])
+          .filter(record => record.linkStrategy && record.linkStrategy !== 'symlink')
+          .map(record => record.path);
+
+        for (const trackedPath of config.trackedPaths) {
+          if (unlinked.includes(trackedPath)) {
+            continue;
+          }
+
+          const linkPath = path.join(this.workingDir, trackedPath);
+          await this.symlinkService.repair(linkPath, path.join(newStoragePath, trackedPath));
+          rollbackActions.push(async () => {
+            await this.symlinkService.repair(linkPath, path.join(oldStoragePath, trackedPath));
+          });
+
+          if (options.verbose) {
+            console.log(chalk.gray(`   Re-linked ${trackedPath}`));
+          }
+        }
+
+        if (config.settings.autoGitignore) {
+          const gitignoreService = new GitignoreService(this.workingDir, this.fileSystem);
+          await gitignoreService.replacePrivateEntry(oldStorageDir, storageDir);
+          await gitignoreService.addPrivateEntries([
+            config.privateRepoPath,
+            storageDir,
+            await this.configManager.getConfigPath(),
+          ]);
+        }
+      } catch (error) {
+        if (options.verbose) {
+          console.log(chalk.yellow('   Rolling back changes due to error...'));
+        }
+
+        for (const rollbackAction of rollbackActions.reverse()) {
+          try {
+            await rollbackAction();
+          } catch (rollbackError) {
+            console.error(
+              chalk.red(
+                `   Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`,
+              ),
+            );
+          }
+        }
+
+        throw error;
+      }
+
+      return {
+        success: true,
+        message: `Private storage moved to ${storageDir}`,
+        data: {
+          from: oldStoragePath,
+          to: newStoragePath,
+          relinked: config.trackedPaths.length,
+        },
+        exitCode: 0,
+      };
+    } catch (error) {
+      if (error instanceof BaseError) {
+        return {
+          success: false,
+          message: error.message,
+          error,
+          exitCode: 1,
+        };
+      }
+
+      return {
+        success: false,
+        message: `Failed to relocate private storage: ${error instanceof Error ? error.message : String(error)}`,
+        error: error instanceof Error ? error : new Error(String(error)),
+        exitCode: 1,
+      };
+    }
+  }
+
+  /**
+   * Make sure the new storage location is usable
+   */
+  private async validateTarget(oldStoragePath: string, newStoragePath: string): Promise<void> {
+    if (newStoragePath === oldStoragePath) {
+      throw new RelocateError('Private storage is already in that directory');
+    }
+
+    if (
+      this.isInside(newStoragePath, oldStoragePath) ||
+      this.isInside(oldStoragePath, newStoragePath)
+    ) {
+      throw new RelocateError('New storage directory must not overlap the current one');
+    }
+
+    const configPath = await this.configManager.getConfigPath();
+    if (this.isInside(configPath, newStoragePath)) {
+      throw new RelocateError('The configuration file cannot be stored inside private storage');
+    }
+
+    if (await this.fileSystem.pathExists(newStoragePath)) {
+      throw new RelocateError(`Target already exists: ${newStoragePath}`);
+    }
+  }
+
+  /**
+   * Normalize the new storage path, keeping it relative when it is inside the project
+   */
+  private toProjectPath(inputPath: string): string {
+    const absolutePath = path.resolve(this.workingDir, inputPath.trim());
+    const relativePath = path.relative(this.workingDir, absolutePath);
+
+    if (!inputPath.trim() || !relativePath) {
+      throw new RelocateError('New storage directory must not point at the project root');
+    }
+
+    if (absolutePath.split(path.sep).includes('.git')) {
+      throw new RelocateError('New storage directory must not point inside a .git directory');
+    }
+
+    return this.isInside(absolutePath, this.workingDir) ? relativePath : absolutePath;
+  }
+
+  /**
+   * Check if a path is strictly inside a directory
+   */
+  private isInside(targetPath: string, directory: string): boolean {
+    const relativePath = path.relative(directory, targetPath);
+    return (
+      relativePath !== '' &&
+      relativePath !== '..' &&
+      !relativePath.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relativePath)
+    );
+  }
+}
@@ -0,0 +1,457 @@
+import chalk from 'chalk';
+import { CommandResult, CommandOptions, DEFAULT_PATHS, RemoteConfig } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitService } from '../core/git.service';
+import { SymlinkService } from '../core/symlink.service';
+import { ManifestService, LinkTrackedPathsResult } from '../core/manifest.service';
+import { SyncService } from '../core/sync.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { BaseError } from '../errors/base.error';
+import { InputValidator } from '../utils/input.validator';
+
+/**
+ * Remote command specific errors
+ */
+export class RemoteError extends BaseError {
+  public readonly code = 'REMOTE_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Result of synchronizing tracked paths after a pull
+ */
+export interface PullSyncResult extends LinkTrackedPathsResult {
+  /** Paths from the remote manifest that were added to the local configuration */
+  newPaths: string[];
+}
+
+/**
+ * Remote command for sharing the private repository between machines
+ */
+export class RemoteCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+  private readonly symlinkService: SymlinkService;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+    this.symlinkService = new SymlinkService(this.fileSystem);
+  }
+
+  /**
+   * Add a remote to the configuration and the private repository
+   */
+  public async add(
+    name: string,
+    url: string,
+    options: CommandOptions = {},
+  ): Promise<CommandResult> {
+    try {
+      InputValidator.validateRemoteName(name);
+      InputValidator.validateRemoteUrl(url);
+      const gitService = await this.getPrivateGitService();
+
+      if (options.verbose) {
+        console.log(chalk.blue(`🔗 Adding remote '${name}' (${url})...`));
+      }
+
+      await this.configManager.addRemote({ name, url });
+
+      try {
+        await gitService.setRemote(name, url);
+      } catch (error) {
+        // Keep configuration and repository in sync
+        await this.configManager.removeRemote(name);
+        throw error;
+      }
+
+      return {
+        success: true,
+        message: `Remote '${name}' added`,
+        data: { name, url },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to add remote '${name}'`);
+    }
+  }
+
+  /**
+   * Remove a remote from the configuration and the private repository
+   */
+  public async remove(name: string, options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      const gitService = await this.getPrivateGitService();
+      await this.resolveRemote(name);
+
+      if (options.verbose) {
+        console.log(chalk.blue(`🔗 Removing remote '${name}'...`));
+      }
+
+      await gitService.removeRemote(name);
+      await this.configManager.removeRemote(name);
+
+      return {
+        success: true,
+        message: `Remote '${name}' removed`,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to remove remote '${name}'`);
+    }
+  }
+
+  /**
+   * List configured remotes
+   */
+  public async list(): Promise<CommandResult> {
+    try {
+      await this.getPrivateGitService();
+      const remotes = await this.configManager.getRemotes();
+
+      return {
+        success: true,
+        message: `Found ${remotes.length} remote(s)`,
+        data: remotes,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list remotes');
+    }
+  }
+
+  /**
+   * Push the private repository to a remote.
+   * The manifest of tracked paths is committed first so other machines can rebuild their links.
+   */
+  public async push(
+    remoteName?: string,
+    branch?: string,
+    options: CommandOptions = {},
+  ): Promise<CommandResult> {
+    try {
+      const gitService = await this.getPrivateGitService();
+      const remote = await this.resolveRemote(remoteName);
+      const targetBranch = branch || (await gitService.getCurrentBranch());
+
+      await gitService.setRemote(remote.name, remote.url);
+
+      // Commit the manifest if tracked paths changed since the last push
+      const config = await this.configManager.load();
+      const manifestService = await this.getManifestService();
+      if (
+        await manifestService.write(
+          config.trackedPaths,
+          ManifestService.getLinkStrategies(config.trackedFiles || []),
+        )
+      ) {
+        if (options.verbose) {
+          console.log(chalk.gray(`   Updating ${DEFAULT_PATHS.manifest}...`));
+        }
+        await gitService.commitFiles([DEFAULT_PATHS.manifest], 'Update pgit manifest');
+      }
+
+      if (await gitService.hasUncommittedChanges()) {
+        console.log(
+          chalk.yellow('⚠️  Uncommitted changes are not pushed. Run "pgit commit" first.'),
+        );
+      }
+
+      if (options.verbose) {
+        console.log(chalk.blue(`⬆️  Pushing ${targetBranch} to ${remote.name}...`));
+      }
+
+      await gitService.push(remote.name, targetBranch);
+
+      return {
+        success: true,
+        message: `Pushed ${targetBranch} to ${remote.name}`,
+        data: { remote: remote.name, branch: targetBranch },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to push private repository');
+    }
+  }
+
+  /**
+   * Pull from a remote, then link new tracked paths and revalidate existing links
+   */
+  public async pull(
+    remoteName?: string,
+    branch?: string,
+    options: CommandOptions = {},
+  ): Promise<CommandResult> {
+    try {
+      const gitService = await this.getPrivateGitService();
+      const remote = await this.resolveRemote(remoteName);
+      const targetBranch = branch || (await gitService.getCurrentBranch());
+
+      await gitService.setRemote(remote.name, remote.url);
+
+      if (options.verbose) {
+        console.log(chalk.blue(`⬇️  Pulling ${targetBranch} from ${remote.name}...`));
+      }
+
+      // Unsynced edits of hard linked and copied paths would be lost when storage changes
+      const syncService = new SyncService(this.workingDir, this.configManager, this.fileSystem);
+      await syncService.syncIn({ verbose: options.verbose });
+
+      await gitService.fetch(remote.name);
+      const remoteRef = `${remote.name}/${targetBranch}`;
+
+      if (
+        (await gitService.resolveRevision(remoteRef)) &&
+        !(await gitService.hasCommonHistory(remoteRef))
+      ) {
+        await this.adoptRemoteHistory(gitService, remoteRef, options.verbose);
+      } else {
+        await gitService.pull(remote.name, targetBranch);
+      }
+
+      if (options.verbose) {
+        console.log(chalk.gray('   Revalidating symbolic links...'));
+      }
+
+      const synced = await syncService.sync({ direction: 'out', verbose: options.verbose });
+      if (synced.conflicts.length > 0) {
+        console.warn(
+          chalk.yellow(
+            `   Warning: ${SyncService.createConflictError(synced.conflicts).message}, run "pgit sync" to resolve`,
+          ),
+        );
+      }
+
+      const syncResult = await this.syncTrackedPaths();
+      this.displaySyncResult(syncResult);
+
+      return {
+        success: true,
+        message: `Pulled ${targetBranch} from ${remote.name}`,
+        data: { remote: remote.name, branch: targetBranch, ...syncResult },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to pull private repository');
+    }
+  }
+
+  /**
+   * Fetch from a remote without changing the working tree
+   */
+  public async fetch(remoteName?: string, options: CommandOptions = {}): Promise<CommandResult> {
+    try {
+      const gitService = await this.getPrivateGitService();
+      const remote = await this.resolveRemote(remoteName);
+
+      await gitService.setRemote(remote.name, remote.url);
+
+      if (options.verbose) {
+        console.log(chalk.blue(`🔄 Fetching from ${remote.name}...`));
+      }
+
+      await gitService.fetch(remote.name);
+
+      return {
+        success: true,
+        message: `Fetched from ${remote.name}`,
+        data: { remote: remote.name },
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to fetch private repository');
+    }
+  }
+
+  /**
+   * Replace a freshly initialized private repository with the history of a remote branch.
+   * Every init creates its own first commit, so a first pull on another machine is unrelated.
+   */
+  private async adoptRemoteHistory(
+    gitService: GitService,
+    remoteRef: string,
+    verbose?: boolean,
+  ): Promise<void> {
+    const config = await this.configManager.load();
+    const isFresh =
+      config.trackedPaths.length === 0 &&
+      (await gitService.getCommitCount()) <= 1 &&
+      !(await gitService.hasUncommittedChanges());
+
+    if (!isFresh) {
+      throw new RemoteError(
+        `Private repository history is unrelated to ${remoteRef}`,
+        'Pull into a freshly initialized repository with no tracked files',
+      );
+    }
+
+    if (verbose) {
+      console.log(chalk.gray(`   Adopting history of ${remoteRef}...`));
+    }
+
+    await gitService.reset('hard', remoteRef);
+  }
+
+  /**
+   * Link tracked paths after a pull: adopt new paths from the manifest and repair existing links.
+   * Hard links and copies that are already tracked are left to the sync.
+   */
+  private async syncTrackedPaths(): Promise<PullSyncResult> {
+    const config = await this.configManager.load();
+    const manifestService = await this.getManifestService();
+    const manifest = await manifestService.read();
+    const candidatePaths = manifest
+      ? manifest.trackedPaths.filter(trackedPath => !config.trackedPaths.includes(trackedPath))
+      : [];
+    const linkStrategies = manifest?.linkStrategies || {};
+    const trackedStrategies = ManifestService.getLinkStrategies(config.trackedFiles || []);
+
+    const linkResult = await manifestService.linkTrackedPaths(
+      this.workingDir,
+      [
+        ...config.trackedPaths.filter(trackedPath => !trackedStrategies[trackedPath]),
+        ...candidatePaths,
+      ],
+      linkStrategies,
+    );
+
+    // New paths are only tracked once they are linked, conflicts are left for the user to resolve
+    const newPaths = candidatePaths.filter(
+      trackedPath =>
+        !linkResult.conflicts.includes(trackedPath) && !linkResult.missing.includes(trackedPath),
+    );
+    if (newPaths.length > 0) {
+      await this.configManager.addMultipleTrackedPaths(
+        newPaths,
+        await manifestService.getTrackedFileDetails(newPaths, linkStrategies),
+      );
+      await new GitignoreService(this.workingDir, this.fileSystem).syncTrackedPathsFromConfig(
+        this.configManager,
+      );
+    }
+
+    return { ...linkResult, newPaths };
+  }
+
+  /**
+   * Display the result of synchronizing tracked paths
+   */
+  private displaySyncResult(result: PullSyncResult): void {
+    for (const newPath of result.newPaths) {
+      console.log(chalk.green(`   + Now tracking ${newPath}`));
+    }
+    for (const repaired of result.repaired) {
+      console.log(chalk.green(`   ✓ Repaired link: ${repaired}`));
+    }
+    for (const conflict of result.conflicts) {
+      console.log(
+        chalk.yellow(
+          `   ⚠ Conflict: ${conflict} exists as a real file, move it away and pull again to link it`,
+        ),
+      );
+    }
+    for (const missing of result.missing) {
+      console.log(chalk.yellow(`   ⚠ Missing from private storage: ${missing}`));
+    }
+  }
+
+  /**
+   * Find a configured remote by name, defaulting to origin or the only remote
+   */
+  private async resolveRemote(name?: string): Promise<RemoteConfig> {
+    const remotes = await this.configManager.getRemotes();
+
+    if (name) {
+      const remote = remotes.find(candidate => candidate.name === name);
+      if (!remote) {
+        throw new RemoteError(`Remote does not exist: ${name}`);
+      }
+      return remote;
+    }
+
+    const origin = remotes.find(candidate => candidate.name === 'origin');
+    if (origin) {
+      return origin;
+    }
+
+    if (remotes.length === 1) {
+      return remotes[0];
+    }
+
+    throw new RemoteError(
+      remotes.length === 0
+        ? 'No remote configured. Run "pgit remote add <name> <url>" first.'
+        : 'Multiple remotes configured, specify which one to use.',
+    );
+  }
+
+  /**
+   * Get manifest service for private storage
+   */
+  private async getManifestService(): Promise<ManifestService> {
+    return new ManifestService(
+      await this.configManager.getStoragePath(),
+      this.fileSystem,
+      this.symlinkService,
+    );
+  }
+
+  /**
+   * Get private git service instance
+   */
+  private async getPrivateGitService(): Promise<GitService> {
+    if (!(await this.configManager.exists())) {
+      throw new NotInitializedError(
+        'Private git tracking is not initialized. Run "private init" first.',
+      );
+    }
+
+    const privateStoragePath = await this.configManager.getStoragePath();
+
+    if (!(await this.fileSystem.pathExists(privateStoragePath))) {
+      throw new RemoteError(
+        'Private storage directory does not exist. The initialization may have failed.',
+      );
+    }
+
+    const gitService = new GitService(privateStoragePath, this.fileSystem);
+
+    if (!(await gitService.isRepository())) {
+      throw new RemoteError(
+        'Private storage is not a git repository. The initialization may have failed.',
+      );
+    }
+
+    return gitService;
+  }
+
+  /**
+   * Handle errors consistently
+   */
+  private handleError(error: unknown, defaultMessage: string): CommandResult {
+    if (error instanceof BaseError) {
+      return {
+        success: false,
+        message: error.message,
+        error,
+        exitCode: 1,
+      };
+    }
+
+    return {
+      success: false,
+      message: defaultMessage,
+      error: error instanceof Error ? error : new Error(String(error)),
+      exitCode: 1,
+    };
+  }
+}
@@ -0,0 +1,608 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import {
+  CommandResult,
+  CommandOptions,
+  DEFAULT_PATHS,
+  DryRunPlan,
+  TrackedFileDetails,
+  TransactionRecord,
+} from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { GitService } from '../core/git.service';
+import { GitignoreService } from '../core/gitignore.service';
+import { LinkService } from '../core/link.service';
+import { ManifestService } from '../core/manifest.service';
+import { SyncService } from '../core/sync.service';
+import { HistoryService } from '../core/history.service';
+import { JournalService } from '../core/journal.service';
+import { BaseError } from '../errors/base.error';
+import { InputValidator } from '../utils/input.validator';
+import { DryRunReporter } from '../utils/dry-run.reporter';
+import { ProjectPaths } from '../utils/project.paths';
+import {
+  NotTrackedError,
+  UnsafePathError,
+  InvalidInputError,
+  InvalidArgumentError,
+  OperationInterruptedError,
+} from '../errors/specific.errors';
+import { BatchOperationError } from './add.command';
+
+/**
+ * Options for the remove command
+ */
+export interface RemoveOptions extends CommandOptions {
+  /** Keep the file's history in the private repository (default) */
+  keepHistory?: boolean;
+  /** Rewrite the private repository history so the file never existed there */
+  purge?: boolean;
+  /** Stage the restored file in the main repository index */
+  stage?: boolean;
+}
+
+/**
+ * Remove command specific errors
+ */
+export class RemoveError extends BaseError {
+  public readonly code = 'REMOVE_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Remove command for returning files from private tracking to the main repository
+ */
+export class RemoveCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+  private readonly linkService: LinkService;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+    this.linkService = new LinkService(this.fileSystem);
+  }
+
+  /**
+   * Execute the remove command for single or multiple files
+   */
+  public async execute(
+    filePaths: string | string[],
+    options: RemoveOptions = {},
+  ): Promise<CommandResult> {
+    try {
+      const pathsArray = Array.isArray(filePaths) ? filePaths : [filePaths];
+
+      if (options.purge && options.keepHistory) {
+        throw new InvalidArgumentError(
+          'Options --keep-history and --purge cannot be used together',
+          'remove',
+        );
+      }
+
+      if (options.verbose) {
+        if (pathsArray.length === 1) {
+          console.log(chalk.blue(`🔄 Removing ${pathsArray[0]} from private tracking...`));
+        } else {
+          console.log(
+            chalk.blue(`🔄 Removing ${pathsArray.length} files from private tracking...`),
+          );
+        }
+      }
+
+      // Validate environment
+      await this.validateEnvironment();
+
+      // Validate and normalize paths
+      const relativePaths = await this.validateTrackedPaths(pathsArray);
+
+      // Report the plan without touching the disk
+      if (options.dryRun) {
+        const plan = await this.buildRemovePlan(relativePaths, options);
+        DryRunReporter.display(plan);
+
+        return {
+          success: true,
+          message: DryRunReporter.getSummary(plan),
+          data: plan,
+          exitCode: 0,
+        };
+      }
+
+      // Execute the remove operation atomically for all files
+      await this.executeMultipleRemoveOperation(relativePaths, options);
+
+      const successMessage =
+        relativePaths.length === 1
+          ? `Successfully removed ${ProjectPaths.toDisplayPath(relativePaths[0])} from private tracking`
+          : `Successfully removed ${relativePaths.length} files from private tracking`;
+
+      return {
+        success: true,
+        message: successMessage,
+        data: { removedPaths: relativePaths, purged: !!options.purge },
+        exitCode: 0,
+      };
+    } catch (error) {
+      if (error instanceof BaseError) {
+        return {
+          success: false,
+          message: error.message,
+          error,
+          exitCode: error instanceof OperationInterruptedError ? error.exitCode : 1,
+        };
+      }
+
+      return {
+        success: false,
+        message: 'Failed to remove files from private tracking',
+        error: error instanceof Error ? error : new Error(String(error)),
+        exitCode: 1,
+      };
+    }
+  }
+
+  /**
+   * Validate that the environment is ready for remove operation
+   */
+  private async validateEnvironment(): Promise<void> {
+    if (!(await this.configManager.exists())) {
+      throw new NotInitializedError(
+        'Private git tracking is not initialized. Run "private init" first.',
+      );
+    }
+
+    const storagePath = await this.configManager.getStoragePath();
+    if (!(await this.fileSystem.pathExists(storagePath))) {
+      throw new RemoveError(
+        'Private storage directory does not exist. The initialization may have failed.',
+      );
+    }
+  }
+
+  /**
+   * Validate that every path is tracked and its private copy is still in storage
+   */
+  private async validateTrackedPaths(filePaths: string[]): Promise<string[]> {
+    const config = await this.configManager.load();
+    const uniquePaths = [...new Set(filePaths)];
+    const relativePaths: string[] = [];
+    const invalidPaths: Array<{ path: string; error: unknown }> = [];
+
+    for (const filePath of uniquePaths) {
+      try {
+        const validation = InputValidator.validatePath(filePath, {
+          allowAbsolutePaths: false,
+          allowParentDirectory: false,
+          maxPathLength: 255,
+        });
+
+        if (!validation.isValid) {
+          if (validation.securityRisk) {
+            throw new UnsafePathError(filePath, validation.issues.join(', '));
+          }
+          throw new InvalidInputError(`Invalid path: ${validation.issues.join(', ')}`);
+        }
+
+        const safePath = InputValidator.createSafePath(this.workingDir, validation.normalizedPath);
+        const relativePath = path.relative(this.workingDir, safePath);
+
+        if (!config.trackedPaths.includes(relativePath)) {
+          throw new NotTrackedError(`Path is not tracked: ${relativePath}`);
+        }
+
+        const storagePath = path.join(await this.configManager.getStoragePath(), relativePath);
+        if (!(await this.fileSystem.pathExists(storagePath))) {
+          throw new RemoveError(
+            `Private copy is missing from storage: ${relativePath}. Run "pgit cleanup" first.`,
+          );
+        }
+
+        if (!relativePaths.includes(relativePath)) {
+          relativePaths.push(relativePath);
+        }
+      } catch (error) {
+        invalidPaths.push({ path: filePath, error });
+      }
+    }
+
+    if (invalidPaths.length > 0) {
+      // A single path keeps its specific error so recovery suggestions stay accurate
+      if (uniquePaths.length === 1) {
+        throw invalidPaths[0].error;
+      }
+
+      const errorMessages = invalidPaths
+        .map(
+          item =>
+            `${item.path}: ${item.error instanceof Error ? item.error.message : String(item.error)}`,
+        )
+        .join('\n');
+
+      throw new BatchOperationError(
+        `Invalid paths detected in batch operation:\n${errorMessages}`,
+        invalidPaths.map(item => item.path),
+        relativePaths,
+      );
+    }
+
+    return relativePaths;
+  }
+
+  /**
+   * Build the dry run plan for removing paths, mirroring executeMultipleRemoveOperation
+   */
+  private async buildRemovePlan(
+    relativePaths: string[],
+    options: RemoveOptions,
+  ): Promise<DryRunPlan> {
+    const plan = DryRunReporter.createPlan('remove');
+    const privateStoragePath = await this.configManager.getStoragePath();
+
+    if (!(await new GitService(privateStoragePath, this.fileSystem).isRepository())) {
+      throw new RemoveError(
+        'Private git repository not found. The initialization may have failed.',
+      );
+    }
+
+    plan.indexChanges.push({ repository: 'private', action: 'remove', paths: relativePaths });
+    plan.indexChanges.push({
+      repository: 'private',
+      action: 'add',
+      paths: [DEFAULT_PATHS.manifest],
+    });
+    plan.commits.push({
+      repository: 'private',
+      message:
+        relativePaths.length === 1
+          ? 'Remove file from private tracking'
+          : 'Remove files from private tracking',
+      files: [...relativePaths, DEFAULT_PATHS.manifest],
+    });
+
+    const storageDisplayPath = path.relative(this.workingDir, privateStoragePath);
+    for (const relativePath of relativePaths) {
+      const storagePath = path.join(storageDisplayPath, relativePath);
+      plan.symlinks.push({ action: 'remove', link: relativePath, target: storagePath });
+      plan.moves.push({ from: storagePath, to: relativePath });
+    }
+
+    plan.configChanges.push(
+      `Remove tracked path(s) from ${ProjectPaths.toDisplayPath(await this.configManager.getConfigPath())}: ${relativePaths.map(relativePath => ProjectPaths.toDisplayPath(relativePath)).join(', ')}`,
+    );
+
+    const config = await this.configManager.load();
+    await new GitignoreService(this.workingDir, this.fileSystem).planTrackedPathsFromConfig(
+      this.configManager,
+      config.trackedPaths.filter(trackedPath => !relativePaths.includes(trackedPath)),
+      plan,
+    );
+
+    if (options.stage) {
+      plan.indexChanges.push({ repository: 'main', action: 'add', paths: relativePaths });
+    }
+
+    if (options.purge) {
+      plan.refChanges.push({
+        repository: 'private',
+        from: 'all branches',
+        to: 'rewritten history without the removed paths',
+        files: relativePaths,
+      });
+      plan.warnings.push('Purging rewrites the private repository history and cannot be undone');
+    }
+
+    return plan;
+  }
+
+  /**
+   * Execute atomic remove operation for one or more files
+   */
+  private async executeMultipleRemoveOperation(
+    relativePaths: string[],
+    options: RemoveOptions,
+  ): Promise<void> {
+    if (relativePaths.length === 0) {
+      throw new RemoveError('No valid paths to process');
+    }
+
+    const rollbackActions: Array<() => Promise<void>> = [];
+    const privateStoragePath = await this.configManager.getStoragePath();
+    const privateGitService = new GitService(privateStoragePath, this.fileSystem);
+
+    if (!(await privateGitService.isRepository())) {
+      throw new RemoveError(
+        'Private git repository not found. The initialization may have failed.',
+      );
+    }
+
+    // Tracking details are kept so a rollback restores the configuration records unchanged
+    const details = new Map<string, TrackedFileDetails>();
+    for (const record of await this.configManager.getTrackedFiles()) {
+      if (relativePaths.includes(record.path)) {
+        details.set(record.path, {
+          mainRepoState: record.mainRepoState,
+          isDirectory: record.isDirectory,
+          mode: record.mode,
+          size: record.size,
+          sha256: record.sha256,
+          linkStrategy: record.linkStrategy,
+          syncedSha256: record.syncedSha256,
+        });
+      }
+    }
+
+    // Edits to hard links and copies go into storage first, so the restored files keep them
+    await new SyncService(this.workingDir, this.configManager, this.fileSystem).syncIn({
+      paths: relativePaths,
+      verbose: options.verbose,
+    });
+
+    const journal = await this.beginJournal(relativePaths, details, options, privateGitService);
+
+    try {
+      // Step 1: Remove all files from the private repository index and commit the removal
+      if (options.verbose) {
+        console.log(chalk.gray('   Removing files from private git repository...'));
+      }
+
+      // The manifest drops the paths in the same commit
+      const manifestService = new ManifestService(privateStoragePath, this.fileSystem);
+      const manifestContent = await manifestService.readContent();
+      rollbackActions.push(async () => {
+        await manifestService.restoreContent(manifestContent);
+      });
+      if (
+        await manifestService.writeFromConfig(
+          await this.configManager.load(),
+          undefined,
+          relativePaths,
+        )
+      ) {
+        await privateGitService.addFiles([DEFAULT_PATHS.manifest]);
+      }
+
+      const commitHash = await privateGitService.removeFilesAndCommit(
+        relativePaths,
+        relativePaths.length === 1
+          ? 'Remove file from private tracking'
+          : 'Remove files from private tracking',
+      );
+
+      rollbackActions.push(async () => {
+        // Undo the commit and restore the index entries, the files are still on disk
+        await privateGitService.reset('mixed', 'HEAD~1');
+      });
+      await journal.completeStep('commit');
+
+      // Step 2: Remove all symbolic links
+      if (options.verbose) {
+        console.log(chalk.gray('   Removing symbolic links...'));
+      }
+
+      // Rollback actions are registered up front so an interrupted loop is undone as well
+      const removedLinks: string[] = [];
+      rollbackActions.push(async () => {
+        for (const relativePath of [...removedLinks].reverse()) {
+          const linkPath = path.join(this.workingDir, relativePath);
+          const storagePath = path.join(privateStoragePath, relativePath);
+          await this.linkService.create(
+            storagePath,
+            linkPath,
+            details.get(relativePath)?.linkStrategy,
+          );
+        }
+      });
+
+      for (const relativePath of relativePaths) {
+        const linkPath = path.join(this.workingDir, relativePath);
+        await this.linkService.remove(linkPath, details.get(relativePath)?.linkStrategy);
+        removedLinks.push(relativePath);
+        await journal.completeStep('unlink', relativePath);
+      }
+
+      // Step 3: Move all files back to their original locations
+      if (options.verbose) {
+        console.log(chalk.gray('   Moving files back to their original locations...'));
+      }
+
+      const movedFiles: string[] = [];
+      rollbackActions.push(async () => {
+        for (const relativePath of [...movedFiles].reverse()) {
+          const originalPath = path.join(this.workingDir, relativePath);
+          const storagePath = path.join(privateStoragePath, relativePath);
+
+          if (await this.fileSystem.pathExists(originalPath)) {
+            await this.fileSystem.moveFileAtomic(originalPath, storagePath);
+            this.fileSystem.clearRollbackActions();
+          }
+        }
+      });
+
+      for (const relativePath of relativePaths) {
+        const originalPath = path.join(this.workingDir, relativePath);
+        const storagePath = path.join(privateStoragePath, relativePath);
+
+        await this.fileSystem.moveFileAtomic(storagePath, originalPath);
+        this.fileSystem.clearRollbackActions();
+        movedFiles.push(relativePath);
+        await journal.completeStep('move', relativePath);
+      }
+
+      // Step 4: Update configuration
+      if (options.verbose) {
+        console.log(chalk.gray('   Updating configuration...'));
+      }
+
+      const gitignoreService = new GitignoreService(this.workingDir, this.fileSystem);
+      rollbackActions.push(async () => {
+        await gitignoreService.syncTrackedPathsFromConfig(this.configManager);
+      });
+
+      await this.configManager.removeMultipleTrackedPaths(relativePaths);
+
+      rollbackActions.push(async () => {
+        try {
+          await this.configManager.addMultipleTrackedPaths(relativePaths, details);
+        } catch {
+          // Ignore errors during rollback
+        }
+      });
+      await journal.completeStep('config');
+
+      // Excluded paths cannot be staged, so the restored files leave the exclude block first
+      await gitignoreService.syncTrackedPathsFromConfig(this.configManager, options.verbose);
+
+      // Step 5: Optionally stage the restored files in the main repository
+      if (options.stage) {
+        if (options.verbose) {
+          console.log(chalk.gray('   Staging files in main git repository...'));
+        }
+
+        await this.addToMainGitIndex(relativePaths);
+        await journal.completeStep('stage');
+      }
+
+      // Step 6: Optionally rewrite private history. This is the last step because it cannot be undone.
+      if (options.purge) {
+        if (options.verbose) {
+          console.log(chalk.gray('   Purging files from private repository history...'));
+        }
+
+        await privateGitService.purgeFromHistory(relativePaths);
+        await journal.completeStep('purge');
+      }
+
+      if (options.verbose) {
+        console.log(
+          chalk.green(
+            `   ✓ Successfully removed ${relativePaths.length} file(s) from private tracking`,
+          ),
+        );
+        if (!options.purge) {
+          console.log(chalk.gray(`   Commit hash: ${commitHash}`));
+        }
+      }
+    } catch (error) {
+      if (options.verbose) {
+        console.log(chalk.yellow('   Rolling back changes due to error...'));
+      }
+
+      let rollbackFailed = false;
+      for (const rollbackAction of rollbackActions.reverse()) {
+        try {
+          await rollbackAction();
+        } catch (rollbackError) {
+          // Log rollback errors but don't throw to avoid masking original error
+          rollbackFailed = true;
+          console.error(
+            chalk.red(
+              `   Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`,
+            ),
+          );
+        }
+      }
+
+      if (rollbackFailed) {
+        journal.release();
+        console.error(chalk.yellow('   Run "pgit recover --rollback" to finish rolling back'));
+      } else {
+        await journal.finish();
+      }
+
+      throw error;
+    }
+
+    await this.recordHistory(await journal.finish());
+  }
+
+  /**
+   * Record the completed removal in the operation history for "pgit undo"
+   */
+  private async recordHistory(transaction: TransactionRecord | undefined): Promise<void> {
+    if (!transaction) {
+      return;
+    }
+
+    const history = new HistoryService(
+      await this.configManager.getPrivateRepoPath(),
+      this.fileSystem,
+    );
+    const gitService = new GitService(transaction.storagePath, this.fileSystem);
+
+    await history.record({
+      operation: 'remove',
+      paths: transaction.paths,
+      privateHead: {
+        before: transaction.privateHead,
+        after: (await gitService.resolveRevision('HEAD')) || undefined,
+      },
+      configDiff: { added: [], removed: transaction.paths },
+      hashes: await history.hashPaths(this.workingDir, transaction.paths),
+      transaction,
+    });
+  }
+
+  /**
+   * Record the removal in the transaction journal before touching the disk,
+   * so an interrupted remove can be finished or undone by "pgit recover"
+   */
+  private async beginJournal(
+    relativePaths: string[],
+    details: Map<string, TrackedFileDetails>,
+    options: RemoveOptions,
+    privateGitService: GitService,
+  ): Promise<JournalService> {
+    const journal = new JournalService(await this.configManager.getPrivateRepoPath());
+
+    await journal.begin({
+      operation: 'remove',
+      paths: relativePaths,
+      storagePath: await this.configManager.getStoragePath(),
+      privateHead: (await privateGitService.resolveRevision('HEAD')) || undefined,
+      mainIndexPaths: [],
+      details: Object.fromEntries(details),
+      stage: !!options.stage,
+      purge: !!options.purge,
+      steps: [
+        { name: 'commit' },
+        ...['unlink', 'move'].flatMap(name =>
+          relativePaths.map(relativePath => ({ name, path: relativePath })),
+        ),
+        { name: 'config' },
+        ...(options.stage ? [{ name: 'stage' }] : []),
+        ...(options.purge ? [{ name: 'purge' }] : []),
+      ],
+    });
+
+    return journal;
+  }
+
+  /**
+   * Stage restored files in the main git index
+   */
+  private async addToMainGitIndex(relativePaths: string[]): Promise<void> {
+    try {
+      const gitService = new GitService(this.workingDir, this.fileSystem);
+
+      if (await gitService.isRepository()) {
+        await gitService.addFiles(relativePaths);
+      }
+    } catch (error) {
+      // Not critical: the files are back in place, the user can stage them manually
+      console.warn(
+        chalk.yellow(
+          `   Warning: Could not stage files in main git index: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+}
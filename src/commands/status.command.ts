@@ -1,10 +1,10 @@
 import * as path from 'path';
-import chalk from 'chalk';
 import {
   CommandResult,
   CommandOptions,
-  DEFAULT_PATHS,
+  PrivateStatus,
   SystemStatus,
+  TrackedPathStatus,
   RepositoryStatus,
   SymlinkHealth,
   ConfigHealth,
@@ -12,6 +12,7 @@ import {
 import { ConfigManager } from '../core/config.manager';
 import { FileSystemService } from '../core/filesystem.service';
 import { GitService } from '../core/git.service';
+import { LinkService } from '../core/link.service';
 import { BaseError } from '../errors/base.error';
 
 /**
@@ -44,7 +45,7 @@ export class StatusCommand {
   /**
    * Execute status command (show both repositories)
    */
-  public async execute(options: CommandOptions = {}): Promise<CommandResult> {
+  public async execute(_options: CommandOptions = {}): Promise<CommandResult> {
     try {
       const systemStatus = await this.getSystemStatus();
 
@@ -54,9 +55,6 @@ export class StatusCommand {
         );
       }
 
-      // Display status
-      this.displayCombinedStatus(systemStatus, options.verbose);
-
       return {
         success: true,
         message: 'Status retrieved successfully',
@@ -85,7 +83,7 @@ export class StatusCommand {
   /**
    * Execute private-only status command
    */
-  public async executePrivateOnly(options: CommandOptions = {}): Promise<CommandResult> {
+  public async executePrivateOnly(_options: CommandOptions = {}): Promise<CommandResult> {
     try {
       const systemStatus = await this.getSystemStatus();
 
@@ -95,13 +93,16 @@ export class StatusCommand {
         );
       }
 
-      // Display private-only status
-      this.displayPrivateStatus(systemStatus, options.verbose);
+      const privateStatus: PrivateStatus = {
+        privateRepo: systemStatus.privateRepo,
+        symlinks: systemStatus.symlinks,
+        trackedPaths: await this.getTrackedPathStatuses(),
+      };
 
       return {
         success: true,
         message: 'Private status retrieved successfully',
-        data: systemStatus.privateRepo,
+        data: privateStatus,
         exitCode: 0,
       };
     } catch (error) {
@@ -212,7 +213,7 @@ export class StatusCommand {
         return status;
       }
 
-      const storagePath = path.join(this.workingDir, DEFAULT_PATHS.storage);
+      const storagePath = await this.configManager.getStoragePath();
 
       if (!(await this.fileSystem.pathExists(storagePath))) {
         status.issues.push('Private storage directory does not exist');
@@ -231,6 +232,7 @@ export class StatusCommand {
         status.modifiedFiles = gitStatus.modified.length;
         status.untrackedFiles = gitStatus.untracked.length;
         status.deletedFiles = gitStatus.deleted.length;
+        status.ignoredFiles = await gitService.getIgnoredFiles();
       } else {
         status.issues.push('Private storage is not a git repository');
       }
@@ -244,7 +246,7 @@ export class StatusCommand {
   }
 
   /**
-   * Get symbolic link health information
+   * Get health of the symbolic links, hard links and copies of tracked paths
    */
   private async getSymlinkHealth(): Promise<SymlinkHealth> {
     const health: SymlinkHealth = {
@@ -252,6 +254,8 @@ export class StatusCommand {
       healthy: 0,
       broken: 0,
       brokenLinks: [],
+      strategies: { symlink: 0, hardlink: 0, copy: 0 },
+      unsynced: [],
     };
 
     try {
@@ -260,47 +264,34 @@ export class StatusCommand {
       }
 
       const config = await this.configManager.load();
-      health.total = config.trackedPaths.length;
+      const linkService = new LinkService(this.fileSystem);
+      const records = await this.configManager.getTrackedFiles();
+      health.total = records.length;
 
-      for (const trackedPath of config.trackedPaths) {
-        const fullPath = path.join(this.workingDir, trackedPath);
-        const targetPath = path.join(this.workingDir, config.storagePath, trackedPath);
+      for (const record of records) {
+        const strategy = record.linkStrategy || 'symlink';
+        const fullPath = path.join(this.workingDir, record.path);
+        const targetPath = path.resolve(this.workingDir, config.storagePath, record.path);
+        health.strategies[strategy]++;
 
         try {
-          if (await this.fileSystem.pathExists(fullPath)) {
-            const stats = await this.fileSystem.getStats(fullPath);
-
-            if (stats.isSymbolicLink()) {
-              // Check if target exists
-              if (await this.fileSystem.pathExists(targetPath)) {
-                health.healthy++;
-              } else {
-                health.broken++;
-                health.brokenLinks.push({
-                  linkPath: fullPath,
-                  targetPath,
-                  reason: 'Target file does not exist',
-                  repairable: false,
-                });
-              }
-            } else {
-              health.broken++;
-              health.brokenLinks.push({
-                linkPath: fullPath,
-                targetPath,
-                reason: 'Path exists but is not a symbolic link',
-                repairable: true,
-              });
-            }
+          const state = await linkService.inspect(targetPath, fullPath, strategy);
+
+          if (state.healthy) {
+            health.healthy++;
           } else {
             health.broken++;
             health.brokenLinks.push({
               linkPath: fullPath,
               targetPath,
-              reason: 'Symbolic link does not exist',
-              repairable: await this.fileSystem.pathExists(targetPath),
+              reason: state.reason || 'Unknown problem',
+              repairable: state.repairable,
             });
           }
+
+          if (strategy !== 'symlink' && state.healthy && !state.inSync) {
+            health.unsynced.push(record.path);
+          }
         } catch (error) {
           health.broken++;
           health.brokenLinks.push({
@@ -318,6 +309,26 @@ export class StatusCommand {
     return health;
   }
 
+  /**
+   * Get the link and storage state of each tracked path
+   */
+  private async getTrackedPathStatuses(): Promise<TrackedPathStatus[]> {
+    const config = await this.configManager.load();
+    const statuses: TrackedPathStatus[] = [];
+
+    for (const trackedPath of config.trackedPaths) {
+      statuses.push({
+        path: trackedPath,
+        linkExists: await this.fileSystem.pathExists(path.join(this.workingDir, trackedPath)),
+        targetExists: await this.fileSystem.pathExists(
+          path.resolve(this.workingDir, config.storagePath, trackedPath),
+        ),
+      });
+    }
+
+    return statuses;
+  }
+
   /**
    * Get configuration health
    */
@@ -372,163 +383,4 @@ export class StatusCommand {
 
     return issues;
   }
-
-  /**
-   * Display combined status (both repositories)
-   */
-  private displayCombinedStatus(status: SystemStatus, verbose?: boolean): void {
-    console.log(chalk.blue.bold('📊 Private Git Tracking Status'));
-    console.log();
-
-    // Overall health
-    if (status.isHealthy) {
-      console.log(chalk.green('✓ System is healthy'));
-    } else {
-      console.log(chalk.red('✗ System has issues'));
-    }
-    console.log();
-
-    // Main repository status
-    console.log(chalk.blue.bold('📋 Main Repository'));
-    this.displayRepositoryStatus(status.mainRepo, verbose);
-    console.log();
-
-    // Private repository status
-    console.log(chalk.blue.bold('🔒 Private Repository'));
-    this.displayRepositoryStatus(status.privateRepo, verbose);
-    console.log();
-
-    // Symbolic links health
-    if (status.symlinks.total > 0) {
-      console.log(chalk.blue.bold('🔗 Symbolic Links'));
-      console.log(`   Total: ${status.symlinks.total}`);
-      console.log(`   Healthy: ${chalk.green(status.symlinks.healthy)}`);
-      console.log(
-        `   Broken: ${status.symlinks.broken > 0 ? chalk.red(status.symlinks.broken) : chalk.green(status.symlinks.broken)}`,
-      );
-
-      if (verbose && status.symlinks.brokenLinks.length > 0) {
-        console.log('   Broken links:');
-        for (const brokenLink of status.symlinks.brokenLinks) {
-          console.log(`     ${chalk.red('✗')} ${brokenLink.linkPath}`);
-          console.log(`       Reason: ${brokenLink.reason}`);
-          console.log(
-            `       Repairable: ${brokenLink.repairable ? chalk.green('Yes') : chalk.red('No')}`,
-          );
-        }
-      }
-      console.log();
-    }
-
-    // Issues
-    if (status.issues.length > 0) {
-      console.log(chalk.red.bold('⚠️  Issues Found'));
-      for (const issue of status.issues) {
-        console.log(`   ${chalk.red('•')} ${issue}`);
-      }
-      console.log();
-    }
-  }
-
-  /**
-   * Display private repository status only
-   */
-  private displayPrivateStatus(status: SystemStatus, verbose?: boolean): void {
-    console.log(chalk.blue.bold('🔒 Private Repository Status'));
-    console.log();
-
-    this.displayRepositoryStatus(status.privateRepo, verbose);
-
-    // Show tracked files
-    if (verbose) {
-      this.displayTrackedFiles();
-    }
-
-    // Symbolic links health
-    if (status.symlinks.total > 0) {
-      console.log();
-      console.log(chalk.blue.bold('🔗 Tracked Files Summary'));
-      console.log(`   Total tracked files: ${status.symlinks.total}`);
-      console.log(`   Healthy symbolic links: ${chalk.green(status.symlinks.healthy)}`);
-      console.log(
-        `   Broken symbolic links: ${status.symlinks.broken > 0 ? chalk.red(status.symlinks.broken) : chalk.green(status.symlinks.broken)}`,
-      );
-    }
-  }
-
-  /**
-   * Display repository status information
-   */
-  private displayRepositoryStatus(repo: RepositoryStatus, verbose?: boolean): void {
-    if (!repo.exists) {
-      console.log(chalk.red('   ✗ Repository not found'));
-      return;
-    }
-
-    console.log(`   Branch: ${chalk.cyan(repo.branch)}`);
-    console.log(`   Status: ${repo.isClean ? chalk.green('Clean') : chalk.yellow('Has changes')}`);
-
-    if (!repo.isClean || verbose) {
-      if (repo.stagedFiles > 0) {
-        console.log(`   Staged files: ${chalk.green(repo.stagedFiles)}`);
-      }
-      if (repo.modifiedFiles > 0) {
-        console.log(`   Modified files: ${chalk.yellow(repo.modifiedFiles)}`);
-      }
-      if (repo.untrackedFiles > 0) {
-        console.log(`   Untracked files: ${chalk.cyan(repo.untrackedFiles)}`);
-      }
-      if (repo.deletedFiles > 0) {
-        console.log(`   Deleted files: ${chalk.red(repo.deletedFiles)}`);
-      }
-    }
-
-    if (repo.issues.length > 0) {
-      console.log(chalk.red('   Issues:'));
-      for (const issue of repo.issues) {
-        console.log(`     ${chalk.red('•')} ${issue}`);
-      }
-    }
-  }
-
-  /**
-   * Display tracked files information
-   */
-  private async displayTrackedFiles(): Promise<void> {
-    try {
-      const config = await this.configManager.load();
-
-      if (config.trackedPaths.length === 0) {
-        console.log();
-        console.log(chalk.gray('   No files are currently tracked'));
-        return;
-      }
-
-      console.log();
-      console.log(chalk.blue.bold('📁 Tracked Files'));
-
-      for (const trackedPath of config.trackedPaths) {
-        const fullPath = path.join(this.workingDir, trackedPath);
-        const targetPath = path.join(this.workingDir, config.storagePath, trackedPath);
-
-        const linkExists = await this.fileSystem.pathExists(fullPath);
-        const targetExists = await this.fileSystem.pathExists(targetPath);
-
-        let status = '';
-        if (linkExists && targetExists) {
-          status = chalk.green('✓');
-        } else if (!linkExists && targetExists) {
-          status = chalk.red('✗ Missing link');
-        } else if (linkExists && !targetExists) {
-          status = chalk.red('✗ Missing target');
-        } else {
-          status = chalk.red('✗ Both missing');
-        }
-
-        console.log(`   ${status} ${trackedPath}`);
-      }
-    } catch {
-      console.log(chalk.red('   Failed to load tracked files information'));
-    }
-  }
 }
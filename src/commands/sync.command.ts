@@ -0,0 +1,138 @@
+import chalk from 'chalk';
+import { CommandResult, CommandOptions } from '../types/config.types';
+import { ConfigManager } from '../core/config.manager';
+import { FileSystemService } from '../core/filesystem.service';
+import { SyncService } from '../core/sync.service';
+import { BaseError } from '../errors/base.error';
+import { InvalidArgumentError } from '../errors/specific.errors';
+
+/**
+ * Options for the sync command
+ */
+export interface SyncCommandOptions extends CommandOptions {
+  /** Resolve conflicts with the files in the working tree */
+  keepWorking?: boolean;
+  /** Resolve conflicts with the files in private storage */
+  keepStorage?: boolean;
+}
+
+/**
+ * Sync command specific errors
+ */
+export class SyncError extends BaseError {
+  public readonly code = 'SYNC_ERROR';
+  public readonly recoverable = true;
+}
+
+export class NotInitializedError extends BaseError {
+  public readonly code = 'NOT_INITIALIZED';
+  public readonly recoverable = false;
+}
+
+/**
+ * Sync command copying changes between hard linked or copied paths and private storage,
+ * and taking over files that replaced a symbolic link
+ */
+export class SyncCommand {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly configManager: ConfigManager;
+
+  constructor(workingDir?: string) {
+    this.workingDir = workingDir || process.cwd();
+    this.fileSystem = new FileSystemService();
+    this.configManager = new ConfigManager(this.workingDir, this.fileSystem);
+  }
+
+  /**
+   * Sync the given tracked paths, or every hard linked and copied path
+   */
+  public async execute(
+    relativePaths: string[] = [],
+    options: SyncCommandOptions = {},
+  ): Promise<CommandResult> {
+    try {
+      if (options.keepWorking && options.keepStorage) {
+        throw new InvalidArgumentError(
+          'Options --keep-working and --keep-storage cannot be used together',
+          'sync',
+        );
+      }
+
+      if (!(await this.configManager.exists())) {
+        throw new NotInitializedError(
+          'Private git tracking is not initialized. Run "private init" first.',
+        );
+      }
+
+      const config = await this.configManager.load();
+      const untracked = relativePaths.filter(
+        relativePath => !config.trackedPaths.includes(relativePath),
+      );
+      if (untracked.length > 0) {
+        throw new SyncError(`Not tracked: ${untracked.join(', ')}`);
+      }
+
+      if (options.verbose) {
+        console.log(chalk.blue('🔄 Syncing hard links and copies with private storage...'));
+      }
+
+      const report = await new SyncService(
+        this.workingDir,
+        this.configManager,
+        this.fileSystem,
+      ).sync({
+        paths: relativePaths.length > 0 ? relativePaths : undefined,
+        keep: options.keepWorking ? 'working' : options.keepStorage ? 'storage' : undefined,
+        dryRun: options.dryRun,
+        verbose: options.verbose,
+      });
+
+      for (const missing of report.missing) {
+        console.warn(chalk.yellow(`   Warning: ${missing} is missing from private storage`));
+      }
+
+      if (report.conflicts.length > 0) {
+        throw SyncService.createConflictError(report.conflicts);
+      }
+
+      const verb = options.dryRun ? 'Would sync' : 'Synced';
+      const reabsorbed =
+        report.reabsorbed.length > 0
+          ? `, ${options.dryRun ? 'would take' : 'took'} over ${report.reabsorbed.length} file(s) that replaced their symbolic link`
+          : '';
+      return {
+        success: true,
+        message:
+          report.syncedIn.length + report.syncedOut.length + report.reabsorbed.length === 0
+            ? 'Everything is in sync'
+            : `${verb} ${report.syncedIn.length} path(s) into storage and ${report.syncedOut.length} path(s) from storage${reabsorbed}`,
+        data: report,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to sync with private storage');
+    }
+  }
+
+  /**
+   * Handle errors and create appropriate command result
+   */
+  private handleError(error: unknown, defaultMessage: string): CommandResult {
+    if (error instanceof BaseError) {
+      return {
+        success: false,
+        message: error.message,
+        error,
+        exitCode: 1,
+      };
+    }
+
+    return {
+      success: false,
+      message: defaultMessage,
+      error: error instanceof Error ? error : new Error(String(error)),
+      exitCode: 1,
+    };
+  }
+}
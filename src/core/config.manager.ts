@@ -7,10 +7,20 @@ import {
   CURRENT_CONFIG_VERSION,
   ValidationResult,
   MigrationInfo,
+  MigrationResult,
   ConfigHealth,
+  RemoteConfig,
+  TrackedFileDetails,
+  TrackedFileRecord,
 } from '../types/config.types';
-import { PrivateConfigSchema, PrivateConfigJsonSchema } from '../types/config.schema';
+import {
+  ConfigSettingsSchema,
+  PrivateConfigSchema,
+  PrivateConfigJsonSchema,
+} from '../types/config.schema';
 import { FileSystemService } from './filesystem.service';
+import { GitService } from './git.service';
+import { ConfigMigrationRegistry, RawConfig } from './config.migrations';
 import { PlatformDetector } from '../utils/platform.detector';
 import { BaseError } from '../errors/base.error';
 
@@ -32,19 +42,63 @@ export class ConfigMigrationError extends BaseError {
   public readonly recoverable = false;
 }
 
+/**
+ * Main repository git configuration key holding a custom configuration file location
+ */
+const CONFIG_FILE_SETTING = 'pgit.configFile';
+
+/**
+ * Suffix of configuration backups, followed by a timestamp
+ */
+export const BACKUP_SUFFIX = '.backup.';
+
 /**
  * Configuration manager for private git CLI
  */
 export class ConfigManager {
-  private readonly configPath: string;
+  private readonly workingDir: string;
+  private readonly configFile: string | undefined;
   private readonly fileSystem: FileSystemService;
+  private configPath?: string | undefined;
   private cachedConfig?: PrivateConfig | undefined;
 
-  constructor(workingDir: string, fileSystem?: FileSystemService) {
-    this.configPath = path.join(workingDir, DEFAULT_PATHS.config);
+  constructor(workingDir: string, fileSystem?: FileSystemService, configFile?: string) {
+    this.workingDir = workingDir;
+    this.configFile = configFile;
     this.fileSystem = fileSystem || new FileSystemService();
   }
 
+  /**
+   * Find the project root by walking up from a directory to the nearest configuration file.
+   * The search stops at the top of the main repository, where a location recorded with
+   * "pgit init --config" is checked as well. Returns null when no project is found.
+   */
+  public static async findProjectRoot(
+    startDir: string,
+    fileSystem: FileSystemService = new FileSystemService(),
+  ): Promise<string | null> {
+    let currentDir = path.resolve(startDir);
+
+    for (;;) {
+      const gitDir = path.join(currentDir, '.git');
+      fileSystem.trustPath(gitDir);
+      const isRepositoryRoot = await fileSystem.pathExists(gitDir);
+
+      const hasConfig = isRepositoryRoot
+        ? await new ConfigManager(currentDir, fileSystem).exists()
+        : await fileSystem.pathExists(path.join(currentDir, DEFAULT_PATHS.config));
+      if (hasConfig) {
+        return currentDir;
+      }
+
+      const parentDir = path.dirname(currentDir);
+      if (isRepositoryRoot || parentDir === currentDir) {
+        return null;
+      }
+      currentDir = parentDir;
+    }
+  }
+
   /**
    * Load configuration from file
    */
@@ -55,9 +109,8 @@ export class ConfigManager {
         throw new ConfigError('Configuration file not found. Run "private init" first.');
       }
 
-      // Read configuration file
-      const configContent = await this.fileSystem.readFile(this.configPath);
-      const configData = JSON.parse(configContent);
+      // Read configuration file, older formats are upgraded in memory
+      const configData = this.upgradeInMemory(await this.readRawConfig());
 
       // Validate and transform configuration
       const validatedConfig = PrivateConfigJsonSchema.parse(configData);
@@ -69,20 +122,16 @@ export class ConfigManager {
       // Cache the configuration
       this.cachedConfig = finalConfig;
 
+      // Private storage holds the private repository, so its .git directory is accessed by pgit
+      this.fileSystem.trustPath(path.resolve(this.workingDir, finalConfig.storagePath));
+
       return finalConfig;
     } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new ConfigValidationError(
-          'Configuration file is corrupted (invalid JSON)',
-          error.message,
-        );
-      }
-
       if (error instanceof Error && error.name === 'ZodError') {
         throw new ConfigValidationError('Configuration file format is invalid', error.message);
       }
 
-      if (error instanceof ConfigError) {
+      if (error instanceof ConfigError || error instanceof ConfigValidationError) {
         throw error;
       }
 
@@ -104,12 +153,15 @@ export class ConfigManager {
       // Update last modified timestamp
       validatedConfig.metadata.lastModified = new Date();
 
+      // Keep one record per tracked path
+      validatedConfig.trackedFiles = this.reconcileTrackedFiles(validatedConfig);
+
       // Transform for JSON serialization
       const jsonConfig = this.transformToJson(validatedConfig);
 
       // Write to file
       const configContent = JSON.stringify(jsonConfig, null, 2);
-      await this.fileSystem.writeFileAtomic(this.configPath, configContent);
+      await this.fileSystem.writeFileAtomic(await this.getConfigPath(), configContent);
 
       // Update cache
       this.cachedConfig = validatedConfig;
@@ -131,15 +183,17 @@ export class ConfigManager {
   public async create(
     projectPath: string,
     options: Partial<ConfigSettings> = {},
+    layout: Partial<Pick<PrivateConfig, 'privateRepoPath' | 'storagePath'>> = {},
   ): Promise<PrivateConfig> {
     const projectName = path.basename(path.resolve(projectPath));
     const now = new Date();
 
     const config: PrivateConfig = {
       version: CURRENT_CONFIG_VERSION,
-      privateRepoPath: DEFAULT_PATHS.privateRepo,
-      storagePath: DEFAULT_PATHS.storage,
+      privateRepoPath: layout.privateRepoPath || DEFAULT_PATHS.privateRepo,
+      storagePath: layout.storagePath || DEFAULT_PATHS.storage,
       trackedPaths: [],
+      trackedFiles: [],
       initialized: now,
       settings: { ...DEFAULT_SETTINGS, ...options },
       metadata: {
@@ -156,11 +210,21 @@ export class ConfigManager {
   }
 
   /**
-   * Update configuration settings
+   * Update configuration settings, backing up the configuration first
    */
   public async updateSettings(newSettings: Partial<ConfigSettings>): Promise<PrivateConfig> {
     const config = await this.load();
-    config.settings = { ...config.settings, ...newSettings };
+    const result = ConfigSettingsSchema.safeParse({ ...config.settings, ...newSettings });
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new ConfigValidationError(
+        `Invalid value for settings.${issue.path.join('.')}: ${issue.message}`,
+      );
+    }
+
+    await this.createBackup();
+    config.settings = result.data;
     await this.save(config);
     return config;
   }
@@ -168,7 +232,10 @@ export class ConfigManager {
   /**
    * Add tracked path
    */
-  public async addTrackedPath(filePath: string): Promise<PrivateConfig> {
+  public async addTrackedPath(
+    filePath: string,
+    details?: TrackedFileDetails,
+  ): Promise<PrivateConfig> {
     const config = await this.load();
 
     // Normalize path
@@ -180,6 +247,10 @@ export class ConfigManager {
     }
 
     config.trackedPaths.push(normalizedPath);
+    config.trackedFiles = [
+      ...(config.trackedFiles || []),
+      this.createTrackedFileRecord(normalizedPath, details),
+    ];
     await this.save(config);
     return config;
   }
@@ -187,7 +258,10 @@ export class ConfigManager {
   /**
    * Add multiple tracked paths atomically
    */
-  public async addMultipleTrackedPaths(filePaths: string[]): Promise<PrivateConfig> {
+  public async addMultipleTrackedPaths(
+    filePaths: string[],
+    details?: Map<string, TrackedFileDetails>,
+  ): Promise<PrivateConfig> {
     const config = await this.load();
 
     // Normalize all paths
@@ -212,6 +286,12 @@ export class ConfigManager {
 
     // Add all new paths
     config.trackedPaths.push(...uniquePaths);
+    config.trackedFiles = [
+      ...(config.trackedFiles || []),
+      ...filePaths.map((filePath, index) =>
+        this.createTrackedFileRecord(normalizedPaths[index], details?.get(filePath)),
+      ),
+    ];
     await this.save(config);
     return config;
   }
@@ -263,11 +343,135 @@ export class ConfigManager {
     return config;
   }
 
+  /**
+   * Rename a tracked path, keeping its record
+   */
+  public async renameTrackedPath(fromPath: string, toPath: string): Promise<PrivateConfig> {
+    const config = await this.load();
+    const normalizedFrom = path.normalize(fromPath);
+    const normalizedTo = path.normalize(toPath);
+
+    if (!config.trackedPaths.includes(normalizedFrom)) {
+      throw new ConfigError(`Path is not tracked: ${normalizedFrom}`);
+    }
+    if (config.trackedPaths.includes(normalizedTo)) {
+      throw new ConfigError(`Path is already tracked: ${normalizedTo}`);
+    }
+
+    config.trackedFiles = this.reconcileTrackedFiles(config).map(record =>
+      record.path === normalizedFrom ? { ...record, path: normalizedTo } : record,
+    );
+    config.trackedPaths = config.trackedPaths.map(trackedPath =>
+      trackedPath === normalizedFrom ? normalizedTo : trackedPath,
+    );
+    await this.save(config);
+    return config;
+  }
+
+  /**
+   * Change recorded details of tracked paths, paths that are not tracked are ignored
+   */
+  public async updateTrackedFiles(
+    changes: Map<string, Partial<TrackedFileDetails>>,
+  ): Promise<PrivateConfig> {
+    const config = await this.load();
+
+    config.trackedFiles = this.reconcileTrackedFiles(config).map(record => {
+      const change = changes.get(record.path);
+      return change ? { ...record, ...change } : record;
+    });
+    await this.save(config);
+    return config;
+  }
+
+  /**
+   * Get the records of all tracked paths
+   */
+  public async getTrackedFiles(): Promise<TrackedFileRecord[]> {
+    const config = await this.load();
+    return this.reconcileTrackedFiles(config);
+  }
+
+  /**
+   * Get the record of a tracked path, or undefined if the path is not tracked
+   */
+  public async getTrackedFile(filePath: string): Promise<TrackedFileRecord | undefined> {
+    const normalizedPath = path.normalize(filePath);
+    return (await this.getTrackedFiles()).find(record => record.path === normalizedPath);
+  }
+
+  /**
+   * Get configured remotes
+   */
+  public async getRemotes(): Promise<RemoteConfig[]> {
+    const config = await this.load();
+    return config.remotes || [];
+  }
+
+  /**
+   * Add a remote
+   */
+  public async addRemote(remote: RemoteConfig): Promise<PrivateConfig> {
+    const config = await this.load();
+    const remotes = config.remotes || [];
+
+    if (remotes.some(existing => existing.name === remote.name)) {
+      throw new ConfigError(`Remote already exists: ${remote.name}`);
+    }
+
+    config.remotes = [...remotes, remote];
+    await this.save(config);
+    return config;
+  }
+
+  /**
+   * Remove a remote
+   */
+  public async removeRemote(name: string): Promise<PrivateConfig> {
+    const config = await this.load();
+    const remotes = config.remotes || [];
+
+    if (!remotes.some(remote => remote.name === name)) {
+      throw new ConfigError(`Remote does not exist: ${name}`);
+    }
+
+    config.remotes = remotes.filter(remote => remote.name !== name);
+    await this.save(config);
+    return config;
+  }
+
   /**
    * Check if configuration file exists
    */
   public async exists(): Promise<boolean> {
-    return this.fileSystem.pathExists(this.configPath);
+    return this.fileSystem.pathExists(await this.getConfigPath());
+  }
+
+  /**
+   * Get absolute path of private storage from the configuration
+   */
+  public async getStoragePath(): Promise<string> {
+    const config = this.cachedConfig || (await this.load());
+    return path.resolve(this.workingDir, config.storagePath);
+  }
+
+  /**
+   * Point the configuration at a new private storage directory
+   */
+  public async setStoragePath(storagePath: string): Promise<PrivateConfig> {
+    const config = await this.load();
+    config.storagePath = storagePath;
+    await this.save(config);
+    this.fileSystem.trustPath(path.resolve(this.workingDir, storagePath));
+    return config;
+  }
+
+  /**
+   * Get absolute path of the private repository directory from the configuration
+   */
+  public async getPrivateRepoPath(): Promise<string> {
+    const config = this.cachedConfig || (await this.load());
+    return path.resolve(this.workingDir, config.privateRepoPath);
   }
 
   /**
@@ -297,9 +501,9 @@ export class ConfigManager {
       }
 
       // Check paths exist
-      const workingDir = path.dirname(this.configPath);
-      const privateRepoPath = path.join(workingDir, config.privateRepoPath);
-      const storagePath = path.join(workingDir, config.storagePath);
+      const workingDir = this.workingDir;
+      const privateRepoPath = path.resolve(workingDir, config.privateRepoPath);
+      const storagePath = path.resolve(workingDir, config.storagePath);
 
       if (!(await this.fileSystem.pathExists(privateRepoPath))) {
         result.errors.push(`Private repository path does not exist: ${privateRepoPath}`);
@@ -314,7 +518,7 @@ export class ConfigManager {
       // Validate tracked paths
       for (const trackedPath of config.trackedPaths) {
         const fullPath = path.join(workingDir, trackedPath);
-        const storagePath = path.join(workingDir, config.storagePath, trackedPath);
+        const storagePath = path.resolve(workingDir, config.storagePath, trackedPath);
 
         if (!(await this.fileSystem.pathExists(storagePath))) {
           result.warnings.push(`Tracked file missing in storage: ${trackedPath}`);
@@ -322,7 +526,7 @@ export class ConfigManager {
 
         // Check if symbolic link exists and is valid
         if (await this.fileSystem.pathExists(fullPath)) {
-          const stats = await this.fileSystem.getStats(fullPath);
+          const stats = await this.fileSystem.getLinkStats(fullPath);
           if (!stats.isSymbolicLink()) {
             result.warnings.push(`Tracked path is not a symbolic link: ${trackedPath}`);
           }
@@ -356,14 +560,16 @@ export class ConfigManager {
     }
 
     try {
-      const config = await this.load();
-      health.currentVersion = config.version;
-      health.needsMigration = config.version !== CURRENT_CONFIG_VERSION;
+      // Read the version first, configurations without a migration path may not load
+      const version = String((await this.readRawConfig())['version']);
+      health.currentVersion = version;
+      health.needsMigration = ConfigManager.needsMigration(version);
 
       if (health.needsMigration) {
         health.targetVersion = CURRENT_CONFIG_VERSION;
       }
 
+      await this.load();
       const validation = await this.validate();
       health.valid = validation.valid;
       health.errors = validation.errors;
@@ -382,75 +588,114 @@ export class ConfigManager {
       return null;
     }
 
-    try {
-      const config = await this.load();
+    const rawConfig = await this.readRawConfig();
+    const version = String(rawConfig['version']);
 
-      if (config.version === CURRENT_CONFIG_VERSION) {
-        return null; // No migration needed
-      }
+    if (!ConfigManager.needsMigration(version)) {
+      return null; // No migration needed
+    }
 
-      return {
-        fromVersion: config.version,
-        toVersion: CURRENT_CONFIG_VERSION,
-        steps: this.getMigrationSteps(config.version, CURRENT_CONFIG_VERSION),
-        required: true,
-        safe: this.isMigrationSafe(config.version, CURRENT_CONFIG_VERSION),
-      };
-    } catch (error) {
-      throw new ConfigMigrationError(
-        'Failed to get migration information',
-        error instanceof Error ? error.message : String(error),
-      );
+    const steps = ConfigMigrationRegistry.getSteps(rawConfig);
+    if (!steps) {
+      throw new ConfigMigrationError(`No migration path from configuration version ${version}`);
     }
+
+    return {
+      fromVersion: version,
+      toVersion: CURRENT_CONFIG_VERSION,
+      steps: steps.map(({ id, description, destructive }) => ({ id, description, destructive })),
+      required: true,
+      safe: !steps.some(step => step.destructive),
+    };
   }
 
   /**
-   * Perform configuration migration
+   * Perform configuration migration.
+   * Destructive steps only run when explicitly allowed.
    */
-  public async migrate(): Promise<PrivateConfig> {
+  public async migrate(options: { allowDestructive?: boolean } = {}): Promise<MigrationResult> {
     const migrationInfo = await this.getMigrationInfo();
 
     if (!migrationInfo) {
       throw new ConfigMigrationError('No migration needed or configuration not found');
     }
 
-    if (!migrationInfo.safe) {
-      throw new ConfigMigrationError('Migration is not safe to perform automatically');
+    if (!migrationInfo.safe && !options.allowDestructive) {
+      throw new ConfigMigrationError(
+        'Migration includes destructive steps that need confirmation',
+        migrationInfo.steps
+          .filter(step => step.destructive)
+          .map(step => step.description)
+          .join(', '),
+      );
     }
 
-    try {
-      // Create backup
-      const backupPath = `${this.configPath}.backup.${Date.now()}`;
-      const originalContent = await this.fileSystem.readFile(this.configPath);
-      await this.fileSystem.writeFileAtomic(backupPath, originalContent);
-
-      // Execute migration steps
-      for (const step of migrationInfo.steps) {
-        try {
-          await step.execute();
-        } catch (error) {
-          // Restore backup on failure
-          await this.fileSystem.writeFileAtomic(this.configPath, originalContent);
-          throw new ConfigMigrationError(
-            `Migration step '${step.id}' failed`,
-            error instanceof Error ? error.message : String(error),
-          );
-        }
-      }
+    const configPath = await this.getConfigPath();
+    const originalContent = await this.fileSystem.readFile(configPath);
+    const backupPath = await this.createBackup();
 
-      // Reload and return migrated configuration
-      this.cachedConfig = undefined; // Clear cache
-      return await this.load();
+    try {
+      const rawConfig = JSON.parse(originalContent) as RawConfig;
+      const steps = ConfigMigrationRegistry.getSteps(rawConfig) || [];
+      const migrated = ConfigMigrationRegistry.apply(rawConfig, steps);
+
+      const config = this.transformFromJson(PrivateConfigJsonSchema.parse(migrated));
+      config.version = CURRENT_CONFIG_VERSION;
+      config.metadata.cliVersion = CURRENT_CONFIG_VERSION;
+      await this.save(config);
     } catch (error) {
-      if (error instanceof ConfigMigrationError) {
-        throw error;
-      }
+      // Restore the original file on failure
+      await this.fileSystem.writeFileAtomic(configPath, originalContent);
+      this.cachedConfig = undefined;
 
       throw new ConfigMigrationError(
         'Migration failed',
         error instanceof Error ? error.message : String(error),
       );
     }
+
+    return {
+      fromVersion: migrationInfo.fromVersion,
+      toVersion: migrationInfo.toVersion,
+      steps: migrationInfo.steps,
+      backupPath: backupPath || undefined,
+    };
+  }
+
+  /**
+   * Copy the configuration file next to itself, keeping at most settings.maxBackups copies.
+   * Returns null when backups are disabled.
+   */
+  public async createBackup(): Promise<string | null> {
+    const configPath = await this.getConfigPath();
+    const content = await this.fileSystem.readFile(configPath);
+
+    let settings: ConfigSettings = DEFAULT_SETTINGS;
+    try {
+      const rawSettings = (JSON.parse(content) as RawConfig)['settings'];
+      settings = { ...DEFAULT_SETTINGS, ...(rawSettings as Partial<ConfigSettings>) };
+    } catch {
+      // A corrupted file is still worth backing up
+    }
+
+    if (!settings.createBackups) {
+      return null;
+    }
+
+    const backupPath = `${configPath}${BACKUP_SUFFIX}${Date.now()}`;
+    await this.fileSystem.writeFileAtomic(backupPath, content);
+
+    // Remove the oldest backups beyond the limit
+    const prefix = `${path.basename(configPath)}${BACKUP_SUFFIX}`;
+    const backups = (await this.fileSystem.readDirectory(path.dirname(configPath)))
+      .filter(entry => entry.startsWith(prefix) && /^\d+$/.test(entry.slice(prefix.length)))
+      .sort((a, b) => Number(a.slice(prefix.length)) - Number(b.slice(prefix.length)));
+
+    for (const backup of backups.slice(0, Math.max(0, backups.length - settings.maxBackups))) {
+      await this.fileSystem.remove(path.join(path.dirname(configPath), backup));
+    }
+
+    return backupPath;
   }
 
   /**
@@ -468,22 +713,61 @@ export class ConfigManager {
   }
 
   /**
-   * Get configuration file path
+   * Get absolute path of the configuration file.
+   * A location chosen with "pgit init --config" is recorded in the main repository git configuration.
    */
-  public getConfigPath(): string {
+  public async getConfigPath(): Promise<string> {
+    if (!this.configPath) {
+      const defaultPath = path.resolve(this.workingDir, DEFAULT_PATHS.config);
+      let configFile = this.configFile;
+
+      if (!configFile && !(await this.fileSystem.pathExists(defaultPath))) {
+        configFile = (await this.readConfigFileSetting()) || undefined;
+      }
+
+      this.configPath = configFile ? path.resolve(this.workingDir, configFile) : defaultPath;
+    }
+
     return this.configPath;
   }
 
+  /**
+   * Record a custom configuration file location in the main repository git configuration
+   */
+  public async saveConfigFileSetting(configFile: string): Promise<void> {
+    const gitService = new GitService(this.workingDir, this.fileSystem);
+    await gitService.setConfigValue(CONFIG_FILE_SETTING, configFile);
+    this.configPath = path.resolve(this.workingDir, configFile);
+  }
+
+  /**
+   * Read the custom configuration file location, or null if none is recorded
+   */
+  private async readConfigFileSetting(): Promise<string | null> {
+    try {
+      const gitService = new GitService(this.workingDir, this.fileSystem);
+      if (!(await gitService.isRepository())) {
+        return null;
+      }
+      return await gitService.getConfigValue(CONFIG_FILE_SETTING);
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Transform configuration from JSON format
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private transformFromJson(jsonConfig: Record<string, any>): PrivateConfig {
+    const trackedFiles: TrackedFileRecord[] = jsonConfig['trackedFiles'];
+
     return {
       version: jsonConfig['version'],
       privateRepoPath: jsonConfig['privateRepoPath'],
       storagePath: jsonConfig['storagePath'],
-      trackedPaths: jsonConfig['trackedPaths'],
+      trackedPaths: trackedFiles.map(record => record.path),
+      trackedFiles,
       initialized: new Date(jsonConfig['initialized']),
       lastCleanup: jsonConfig['lastCleanup'] ? new Date(jsonConfig['lastCleanup']) : undefined,
       settings: jsonConfig['settings'],
@@ -491,16 +775,24 @@ export class ConfigManager {
         ...jsonConfig['metadata'],
         lastModified: new Date(jsonConfig['metadata']['lastModified']),
       },
+      remotes: jsonConfig['remotes'],
     };
   }
 
   /**
-   * Transform configuration to JSON format
+   * Transform configuration to JSON format, tracked paths are stored as records only
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private transformToJson(config: PrivateConfig): Record<string, any> {
+    const jsonConfig: Record<string, unknown> = { ...config };
+    delete jsonConfig['trackedPaths'];
+
     return {
-      ...config,
+      ...jsonConfig,
+      trackedFiles: this.reconcileTrackedFiles(config).map(record => ({
+        ...record,
+        addedAt: record.addedAt.toISOString(),
+      })),
       initialized: config.initialized.toISOString(),
       lastCleanup: config.lastCleanup?.toISOString(),
       metadata: {
@@ -511,39 +803,62 @@ export class ConfigManager {
   }
 
   /**
-   * Get migration steps for version upgrade
-   */
-  private getMigrationSteps(
-    fromVersion: string,
-    toVersion: string,
-  ): Array<{
-    id: string;
-    description: string;
-    destructive: boolean;
-    execute: () => Promise<void>;
-  }> {
-    // For now, we only have one version, but this would contain migration logic
-    // for future version upgrades
-    return [
-      {
-        id: 'update-version',
-        description: `Update configuration version from ${fromVersion} to ${toVersion}`,
-        destructive: false,
-        execute: async (): Promise<void> => {
-          const config = await this.load();
-          config.version = toVersion;
-          await this.save(config);
-        },
-      },
-    ];
+   * Match records to the tracked paths, paths without a record get one with unknown details
+   */
+  private reconcileTrackedFiles(config: PrivateConfig): TrackedFileRecord[] {
+    const records = config.trackedFiles || [];
+
+    return config.trackedPaths.map(
+      trackedPath =>
+        records.find(record => record.path === trackedPath) ||
+        this.createTrackedFileRecord(trackedPath),
+    );
+  }
+
+  /**
+   * Create the record for a newly tracked path
+   */
+  private createTrackedFileRecord(
+    trackedPath: string,
+    details: TrackedFileDetails = { mainRepoState: 'unknown' },
+  ): TrackedFileRecord {
+    return { ...details, path: trackedPath, addedAt: new Date() };
+  }
+
+  /**
+   * Read the configuration file as plain JSON
+   */
+  private async readRawConfig(): Promise<RawConfig> {
+    const configContent = await this.fileSystem.readFile(await this.getConfigPath());
+
+    try {
+      return JSON.parse(configContent) as RawConfig;
+    } catch (error) {
+      throw new ConfigValidationError(
+        'Configuration file is corrupted (invalid JSON)',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
   }
 
   /**
-   * Check if migration is safe to perform automatically
+   * Apply the non-destructive migrations for an older configuration, keeping its version
    */
-  private isMigrationSafe(_fromVersion: string, _toVersion: string): boolean {
-    // For now, all migrations are considered safe
-    // In the future, this would check for breaking changes
-    return true;
+  private upgradeInMemory(rawConfig: RawConfig): RawConfig {
+    const steps = ConfigMigrationRegistry.getSteps(rawConfig) || [];
+    return ConfigMigrationRegistry.apply(
+      rawConfig,
+      steps.filter(step => !step.destructive),
+    );
+  }
+
+  /**
+   * Check if a configuration version is older than the current one
+   */
+  private static needsMigration(version: string): boolean {
+    return (
+      version !== CURRENT_CONFIG_VERSION &&
+      ConfigMigrationRegistry.compareVersions(version, CURRENT_CONFIG_VERSION) <= 0
+    );
   }
 }
@@ -0,0 +1,189 @@
+import * as path from 'path';
+import { CURRENT_CONFIG_VERSION } from '../types/config.types';
+
+/**
+ * Configuration as read from disk, before schema validation
+ */
+export type RawConfig = Record<string, unknown>;
+
+/**
+ * A versioned transformation of the raw configuration JSON.
+ * Steps must be idempotent because non-destructive steps are also applied in memory on every load.
+ */
+export interface ConfigMigration {
+  /** Step identifier */
+  id: string;
+  /** Version the step upgrades from */
+  fromVersion: string;
+  /** Version the step upgrades to */
+  toVersion: string;
+  /** Human readable description */
+  description: string;
+  /** Whether the step drops information and needs confirmation */
+  destructive: boolean;
+  /** Whether the step would change the given configuration */
+  applies(_config: RawConfig): boolean;
+  /** Return the transformed configuration */
+  migrate(_config: RawConfig): RawConfig;
+}
+
+/**
+ * Normalize a tracked path written by older versions
+ */
+const normalizeTrackedPath = (trackedPath: string): string =>
+  trackedPath
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/\/+$/, '');
+
+/**
+ * Check if a tracked path points outside the project
+ */
+const isUnsafeTrackedPath = (trackedPath: string): boolean =>
+  path.posix.isAbsolute(trackedPath) ||
+  path.win32.isAbsolute(trackedPath) ||
+  normalizeTrackedPath(trackedPath).split('/').includes('..');
+
+/**
+ * Get the tracked paths of a raw configuration
+ */
+const getTrackedPaths = (config: RawConfig): string[] =>
+  Array.isArray(config['trackedPaths'])
+    ? config['trackedPaths'].filter((entry): entry is string => typeof entry === 'string')
+    : [];
+
+/**
+ * Registered migrations, in order
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    id: 'normalize-tracked-paths',
+    fromVersion: '1.0.0',
+    toVersion: '1.1.0',
+    description: 'Normalize tracked paths to forward slashes and remove duplicates',
+    destructive: false,
+    applies: (config): boolean => {
+      const trackedPaths = getTrackedPaths(config);
+      const normalized = [...new Set(trackedPaths.map(normalizeTrackedPath))];
+      return (
+        normalized.length !== trackedPaths.length ||
+        normalized.some((p, i) => p !== trackedPaths[i])
+      );
+    },
+    migrate: config => ({
+      ...config,
+      trackedPaths: [...new Set(getTrackedPaths(config).map(normalizeTrackedPath))],
+    }),
+  },
+  {
+    id: 'drop-unsafe-tracked-paths',
+    fromVersion: '1.0.0',
+    toVersion: '1.1.0',
+    description: 'Stop tracking absolute paths and paths outside the project',
+    destructive: true,
+    applies: config => getTrackedPaths(config).some(isUnsafeTrackedPath),
+    migrate: config => ({
+      ...config,
+      trackedPaths: getTrackedPaths(config).filter(
+        trackedPath => !isUnsafeTrackedPath(trackedPath),
+      ),
+    }),
+  },
+  {
+    id: 'convert-tracked-paths',
+    fromVersion: '1.1.0',
+    toVersion: '1.2.0',
+    description: 'Replace the list of tracked paths with per-file tracking records',
+    destructive: false,
+    applies: config => 'trackedPaths' in config || !Array.isArray(config['trackedFiles']),
+    migrate: (config): RawConfig => {
+      const records = Array.isArray(config['trackedFiles']) ? config['trackedFiles'] : [];
+      const recordedPaths = records.map(record => (record as RawConfig)['path']);
+
+      // The real add date is unknown, initialization is the earliest it can be
+      const addedAt = typeof config['initialized'] === 'string' ? config['initialized'] : undefined;
+      const converted = getTrackedPaths(config)
+        .filter(trackedPath => !recordedPaths.includes(trackedPath))
+        .map(trackedPath => ({ path: trackedPath, addedAt, mainRepoState: 'unknown' }));
+
+      const migrated: RawConfig = { ...config, trackedFiles: [...records, ...converted] };
+      delete migrated['trackedPaths'];
+      return migrated;
+    },
+  },
+];
+
+/**
+ * Resolves and applies configuration migrations
+ */
+export class ConfigMigrationRegistry {
+  /**
+   * Get the steps needed to bring a configuration to the target version.
+   * Returns null when no migration path exists.
+   */
+  public static getSteps(
+    config: RawConfig,
+    targetVersion: string = CURRENT_CONFIG_VERSION,
+    migrations: ConfigMigration[] = CONFIG_MIGRATIONS,
+  ): ConfigMigration[] | null {
+    let version = this.getBaseVersion(config['version']);
+    if (!version) {
+      return null;
+    }
+
+    const steps: ConfigMigration[] = [];
+    let current = config;
+
+    while (this.compareVersions(version, targetVersion) < 0) {
+      const candidates = migrations.filter(migration => migration.fromVersion === version);
+      if (candidates.length === 0) {
+        return null;
+      }
+
+      for (const migration of candidates) {
+        if (migration.applies(current)) {
+          steps.push(migration);
+          current = migration.migrate(current);
+        }
+      }
+
+      version = candidates[0].toVersion;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Apply steps to a configuration, leaving its version untouched
+   */
+  public static apply(config: RawConfig, steps: ConfigMigration[]): RawConfig {
+    return steps.reduce((current, step) => step.migrate(current), config);
+  }
+
+  /**
+   * Compare two release versions, ignoring pre-release suffixes
+   */
+  public static compareVersions(left: string, right: string): number {
+    const leftParts = left.split('-')[0].split('.').map(Number);
+    const rightParts = right.split('-')[0].split('.').map(Number);
+
+    for (let i = 0; i < 3; i++) {
+      const difference = (leftParts[i] || 0) - (rightParts[i] || 0);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Get the release a configuration version belongs to, pre-releases migrate like their release
+   */
+  private static getBaseVersion(version: unknown): string | null {
+    if (typeof version !== 'string' || !/^\d+\.\d+\.\d+/.test(version)) {
+      return null;
+    }
+    return version.split('-')[0];
+  }
+}
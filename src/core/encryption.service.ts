@@ -0,0 +1,346 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { DEFAULT_PATHS, EncryptionMetadata } from '../types/config.types';
+import { EncryptionMetadataSchema } from '../types/config.schema';
+import { FileSystemService } from './filesystem.service';
+import { BaseError } from '../errors/base.error';
+import { PlatformDetector } from '../utils/platform.detector';
+
+/**
+ * Encryption service errors
+ */
+export class EncryptionError extends BaseError {
+  public readonly code = 'ENCRYPTION_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * Header marking blobs encrypted by pgit
+ */
+const ENCRYPTED_HEADER = Buffer.from('\0PGITENC1\0', 'binary');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const KEY_CHECK_CONTEXT = 'pgit-key-check';
+const IV_CONTEXT = 'pgit-iv';
+
+/**
+ * scrypt cost parameters for passphrase derived keys
+ */
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+/**
+ * Files in private storage that are never encrypted, they are needed to clone and unlock
+ */
+export const PLAINTEXT_FILES: readonly string[] = [
+  DEFAULT_PATHS.gitattributes,
+  DEFAULT_PATHS.encryption,
+  DEFAULT_PATHS.manifest,
+  DEFAULT_PATHS.pgitignore,
+  'README.md',
+];
+
+/**
+ * Where the key for an encrypted store comes from
+ */
+export interface KeySource {
+  /** Passphrase to derive the key from */
+  passphrase?: string;
+  /** Path of a file containing a base64 encoded key */
+  keyFile?: string;
+}
+
+/**
+ * Encrypts files committed to the private repository.
+ * Git clean/smudge filters call into this service, so the repository only ever stores ciphertext
+ * while the working copies in private storage stay plaintext as long as the store is unlocked.
+ */
+export class EncryptionService {
+  private readonly storagePath: string;
+  private readonly fileSystem: FileSystemService;
+
+  constructor(storagePath: string, fileSystem?: FileSystemService) {
+    this.storagePath = storagePath;
+    this.fileSystem = fileSystem || new FileSystemService();
+  }
+
+  /**
+   * Check if data carries the pgit encryption header
+   */
+  public static isEncrypted(data: Buffer): boolean {
+    return (
+      data.length >= ENCRYPTED_HEADER.length &&
+      data.subarray(0, ENCRYPTED_HEADER.length).equals(ENCRYPTED_HEADER)
+    );
+  }
+
+  /**
+   * Encrypt data with AES-256-GCM.
+   * The IV is derived from the content so identical plaintext gives identical blobs,
+   * otherwise git would see every file as modified after each checkout.
+   */
+  public static encrypt(plaintext: Buffer, key: Buffer): Buffer {
+    const ivKey = crypto.createHmac('sha256', key).update(IV_CONTEXT).digest();
+    const iv = crypto.createHmac('sha256', ivKey).update(plaintext).digest().subarray(0, IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return Buffer.concat([ENCRYPTED_HEADER, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  /**
+   * Decrypt data produced by encrypt
+   */
+  public static decrypt(data: Buffer, key: Buffer): Buffer {
+    if (!EncryptionService.isEncrypted(data)) {
+      throw new EncryptionError('Data is not encrypted by pgit');
+    }
+
+    const ivStart = ENCRYPTED_HEADER.length;
+    const tagStart = ivStart + IV_LENGTH;
+    const dataStart = tagStart + TAG_LENGTH;
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        key,
+        data.subarray(ivStart, tagStart),
+      );
+      decipher.setAuthTag(data.subarray(tagStart, dataStart));
+      return Buffer.concat([decipher.update(data.subarray(dataStart)), decipher.final()]);
+    } catch (error) {
+      throw new EncryptionError(
+        'Failed to decrypt data, the key does not match',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Generate a random key
+   */
+  public static generateKey(): Buffer {
+    return crypto.randomBytes(KEY_LENGTH);
+  }
+
+  /**
+   * Derive a key from a passphrase
+   */
+  public static deriveKey(passphrase: string, salt: Buffer): Buffer {
+    return crypto.scryptSync(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS);
+  }
+
+  /**
+   * Command git runs for the clean, smudge and textconv steps, it calls back into this CLI
+   */
+  public static getFilterCommand(): string {
+    return `${PlatformDetector.getCliCommand()} filter`;
+  }
+
+  /**
+   * Content of .gitattributes routing every file except the plaintext ones through the filter
+   */
+  public static getGitattributes(): string {
+    return [
+      '# pgit encryption (auto-generated)',
+      '* filter=pgit diff=pgit',
+      ...PLAINTEXT_FILES.map(file => `/${file} -filter !diff`),
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Get absolute path of the encryption metadata committed to the private repository
+   */
+  public getMetadataPath(): string {
+    return path.join(this.storagePath, DEFAULT_PATHS.encryption);
+  }
+
+  /**
+   * Get absolute path of the key of an unlocked store, kept inside .git so it is never committed
+   */
+  public getKeyPath(): string {
+    return path.join(this.storagePath, '.git', 'pgit', 'key');
+  }
+
+  /**
+   * Check if the private repository uses encryption
+   */
+  public async isEnabled(): Promise<boolean> {
+    return this.fileSystem.pathExists(this.getMetadataPath());
+  }
+
+  /**
+   * Check if the key of the store is available
+   */
+  public async isUnlocked(): Promise<boolean> {
+    return this.fileSystem.pathExists(this.getKeyPath());
+  }
+
+  /**
+   * Read encryption metadata, or null if the store is not encrypted
+   */
+  public async readMetadata(): Promise<EncryptionMetadata | null> {
+    if (!(await this.isEnabled())) {
+      return null;
+    }
+
+    try {
+      const content = await this.fileSystem.readFile(this.getMetadataPath());
+      return EncryptionMetadataSchema.parse(JSON.parse(content));
+    } catch (error) {
+      throw new EncryptionError(
+        `Encryption metadata ${DEFAULT_PATHS.encryption} is invalid`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Set up encryption for a new store and unlock it, returns the key
+   */
+  public async enable(source: KeySource): Promise<Buffer> {
+    if (await this.isEnabled()) {
+      throw new EncryptionError('Encryption is already enabled for this private repository');
+    }
+
+    let key: Buffer;
+    const metadata: EncryptionMetadata = {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      kdf: source.passphrase !== undefined ? 'scrypt' : 'keyfile',
+      keyCheck: '',
+    };
+
+    if (source.passphrase !== undefined) {
+      const salt = crypto.randomBytes(16);
+      metadata.salt = salt.toString('base64');
+      key = EncryptionService.deriveKey(source.passphrase, salt);
+    } else if (source.keyFile) {
+      key = await this.loadOrCreateKeyFile(source.keyFile);
+    } else {
+      throw new EncryptionError('A passphrase or key file is required to enable encryption');
+    }
+
+    metadata.keyCheck = this.computeKeyCheck(key);
+    await this.fileSystem.writeFileAtomic(
+      this.getMetadataPath(),
+      `${JSON.stringify(metadata, null, 2)}\n`,
+    );
+    await this.saveKey(key);
+
+    return key;
+  }
+
+  /**
+   * Resolve and verify the key of an encrypted store
+   */
+  public async resolveKey(source: KeySource): Promise<Buffer> {
+    const metadata = await this.readMetadata();
+    if (!metadata) {
+      throw new EncryptionError('Encryption is not enabled for this private repository');
+    }
+
+    let key: Buffer;
+    if (metadata.kdf === 'scrypt') {
+      if (source.passphrase === undefined || !metadata.salt) {
+        throw new EncryptionError('A passphrase is required to unlock this private repository');
+      }
+      key = EncryptionService.deriveKey(source.passphrase, Buffer.from(metadata.salt, 'base64'));
+    } else {
+      if (!source.keyFile) {
+        throw new EncryptionError('A key file is required to unlock this private repository');
+      }
+      key = await this.readKeyFile(source.keyFile);
+    }
+
+    if (this.computeKeyCheck(key) !== metadata.keyCheck) {
+      throw new EncryptionError(
+        metadata.kdf === 'scrypt' ? 'Incorrect passphrase' : 'Key file does not match',
+      );
+    }
+
+    return key;
+  }
+
+  /**
+   * Load the key of an unlocked store, or null if the store is locked
+   */
+  public async loadKey(): Promise<Buffer | null> {
+    if (!(await this.isUnlocked())) {
+      return null;
+    }
+
+    return this.decodeKey(await this.fileSystem.readFile(this.getKeyPath()), this.getKeyPath());
+  }
+
+  /**
+   * Store the key so filters can use it
+   */
+  public async saveKey(key: Buffer): Promise<void> {
+    const keyPath = this.getKeyPath();
+    await this.fileSystem.ensureDirectoryExists(path.dirname(keyPath));
+    await this.fileSystem.writeFileAtomic(keyPath, `${key.toString('base64')}\n`);
+  }
+
+  /**
+   * Write .gitattributes for encrypted storage
+   */
+  public async writeGitattributes(): Promise<void> {
+    await this.fileSystem.writeFileAtomic(
+      path.join(this.storagePath, DEFAULT_PATHS.gitattributes),
+      EncryptionService.getGitattributes(),
+    );
+  }
+
+  /**
+   * Forget the stored key
+   */
+  public async removeKey(): Promise<void> {
+    if (await this.isUnlocked()) {
+      await this.fileSystem.remove(this.getKeyPath());
+    }
+  }
+
+  /**
+   * Read a key file, creating it with a new random key if it does not exist
+   */
+  private async loadOrCreateKeyFile(keyFile: string): Promise<Buffer> {
+    if (await this.fileSystem.pathExists(keyFile)) {
+      return this.readKeyFile(keyFile);
+    }
+
+    const key = EncryptionService.generateKey();
+    await this.fileSystem.writeFileAtomic(keyFile, `${key.toString('base64')}\n`);
+    return key;
+  }
+
+  /**
+   * Read a base64 encoded key file
+   */
+  private async readKeyFile(keyFile: string): Promise<Buffer> {
+    if (!(await this.fileSystem.pathExists(keyFile))) {
+      throw new EncryptionError(`Key file not found: ${keyFile}`);
+    }
+
+    return this.decodeKey(await this.fileSystem.readFile(keyFile), keyFile);
+  }
+
+  /**
+   * Decode a base64 key and check its length
+   */
+  private decodeKey(content: string, source: string): Buffer {
+    const key = Buffer.from(content.trim(), 'base64');
+    if (key.length !== KEY_LENGTH) {
+      throw new EncryptionError(`Invalid key in ${source}`, `Expected ${KEY_LENGTH} bytes`);
+    }
+    return key;
+  }
+
+  /**
+   * Compute the value used to verify a key without storing it
+   */
+  private computeKeyCheck(key: Buffer): string {
+    return crypto.createHmac('sha256', key).update(KEY_CHECK_CONTEXT).digest('base64');
+  }
+}
@@ -15,6 +15,17 @@ import {
  */
 export class FileSystemService {
   private readonly rollbackActions: Array<() => Promise<void>> = [];
+  private readonly trustedPaths: string[] = [];
+
+  /**
+   * Allow access to system paths such as .git below a directory managed by pgit, like private storage
+   */
+  public trustPath(rootPath: string): void {
+    const resolvedPath = path.resolve(rootPath);
+    if (!this.trustedPaths.includes(resolvedPath)) {
+      this.trustedPaths.push(resolvedPath);
+    }
+  }
 
   /**
    * Move file or directory atomically with rollback support
@@ -51,7 +62,7 @@ export class FileSystemService {
             await new Promise(resolve => setTimeout(resolve, 10));
           }
 
-          await fs.move(source, target);
+          await this.movePath(source, target);
           moveSuccessful = true;
         } catch (moveError) {
           retryCount++;
@@ -78,6 +89,32 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Move a file or directory with a rename, falling back to copy and remove across file systems.
+   * The copy goes to a temporary path next to the target first, so the target never holds a partial copy.
+   */
+  private async movePath(source: string, target: string): Promise<void> {
+    try {
+      await fs.rename(source, target);
+      return;
+    } catch (error) {
+      if (!(error instanceof Error && 'code' in error && error.code === 'EXDEV')) {
+        throw error;
+      }
+    }
+
+    const tempPath = `${target}.tmp.${Date.now()}.${this.generateId()}`;
+    try {
+      await fs.copy(source, tempPath, { preserveTimestamps: true, dereference: false });
+      await fs.rename(tempPath, target);
+    } catch (error) {
+      await fs.remove(tempPath);
+      throw error;
+    }
+
+    await fs.remove(source);
+  }
+
   /**
    * Copy file or directory atomically
    */
@@ -96,6 +133,35 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Hard link a file, or recreate a directory with every file in it hard linked
+   */
+  public async hardLinkPath(source: string, target: string): Promise<void> {
+    await this.validatePath(source);
+    await this.validateTargetPath(target);
+
+    try {
+      await fs.ensureDir(path.dirname(target));
+
+      if ((await fs.lstat(source)).isDirectory()) {
+        await fs.ensureDir(target);
+        for (const entry of await fs.readdir(source)) {
+          await this.hardLinkPath(path.join(source, entry), path.join(target, entry));
+        }
+      } else {
+        await fs.link(source, target);
+      }
+    } catch (error) {
+      if (error instanceof AtomicOperationError) {
+        throw error;
+      }
+      throw new AtomicOperationError(
+        `Failed to hard link ${source} to ${target}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Create directory with proper permissions
    */
@@ -221,6 +287,22 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Append to a file, creating it if needed
+   */
+  public async appendFile(filePath: string, content: string): Promise<void> {
+    this.validatePathString(filePath);
+
+    try {
+      await fs.appendFile(filePath, content, 'utf8');
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to append to file ${filePath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Read file safely
    */
@@ -240,6 +322,38 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * List the names of the entries in a directory
+   */
+  public async readDirectory(dirPath: string): Promise<string[]> {
+    await this.validatePath(dirPath);
+
+    try {
+      return await fs.readdir(dirPath);
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to read directory ${dirPath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Read file content without decoding it
+   */
+  public async readBinaryFile(filePath: string): Promise<Buffer> {
+    await this.validatePath(filePath);
+
+    try {
+      return await fs.readFile(filePath);
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to read file ${filePath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Remove file or directory safely
    */
@@ -259,6 +373,11 @@ export class FileSystemService {
 
     try {
       await fs.remove(targetPath);
+
+      // Clean up backup on success
+      if (await fs.pathExists(backupPath)) {
+        await fs.remove(backupPath);
+      }
     } catch (error) {
       await this.rollback();
       throw new FileSystemError(
@@ -314,6 +433,49 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Compute the SHA-256 and total size of a file or directory.
+   * Directories hash the name and hash of every entry in sorted order, symbolic links hash their target.
+   */
+  public async hashPath(targetPath: string): Promise<{ sha256: string; size: number }> {
+    this.validatePathString(targetPath);
+
+    try {
+      const stats = await fs.lstat(targetPath);
+
+      if (!stats.isDirectory()) {
+        const content = stats.isSymbolicLink()
+          ? Buffer.from(await fs.readlink(targetPath))
+          : await fs.readFile(targetPath);
+        return {
+          sha256: crypto.createHash('sha256').update(content).digest('hex'),
+          size: content.length,
+        };
+      }
+
+      const hash = crypto.createHash('sha256');
+      let size = 0;
+      for (const entry of (await fs.readdir(targetPath)).sort()) {
+        const entryHash = await this.hashPath(path.join(targetPath, entry));
+        hash.update(`${entry}\0${entryHash.sha256}\n`);
+        size += entryHash.size;
+      }
+
+      return { sha256: hash.digest('hex'), size };
+    } catch (error) {
+      if (error instanceof FileSystemError || error instanceof FileNotFoundError) {
+        throw error;
+      }
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        throw new FileNotFoundError(`Path not found: ${targetPath}`);
+      }
+      throw new FileSystemError(
+        `Failed to hash ${targetPath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Check if path is a directory
    */
@@ -388,8 +550,19 @@ export class FileSystemService {
     const systemPaths = ['.git', 'node_modules', '.npm', '.cache'];
     const pathParts = normalizedPath.split(path.sep);
 
+    const isTrusted =
+      pathParts.includes('.private-storage') ||
+      this.trustedPaths.some(trustedPath => {
+        const relativePath = path.relative(trustedPath, path.resolve(normalizedPath));
+        return (
+          relativePath !== '..' &&
+          !relativePath.startsWith(`..${path.sep}`) &&
+          !path.isAbsolute(relativePath)
+        );
+      });
+
     for (const systemPath of systemPaths) {
-      if (pathParts.includes(systemPath) && !pathParts.includes('.private-storage')) {
+      if (pathParts.includes(systemPath) && !isTrusted) {
         throw new InvalidPathError(`Access to system path not allowed: ${targetPath}`);
       }
     }
@@ -1,7 +1,9 @@
-import { simpleGit, SimpleGit, StatusResult, LogResult } from 'simple-git';
+import { simpleGit, SimpleGit, StatusResult, LogResult, GitConfigScope } from 'simple-git';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { FileSystemService } from './filesystem.service';
 import { RepositoryNotFoundError, GitOperationError, GitIndexError } from '../errors/git.error';
+import { IndexEntry } from '../types/config.types';
 
 /**
  * Git repository status information
@@ -29,6 +31,8 @@ export interface GitLogEntry {
   message: string;
   author: string;
   email: string;
+  /** Changes introduced by the commit, only when requested */
+  diff?: string;
 }
 
 /**
@@ -71,6 +75,24 @@ export class GitService {
     }
   }
 
+  /**
+   * Clone a remote repository into the (empty) working directory
+   */
+  public async cloneRepository(url: string, remoteName = 'origin', branch?: string): Promise<void> {
+    try {
+      const options = ['--origin', remoteName];
+      if (branch) {
+        options.push('--branch', branch);
+      }
+      await this.git.clone(url, '.', options);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to clone ${url}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Get repository status
    */
@@ -177,6 +199,22 @@ export class GitService {
     }
   }
 
+  /**
+   * Move or rename a tracked file or directory, staging the rename
+   */
+  public async move(fromPath: string, toPath: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      await this.git.mv(fromPath, toPath);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to move ${fromPath} to ${toPath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Commit changes
    */
@@ -198,6 +236,28 @@ export class GitService {
     }
   }
 
+  /**
+   * Stage and commit only the given files, leaving anything else in the index untouched
+   */
+  public async commitFiles(files: string[], message: string): Promise<string> {
+    await this.ensureRepository();
+
+    if (!message || !message.trim()) {
+      throw new GitOperationError('Commit message cannot be empty');
+    }
+
+    try {
+      await this.git.add(files);
+      const result = await this.git.commit(message.trim(), files);
+      return result.commit;
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to commit files: ${files.join(', ')}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Add multiple files and commit them in a single transaction
    */
@@ -230,10 +290,93 @@ export class GitService {
     }
   }
 
+  /**
+   * Remove multiple files from the repository index and commit the removal in a single transaction
+   */
+  public async removeFilesAndCommit(files: string[], baseMessage: string): Promise<string> {
+    await this.ensureRepository();
+
+    if (!baseMessage || !baseMessage.trim()) {
+      throw new GitOperationError('Commit message cannot be empty');
+    }
+
+    if (files.length === 0) {
+      throw new GitOperationError('No files provided for commit');
+    }
+
+    try {
+      // Drop the entries from the index only, the working copies are handled by the caller
+      await this.git.raw(['rm', '-r', '--cached', '--ignore-unmatch', '--', ...files]);
+
+      const commitMessage = this.generateMultiFileCommitMessage(
+        files,
+        baseMessage.trim(),
+        'Files removed:',
+      );
+
+      const result = await this.git.commit(commitMessage);
+      return result.commit;
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to remove and commit files: ${files.join(', ')}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Remove files from every commit in the repository history
+   */
+  public async purgeFromHistory(files: string[]): Promise<void> {
+    await this.ensureRepository();
+
+    if (files.length === 0) {
+      return;
+    }
+
+    try {
+      const quotedFiles = files.map(file => `"${file.replace(/(["\\$`])/g, '\\$1')}"`).join(' ');
+
+      await this.git
+        .env({ ...process.env, FILTER_BRANCH_SQUELCH_WARNING: '1' })
+        .raw([
+          'filter-branch',
+          '--force',
+          '--index-filter',
+          `git rm -r --cached --ignore-unmatch --quiet -- ${quotedFiles}`,
+          '--prune-empty',
+          '--',
+          '--all',
+        ]);
+
+      // Drop the backup refs and unreachable objects so the content is really gone
+      const backupRefs = await this.git.raw([
+        'for-each-ref',
+        '--format=%(refname)',
+        'refs/original/',
+      ]);
+      for (const ref of backupRefs.split('\n').filter(line => line.trim())) {
+        await this.git.raw(['update-ref', '-d', ref.trim()]);
+      }
+
+      await this.git.raw(['reflog', 'expire', '--expire=now', '--all']);
+      await this.git.raw(['gc', '--prune=now', '--quiet']);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to purge files from history: ${files.join(', ')}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Generate comprehensive commit message for multiple files
    */
-  private generateMultiFileCommitMessage(files: string[], baseMessage: string): string {
+  private generateMultiFileCommitMessage(
+    files: string[],
+    baseMessage: string,
+    listHeading = 'Files added:',
+  ): string {
     if (files.length === 1) {
       return `${baseMessage}: ${files[0]}`;
     }
@@ -250,7 +393,7 @@ export class GitService {
     });
 
     const lines = [baseMessage, ''];
-    lines.push('Files added:');
+    lines.push(listHeading);
 
     // Sort directories for consistent output
     const sortedDirs = Array.from(filesByDir.keys()).sort();
@@ -283,7 +426,11 @@ export class GitService {
   /**
    * Get commit log
    */
-  public async getLog(options?: { maxCount?: number; oneline?: boolean }): Promise<GitLogEntry[]> {
+  public async getLog(options?: {
+    maxCount?: number;
+    oneline?: boolean;
+    patch?: boolean;
+  }): Promise<GitLogEntry[]> {
     await this.ensureRepository();
 
     try {
@@ -305,13 +452,22 @@ export class GitService {
 
       const log: LogResult = await this.git.log(logOptions);
 
-      return log.all.map(entry => ({
+      const entries: GitLogEntry[] = log.all.map(entry => ({
         hash: entry.hash,
         date: entry.date,
         message: entry.message,
         author: entry.author_name,
         email: entry.author_email,
       }));
+
+      if (options?.patch) {
+        // --textconv shows encrypted files through the diff driver, decrypted when unlocked
+        for (const entry of entries) {
+          entry.diff = await this.git.raw(['show', '--textconv', '--format=', entry.hash]);
+        }
+      }
+
+      return entries;
     } catch (error) {
       throw new GitOperationError(
         'Failed to get commit log',
@@ -327,7 +483,8 @@ export class GitService {
     await this.ensureRepository();
 
     try {
-      const diffOptions: string[] = [];
+      // --textconv shows encrypted files through the diff driver, decrypted when unlocked
+      const diffOptions: string[] = ['--textconv'];
 
       if (options?.cached) {
         diffOptions.push('--cached');
@@ -347,6 +504,20 @@ export class GitService {
     }
   }
 
+  /**
+   * Show the differences between two files, which do not have to be in a repository
+   */
+  public async diffFiles(fromPath: string, toPath: string): Promise<string> {
+    try {
+      return await this.git.raw(['diff', '--no-index', '--no-color', '--', fromPath, toPath]);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to compare ${fromPath} and ${toPath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * List branches
    */
@@ -430,11 +601,11 @@ export class GitService {
   /**
    * Reset repository state
    */
-  public async reset(mode: 'soft' | 'hard' = 'soft', commit = 'HEAD'): Promise<void> {
+  public async reset(mode: 'soft' | 'mixed' | 'hard' = 'soft', commit = 'HEAD'): Promise<void> {
     await this.ensureRepository();
 
     try {
-      const resetMode = mode === 'hard' ? ['--hard'] : ['--soft'];
+      const resetMode = [`--${mode}`];
       await this.git.reset([...resetMode, commit]);
     } catch (error) {
       throw new GitOperationError(
@@ -483,6 +654,534 @@ export class GitService {
     }
   }
 
+  /**
+   * Check if a path is ignored by the repository ignore rules
+   */
+  public async isIgnored(filePath: string): Promise<boolean> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.raw(['check-ignore', filePath]);
+      return result.trim().length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get configured remotes with their fetch URLs
+   */
+  public async getRemotes(): Promise<Array<{ name: string; url: string }>> {
+    await this.ensureRepository();
+
+    try {
+      const remotes = await this.git.getRemotes(true);
+      return remotes.map(remote => ({ name: remote.name, url: remote.refs.fetch }));
+    } catch (error) {
+      throw new GitOperationError(
+        'Failed to list remotes',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Add a remote, or update its URL if it already exists
+   */
+  public async setRemote(name: string, url: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      const remotes = await this.getRemotes();
+      const existing = remotes.find(remote => remote.name === name);
+
+      if (!existing) {
+        await this.git.addRemote(name, url);
+      } else if (existing.url !== url) {
+        await this.git.remote(['set-url', name, url]);
+      }
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to configure remote: ${name}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Remove a remote if it exists
+   */
+  public async removeRemote(name: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      const remotes = await this.getRemotes();
+      if (remotes.some(remote => remote.name === name)) {
+        await this.git.removeRemote(name);
+      }
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to remove remote: ${name}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Push a branch to a remote and set it as upstream
+   */
+  public async push(remote: string, branch: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      await this.git.push(remote, branch, ['--set-upstream']);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to push ${branch} to ${remote}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Pull a branch from a remote, merging into the current branch
+   */
+  public async pull(remote: string, branch: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      await this.git.pull(remote, branch, { '--no-rebase': null });
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to pull ${branch} from ${remote}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Fetch from a remote
+   */
+  public async fetch(remote: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      await this.git.fetch(remote);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to fetch from ${remote}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Resolve a revision to a commit hash, returns null if it does not exist
+   */
+  public async resolveRevision(revision: string): Promise<string | null> {
+    await this.ensureRepository();
+
+    try {
+      const hash = await this.git.raw(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`]);
+      return hash.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the SHA-256 of a file as a revision checks it out, returns null if the revision has no such file.
+   * Filters such as decryption are applied, so the hash matches the file in the working tree.
+   */
+  public async hashFileAt(revision: string, file: string): Promise<string | null> {
+    await this.ensureRepository();
+
+    try {
+      const content: Buffer = await this.git.binaryCatFile([
+        '--filters',
+        `${revision}:${file.split(path.sep).join('/')}`,
+      ]);
+      return crypto.createHash('sha256').update(content).digest('hex');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read a date the way git does, returns null if git does not understand it.
+   * Git reads unknown words as the current time, so only "now" and "today" may mean it.
+   */
+  public async parseDate(date: string): Promise<Date | null> {
+    const startedAt = Math.floor(Date.now() / 1000);
+
+    try {
+      const output = await this.git.raw(['rev-parse', `--before=${date}`]);
+      const match = /--min-age=(\d+)/.exec(output);
+      if (!match) {
+        return null;
+      }
+
+      const timestamp = Number(match[1]);
+      if (timestamp >= startedAt && !/^\s*(now|today)\s*$/i.test(date)) {
+        return null;
+      }
+      return new Date(timestamp * 1000);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find the last commit reachable from HEAD made before a date, returns null if there is none.
+   * Dates are read by git, so relative dates like "3 days ago" work.
+   */
+  public async findCommitBefore(date: string): Promise<string | null> {
+    await this.ensureRepository();
+
+    try {
+      const hash = await this.git.raw(['log', '-1', '--format=%H', `--before=${date}`, 'HEAD']);
+      return hash.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * List the files of a revision under the given paths
+   */
+  public async listFilesAt(revision: string, files: string[]): Promise<string[]> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.raw(['ls-tree', '-r', '--name-only', revision, '--', ...files]);
+      return result
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to list files of ${revision}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Write files as they were in a revision to the working tree and the index, HEAD stays where it is.
+   * Files under the paths that did not exist in the revision are removed.
+   */
+  public async restoreFiles(revision: string, files: string[]): Promise<void> {
+    await this.ensureRepository();
+
+    if (files.length === 0) {
+      return;
+    }
+
+    try {
+      await this.git.raw([
+        'restore',
+        `--source=${revision}`,
+        '--staged',
+        '--worktree',
+        '--',
+        ...files,
+      ]);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to restore files from ${revision}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Check if HEAD and a revision share any history
+   */
+  public async hasCommonHistory(revision: string): Promise<boolean> {
+    await this.ensureRepository();
+
+    try {
+      const base = await this.git.raw(['merge-base', 'HEAD', revision]);
+      return base.trim().length > 0;
+    } catch {
+      // merge-base exits with status 1 when there is no common ancestor
+      return false;
+    }
+  }
+
+  /**
+   * Count commits reachable from HEAD
+   */
+  public async getCommitCount(): Promise<number> {
+    await this.ensureRepository();
+
+    try {
+      const count = await this.git.raw(['rev-list', '--count', 'HEAD']);
+      return parseInt(count.trim(), 10) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Get files that differ between two revisions
+   */
+  public async getChangedFiles(from: string, to: string): Promise<string[]> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.raw(['diff', '--name-only', from, to]);
+      return result
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to compare ${from} and ${to}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Point core.excludesFile at an ignore file, relative to the repository root
+   */
+  public async setExcludesFile(excludesFile: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      await this.git.addConfig('core.excludesFile', excludesFile);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to configure excludes file: ${excludesFile}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Read a value from the local repository configuration, or null if it is not set
+   */
+  public async getConfigValue(key: string): Promise<string | null> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.getConfig(key, GitConfigScope.local);
+      return result.value;
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to read git configuration: ${key}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Write a value to the local repository configuration
+   */
+  public async setConfigValue(key: string, value: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      await this.git.addConfig(key, value, false, GitConfigScope.local);
+    } catch (error) {
+      throw new GitOperationError(
+        `Failed to write git configuration: ${key}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Configure the clean/smudge filter and diff driver that encrypt files at rest
+   */
+  public async configureEncryptionFilter(filterCommand: string): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      await this.git.addConfig('filter.pgit.clean', `${filterCommand} clean`);
+      await this.git.addConfig('filter.pgit.smudge', `${filterCommand} smudge`);
+      await this.git.addConfig('filter.pgit.required', 'true');
+      await this.git.addConfig('diff.pgit.textconv', `${filterCommand} textconv`);
+    } catch (error) {
+      throw new GitOperationError(
+        'Failed to configure encryption filter',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * List files in the index
+   */
+  public async listFiles(): Promise<string[]> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.raw(['ls-files', '-z']);
+      return result.split('\0').filter(line => line.length > 0);
+    } catch (error) {
+      throw new GitOperationError(
+        'Failed to list files',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Get the index entries of files, to put them back later with restoreIndexEntries
+   */
+  public async getIndexEntries(files: string[]): Promise<IndexEntry[]> {
+    await this.ensureRepository();
+
+    if (files.length === 0) {
+      return [];
+    }
+
+    try {
+      const result = await this.git.raw(['ls-files', '--stage', '-z', '--', ...files]);
+      return result
+        .split('\0')
+        .filter(line => line.length > 0)
+        .map(line => {
+          // <mode> <hash> <stage>\t<path>
+          const [info, filePath] = line.split('\t');
+          const [mode, hash] = info.split(' ');
+          return { mode, hash, path: filePath };
+        });
+    } catch (error) {
+      throw new GitIndexError(
+        `Failed to read index entries: ${files.join(', ')}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Write index entries recorded by getIndexEntries back into the index
+   */
+  public async restoreIndexEntries(entries: IndexEntry[]): Promise<void> {
+    await this.ensureRepository();
+
+    try {
+      for (const entry of entries) {
+        await this.git.raw([
+          'update-index',
+          '--add',
+          '--cacheinfo',
+          `${entry.mode},${entry.hash},${entry.path}`,
+        ]);
+      }
+    } catch (error) {
+      throw new GitIndexError(
+        `Failed to restore index entries: ${entries.map(entry => entry.path).join(', ')}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Write files from the index to the working tree, running smudge filters again
+   */
+  public async checkoutFiles(files: string[]): Promise<void> {
+    await this.ensureRepository();
+
+    if (files.length === 0) {
+      return;
+    }
+
+    try {
+      await this.git.raw(['checkout', '--', ...files]);
+    } catch (error) {
+      throw new GitOperationError(
+        'Failed to check out files',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Get files staged for the next commit, excluding deletions
+   */
+  public async getStagedFiles(): Promise<string[]> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.raw([
+        'diff',
+        '--cached',
+        '--name-only',
+        '--diff-filter=d',
+        '-z',
+      ]);
+      return result.split('\0').filter(line => line.length > 0);
+    } catch (error) {
+      throw new GitOperationError(
+        'Failed to list staged files',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Get absolute path of the hooks directory, honouring core.hooksPath
+   */
+  public async getHooksDirectory(): Promise<string> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.raw(['rev-parse', '--git-path', 'hooks']);
+      return path.resolve(this.workingDir, result.trim());
+    } catch (error) {
+      throw new GitOperationError(
+        'Failed to locate git hooks directory',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Get absolute path of the repository's info/exclude file, which is never committed
+   */
+  public async getExcludeFilePath(): Promise<string> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.raw(['rev-parse', '--git-path', 'info/exclude']);
+      return path.resolve(this.workingDir, result.trim());
+    } catch (error) {
+      throw new GitOperationError(
+        'Failed to locate the info/exclude file',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Get untracked files that are ignored by the repository ignore rules
+   */
+  public async getIgnoredFiles(): Promise<string[]> {
+    await this.ensureRepository();
+
+    try {
+      const result = await this.git.raw([
+        'ls-files',
+        '--others',
+        '--ignored',
+        '--exclude-standard',
+      ]);
+      return result
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+    } catch (error) {
+      throw new GitOperationError(
+        'Failed to list ignored files',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   /**
    * Get current branch name
    */
@@ -0,0 +1,307 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { DEFAULT_PATHS, DryRunPlan, TrackedPathExclusion } from '../types/config.types';
+import { FileSystemService } from './filesystem.service';
+import { GitService } from './git.service';
+import { BACKUP_SUFFIX, ConfigManager } from './config.manager';
+
+/**
+ * First line of the block of tracked paths pgit manages in an ignore file
+ */
+export const TRACKED_PATHS_BLOCK_START = '# >>> pgit tracked paths (managed by pgit, do not edit)';
+
+/**
+ * Last line of the block of tracked paths pgit manages in an ignore file
+ */
+export const TRACKED_PATHS_BLOCK_END = '# <<< pgit tracked paths';
+
+/**
+ * Change to an ignore file of the main repository
+ */
+export interface IgnoreFileEdit {
+  /** Path relative to the project root */
+  file: string;
+  /** Content before the change */
+  before: string;
+  /** Content after the change */
+  after: string;
+  /** Lines added */
+  additions: string[];
+  /** Lines dropped */
+  removals: string[];
+}
+
+/**
+ * Maintains the private git entries in the main repository's .gitignore, and a block listing
+ * the tracked paths in .git/info/exclude or .gitignore so they do not show up as untracked
+ */
+export class GitignoreService {
+  private readonly workingDir: string;
+  private readonly fileSystem: FileSystemService;
+
+  constructor(workingDir: string, fileSystem?: FileSystemService) {
+    this.workingDir = workingDir;
+    this.fileSystem = fileSystem || new FileSystemService();
+  }
+
+  /**
+   * Entries that keep private git tracking files out of the main repository
+   */
+  public static getPrivateEntries(
+    privatePaths: string[] = [
+      DEFAULT_PATHS.privateRepo,
+      DEFAULT_PATHS.storage,
+      DEFAULT_PATHS.config,
+      `${DEFAULT_PATHS.config}${BACKUP_SUFFIX}*`,
+    ],
+  ): string[] {
+    return ['', '# Private Git Tracking (auto-generated)', ...privatePaths, ''];
+  }
+
+  /**
+   * Convert private paths to .gitignore entries relative to the project, paths outside it need no entry
+   */
+  public getIgnoreEntries(privatePaths: string[]): string[] {
+    return privatePaths
+      .map(privatePath =>
+        path.relative(this.workingDir, path.resolve(this.workingDir, privatePath)),
+      )
+      .filter(
+        relativePath =>
+          relativePath.length > 0 &&
+          relativePath !== '..' &&
+          !relativePath.startsWith(`..${path.sep}`) &&
+          !path.isAbsolute(relativePath),
+      )
+      .map(relativePath => relativePath.split(path.sep).join('/'));
+  }
+
+  /**
+   * Add missing private git entries to .gitignore, returns true if the file changed
+   */
+  public async addPrivateEntries(privatePaths?: string[]): Promise<boolean> {
+    const gitignorePath = path.join(this.workingDir, DEFAULT_PATHS.gitignore);
+
+    // Read existing .gitignore or create empty content
+    let gitignoreContent = '';
+    if (await this.fileSystem.pathExists(gitignorePath)) {
+      gitignoreContent = await this.fileSystem.readFile(gitignorePath);
+    }
+
+    // Check if entries already exist
+    const entriesToAdd: string[] = [];
+    const entries = GitignoreService.getPrivateEntries(
+      privatePaths ? this.getIgnoreEntries(privatePaths) : undefined,
+    );
+    const existingLines = gitignoreContent.split(/\r?\n/).map(line => line.trim());
+    for (const entry of entries) {
+      if (entry.trim() && !existingLines.includes(entry)) {
+        entriesToAdd.push(entry);
+      }
+    }
+
+    if (entriesToAdd.length === 0) {
+      return false;
+    }
+
+    if (gitignoreContent && !gitignoreContent.endsWith('\n')) {
+      gitignoreContent += '\n';
+    }
+    gitignoreContent += `${entriesToAdd.join('\n')}\n`;
+
+    await this.fileSystem.writeFileAtomic(gitignorePath, gitignoreContent);
+    return true;
+  }
+
+  /**
+   * Replace the .gitignore entry of a private path that moved, in place.
+   * The old entry is dropped when the new path needs no entry or already has one. Returns true if the file changed.
+   */
+  public async replacePrivateEntry(oldPath: string, newPath: string): Promise<boolean> {
+    const gitignorePath = path.join(this.workingDir, DEFAULT_PATHS.gitignore);
+    const [oldEntry] = this.getIgnoreEntries([oldPath]);
+    const [newEntry] = this.getIgnoreEntries([newPath]);
+
+    if (!oldEntry || oldEntry === newEntry || !(await this.fileSystem.pathExists(gitignorePath))) {
+      return false;
+    }
+
+    const lines = (await this.fileSystem.readFile(gitignorePath)).split(/\r?\n/);
+    const index = lines.findIndex(line => line.trim() === oldEntry);
+    if (index === -1) {
+      return false;
+    }
+
+    if (newEntry && !lines.some(line => line.trim() === newEntry)) {
+      lines[index] = newEntry;
+    } else {
+      lines.splice(index, 1);
+    }
+
+    const content = lines.join('\n');
+    await this.fileSystem.writeFileAtomic(
+      gitignorePath,
+      content.endsWith('\n') || !content ? content : `${content}\n`,
+    );
+    return true;
+  }
+
+  /**
+   * Get the ignore file changes that bring the tracked paths block up to date.
+   * The block is only kept in the file the setting names, and dropped when nothing is tracked.
+   */
+  public async planTrackedPaths(
+    trackedPaths: string[],
+    exclusion: TrackedPathExclusion,
+  ): Promise<IgnoreFileEdit[]> {
+    const excludeFilePath = await new GitService(
+      this.workingDir,
+      this.fileSystem,
+    ).getExcludeFilePath();
+    // The info directory inside .git is the only part of it written to
+    this.fileSystem.trustPath(path.dirname(excludeFilePath));
+
+    const files: Array<[TrackedPathExclusion, string]> = [
+      ['info-exclude', excludeFilePath],
+      ['gitignore', path.join(this.workingDir, DEFAULT_PATHS.gitignore)],
+    ];
+    const edits: IgnoreFileEdit[] = [];
+
+    for (const [fileExclusion, filePath] of files) {
+      const before = (await this.fileSystem.pathExists(filePath))
+        ? await this.fileSystem.readFile(filePath)
+        : '';
+      const oldBlock = GitignoreService.findTrackedPathsBlock(before);
+      const newBlock =
+        fileExclusion === exclusion && trackedPaths.length > 0
+          ? [
+              TRACKED_PATHS_BLOCK_START,
+              ...[...trackedPaths].sort().map(GitignoreService.toIgnorePattern),
+              TRACKED_PATHS_BLOCK_END,
+            ]
+          : [];
+
+      const lines = before.split('\n');
+      if (before.endsWith('\n')) {
+        lines.pop();
+      }
+      const after = oldBlock
+        ? [...lines.slice(0, oldBlock.start), ...newBlock, ...lines.slice(oldBlock.end + 1)]
+        : [...(before ? lines : []), ...newBlock];
+      const afterContent = after.length > 0 ? `${after.join('\n')}\n` : '';
+
+      if (afterContent === before || (!before && newBlock.length === 0)) {
+        continue;
+      }
+
+      const oldLines = oldBlock ? lines.slice(oldBlock.start, oldBlock.end + 1) : [];
+      edits.push({
+        file: path.relative(this.workingDir, filePath).split(path.sep).join('/'),
+        before,
+        after: afterContent,
+        additions: newBlock.filter(line => !oldLines.includes(line)),
+        removals: oldLines.filter(line => !newBlock.includes(line)),
+      });
+    }
+
+    return edits;
+  }
+
+  /**
+   * Bring the tracked paths block up to date, returns the changes made
+   */
+  public async updateTrackedPaths(
+    trackedPaths: string[],
+    exclusion: TrackedPathExclusion,
+  ): Promise<IgnoreFileEdit[]> {
+    const edits = await this.planTrackedPaths(trackedPaths, exclusion);
+
+    for (const edit of edits) {
+      const filePath = path.join(this.workingDir, edit.file);
+      await this.fileSystem.ensureDirectoryExists(path.dirname(filePath));
+      await this.fileSystem.writeFileAtomic(filePath, edit.after);
+    }
+
+    return edits;
+  }
+
+  /**
+   * Bring the tracked paths block up to date with the configuration after tracked paths changed.
+   * A failure only warns, the block is repaired by "pgit cleanup".
+   */
+  public async syncTrackedPathsFromConfig(
+    configManager: ConfigManager,
+    verbose?: boolean,
+  ): Promise<void> {
+    try {
+      const config = await configManager.load();
+      const edits = await this.updateTrackedPaths(
+        config.trackedPaths,
+        config.settings.excludeTrackedPaths,
+      );
+
+      if (verbose) {
+        for (const edit of edits) {
+          console.log(chalk.gray(`   Updated tracked paths in ${edit.file}`));
+        }
+      }
+    } catch (error) {
+      console.log(
+        chalk.yellow(
+          `   ⚠️  Warning: Could not update the tracked paths in the ignore files: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Add the ignore file changes for the tracked paths an operation leaves behind to a dry run plan
+   */
+  public async planTrackedPathsFromConfig(
+    configManager: ConfigManager,
+    trackedPaths: string[],
+    plan: DryRunPlan,
+  ): Promise<void> {
+    try {
+      const config = await configManager.load();
+      const edits = await this.planTrackedPaths(trackedPaths, config.settings.excludeTrackedPaths);
+
+      for (const edit of edits) {
+        plan.ignoreFileEdits.push({
+          file: edit.file,
+          additions: edit.additions,
+          removals: edit.removals,
+        });
+      }
+    } catch (error) {
+      plan.warnings.push(
+        `Cannot check the tracked paths in the ignore files: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Convert a tracked path to a pattern matching only that path from the project root
+   */
+  public static toIgnorePattern(trackedPath: string): string {
+    const escaped = trackedPath
+      .replace(/[\\*?[]/g, '\\$&')
+      .replace(/ +$/, spaces => spaces.replace(/ /g, '\\ '));
+    return `/${escaped}`;
+  }
+
+  /**
+   * Find the line numbers of the tracked paths block, or null if the content has none
+   */
+  private static findTrackedPathsBlock(content: string): { start: number; end: number } | null {
+    const lines = content.split(/\r?\n/).map(line => line.trim());
+    const start = lines.indexOf(TRACKED_PATHS_BLOCK_START);
+    if (start === -1) {
+      return null;
+    }
+
+    const end = lines.indexOf(TRACKED_PATHS_BLOCK_END, start);
+    // An unterminated block runs to the end of the file
+    return { start, end: end === -1 ? lines.length - 1 : end };
+  }
+}
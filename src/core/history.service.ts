@@ -0,0 +1,143 @@
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import chalk from 'chalk';
+import { DEFAULT_PATHS, HistoryEntry } from '../types/config.types';
+import { HistoryEntrySchema } from '../types/config.schema';
+import { FileSystemService } from './filesystem.service';
+import { BaseError } from '../errors/base.error';
+
+/**
+ * History service errors
+ */
+export class HistoryError extends BaseError {
+  public readonly code = 'HISTORY_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * Append-only log of completed pgit operations, one JSON entry per line.
+ * Entries record what an operation changed so "pgit undo" can reverse it later.
+ */
+export class HistoryService {
+  private readonly historyDir: string;
+  private readonly fileSystem: FileSystemService;
+
+  constructor(historyDir: string, fileSystem?: FileSystemService) {
+    this.historyDir = historyDir;
+    this.fileSystem = fileSystem || new FileSystemService();
+  }
+
+  /**
+   * Get absolute path of the history file
+   */
+  public getFilePath(): string {
+    return path.join(this.historyDir, DEFAULT_PATHS.history);
+  }
+
+  /**
+   * Read all entries, oldest first
+   */
+  public async read(): Promise<HistoryEntry[]> {
+    const filePath = this.getFilePath();
+
+    if (!(await this.fileSystem.pathExists(filePath))) {
+      return [];
+    }
+
+    const lines = (await this.fileSystem.readFile(filePath)).split('\n');
+    const entries: HistoryEntry[] = [];
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        entries.push(HistoryEntrySchema.parse(JSON.parse(line)));
+      } catch (error) {
+        throw new HistoryError(
+          `Operation history ${filePath} is invalid at line ${index + 1}`,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Append an entry for an operation that completed. The operation already happened,
+   * so failing to record it only produces a warning.
+   */
+  public async record(
+    entry: Omit<HistoryEntry, 'id' | 'timestamp'>,
+  ): Promise<HistoryEntry | undefined> {
+    const recorded: HistoryEntry = { id: randomUUID(), timestamp: new Date(), ...entry };
+
+    try {
+      await this.fileSystem.appendFile(this.getFilePath(), `${JSON.stringify(recorded)}\n`);
+      return recorded;
+    } catch (error) {
+      console.warn(
+        chalk.yellow(
+          `   Warning: Could not record operation history: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Hash paths below a root directory, paths that cannot be hashed are left out
+   */
+  public async hashPaths(
+    rootDir: string,
+    relativePaths: string[],
+  ): Promise<Record<string, string>> {
+    const hashes: Record<string, string> = {};
+
+    for (const relativePath of relativePaths) {
+      try {
+        hashes[relativePath] = (
+          await this.fileSystem.hashPath(path.join(rootDir, relativePath))
+        ).sha256;
+      } catch {
+        // Reported as changed when an undo compares it
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Get entries that can still be undone, newest first.
+   * Undo entries themselves and entries that were already undone are left out.
+   */
+  public static getUndoable(entries: HistoryEntry[]): HistoryEntry[] {
+    const undone = new Set(entries.map(entry => entry.undoes).filter(Boolean));
+
+    return entries.filter(entry => entry.operation !== 'undo' && !undone.has(entry.id)).reverse();
+  }
+
+  /**
+   * Describe an entry for messages and listings
+   */
+  public static describe(entry: HistoryEntry): string {
+    const subject = entry.paths.length === 1 ? entry.paths[0] : `${entry.paths.length} paths`;
+
+    switch (entry.operation) {
+      case 'commit':
+        return `commit ${entry.privateHead?.after?.substring(0, 8) ?? ''} (${entry.paths.length} file(s))`;
+      case 'mv':
+        return `mv ${entry.paths.join(' → ')}`;
+      case 'checkout':
+        return `checkout ${entry.branch?.before} → ${entry.branch?.after}`;
+      case 'cleanup':
+        return entry.paths.length > 0
+          ? `cleanup --force (${entry.paths.length} index entries)`
+          : 'cleanup --force';
+      default:
+        return `${entry.operation} ${subject}`;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { BaseError } from '../errors/base.error';
+import { PlatformDetector } from '../utils/platform.detector';
+
+/**
+ * Hook service errors
+ */
+export class HookError extends BaseError {
+  public readonly code = 'HOOK_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * Line identifying hooks written by pgit
+ */
+const HOOK_MARKER = '# pgit pre-commit guard';
+
+/**
+ * Suffix of a pre-existing hook that pgit chains to
+ */
+export const ORIGINAL_HOOK_SUFFIX = '.pgit-orig';
+
+/**
+ * Result of installing the pre-commit guard
+ */
+export interface HookInstallResult {
+  /** Path of the installed hook */
+  hookPath: string;
+  /** A pre-existing hook was kept and is run after the guard */
+  chained: boolean;
+  /** The guard was already installed and has been rewritten */
+  updated: boolean;
+}
+
+/**
+ * Result of removing the pre-commit guard
+ */
+export interface HookUninstallResult {
+  /** Path of the hook */
+  hookPath: string;
+  /** The guard was installed and has been removed */
+  removed: boolean;
+  /** The pre-existing hook was put back in place */
+  restored: boolean;
+}
+
+/**
+ * Installs the pre-commit hook that keeps private paths out of the main repository.
+ * Hooks live inside .git, which FileSystemService refuses to touch, so this service uses fs-extra directly.
+ */
+export class HookService {
+  private readonly hooksDir: string;
+
+  constructor(hooksDir: string) {
+    this.hooksDir = hooksDir;
+  }
+
+  /**
+   * Content of the pre-commit hook, it calls back into this CLI and then runs the chained hook
+   */
+  public static getPreCommitScript(): string {
+    return [
+      '#!/bin/sh',
+      `${HOOK_MARKER} (auto-generated, remove with "pgit hooks uninstall")`,
+      `${PlatformDetector.getCliCommand()} hooks check || exit 1`,
+      '',
+      `original="$(dirname "$0")/pre-commit${ORIGINAL_HOOK_SUFFIX}"`,
+      'if [ -x "$original" ]; then',
+      '  exec "$original" "$@"',
+      'fi',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Get absolute path of the pre-commit hook
+   */
+  public getHookPath(): string {
+    return path.join(this.hooksDir, 'pre-commit');
+  }
+
+  /**
+   * Get absolute path where a pre-existing pre-commit hook is kept
+   */
+  public getOriginalHookPath(): string {
+    return `${this.getHookPath()}${ORIGINAL_HOOK_SUFFIX}`;
+  }
+
+  /**
+   * Check if the pre-commit guard is installed
+   */
+  public async isInstalled(): Promise<boolean> {
+    const hookPath = this.getHookPath();
+    if (!(await fs.pathExists(hookPath))) {
+      return false;
+    }
+
+    const content = await fs.readFile(hookPath, 'utf8');
+    return content.includes(HOOK_MARKER);
+  }
+
+  /**
+   * Install the pre-commit guard, keeping any existing hook so it still runs
+   */
+  public async install(): Promise<HookInstallResult> {
+    const hookPath = this.getHookPath();
+    const originalPath = this.getOriginalHookPath();
+    const updated = await this.isInstalled();
+
+    try {
+      await fs.ensureDir(this.hooksDir);
+
+      if (!updated && (await fs.pathExists(hookPath))) {
+        if (await fs.pathExists(originalPath)) {
+          throw new HookError(
+            `Cannot keep existing pre-commit hook, ${originalPath} already exists`,
+          );
+        }
+        await fs.move(hookPath, originalPath);
+      }
+
+      await fs.writeFile(hookPath, HookService.getPreCommitScript(), { mode: 0o755 });
+      await fs.chmod(hookPath, 0o755);
+    } catch (error) {
+      if (error instanceof BaseError) {
+        throw error;
+      }
+      throw new HookError(
+        `Failed to install pre-commit hook: ${hookPath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    return {
+      hookPath,
+      chained: await fs.pathExists(originalPath),
+      updated,
+    };
+  }
+
+  /**
+   * Remove the pre-commit guard and put back the hook it replaced
+   */
+  public async uninstall(): Promise<HookUninstallResult> {
+    const hookPath = this.getHookPath();
+    const originalPath = this.getOriginalHookPath();
+
+    if (!(await this.isInstalled())) {
+      if (await fs.pathExists(hookPath)) {
+        throw new HookError(`${hookPath} was not installed by pgit, leaving it untouched`);
+      }
+      return { hookPath, removed: false, restored: false };
+    }
+
+    try {
+      await fs.remove(hookPath);
+
+      let restored = false;
+      if (await fs.pathExists(originalPath)) {
+        await fs.move(originalPath, hookPath);
+        restored = true;
+      }
+
+      return { hookPath, removed: true, restored };
+    } catch (error) {
+      throw new HookError(
+        `Failed to uninstall pre-commit hook: ${hookPath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+}
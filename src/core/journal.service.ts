@@ -0,0 +1,222 @@
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import chalk from 'chalk';
+import {
+  DEFAULT_PATHS,
+  JournalStep,
+  TransactionJournal,
+  TransactionRecord,
+} from '../types/config.types';
+import { TransactionJournalSchema } from '../types/config.schema';
+import { FileSystemService } from './filesystem.service';
+import { BaseError } from '../errors/base.error';
+import { OperationInterruptedError, TransactionPendingError } from '../errors/specific.errors';
+import { PlatformDetector } from '../utils/platform.detector';
+
+/**
+ * Journal service errors
+ */
+export class JournalError extends BaseError {
+  public readonly code = 'JOURNAL_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * What an operation records before it touches the disk
+ */
+export type JournalPlan = TransactionRecord & {
+  steps: Array<Omit<JournalStep, 'done'>>;
+};
+
+/**
+ * Signals that interrupt a journaled operation
+ */
+const INTERRUPT_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * Keeps an on-disk journal of the planned and completed steps of an add, remove or mv.
+ * A journal left behind by a crash is picked up by "pgit recover". While an operation runs,
+ * SIGINT and SIGTERM are deferred to the next step boundary so the command can roll back in order.
+ */
+export class JournalService {
+  private readonly journalDir: string;
+  private readonly fileSystem: FileSystemService;
+  private journal: TransactionJournal | undefined;
+  private interruptedBy: NodeJS.Signals | undefined;
+
+  constructor(journalDir: string, fileSystem?: FileSystemService) {
+    this.journalDir = journalDir;
+    this.fileSystem = fileSystem || new FileSystemService();
+  }
+
+  /**
+   * Get absolute path of the journal file
+   */
+  public getFilePath(): string {
+    return path.join(this.journalDir, DEFAULT_PATHS.journal);
+  }
+
+  /**
+   * Read the journal, or null if no operation is in progress or interrupted
+   */
+  public async read(): Promise<TransactionJournal | null> {
+    const filePath = this.getFilePath();
+
+    if (!(await this.fileSystem.pathExists(filePath))) {
+      return null;
+    }
+
+    try {
+      const content = await this.fileSystem.readFile(filePath);
+      return TransactionJournalSchema.parse(JSON.parse(content));
+    } catch (error) {
+      throw new JournalError(
+        `Transaction journal ${filePath} is invalid`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Record the plan of an operation and start deferring interrupt signals.
+   * Fails if another operation is running or an interrupted one was not recovered yet.
+   */
+  public async begin(plan: JournalPlan): Promise<void> {
+    const existing = await this.read();
+    if (existing) {
+      throw new TransactionPendingError(
+        JournalService.isStale(existing)
+          ? `An interrupted ${JournalService.describe(existing)} must be recovered first. Run "pgit recover --rollback" or "pgit recover --complete".`
+          : `Another ${existing.operation} operation is running (process ${existing.pid})`,
+      );
+    }
+
+    this.journal = {
+      ...plan,
+      id: randomUUID(),
+      pid: process.pid,
+      startedAt: new Date(),
+      steps: plan.steps.map(step => ({ ...step, done: false })),
+    };
+    await this.write();
+
+    this.interruptedBy = undefined;
+    for (const signal of INTERRUPT_SIGNALS) {
+      process.on(signal, this.onSignal);
+    }
+  }
+
+  /**
+   * Mark a planned step as done, then stop if an interrupt signal arrived meanwhile.
+   * Once every step is done the operation is complete and is not interrupted anymore.
+   */
+  public async completeStep(name: string, stepPath?: string): Promise<void> {
+    if (!this.journal) {
+      throw new JournalError('No operation has been started');
+    }
+
+    const step = this.journal.steps.find(
+      candidate => candidate.name === name && candidate.path === stepPath && !candidate.done,
+    );
+    if (step) {
+      step.done = true;
+      await this.write();
+    }
+
+    if (this.journal.steps.some(candidate => !candidate.done)) {
+      this.throwIfInterrupted();
+    }
+  }
+
+  /**
+   * Throw if an interrupt signal arrived since the operation started
+   */
+  public throwIfInterrupted(): void {
+    if (this.interruptedBy) {
+      throw new OperationInterruptedError(
+        this.interruptedBy,
+        'Changes made so far are rolled back',
+      );
+    }
+  }
+
+  /**
+   * Remove the journal once the operation finished or was rolled back.
+   * Returns what the operation recorded, for the operation history.
+   */
+  public async finish(): Promise<TransactionRecord | undefined> {
+    const record = this.journal && {
+      operation: this.journal.operation,
+      paths: this.journal.paths,
+      storagePath: this.journal.storagePath,
+      privateHead: this.journal.privateHead,
+      mainIndexPaths: this.journal.mainIndexPaths,
+      details: this.journal.details,
+      exclude: this.journal.exclude,
+      stage: this.journal.stage,
+      purge: this.journal.purge,
+      renames: this.journal.renames,
+      collision: this.journal.collision,
+    };
+    this.release();
+
+    const filePath = this.getFilePath();
+    if (await this.fileSystem.pathExists(filePath)) {
+      await this.fileSystem.remove(filePath);
+    }
+
+    return record;
+  }
+
+  /**
+   * Stop deferring interrupt signals but keep the journal for "pgit recover"
+   */
+  public release(): void {
+    for (const signal of INTERRUPT_SIGNALS) {
+      process.removeListener(signal, this.onSignal);
+    }
+    this.journal = undefined;
+  }
+
+  /**
+   * Check whether the process that wrote a journal is gone, so the operation was interrupted
+   */
+  public static isStale(journal: TransactionJournal): boolean {
+    return journal.pid === process.pid || !PlatformDetector.isProcessAlive(journal.pid);
+  }
+
+  /**
+   * Describe the operation recorded in a journal for messages
+   */
+  public static describe(journal: TransactionJournal): string {
+    const completed = journal.steps.filter(step => step.done).length;
+    const subject = journal.paths.length === 1 ? journal.paths[0] : `${journal.paths.length} paths`;
+
+    return `${journal.operation} of ${subject} started ${journal.startedAt.toLocaleString()} (${completed}/${journal.steps.length} steps done)`;
+  }
+
+  /**
+   * Write the in-memory journal to disk
+   */
+  private async write(): Promise<void> {
+    await this.fileSystem.writeFileAtomic(
+      this.getFilePath(),
+      `${JSON.stringify(this.journal, null, 2)}\n`,
+    );
+  }
+
+  /**
+   * Defer the first interrupt signal to the next step boundary, a second one exits right away
+   */
+  private readonly onSignal = (signal: NodeJS.Signals): void => {
+    if (this.interruptedBy) {
+      // The journal stays behind for "pgit recover"
+      process.exit(new OperationInterruptedError(signal).exitCode);
+    }
+
+    this.interruptedBy = signal;
+    process.stderr.write(
+      chalk.yellow(`\n${signal} received, rolling back after the current step...\n`),
+    );
+  };
+}
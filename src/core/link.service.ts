@@ -0,0 +1,342 @@
+import { Stats } from 'fs';
+import { LinkStrategy } from '../types/config.types';
+import { FileSystemService } from './filesystem.service';
+import { SymlinkService } from './symlink.service';
+import { BaseError } from '../errors/base.error';
+import { FileNotFoundError } from '../errors/filesystem.error';
+
+/**
+ * Link service errors
+ */
+export class LinkError extends BaseError {
+  public readonly code = 'LINK_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * State of a tracked path in the working tree compared to private storage
+ */
+export interface LinkState {
+  /** Whether the path is present and points to or matches storage as its strategy requires */
+  healthy: boolean;
+  /** Whether the working tree content matches storage */
+  inSync: boolean;
+  /** Why the path is not healthy */
+  reason?: string;
+  /** Whether recreating the path from storage repairs it */
+  repairable: boolean;
+}
+
+/**
+ * What a sync has to do for a hard linked or copied path
+ */
+export type SyncAction = 'none' | 'in' | 'out' | 'conflict' | 'missing';
+
+/**
+ * Puts tracked paths into the working tree with their link strategy: a symbolic link into storage,
+ * hard links to the stored files, or a copy. Hard links and copies can drift from storage when a tool
+ * replaces or edits them, they are compared by content and synced in either direction.
+ */
+export class LinkService {
+  private readonly fileSystem: FileSystemService;
+  private readonly symlinkService: SymlinkService;
+
+  constructor(fileSystem?: FileSystemService) {
+    this.fileSystem = fileSystem || new FileSystemService();
+    this.symlinkService = new SymlinkService(this.fileSystem);
+  }
+
+  /**
+   * Create the working tree entry for a path in storage, replacing whatever is there
+   */
+  public async create(
+    storagePath: string,
+    projectPath: string,
+    strategy: LinkStrategy = 'symlink',
+  ): Promise<void> {
+    const isDirectory = await this.fileSystem.isDirectory(storagePath);
+
+    if (strategy === 'symlink') {
+      await this.symlinkService.create(storagePath, projectPath, {
+        force: true,
+        createParents: true,
+        isDirectory,
+      });
+      return;
+    }
+
+    if (await this.getLinkStats(projectPath)) {
+      await this.fileSystem.remove(projectPath);
+    }
+
+    try {
+      if (strategy === 'hardlink') {
+        await this.fileSystem.hardLinkPath(storagePath, projectPath);
+      } else {
+        await this.fileSystem.copyFileAtomic(storagePath, projectPath);
+      }
+    } catch (error) {
+      throw new LinkError(
+        strategy === 'hardlink'
+          ? `Cannot hard link ${projectPath} to private storage, use the copy strategy when storage is on another file system`
+          : `Cannot copy ${storagePath} to ${projectPath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Remove the working tree entry of a path, storage is left alone
+   */
+  public async remove(projectPath: string, strategy: LinkStrategy = 'symlink'): Promise<void> {
+    if (strategy === 'symlink') {
+      await this.symlinkService.remove(projectPath);
+    } else if (await this.getLinkStats(projectPath)) {
+      await this.fileSystem.remove(projectPath);
+    }
+  }
+
+  /**
+   * Check whether the working tree entry is the one this strategy creates for the stored path,
+   * so removing it loses nothing
+   */
+  public async isLinked(
+    storagePath: string,
+    projectPath: string,
+    strategy: LinkStrategy = 'symlink',
+  ): Promise<boolean> {
+    const projectStats = await this.getLinkStats(projectPath);
+    if (!projectStats) {
+      return false;
+    }
+
+    if (strategy === 'symlink') {
+      return projectStats.isSymbolicLink();
+    }
+
+    return (
+      !projectStats.isSymbolicLink() &&
+      (await this.inspect(storagePath, projectPath, strategy)).inSync
+    );
+  }
+
+  /**
+   * Check whether something other than a symbolic link is where a symbolic link belongs
+   */
+  public async isReplacedLink(projectPath: string): Promise<boolean> {
+    const projectStats = await this.getLinkStats(projectPath);
+    return !!projectStats && !projectStats.isSymbolicLink();
+  }
+
+  /**
+   * Inspect the working tree entry of a path
+   */
+  public async inspect(
+    storagePath: string,
+    projectPath: string,
+    strategy: LinkStrategy = 'symlink',
+  ): Promise<LinkState> {
+    const projectStats = await this.getLinkStats(projectPath);
+    const inStorage = await this.fileSystem.pathExists(storagePath);
+    const noun =
+      strategy === 'symlink' ? 'Symbolic link' : strategy === 'hardlink' ? 'Hard link' : 'Copy';
+
+    if (!projectStats) {
+      return {
+        healthy: false,
+        inSync: false,
+        reason: `${noun} does not exist`,
+        repairable: inStorage,
+      };
+    }
+
+    if (!inStorage) {
+      return {
+        healthy: false,
+        inSync: false,
+        reason: 'Target file does not exist',
+        repairable: false,
+      };
+    }
+
+    if (strategy === 'symlink') {
+      if (projectStats.isSymbolicLink()) {
+        return { healthy: true, inSync: true, repairable: false };
+      }
+
+      // Editors that save by renaming a new file over the old one replace the link
+      const inSync = (await this.hash(projectPath)) === (await this.hash(storagePath));
+      return {
+        healthy: false,
+        inSync,
+        reason: inSync
+          ? 'Path exists but is not a symbolic link'
+          : 'Symbolic link was replaced by a file with new content, run "pgit sync" to take it over',
+        repairable: inSync,
+      };
+    }
+
+    if (projectStats.isSymbolicLink()) {
+      return {
+        healthy: false,
+        inSync: false,
+        reason: `Path is a symbolic link but is tracked as a ${strategy}`,
+        repairable: true,
+      };
+    }
+
+    const inSync = (await this.hash(projectPath)) === (await this.hash(storagePath));
+
+    // A hard linked file that is no longer the stored file was replaced by a tool, a sync relinks it
+    if (strategy === 'hardlink' && projectStats.isFile()) {
+      const storageStats = await this.fileSystem.getLinkStats(storagePath);
+      if (storageStats.ino !== projectStats.ino || storageStats.dev !== projectStats.dev) {
+        return {
+          healthy: false,
+          inSync,
+          reason: 'Hard link was replaced by a separate file, run "pgit sync"',
+          // Linking it again is only safe while nothing would be lost
+          repairable: inSync,
+        };
+      }
+    }
+
+    return { healthy: true, inSync, repairable: false };
+  }
+
+  /**
+   * Decide how to sync a hard linked or copied path from the content hash at the last sync.
+   * The side that changed wins, a change on both sides is a conflict unless a side is kept.
+   */
+  public async planSync(
+    storagePath: string,
+    projectPath: string,
+    syncedSha256: string | undefined,
+    keep?: 'working' | 'storage',
+  ): Promise<{ action: SyncAction; sha256?: string }> {
+    const working = await this.hash(projectPath);
+    const stored = await this.hash(storagePath);
+
+    if (!working && !stored) {
+      return { action: 'missing' };
+    }
+    if (!stored) {
+      // Deleting the working copy to match storage could lose work, so it is never done
+      return keep === 'working' ? { action: 'in', sha256: working } : { action: 'missing' };
+    }
+    if (!working) {
+      return { action: 'out', sha256: stored };
+    }
+    if (working === stored) {
+      return { action: 'none', sha256: stored };
+    }
+
+    if (keep) {
+      return keep === 'working'
+        ? { action: 'in', sha256: working }
+        : { action: 'out', sha256: stored };
+    }
+    if (stored === syncedSha256) {
+      return { action: 'in', sha256: working };
+    }
+    if (working === syncedSha256) {
+      return { action: 'out', sha256: stored };
+    }
+
+    return { action: 'conflict' };
+  }
+
+  /**
+   * Decide how to bring back the symbolic link of a path that was replaced by a regular file,
+   * from the content hash of the last commit. The side that changed wins, a change on both sides
+   * or an unknown commit content is a conflict unless a side is kept.
+   */
+  public async planReabsorb(
+    storagePath: string,
+    projectPath: string,
+    committedSha256: string | undefined,
+    keep?: 'working' | 'storage',
+  ): Promise<{ action: SyncAction }> {
+    const working = await this.hash(projectPath);
+    const stored = await this.hash(storagePath);
+
+    if (!working || !stored) {
+      return { action: working ? 'in' : 'missing' };
+    }
+    if (working === stored) {
+      return { action: 'none' };
+    }
+    if (keep) {
+      return { action: keep === 'working' ? 'in' : 'out' };
+    }
+
+    if (stored === committedSha256) {
+      return { action: 'in' };
+    }
+    // The file still holds the committed content, linking again loses nothing
+    if (working === committedSha256) {
+      return { action: 'out' };
+    }
+
+    return { action: 'conflict' };
+  }
+
+  /**
+   * Copy the working tree content of a path into storage, then recreate the working tree entry
+   */
+  public async syncIn(
+    storagePath: string,
+    projectPath: string,
+    strategy: LinkStrategy,
+  ): Promise<void> {
+    const tempPath = `${storagePath}.sync.${Date.now()}`;
+
+    await this.fileSystem.copyFileAtomic(projectPath, tempPath);
+    await this.fileSystem.moveFileAtomic(tempPath, storagePath);
+    this.fileSystem.clearRollbackActions();
+
+    // A copy already matches storage, links have to be made again
+    if (strategy !== 'copy') {
+      await this.create(storagePath, projectPath, strategy);
+    }
+  }
+
+  /**
+   * Replace the working tree entry of a path with the stored content
+   */
+  public async syncOut(
+    storagePath: string,
+    projectPath: string,
+    strategy: LinkStrategy,
+  ): Promise<void> {
+    await this.create(storagePath, projectPath, strategy);
+  }
+
+  /**
+   * Hash a path, or undefined if nothing is there
+   */
+  private async hash(targetPath: string): Promise<string | undefined> {
+    try {
+      return (await this.fileSystem.hashPath(targetPath)).sha256;
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get stats of a path without following links, or null if nothing is there
+   */
+  private async getLinkStats(targetPath: string): Promise<Stats | null> {
+    try {
+      return await this.fileSystem.getLinkStats(targetPath);
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
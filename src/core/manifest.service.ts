@@ -0,0 +1,306 @@
+import * as path from 'path';
+import { Stats } from 'fs';
+import {
+  DEFAULT_PATHS,
+  LinkStrategy,
+  PrivateConfig,
+  PrivateManifest,
+  TrackedFileDetails,
+  TrackedFileRecord,
+} from '../types/config.types';
+import { PrivateManifestSchema } from '../types/config.schema';
+import { FileSystemService } from './filesystem.service';
+import { SymlinkService } from './symlink.service';
+import { LinkService } from './link.service';
+import { BaseError } from '../errors/base.error';
+import { FileNotFoundError } from '../errors/filesystem.error';
+
+/**
+ * Manifest service errors
+ */
+export class ManifestError extends BaseError {
+  public readonly code = 'MANIFEST_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * Current manifest format version
+ */
+export const CURRENT_MANIFEST_VERSION = 1;
+
+/**
+ * Result of linking tracked paths into the working tree
+ */
+export interface LinkTrackedPathsResult {
+  /** Paths that got a new symbolic link, hard link or copy */
+  linked: string[];
+  /** Paths whose link was already healthy */
+  alreadyLinked: string[];
+  /** Paths whose broken or misdirected link was recreated */
+  repaired: string[];
+  /** Paths where a real file or directory is in the way */
+  conflicts: string[];
+  /** Paths that are missing from private storage */
+  missing: string[];
+}
+
+/**
+ * Manages the manifest committed to the private repository.
+ * The manifest lists tracked paths so a pull or clone on another machine can rebuild links and config.
+ */
+export class ManifestService {
+  private readonly storagePath: string;
+  private readonly fileSystem: FileSystemService;
+  private readonly symlinkService: SymlinkService;
+  private readonly linkService: LinkService;
+
+  constructor(
+    storagePath: string,
+    fileSystem?: FileSystemService,
+    symlinkService?: SymlinkService,
+  ) {
+    this.storagePath = storagePath;
+    this.fileSystem = fileSystem || new FileSystemService();
+    this.symlinkService = symlinkService || new SymlinkService(this.fileSystem);
+    this.linkService = new LinkService(this.fileSystem);
+  }
+
+  /**
+   * Collect the link strategy of every tracked path that is not a symbolic link
+   */
+  public static getLinkStrategies(
+    records: Array<Pick<TrackedFileRecord, 'path' | 'linkStrategy'>>,
+  ): Record<string, LinkStrategy> {
+    const strategies: Record<string, LinkStrategy> = {};
+    for (const record of records) {
+      if (record.linkStrategy && record.linkStrategy !== 'symlink') {
+        strategies[record.path] = record.linkStrategy;
+      }
+    }
+    return strategies;
+  }
+
+  /**
+   * Get absolute path of the manifest file
+   */
+  public getFilePath(): string {
+    return path.join(this.storagePath, DEFAULT_PATHS.manifest);
+  }
+
+  /**
+   * Read the manifest, or null if the private repository has none
+   */
+  public async read(): Promise<PrivateManifest | null> {
+    const filePath = this.getFilePath();
+
+    if (!(await this.fileSystem.pathExists(filePath))) {
+      return null;
+    }
+
+    try {
+      const content = await this.fileSystem.readFile(filePath);
+      return PrivateManifestSchema.parse(JSON.parse(content));
+    } catch (error) {
+      throw new ManifestError(
+        `Manifest ${DEFAULT_PATHS.manifest} is invalid`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Read the manifest file as it is, or null if there is none
+   */
+  public async readContent(): Promise<string | null> {
+    const filePath = this.getFilePath();
+
+    if (!(await this.fileSystem.pathExists(filePath))) {
+      return null;
+    }
+
+    return this.fileSystem.readFile(filePath);
+  }
+
+  /**
+   * Put back content returned by readContent, removing the file if there was none
+   */
+  public async restoreContent(content: string | null): Promise<void> {
+    const filePath = this.getFilePath();
+
+    if (content === null) {
+      if (await this.fileSystem.pathExists(filePath)) {
+        await this.fileSystem.remove(filePath);
+      }
+      return;
+    }
+
+    await this.fileSystem.writeFileAtomic(filePath, content);
+  }
+
+  /**
+   * Write the manifest for the tracked paths of a configuration with the changes of an operation applied,
+   * returns true if the file changed
+   */
+  public async writeFromConfig(
+    config: PrivateConfig,
+    added: Map<string, TrackedFileDetails> = new Map(),
+    removed: string[] = [],
+  ): Promise<boolean> {
+    const records = [
+      ...(config.trackedFiles || []),
+      ...[...added].map(([trackedPath, details]) => ({ ...details, path: trackedPath })),
+    ];
+    const trackedPaths = [...new Set([...config.trackedPaths, ...added.keys()])].filter(
+      trackedPath => !removed.includes(trackedPath),
+    );
+
+    return this.write(trackedPaths, ManifestService.getLinkStrategies(records));
+  }
+
+  /**
+   * Write the manifest for the given tracked paths, returns true if the file changed
+   */
+  public async write(
+    trackedPaths: string[],
+    linkStrategies: Record<string, LinkStrategy> = {},
+  ): Promise<boolean> {
+    const sortedPaths = [...trackedPaths].sort();
+    const manifest: PrivateManifest = {
+      manifestVersion: CURRENT_MANIFEST_VERSION,
+      trackedPaths: sortedPaths,
+    };
+
+    // Left out when every path is a symbolic link, so older manifests stay unchanged
+    const strategyPaths = sortedPaths.filter(
+      trackedPath => (linkStrategies[trackedPath] || 'symlink') !== 'symlink',
+    );
+    if (strategyPaths.length > 0) {
+      manifest.linkStrategies = Object.fromEntries(
+        strategyPaths.map(trackedPath => [trackedPath, linkStrategies[trackedPath]]),
+      );
+    }
+
+    const content = `${JSON.stringify(manifest, null, 2)}\n`;
+    const filePath = this.getFilePath();
+
+    if (
+      (await this.fileSystem.pathExists(filePath)) &&
+      (await this.fileSystem.readFile(filePath)) === content
+    ) {
+      return false;
+    }
+
+    await this.fileSystem.writeFileAtomic(filePath, content);
+    return true;
+  }
+
+  /**
+   * Create or repair the working tree entries of tracked paths with their link strategy,
+   * a symbolic link unless the path has another strategy.
+   * Real files at a tracked path are never overwritten, they are reported as conflicts.
+   */
+  public async linkTrackedPaths(
+    workingDir: string,
+    trackedPaths: string[],
+    linkStrategies: Record<string, LinkStrategy> = {},
+  ): Promise<LinkTrackedPathsResult> {
+    const result: LinkTrackedPathsResult = {
+      linked: [],
+      alreadyLinked: [],
+      repaired: [],
+      conflicts: [],
+      missing: [],
+    };
+
+    for (const trackedPath of trackedPaths) {
+      const linkPath = path.join(workingDir, trackedPath);
+      const targetPath = path.join(this.storagePath, trackedPath);
+
+      if (!(await this.fileSystem.pathExists(targetPath))) {
+        result.missing.push(trackedPath);
+        continue;
+      }
+
+      const strategy = linkStrategies[trackedPath] || 'symlink';
+      const linkStats = await this.getLinkStats(linkPath);
+
+      if (strategy !== 'symlink') {
+        if (linkStats && !linkStats.isSymbolicLink()) {
+          // A hard link or copy of the stored content is already in place
+          const inPlace = await this.linkService.isLinked(targetPath, linkPath, strategy);
+          (inPlace ? result.alreadyLinked : result.conflicts).push(trackedPath);
+          continue;
+        }
+
+        await this.linkService.create(targetPath, linkPath, strategy);
+        (linkStats ? result.repaired : result.linked).push(trackedPath);
+        continue;
+      }
+
+      if (linkStats && !linkStats.isSymbolicLink()) {
+        result.conflicts.push(trackedPath);
+        continue;
+      }
+
+      if (linkStats) {
+        const info = await this.symlinkService.validate(linkPath);
+        if (info.isHealthy && path.resolve(info.targetPath) === path.resolve(targetPath)) {
+          result.alreadyLinked.push(trackedPath);
+          continue;
+        }
+
+        // Broken or pointing elsewhere, replace it
+        await this.symlinkService.remove(linkPath);
+      }
+
+      await this.symlinkService.create(targetPath, linkPath, {
+        force: true,
+        createParents: true,
+        isDirectory: await this.fileSystem.isDirectory(targetPath),
+      });
+      (linkStats ? result.repaired : result.linked).push(trackedPath);
+    }
+
+    return result;
+  }
+
+  /**
+   * Describe newly tracked paths for the configuration, hard links and copies start in sync with storage
+   */
+  public async getTrackedFileDetails(
+    trackedPaths: string[],
+    linkStrategies: Record<string, LinkStrategy> = {},
+  ): Promise<Map<string, TrackedFileDetails>> {
+    const details = new Map<string, TrackedFileDetails>();
+
+    for (const trackedPath of trackedPaths) {
+      const strategy = linkStrategies[trackedPath];
+      if (!strategy || strategy === 'symlink') {
+        continue;
+      }
+
+      const { sha256 } = await this.fileSystem.hashPath(path.join(this.storagePath, trackedPath));
+      details.set(trackedPath, {
+        mainRepoState: 'unknown',
+        linkStrategy: strategy,
+        syncedSha256: sha256,
+      });
+    }
+
+    return details;
+  }
+
+  /**
+   * Get stats of the link itself, or null if nothing exists at the path
+   */
+  private async getLinkStats(linkPath: string): Promise<Stats | null> {
+    try {
+      return await this.fileSystem.getLinkStats(linkPath);
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
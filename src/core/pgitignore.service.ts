@@ -0,0 +1,161 @@
+import * as path from 'path';
+import { DEFAULT_PATHS } from '../types/config.types';
+import { FileSystemService } from './filesystem.service';
+import { BaseError } from '../errors/base.error';
+
+/**
+ * Pgitignore service errors
+ */
+export class PgitignoreError extends BaseError {
+  public readonly code = 'PGITIGNORE_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * Manages the .pgitignore file in private storage.
+ * The file uses gitignore syntax and is registered as core.excludesFile of the private repository.
+ */
+export class PgitignoreService {
+  private readonly storagePath: string;
+  private readonly fileSystem: FileSystemService;
+
+  constructor(storagePath: string, fileSystem?: FileSystemService) {
+    this.storagePath = storagePath;
+    this.fileSystem = fileSystem || new FileSystemService();
+  }
+
+  /**
+   * Get absolute path of the .pgitignore file
+   */
+  public getFilePath(): string {
+    return path.join(this.storagePath, DEFAULT_PATHS.pgitignore);
+  }
+
+  /**
+   * Read raw file content, or null if the file does not exist
+   */
+  public async readContent(): Promise<string | null> {
+    const filePath = this.getFilePath();
+
+    if (!(await this.fileSystem.pathExists(filePath))) {
+      return null;
+    }
+
+    return this.fileSystem.readFile(filePath);
+  }
+
+  /**
+   * Read active rules, skipping blank lines and comments
+   */
+  public async readRules(): Promise<string[]> {
+    const content = await this.readContent();
+
+    if (!content) {
+      return [];
+    }
+
+    return content
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'));
+  }
+
+  /**
+   * Get the rules that are not present in the file yet
+   */
+  public async getNewRules(rules: string[]): Promise<string[]> {
+    const existingRules = new Set(await this.readRules());
+    return [...new Set(rules)].filter(rule => !existingRules.has(rule));
+  }
+
+  /**
+   * Append rules that are not present yet, returns the rules that were added
+   */
+  public async addRules(rules: string[], comment?: string): Promise<string[]> {
+    try {
+      const newRules = await this.getNewRules(rules);
+
+      if (newRules.length === 0) {
+        return [];
+      }
+
+      let content = (await this.readContent()) || '';
+      if (content.length > 0 && !content.endsWith('\n')) {
+        content += '\n';
+      }
+      if (comment) {
+        content += `# ${comment}\n`;
+      }
+      content += `${newRules.join('\n')}\n`;
+
+      await this.fileSystem.writeFileAtomic(this.getFilePath(), content);
+      return newRules;
+    } catch (error) {
+      throw new PgitignoreError(
+        `Failed to update ${DEFAULT_PATHS.pgitignore}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Point the rules scoped to a moved directory at its new location, returns true if the file changed
+   */
+  public async renameDirectory(fromDirectory: string, toDirectory: string): Promise<boolean> {
+    const content = await this.readContent();
+    if (content === null) {
+      return false;
+    }
+
+    const from = `/${fromDirectory.split(path.sep).join('/')}/`;
+    const to = `/${toDirectory.split(path.sep).join('/')}/`;
+    const renamed = content
+      .split('\n')
+      .map(line => {
+        const negation = line.startsWith('!') ? '!' : '';
+        const rule = line.slice(negation.length);
+        return rule.startsWith(from) ? `${negation}${to}${rule.slice(from.length)}` : line;
+      })
+      .join('\n');
+
+    if (renamed === content) {
+      return false;
+    }
+
+    await this.fileSystem.writeFileAtomic(this.getFilePath(), renamed);
+    return true;
+  }
+
+  /**
+   * Restore previously read content (for rollback), removing the file if it did not exist
+   */
+  public async restoreContent(content: string | null): Promise<void> {
+    if (content === null) {
+      if (await this.fileSystem.pathExists(this.getFilePath())) {
+        await this.fileSystem.remove(this.getFilePath());
+      }
+      return;
+    }
+
+    await this.fileSystem.writeFileAtomic(this.getFilePath(), content);
+  }
+
+  /**
+   * Scope an exclude pattern to a tracked directory.
+   * Patterns starting with "/" are anchored to the directory, others match at any depth below it.
+   */
+  public static scopeToDirectory(directory: string, pattern: string): string {
+    const trimmed = pattern.trim();
+
+    if (trimmed.startsWith('!')) {
+      return `!${this.scopeToDirectory(directory, trimmed.slice(1))}`;
+    }
+
+    const dir = directory.split(path.sep).join('/').replace(/\/+$/, '');
+
+    if (trimmed.startsWith('/')) {
+      return `/${dir}${trimmed}`;
+    }
+
+    return `/${dir}/**/${trimmed.replace(/^\*\*\//, '')}`;
+  }
+}
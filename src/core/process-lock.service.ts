@@ -0,0 +1,226 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DEFAULT_PATHS, ProcessLockInfo } from '../types/config.types';
+import { ProcessLockInfoSchema } from '../types/config.schema';
+import { BaseError } from '../errors/base.error';
+import { ConcurrentOperationError } from '../errors/specific.errors';
+import { PlatformDetector } from '../utils/platform.detector';
+
+/**
+ * Process lock service errors
+ */
+export class ProcessLockError extends BaseError {
+  public readonly code = 'PROCESS_LOCK_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * How often a waiting process checks the lock again
+ */
+const POLL_INTERVAL_MS = 200;
+
+/**
+ * A lock file without readable content younger than this is still being written by its owner
+ */
+const UNREADABLE_LOCK_GRACE_MS = 5000;
+
+/**
+ * Content and identity of a lock file at the time it was read
+ */
+interface LockSnapshot {
+  content: string;
+  ino: number;
+}
+
+/**
+ * Advisory lock that keeps two mutating pgit processes from running in the same project at once.
+ * Locks left behind by a process that is gone are taken over. The lock is released when the process exits.
+ */
+export class ProcessLockService {
+  private readonly lockPath: string;
+  private held = false;
+
+  constructor(lockDir: string) {
+    this.lockPath = path.join(lockDir, DEFAULT_PATHS.processLock);
+  }
+
+  /**
+   * Get absolute path of the lock file
+   */
+  public getFilePath(): string {
+    return this.lockPath;
+  }
+
+  /**
+   * Take the lock, waiting up to the given number of seconds for another process to finish
+   */
+  public async acquire(command: string, waitSeconds = 0): Promise<void> {
+    const deadline = Date.now() + waitSeconds * 1000;
+
+    for (;;) {
+      if (await this.tryAcquire(command)) {
+        this.held = true;
+        process.once('exit', this.onExit);
+        return;
+      }
+
+      const snapshot = await ProcessLockService.readSnapshot(this.lockPath);
+      if (!snapshot) {
+        // Released in the meantime
+        continue;
+      }
+
+      const owner = ProcessLockService.parseOwner(snapshot.content);
+      if (await this.isAbandoned(owner)) {
+        await this.takeOver(snapshot);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new ConcurrentOperationError(
+          owner
+            ? `Another pgit process is running in this project: "${owner.command}" (process ${owner.pid}, started ${owner.acquiredAt.toLocaleString()})`
+            : 'Another pgit process is running in this project',
+          this.lockPath,
+          owner?.pid,
+        );
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Release the lock if this process holds it
+   */
+  public release(): void {
+    if (!this.held) {
+      return;
+    }
+
+    this.held = false;
+    process.removeListener('exit', this.onExit);
+
+    try {
+      const owner = ProcessLockInfoSchema.parse(JSON.parse(fs.readFileSync(this.lockPath, 'utf8')));
+      if (owner.pid === process.pid) {
+        fs.removeSync(this.lockPath);
+      }
+    } catch {
+      // Nothing to release when the lock file is gone or was taken over
+    }
+  }
+
+  /**
+   * Read who holds the lock, or null if the lock file is missing or unreadable
+   */
+  public async readOwner(): Promise<ProcessLockInfo | null> {
+    const snapshot = await ProcessLockService.readSnapshot(this.lockPath);
+    return snapshot && ProcessLockService.parseOwner(snapshot.content);
+  }
+
+  /**
+   * Create the lock file unless it already exists
+   */
+  private async tryAcquire(command: string): Promise<boolean> {
+    const info: ProcessLockInfo = { pid: process.pid, command, acquiredAt: new Date() };
+
+    try {
+      await fs.writeFile(this.lockPath, `${JSON.stringify(info, null, 2)}\n`, { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+
+      throw new ProcessLockError(
+        `Failed to create lock file ${this.lockPath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Remove an abandoned lock so the next attempt can take it.
+   * The lock file is renamed away first and only dropped if it is still the abandoned one,
+   * another waiting process may have taken it over and locked in the meantime.
+   */
+  private async takeOver(abandoned: LockSnapshot): Promise<void> {
+    const movedPath = `${this.lockPath}.${process.pid}.${Date.now()}.stale`;
+
+    try {
+      await fs.rename(this.lockPath, movedPath);
+    } catch {
+      // Taken over or released by another process in the meantime
+      return;
+    }
+
+    const moved = await ProcessLockService.readSnapshot(movedPath);
+    if (moved && (moved.ino !== abandoned.ino || moved.content !== abandoned.content)) {
+      try {
+        // A live lock was moved, linking it back fails if yet another process locked in between
+        await fs.link(movedPath, this.lockPath);
+      } catch {
+        // That process holds the lock now, the owner of the moved lock no longer does
+      }
+    }
+
+    await fs.remove(movedPath);
+  }
+
+  /**
+   * Read a lock file, or null if it is missing
+   */
+  private static async readSnapshot(filePath: string): Promise<LockSnapshot | null> {
+    let fd: number;
+    try {
+      fd = await fs.open(filePath, 'r');
+    } catch {
+      return null;
+    }
+
+    // Reading through one descriptor keeps content and identity from two different files apart
+    try {
+      const stats = await fs.fstat(fd);
+      return { content: await fs.readFile(fd, 'utf8'), ino: stats.ino };
+    } finally {
+      await fs.close(fd);
+    }
+  }
+
+  /**
+   * Parse the owner recorded in a lock file, or null if it is unreadable
+   */
+  private static parseOwner(content: string): ProcessLockInfo | null {
+    try {
+      return ProcessLockInfoSchema.parse(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether the lock was left behind by a process that is gone.
+   * An unreadable lock file only counts once it is old enough not to be in the middle of being written.
+   */
+  private async isAbandoned(owner: ProcessLockInfo | null): Promise<boolean> {
+    if (owner) {
+      return owner.pid === process.pid || !PlatformDetector.isProcessAlive(owner.pid);
+    }
+
+    try {
+      const stats = await fs.stat(this.lockPath);
+      return Date.now() - stats.mtimeMs > UNREADABLE_LOCK_GRACE_MS;
+    } catch {
+      // Released in the meantime, the next attempt takes it
+      return false;
+    }
+  }
+
+  /**
+   * Release the lock when the process exits, also after process.exit()
+   */
+  private readonly onExit = (): void => {
+    this.release();
+  };
+}
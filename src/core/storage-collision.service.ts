@@ -0,0 +1,188 @@
+import * as path from 'path';
+import { DEFAULT_PATHS, StorageCollisionPlan } from '../types/config.types';
+import { ConfigManager } from './config.manager';
+import { FileSystemService } from './filesystem.service';
+import { GitService } from './git.service';
+
+/**
+ * A path about to be added that already exists in private storage with other content
+ */
+export interface StorageCollision {
+  /** Path relative to the project root */
+  path: string;
+  /** Differences from the stored to the project version, only when both are text files */
+  diff?: string;
+}
+
+/**
+ * Finds paths that already exist in private storage before they are added, and resolves them
+ * by moving the version that is not kept to a conflict copy, so neither version is lost.
+ * Resolving is a step of the add, which records the conflict copies in its journal to undo it.
+ */
+export class StorageCollisionService {
+  private readonly workingDir: string;
+  private readonly configManager: ConfigManager;
+  private readonly fileSystem: FileSystemService;
+
+  constructor(workingDir: string, configManager: ConfigManager, fileSystem?: FileSystemService) {
+    this.workingDir = workingDir;
+    this.configManager = configManager;
+    this.fileSystem = fileSystem || new FileSystemService();
+  }
+
+  /**
+   * Find the paths whose stored content differs from the project, identical content is no collision
+   */
+  public async find(relativePaths: string[]): Promise<StorageCollision[]> {
+    const storagePath = await this.configManager.getStoragePath();
+    const collisions: StorageCollision[] = [];
+
+    for (const relativePath of relativePaths) {
+      const storedPath = path.join(storagePath, relativePath);
+      const projectPath = path.join(this.workingDir, relativePath);
+
+      if (
+        !(await this.fileSystem.pathExists(storedPath)) ||
+        (await this.hash(storedPath)) === (await this.hash(projectPath))
+      ) {
+        continue;
+      }
+
+      collisions.push({
+        path: relativePath,
+        diff: await this.getTextDiff(storedPath, projectPath),
+      });
+    }
+
+    return collisions;
+  }
+
+  /**
+   * Choose where the version that is not kept of each colliding path goes,
+   * relative to the project root. Nothing is moved yet.
+   */
+  public async planConflictCopies(collisions: StorageCollision[]): Promise<Record<string, string>> {
+    const conflictDir = path.join(
+      await this.getConflictsPath(),
+      new Date().toISOString().replace(/[:.]/g, '-'),
+    );
+
+    return Object.fromEntries(
+      collisions.map(collision => [
+        collision.path,
+        path.relative(this.workingDir, path.join(conflictDir, collision.path)),
+      ]),
+    );
+  }
+
+  /**
+   * Keep one version of a colliding path where add expects it and move the other one to its conflict copy.
+   * Nothing happens once the conflict copy exists, so an interrupted add can run it again.
+   */
+  public async resolve(
+    relativePath: string,
+    conflictCopy: string,
+    resolution: StorageCollisionPlan['resolution'],
+    storagePath?: string,
+  ): Promise<void> {
+    const storedPath = path.join(
+      storagePath || (await this.configManager.getStoragePath()),
+      relativePath,
+    );
+    const projectPath = path.join(this.workingDir, relativePath);
+    const conflictPath = path.join(this.workingDir, conflictCopy);
+
+    if (await this.fileSystem.pathExists(conflictPath)) {
+      return;
+    }
+
+    if (resolution === 'keep-working') {
+      // Add moves the project version over the stored one
+      await this.fileSystem.moveFileAtomic(storedPath, conflictPath);
+    } else {
+      // The stored version takes the place of the project version, add moves it back
+      await this.fileSystem.moveFileAtomic(projectPath, conflictPath);
+      await this.fileSystem.moveFileAtomic(storedPath, projectPath);
+    }
+    this.fileSystem.clearRollbackActions();
+  }
+
+  /**
+   * Undo resolve once add put the project version back: the conflict copy returns to where it came from.
+   * Every move checks the disk first, so a partly resolved path is restored as well.
+   */
+  public async restore(
+    relativePath: string,
+    conflictCopy: string,
+    resolution: StorageCollisionPlan['resolution'],
+    storagePath?: string,
+  ): Promise<void> {
+    const storedPath = path.join(
+      storagePath || (await this.configManager.getStoragePath()),
+      relativePath,
+    );
+    const projectPath = path.join(this.workingDir, relativePath);
+    const conflictPath = path.join(this.workingDir, conflictCopy);
+
+    if (!(await this.fileSystem.pathExists(conflictPath))) {
+      return;
+    }
+
+    if (resolution === 'keep-working') {
+      if (!(await this.fileSystem.pathExists(storedPath))) {
+        await this.fileSystem.moveFileAtomic(conflictPath, storedPath);
+      }
+    } else {
+      if (
+        !(await this.fileSystem.pathExists(storedPath)) &&
+        (await this.fileSystem.pathExists(projectPath))
+      ) {
+        await this.fileSystem.moveFileAtomic(projectPath, storedPath);
+      }
+      if (!(await this.fileSystem.pathExists(projectPath))) {
+        await this.fileSystem.moveFileAtomic(conflictPath, projectPath);
+      }
+    }
+    this.fileSystem.clearRollbackActions();
+  }
+
+  /**
+   * Get absolute path of the directory conflict copies are kept in
+   */
+  public async getConflictsPath(): Promise<string> {
+    return path.join(await this.configManager.getPrivateRepoPath(), DEFAULT_PATHS.conflicts);
+  }
+
+  /**
+   * Compare two files with git, or undefined when either is a directory or binary
+   */
+  private async getTextDiff(storedPath: string, projectPath: string): Promise<string | undefined> {
+    if (!(await this.isTextFile(storedPath)) || !(await this.isTextFile(projectPath))) {
+      return undefined;
+    }
+
+    const git = new GitService(this.workingDir, this.fileSystem);
+    return git.diffFiles(
+      path.relative(this.workingDir, storedPath),
+      path.relative(this.workingDir, projectPath),
+    );
+  }
+
+  /**
+   * Check that a path is a regular file without NUL bytes near the start, like git does
+   */
+  private async isTextFile(filePath: string): Promise<boolean> {
+    if (!(await this.fileSystem.getLinkStats(filePath)).isFile()) {
+      return false;
+    }
+
+    return !(await this.fileSystem.readBinaryFile(filePath)).subarray(0, 8000).includes(0);
+  }
+
+  /**
+   * Hash a file or directory
+   */
+  private async hash(targetPath: string): Promise<string> {
+    return (await this.fileSystem.hashPath(targetPath)).sha256;
+  }
+}
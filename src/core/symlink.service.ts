@@ -163,8 +163,10 @@ export class SymlinkService {
    */
   public async repair(linkPath: string, newTargetPath: string): Promise<void> {
     try {
-      // Remove existing broken link
-      if (await this.fileSystem.pathExists(linkPath)) {
+      // Remove existing broken link, dangling links are not reported by pathExists
+      if (await this.isDanglingLink(linkPath)) {
+        await fs.unlink(linkPath);
+      } else if (await this.fileSystem.pathExists(linkPath)) {
         await this.fileSystem.remove(linkPath);
       }
 
@@ -192,7 +194,8 @@ export class SymlinkService {
     try {
       const info = await this.validate(linkPath);
 
-      if (!info.exists) {
+      // Dangling links are reported as missing, so check the link itself before giving up
+      if (!info.exists && !(await this.isDanglingLink(linkPath))) {
         return; // Nothing to remove
       }
 
@@ -226,6 +229,18 @@ export class SymlinkService {
     }
   }
 
+  /**
+   * Check if path is a symbolic link whose target does not exist
+   */
+  private async isDanglingLink(linkPath: string): Promise<boolean> {
+    try {
+      const stats = await fs.lstat(linkPath);
+      return stats.isSymbolicLink();
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Check if platform supports symbolic links
    */
@@ -0,0 +1,228 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { SyncDirection, SyncReport, TrackedFileDetails } from '../types/config.types';
+import { ConfigManager } from './config.manager';
+import { FileSystemService } from './filesystem.service';
+import { LinkService } from './link.service';
+import { GitService } from './git.service';
+import { SyncConflictError } from '../errors/specific.errors';
+
+/**
+ * Options for syncing hard linked and copied paths
+ */
+export interface SyncOptions {
+  /** Which way changes are copied, both ways by default */
+  direction?: SyncDirection;
+  /** Only sync these tracked paths */
+  paths?: string[];
+  /** Resolve conflicts by keeping one side */
+  keep?: 'working' | 'storage';
+  /** Report what would be synced without changing anything */
+  dryRun?: boolean;
+  /** Print every synced path */
+  verbose?: boolean;
+}
+
+/**
+ * Keeps hard linked and copied paths in the working tree in sync with private storage.
+ * The content hash at the last sync tells which side changed, symbolic links never need syncing.
+ */
+export class SyncService {
+  private readonly workingDir: string;
+  private readonly configManager: ConfigManager;
+  private readonly fileSystem: FileSystemService;
+  private readonly linkService: LinkService;
+
+  constructor(workingDir: string, configManager: ConfigManager, fileSystem?: FileSystemService) {
+    this.workingDir = workingDir;
+    this.configManager = configManager;
+    this.fileSystem = fileSystem || new FileSystemService();
+    this.linkService = new LinkService(this.fileSystem);
+  }
+
+  /**
+   * Sync hard linked and copied paths, and take over files that replaced a symbolic link.
+   * Conflicting paths are left alone and reported.
+   */
+  public async sync(options: SyncOptions = {}): Promise<SyncReport> {
+    const direction = options.direction || 'both';
+    const storagePath = await this.configManager.getStoragePath();
+    const report: SyncReport = {
+      syncedIn: [],
+      syncedOut: [],
+      reabsorbed: [],
+      conflicts: [],
+      missing: [],
+    };
+    const changes = new Map<string, Partial<TrackedFileDetails>>();
+
+    const records = (await this.configManager.getTrackedFiles()).filter(
+      record => !options.paths || options.paths.includes(record.path),
+    );
+
+    for (const record of records) {
+      const strategy = record.linkStrategy || 'symlink';
+      const projectPath = path.join(this.workingDir, record.path);
+      const storedPath = path.join(storagePath, record.path);
+
+      if (strategy === 'symlink') {
+        if (await this.linkService.isReplacedLink(projectPath)) {
+          await this.reabsorb(record.path, storedPath, projectPath, report, options);
+        }
+        continue;
+      }
+
+      const plan = await this.linkService.planSync(
+        storedPath,
+        projectPath,
+        record.syncedSha256,
+        options.keep,
+      );
+
+      if (plan.action === 'conflict') {
+        report.conflicts.push(record.path);
+        continue;
+      }
+      if (plan.action === 'missing') {
+        report.missing.push(record.path);
+        continue;
+      }
+      if (
+        (plan.action === 'in' && direction === 'out') ||
+        (plan.action === 'out' && direction === 'in')
+      ) {
+        continue;
+      }
+
+      if (plan.action === 'in') {
+        report.syncedIn.push(record.path);
+      } else if (plan.action === 'out') {
+        report.syncedOut.push(record.path);
+      }
+      if (options.dryRun) {
+        continue;
+      }
+
+      if (plan.action === 'in') {
+        await this.linkService.syncIn(storedPath, projectPath, strategy);
+      } else if (plan.action === 'out') {
+        await this.linkService.syncOut(storedPath, projectPath, strategy);
+      } else if (!(await this.linkService.inspect(storedPath, projectPath, strategy)).healthy) {
+        // Same content but no longer hard linked, link it again
+        await this.linkService.create(storedPath, projectPath, strategy);
+      }
+
+      if (options.verbose && plan.action !== 'none') {
+        console.log(
+          chalk.gray(
+            `   ${plan.action === 'in' ? 'Copied into storage' : 'Copied from storage'}: ${record.path}`,
+          ),
+        );
+      }
+
+      if (plan.sha256 && plan.sha256 !== record.syncedSha256) {
+        changes.set(record.path, { syncedSha256: plan.sha256 });
+      }
+    }
+
+    if (changes.size > 0) {
+      await this.configManager.updateTrackedFiles(changes);
+    }
+
+    return report;
+  }
+
+  /**
+   * Copy working tree changes into storage before the private repository reads it,
+   * including files that replaced a symbolic link. Nothing is synced when a path changed on both sides.
+   */
+  public async syncIn(
+    options: Pick<SyncOptions, 'paths' | 'dryRun' | 'verbose'> = {},
+  ): Promise<SyncReport> {
+    const preview = await this.sync({ ...options, direction: 'in', dryRun: true });
+    if (preview.conflicts.length > 0) {
+      throw SyncService.createConflictError(preview.conflicts);
+    }
+
+    return options.dryRun ? preview : this.sync({ ...options, direction: 'in' });
+  }
+
+  /**
+   * Move the content of a file that replaced a symbolic link into storage and link it again.
+   * A file with the same content as storage is simply replaced by the link.
+   */
+  private async reabsorb(
+    relativePath: string,
+    storedPath: string,
+    projectPath: string,
+    report: SyncReport,
+    options: SyncOptions,
+  ): Promise<void> {
+    const { action } = await this.linkService.planReabsorb(
+      storedPath,
+      projectPath,
+      await this.getCommittedHash(relativePath),
+      options.keep,
+    );
+
+    if (action === 'conflict') {
+      report.conflicts.push(relativePath);
+      return;
+    }
+    // The file is only dropped in favour of storage when asked to
+    if (
+      action === 'missing' ||
+      (action === 'in' && options.direction === 'out') ||
+      (action === 'out' && options.direction === 'in')
+    ) {
+      return;
+    }
+
+    if (action === 'in') {
+      report.reabsorbed.push(relativePath);
+    } else if (action === 'out') {
+      report.syncedOut.push(relativePath);
+    }
+    if (options.dryRun) {
+      return;
+    }
+
+    if (action === 'in') {
+      await this.linkService.syncIn(storedPath, projectPath, 'symlink');
+    } else {
+      await this.linkService.create(storedPath, projectPath, 'symlink');
+    }
+
+    if (options.verbose) {
+      console.log(
+        chalk.gray(
+          action === 'in'
+            ? `   Took over ${relativePath}, it had replaced its symbolic link`
+            : `   Linked ${relativePath} again`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Get the content hash of a path at the last private commit, or undefined if it was never committed
+   */
+  private async getCommittedHash(relativePath: string): Promise<string | undefined> {
+    const gitService = new GitService(await this.configManager.getStoragePath(), this.fileSystem);
+    if (!(await gitService.isRepository())) {
+      return undefined;
+    }
+
+    return (await gitService.hashFileAt('HEAD', relativePath)) || undefined;
+  }
+
+  /**
+   * Create the error reported for paths changed both in the working tree and in storage.
+   * Copies are compared with the last sync and replaced links with the last private commit, so neither is named.
+   */
+  public static createConflictError(conflicts: string[]): SyncConflictError {
+    return new SyncConflictError(
+      `${conflicts.join(', ')} changed both in the working tree and in private storage`,
+    );
+  }
+}
@@ -0,0 +1,556 @@
+import * as path from 'path';
+import { Stats } from 'fs';
+import chalk from 'chalk';
+import { DEFAULT_PATHS, TrackedFileDetails, TransactionRecord } from '../types/config.types';
+import { ConfigManager } from './config.manager';
+import { FileSystemService } from './filesystem.service';
+import { GitService } from './git.service';
+import { LinkService } from './link.service';
+import { PgitignoreService } from './pgitignore.service';
+import { GitignoreService } from './gitignore.service';
+import { ManifestService } from './manifest.service';
+import { StorageCollisionService } from './storage-collision.service';
+import { BaseError } from '../errors/base.error';
+import { FileNotFoundError } from '../errors/filesystem.error';
+
+/**
+ * Transaction service errors
+ */
+export class TransactionError extends BaseError {
+  public readonly code = 'TRANSACTION_ERROR';
+  public readonly recoverable = true;
+}
+
+/**
+ * Rolls back or completes a recorded add, remove or mv, whatever state it stopped in.
+ * Every step checks the disk first, so running it again after a failure is safe.
+ */
+export class TransactionService {
+  private readonly workingDir: string;
+  private readonly configManager: ConfigManager;
+  private readonly fileSystem: FileSystemService;
+  private readonly linkService: LinkService;
+
+  constructor(workingDir: string, configManager: ConfigManager, fileSystem?: FileSystemService) {
+    this.workingDir = workingDir;
+    this.configManager = configManager;
+    this.fileSystem = fileSystem || new FileSystemService();
+    this.linkService = new LinkService(this.fileSystem);
+  }
+
+  /**
+   * Undo an add: files go back to the project and stop being tracked
+   */
+  public async rollbackAdd(transaction: TransactionRecord, verbose?: boolean): Promise<void> {
+    for (const relativePath of [...transaction.paths].reverse()) {
+      await this.moveToProject(transaction, relativePath);
+    }
+
+    // Versions moved aside for paths that already existed in storage go back where they were
+    if (transaction.collision) {
+      const collisionService = this.createCollisionService();
+      for (const [relativePath, conflictCopy] of Object.entries(
+        transaction.collision.conflictCopies,
+      )) {
+        await collisionService.restore(
+          relativePath,
+          conflictCopy,
+          transaction.collision.resolution,
+          transaction.storagePath,
+        );
+      }
+    }
+
+    const privateGit = new GitService(transaction.storagePath, this.fileSystem);
+    await this.resetPrivateRepository(privateGit, transaction);
+    await this.restoreManifest(privateGit, transaction);
+    if (transaction.exclude) {
+      try {
+        await privateGit.checkoutFiles([DEFAULT_PATHS.pgitignore]);
+      } catch {
+        // .pgitignore did not exist before the add
+      }
+    }
+
+    await this.untrackPaths(transaction.paths);
+
+    // Put paths that were in the main repository back into its index
+    const mainGit = new GitService(this.workingDir, this.fileSystem);
+    if (transaction.mainIndexPaths.length > 0 && (await mainGit.isRepository())) {
+      try {
+        await mainGit.addFiles(transaction.mainIndexPaths);
+      } catch (error) {
+        console.warn(
+          chalk.yellow(
+            `   Warning: Could not restore main git index: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        );
+      }
+    }
+
+    if (verbose) {
+      console.log(chalk.gray(`   Restored ${transaction.paths.length} path(s) to the project`));
+    }
+  }
+
+  /**
+   * Finish an add: files end up in storage, linked, committed and tracked
+   */
+  public async completeAdd(transaction: TransactionRecord): Promise<void> {
+    const mainGit = new GitService(this.workingDir, this.fileSystem);
+    if (await mainGit.isRepository()) {
+      for (const relativePath of transaction.paths) {
+        if (await mainGit.isTracked(relativePath)) {
+          await mainGit.removeFromIndex(relativePath, true);
+        }
+      }
+    }
+
+    if (transaction.collision) {
+      const collisionService = this.createCollisionService();
+      for (const [relativePath, conflictCopy] of Object.entries(
+        transaction.collision.conflictCopies,
+      )) {
+        await collisionService.resolve(
+          relativePath,
+          conflictCopy,
+          transaction.collision.resolution,
+          transaction.storagePath,
+        );
+      }
+    }
+
+    for (const relativePath of transaction.paths) {
+      await this.moveToStorage(transaction, relativePath);
+    }
+
+    const privateGit = new GitService(transaction.storagePath, this.fileSystem);
+    const files = [...transaction.paths];
+    if (
+      transaction.exclude &&
+      (await this.fileSystem.pathExists(
+        path.join(transaction.storagePath, DEFAULT_PATHS.pgitignore),
+      ))
+    ) {
+      files.push(DEFAULT_PATHS.pgitignore);
+    }
+    if (
+      await this.writeManifest(
+        transaction,
+        new Map<string, TrackedFileDetails>(Object.entries(transaction.details)),
+      )
+    ) {
+      files.push(DEFAULT_PATHS.manifest);
+    }
+    await privateGit.addFiles(files);
+    if ((await privateGit.getStagedFiles()).length > 0) {
+      await privateGit.commit(
+        transaction.paths.length === 1
+          ? `Add file to private tracking: ${transaction.paths[0]}`
+          : 'Add files to private tracking',
+      );
+    }
+
+    await this.trackPaths(transaction);
+  }
+
+  /**
+   * Undo a remove: files go back to storage and stay tracked
+   */
+  public async rollbackRemove(transaction: TransactionRecord, verbose?: boolean): Promise<void> {
+    const mainGit = new GitService(this.workingDir, this.fileSystem);
+    if (transaction.stage && (await mainGit.isRepository())) {
+      try {
+        await mainGit.removeFromIndex(transaction.paths, true);
+      } catch {
+        // The paths were not staged yet
+      }
+    }
+
+    for (const relativePath of transaction.paths) {
+      await this.moveToStorage(transaction, relativePath);
+    }
+
+    const privateGit = new GitService(transaction.storagePath, this.fileSystem);
+    await this.resetPrivateRepository(privateGit, transaction);
+    await this.restoreManifest(privateGit, transaction);
+    await this.trackPaths(transaction);
+
+    if (verbose) {
+      console.log(chalk.gray(`   Restored ${transaction.paths.length} path(s) to private storage`));
+    }
+  }
+
+  /**
+   * Finish a remove: files end up back in the project and untracked
+   */
+  public async completeRemove(transaction: TransactionRecord): Promise<void> {
+    const privateGit = new GitService(transaction.storagePath, this.fileSystem);
+    const stillCommitted: string[] = [];
+    for (const relativePath of transaction.paths) {
+      if (await privateGit.isTracked(relativePath)) {
+        stillCommitted.push(relativePath);
+      }
+    }
+    if (stillCommitted.length > 0) {
+      if (await this.writeManifest(transaction, undefined, transaction.paths)) {
+        await privateGit.addFiles([DEFAULT_PATHS.manifest]);
+      }
+      await privateGit.removeFilesAndCommit(
+        stillCommitted,
+        stillCommitted.length === 1
+          ? 'Remove file from private tracking'
+          : 'Remove files from private tracking',
+      );
+    }
+
+    for (const relativePath of transaction.paths) {
+      await this.moveToProject(transaction, relativePath);
+    }
+
+    await this.untrackPaths(transaction.paths);
+
+    const mainGit = new GitService(this.workingDir, this.fileSystem);
+    if (transaction.stage && (await mainGit.isRepository())) {
+      await mainGit.addFiles(transaction.paths);
+    }
+
+    if (transaction.purge) {
+      await privateGit.purgeFromHistory(transaction.paths);
+    }
+  }
+
+  /**
+   * Undo a move: paths go back to their old location in storage and in the project
+   */
+  public async rollbackMove(transaction: TransactionRecord, verbose?: boolean): Promise<void> {
+    const privateGit = new GitService(transaction.storagePath, this.fileSystem);
+
+    for (const [fromPath, toPath] of Object.entries(transaction.renames || {})) {
+      const strategy = transaction.details[fromPath]?.linkStrategy;
+
+      await this.removeLink(transaction.storagePath, toPath, strategy);
+      await this.moveStoredPath(transaction.storagePath, toPath, fromPath);
+      await this.renameTrackedPath(toPath, fromPath);
+      await this.linkService.create(
+        path.join(transaction.storagePath, fromPath),
+        path.join(this.workingDir, fromPath),
+        strategy,
+      );
+    }
+
+    // The index goes back to the old paths, which are on disk again
+    await this.resetPrivateRepository(privateGit, transaction);
+    await this.restoreManifest(privateGit, transaction);
+    if (transaction.exclude) {
+      await privateGit.checkoutFiles([DEFAULT_PATHS.pgitignore]);
+    }
+
+    if (verbose) {
+      console.log(chalk.gray(`   Moved ${transaction.paths.length} path(s) back`));
+    }
+  }
+
+  /**
+   * Finish a move: paths end up at their new location, committed and tracked
+   */
+  public async completeMove(transaction: TransactionRecord): Promise<void> {
+    const privateGit = new GitService(transaction.storagePath, this.fileSystem);
+    const pgitignoreService = new PgitignoreService(transaction.storagePath, this.fileSystem);
+
+    for (const [fromPath, toPath] of Object.entries(transaction.renames || {})) {
+      const strategy = transaction.details[fromPath]?.linkStrategy;
+
+      await this.removeLink(transaction.storagePath, fromPath, strategy);
+      if (
+        (await this.fileSystem.pathExists(path.join(transaction.storagePath, fromPath))) &&
+        !(await this.fileSystem.pathExists(path.join(transaction.storagePath, toPath)))
+      ) {
+        await this.fileSystem.ensureDirectoryExists(
+          path.dirname(path.join(transaction.storagePath, toPath)),
+        );
+        await privateGit.move(fromPath, toPath);
+      }
+      if (transaction.exclude) {
+        await pgitignoreService.renameDirectory(fromPath, toPath);
+        await privateGit.addFiles([DEFAULT_PATHS.pgitignore]);
+      }
+
+      await this.renameTrackedPath(fromPath, toPath);
+      await this.linkService.create(
+        path.join(transaction.storagePath, toPath),
+        path.join(this.workingDir, toPath),
+        strategy,
+      );
+    }
+
+    // Paths already renamed in the configuration are listed under their new name
+    const renames = Object.entries(transaction.renames || {});
+    if (
+      await this.writeManifest(
+        transaction,
+        new Map(
+          renames.map(([fromPath, toPath]) => [
+            toPath,
+            transaction.details[fromPath] || { mainRepoState: 'unknown' },
+          ]),
+        ),
+        renames.map(([fromPath]) => fromPath),
+      )
+    ) {
+      await privateGit.addFiles([DEFAULT_PATHS.manifest]);
+    }
+
+    if ((await privateGit.getStagedFiles()).length > 0) {
+      await privateGit.commit(TransactionService.getMoveMessage(transaction.renames || {}));
+    }
+  }
+
+  /**
+   * Commit message of a move
+   */
+  public static getMoveMessage(renames: Record<string, string>): string {
+    const moves = Object.entries(renames);
+    return moves.length === 1
+      ? `Move ${moves[0][0]} to ${moves[0][1]} in private tracking`
+      : 'Move files in private tracking';
+  }
+
+  /**
+   * Remove the working tree entry of a path if it is the one its strategy created
+   */
+  private async removeLink(
+    storagePath: string,
+    relativePath: string,
+    strategy: TrackedFileDetails['linkStrategy'],
+  ): Promise<void> {
+    const projectPath = path.join(this.workingDir, relativePath);
+    const projectStats = await this.getLinkStats(projectPath);
+
+    if (!projectStats) {
+      return;
+    }
+    if (
+      !projectStats.isSymbolicLink() &&
+      !(await this.linkService.isLinked(
+        path.join(storagePath, relativePath),
+        projectPath,
+        strategy,
+      ))
+    ) {
+      throw new TransactionError(
+        `${relativePath} exists in the project and is not a link to private storage. Move it away and try again.`,
+      );
+    }
+
+    await this.linkService.remove(
+      projectPath,
+      projectStats.isSymbolicLink() ? 'symlink' : strategy,
+    );
+  }
+
+  /**
+   * Move a path inside storage unless it was already moved
+   */
+  private async moveStoredPath(
+    storagePath: string,
+    fromPath: string,
+    toPath: string,
+  ): Promise<void> {
+    const source = path.join(storagePath, fromPath);
+    const target = path.join(storagePath, toPath);
+
+    if (!(await this.fileSystem.pathExists(source))) {
+      if (!(await this.fileSystem.pathExists(target))) {
+        throw new TransactionError(`Private copy of ${fromPath} is missing from storage`);
+      }
+      return;
+    }
+    if (await this.fileSystem.pathExists(target)) {
+      throw new TransactionError(
+        `Both ${fromPath} and ${toPath} exist in private storage. Move one of them away and try again.`,
+      );
+    }
+
+    await this.fileSystem.moveFileAtomic(source, target);
+    this.fileSystem.clearRollbackActions();
+  }
+
+  /**
+   * Rename a path in the configuration unless it was already renamed
+   */
+  private async renameTrackedPath(fromPath: string, toPath: string): Promise<void> {
+    const config = await this.configManager.load();
+
+    if (config.trackedPaths.includes(fromPath) && !config.trackedPaths.includes(toPath)) {
+      await this.configManager.renameTrackedPath(fromPath, toPath);
+    }
+    await this.updateTrackedPathExclusions();
+  }
+
+  /**
+   * Make sure a path lives in private storage and appears in the project with its link strategy
+   */
+  private async moveToStorage(transaction: TransactionRecord, relativePath: string): Promise<void> {
+    const projectPath = path.join(this.workingDir, relativePath);
+    const storagePath = path.join(transaction.storagePath, relativePath);
+    const strategy = transaction.details[relativePath]?.linkStrategy;
+    const projectStats = await this.getLinkStats(projectPath);
+    const inStorage = await this.fileSystem.pathExists(storagePath);
+
+    if (projectStats && !projectStats.isSymbolicLink()) {
+      if (inStorage) {
+        if (!(await this.linkService.isLinked(storagePath, projectPath, strategy))) {
+          throw new TransactionError(
+            `Both ${relativePath} and its private copy exist. Move one of them away and try again.`,
+          );
+        }
+      } else {
+        await this.fileSystem.moveFileAtomic(projectPath, storagePath);
+        this.fileSystem.clearRollbackActions();
+      }
+    } else if (!inStorage) {
+      throw new TransactionError(`Private copy of ${relativePath} is missing from storage`);
+    }
+
+    await this.linkService.create(storagePath, projectPath, strategy);
+  }
+
+  /**
+   * Make sure a path lives in the project as a regular file or directory
+   */
+  private async moveToProject(transaction: TransactionRecord, relativePath: string): Promise<void> {
+    const projectPath = path.join(this.workingDir, relativePath);
+    const storagePath = path.join(transaction.storagePath, relativePath);
+    const strategy = transaction.details[relativePath]?.linkStrategy;
+    const projectStats = await this.getLinkStats(projectPath);
+    const inStorage = await this.fileSystem.pathExists(storagePath);
+
+    if (projectStats?.isSymbolicLink()) {
+      await this.linkService.remove(projectPath);
+    } else if (projectStats) {
+      if (!inStorage) {
+        return;
+      }
+      // A hard link or copy that matches storage is replaced by the stored path
+      if (!(await this.linkService.isLinked(storagePath, projectPath, strategy))) {
+        throw new TransactionError(
+          `Both ${relativePath} and its private copy exist. Move one of them away and try again.`,
+        );
+      }
+      await this.linkService.remove(projectPath, strategy);
+    }
+
+    if (!inStorage) {
+      throw new TransactionError(`Private copy of ${relativePath} is missing from storage`);
+    }
+
+    await this.fileSystem.moveFileAtomic(storagePath, projectPath);
+    this.fileSystem.clearRollbackActions();
+  }
+
+  /**
+   * Reset the private repository and its index to the commit recorded before the operation
+   */
+  private async resetPrivateRepository(
+    privateGit: GitService,
+    transaction: TransactionRecord,
+  ): Promise<void> {
+    if (transaction.privateHead) {
+      await privateGit.reset('mixed', transaction.privateHead);
+    }
+  }
+
+  /**
+   * Create the service that moves colliding versions to and from their conflict copies
+   */
+  private createCollisionService(): StorageCollisionService {
+    return new StorageCollisionService(this.workingDir, this.configManager, this.fileSystem);
+  }
+
+  /**
+   * Put the manifest back to the commit recorded before the operation, or remove it if it had none
+   */
+  private async restoreManifest(
+    privateGit: GitService,
+    transaction: TransactionRecord,
+  ): Promise<void> {
+    try {
+      await privateGit.checkoutFiles([DEFAULT_PATHS.manifest]);
+    } catch {
+      // The manifest was not committed before the operation
+      await new ManifestService(transaction.storagePath, this.fileSystem).restoreContent(null);
+    }
+  }
+
+  /**
+   * Write the manifest with the changes of the operation applied, returns true if the file changed
+   */
+  private async writeManifest(
+    transaction: TransactionRecord,
+    added?: Map<string, TrackedFileDetails>,
+    removed?: string[],
+  ): Promise<boolean> {
+    return new ManifestService(transaction.storagePath, this.fileSystem).writeFromConfig(
+      await this.configManager.load(),
+      added,
+      removed,
+    );
+  }
+
+  /**
+   * Add the paths missing from the configuration with their recorded details
+   */
+  private async trackPaths(transaction: TransactionRecord): Promise<void> {
+    const config = await this.configManager.load();
+    const missing = transaction.paths.filter(
+      relativePath => !config.trackedPaths.includes(relativePath),
+    );
+
+    if (missing.length > 0) {
+      await this.configManager.addMultipleTrackedPaths(
+        missing,
+        new Map<string, TrackedFileDetails>(Object.entries(transaction.details)),
+      );
+    }
+    await this.updateTrackedPathExclusions();
+  }
+
+  /**
+   * Remove the paths still present in the configuration
+   */
+  private async untrackPaths(relativePaths: string[]): Promise<void> {
+    const config = await this.configManager.load();
+    const tracked = relativePaths.filter(relativePath =>
+      config.trackedPaths.includes(relativePath),
+    );
+
+    if (tracked.length > 0) {
+      await this.configManager.removeMultipleTrackedPaths(tracked);
+    }
+    await this.updateTrackedPathExclusions();
+  }
+
+  /**
+   * Bring the tracked paths hidden from the main repository in line with the configuration
+   */
+  private async updateTrackedPathExclusions(): Promise<void> {
+    await new GitignoreService(this.workingDir, this.fileSystem).syncTrackedPathsFromConfig(
+      this.configManager,
+    );
+  }
+
+  /**
+   * Get stats of a path without following links, or null if nothing is there
+   */
+  private async getLinkStats(targetPath: string): Promise<Stats | null> {
+    try {
+      return await this.fileSystem.getLinkStats(targetPath);
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
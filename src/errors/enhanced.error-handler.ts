@@ -1,5 +1,7 @@
+import * as path from 'path';
 import chalk from 'chalk';
 import { BaseError } from './base.error';
+import { ConcurrentOperationError, StorageCollisionError } from './specific.errors';
 
 /**
  * Recovery suggestion interface
@@ -43,6 +45,19 @@ export class EnhancedErrorHandler {
     this.displayTroubleshootingTips(context);
   }
 
+  /**
+   * Get recovery suggestions for any error
+   */
+  public static getSuggestions(error: unknown, context?: ErrorContext): RecoverySuggestion[] {
+    if (error instanceof BaseError) {
+      return this.getRecoverySuggestions(error, context);
+    }
+    if (error instanceof Error) {
+      return this.getGenericRecoverySuggestions(error, context);
+    }
+    return [];
+  }
+
   /**
    * Handle BaseError instances with specific recovery suggestions
    */
@@ -177,11 +192,23 @@ export class EnhancedErrorHandler {
         });
         suggestions.push({
           action: 'Remove from tracking',
-          command: 'private cleanup --force',
+          command: 'private remove <path>',
           description: 'Remove the file from private tracking if needed',
         });
         break;
 
+      case 'NOT_TRACKED':
+        suggestions.push({
+          action: 'Check tracked files',
+          command: 'private status -v',
+          description: 'See which files are currently being tracked privately',
+        });
+        suggestions.push({
+          action: 'Use the tracked path',
+          description: 'Paths must match the tracked path relative to the project root',
+        });
+        break;
+
       case 'SYMLINK_NOT_SUPPORTED':
         suggestions.push({
           action: 'Check platform support',
@@ -196,6 +223,26 @@ export class EnhancedErrorHandler {
         }
         break;
 
+      case 'GIT_NOT_FOUND':
+        suggestions.push({
+          action: 'Install git',
+          description: 'Install git and make sure it is available on your PATH',
+        });
+        suggestions.push({
+          action: 'Check git installation',
+          command: 'git --version',
+          description: 'Verify git is installed and accessible',
+        });
+        break;
+
+      case 'GIT_REPOSITORY_NOT_FOUND':
+        suggestions.push({
+          action: 'Initialize a git repository',
+          command: 'git init',
+          description: 'Private git tracking works alongside a main git repository',
+        });
+        break;
+
       case 'GIT_OPERATION_FAILED':
         suggestions.push({
           action: 'Check git installation',
@@ -215,6 +262,7 @@ export class EnhancedErrorHandler {
         break;
 
       case 'FILESYSTEM_ERROR':
+      case 'FILE_PERMISSION_ERROR':
         suggestions.push({
           action: 'Check file permissions',
           description: 'Ensure you have read/write access to the files and directories',
@@ -238,6 +286,101 @@ export class EnhancedErrorHandler {
         });
         break;
 
+      case 'PRIVATE_FILES_EXPOSED':
+        suggestions.push({
+          action: 'Update .gitignore',
+          command: 'private cleanup',
+          description: 'Add the missing private git tracking entries to .gitignore',
+        });
+        suggestions.push({
+          action: 'Remove private files from the main repository',
+          command: 'git rm -r --cached <path>',
+          description: 'Stop tracking the path in the main repository, the files stay on disk',
+        });
+        break;
+
+      case 'PROJECT_MOVED':
+        suggestions.push({
+          action: 'Repair symbolic links',
+          command: 'private cleanup -v',
+          description: 'Recreate links that still point to the previous project location',
+        });
+        break;
+
+      case 'CONCURRENT_OPERATION':
+        suggestions.push({
+          action: 'Wait for the other process',
+          command: 'private --wait 30 <command>',
+          description: 'Retry until the running pgit command finishes, for up to 30 seconds',
+        });
+        if (error instanceof ConcurrentOperationError) {
+          if (error.pid !== undefined) {
+            suggestions.push({
+              action: 'Check the process holding the lock',
+              command:
+                process.platform === 'win32'
+                  ? `tasklist /FI "PID eq ${error.pid}"`
+                  : `ps -p ${error.pid}`,
+              description: 'Locks of pgit processes that ended are taken over automatically',
+            });
+          }
+          suggestions.push({
+            action: 'Remove the lock',
+            command: `rm "${error.lockPath}"`,
+            description: 'Only when the process holding it is not pgit, its process id was reused',
+          });
+        }
+        break;
+
+      case 'TRANSACTION_PENDING':
+      case 'OPERATION_INTERRUPTED':
+        suggestions.push({
+          action: 'Undo the interrupted operation',
+          command: 'private recover --rollback',
+          description: 'Put files back where they were before the operation started',
+        });
+        suggestions.push({
+          action: 'Finish the interrupted operation',
+          command: 'private recover --complete',
+          description: 'Run the remaining steps of the operation',
+        });
+        break;
+
+      case 'STORAGE_COLLISION':
+        if (error instanceof StorageCollisionError) {
+          suggestions.push({
+            action: 'Track the version in the project',
+            command: 'private add <path> --keep-working',
+            description: `The stored version is kept in ${error.conflictsPath}`,
+          });
+          suggestions.push({
+            action: 'Track the version in private storage',
+            command: 'private add <path> --keep-storage',
+            description: `The project version is kept in ${error.conflictsPath}`,
+          });
+          for (const collisionPath of error.paths) {
+            suggestions.push({
+              action: `Compare both versions of ${collisionPath}`,
+              command: `git diff --no-index "${path.join(error.storagePath, collisionPath)}" "${path.join(error.workingDir, collisionPath)}"`,
+              description: 'Decide which version to keep before adding the path',
+            });
+          }
+        }
+        break;
+
+      case 'SYNC_CONFLICT':
+        suggestions.push({
+          action: 'Keep the working tree version',
+          command: 'private sync --keep-working',
+          description: 'Copy the files in the project over their private copies',
+        });
+        suggestions.push({
+          action: 'Keep the private storage version',
+          command: 'private sync --keep-storage',
+          description: 'Copy the private copies over the files in the project',
+        });
+        break;
+
       default:
         // Generic suggestions for unknown error codes
         suggestions.push({
@@ -1,3 +1,4 @@
+import * as os from 'os';
 import { BaseError } from './base.error';
 
 /**
@@ -113,6 +114,16 @@ export class TrackingCorruptedError extends BaseError {
   public readonly recoverable = true;
 }
 
+export class PrivateFilesExposedError extends BaseError {
+  public readonly code = 'PRIVATE_FILES_EXPOSED';
+  public readonly recoverable = true;
+}
+
+export class ProjectMovedError extends BaseError {
+  public readonly code = 'PROJECT_MOVED';
+  public readonly recoverable = true;
+}
+
 /**
  * Platform and environment errors
  */
@@ -188,6 +199,73 @@ export class ResourceBusyError extends BaseError {
   public readonly recoverable = true;
 }
 
+export class ConcurrentOperationError extends BaseError {
+  public readonly code = 'CONCURRENT_OPERATION';
+  public readonly recoverable = true;
+  /** Absolute path of the lock file */
+  public readonly lockPath: string;
+  /** Process holding the lock, unset when the lock file could not be read */
+  public readonly pid: number | undefined;
+
+  constructor(message: string, lockPath: string, pid?: number) {
+    super(message, `Lock file: ${lockPath}`);
+    this.lockPath = lockPath;
+    this.pid = pid;
+  }
+}
+
+export class TransactionPendingError extends BaseError {
+  public readonly code = 'TRANSACTION_PENDING';
+  public readonly recoverable = true;
+}
+
+export class SyncConflictError extends BaseError {
+  public readonly code = 'SYNC_CONFLICT';
+  public readonly recoverable = true;
+}
+
+export class StorageCollisionError extends BaseError {
+  public readonly code = 'STORAGE_COLLISION';
+  public readonly recoverable = true;
+  /** Colliding paths relative to the project root */
+  public readonly paths: string[];
+  /** Absolute path of the project root */
+  public readonly workingDir: string;
+  /** Absolute path of private storage */
+  public readonly storagePath: string;
+  /** Absolute path of the directory conflict copies are kept in */
+  public readonly conflictsPath: string;
+
+  constructor(
+    message: string,
+    location: { paths: string[]; workingDir: string; storagePath: string; conflictsPath: string },
+  ) {
+    super(message);
+    this.paths = location.paths;
+    this.workingDir = location.workingDir;
+    this.storagePath = location.storagePath;
+    this.conflictsPath = location.conflictsPath;
+  }
+}
+
+export class OperationInterruptedError extends BaseError {
+  public readonly code = 'OPERATION_INTERRUPTED';
+  public readonly recoverable = true;
+  public readonly signal: NodeJS.Signals;
+
+  constructor(signal: NodeJS.Signals, details?: string) {
+    super(`Operation interrupted by ${signal}`, details);
+    this.signal = signal;
+  }
+
+  /**
+   * Conventional exit code of a process ended by the signal
+   */
+  public get exitCode(): number {
+    return 128 + (os.constants.signals[this.signal] || 2);
+  }
+}
+
 /**
  * Error factory for creating appropriate error types
  */
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { LINK_STRATEGIES, TRACKED_PATH_EXCLUSIONS } from './config.types';
 
 /**
  * Zod schema for configuration settings
@@ -9,6 +10,8 @@ export const ConfigSettingsSchema = z.object({
   verboseOutput: z.boolean(),
   createBackups: z.boolean(),
   maxBackups: z.number().int().min(1).max(20),
+  // Added after 1.2.0, configurations without it get the default
+  excludeTrackedPaths: z.enum(TRACKED_PATH_EXCLUSIONS).default('info-exclude'),
 });
 
 /**
@@ -22,6 +25,127 @@ export const ProjectMetadataSchema = z.object({
   lastModified: z.date(),
 });
 
+/**
+ * Zod schema for a private repository remote
+ */
+export const RemoteConfigSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9._-]+$/),
+  url: z.string().min(1),
+});
+
+/**
+ * Zod schema for the manifest committed to the private repository
+ */
+export const PrivateManifestSchema = z.object({
+  manifestVersion: z.number().int().min(1),
+  trackedPaths: z.array(z.string().min(1)),
+  // Added after manifest version 1, older manifests only hold symbolic links
+  linkStrategies: z.record(z.enum(LINK_STRATEGIES)).optional(),
+});
+
+/**
+ * Zod schema for the encryption metadata committed to the private repository
+ */
+export const EncryptionMetadataSchema = z.object({
+  version: z.number().int().min(1),
+  algorithm: z.literal('aes-256-gcm'),
+  kdf: z.enum(['scrypt', 'keyfile']),
+  salt: z.string().optional(),
+  keyCheck: z.string().min(1),
+});
+
+/**
+ * Zod schema for the configuration record of a tracked path
+ */
+export const TrackedFileRecordSchema = z.object({
+  path: z.string().min(1),
+  addedAt: z.date(),
+  mainRepoState: z.enum(['tracked', 'untracked', 'ignored', 'unknown']),
+  isDirectory: z.boolean().optional(),
+  mode: z.number().int().min(0).optional(),
+  size: z.number().int().min(0).optional(),
+  sha256: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/)
+    .optional(),
+  linkStrategy: z.enum(LINK_STRATEGIES).optional(),
+  syncedSha256: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/)
+    .optional(),
+});
+
+/**
+ * Zod schema for the transaction journal kept in the private repository directory
+ */
+export const TransactionJournalSchema = z.object({
+  id: z.string().min(1),
+  operation: z.enum(['add', 'remove', 'mv']),
+  pid: z.number().int().min(0),
+  startedAt: z.coerce.date(),
+  paths: z.array(z.string().min(1)).min(1),
+  storagePath: z.string().min(1),
+  privateHead: z.string().optional(),
+  mainIndexPaths: z.array(z.string()),
+  details: z.record(TrackedFileRecordSchema.omit({ path: true, addedAt: true })),
+  exclude: z.boolean().optional(),
+  stage: z.boolean().optional(),
+  purge: z.boolean().optional(),
+  renames: z.record(z.string().min(1)).optional(),
+  collision: z
+    .object({
+      resolution: z.enum(['keep-working', 'keep-storage']),
+      conflictCopies: z.record(z.string().min(1)),
+    })
+    .optional(),
+  steps: z.array(
+    z.object({
+      name: z.string().min(1),
+      path: z.string().optional(),
+      done: z.boolean(),
+    }),
+  ),
+});
+
+/**
+ * Zod schema for the process lock file
+ */
+export const ProcessLockInfoSchema = z.object({
+  pid: z.number().int().min(0),
+  command: z.string(),
+  acquiredAt: z.coerce.date(),
+});
+
+/**
+ * Zod schema for an entry of the main repository index
+ */
+const IndexEntrySchema = z.object({ mode: z.string(), hash: z.string(), path: z.string() });
+
+/**
+ * Zod schema for an entry of the operation history
+ */
+export const HistoryEntrySchema = z.object({
+  id: z.string().min(1),
+  operation: z.enum(['add', 'remove', 'mv', 'commit', 'checkout', 'cleanup', 'undo']),
+  timestamp: z.coerce.date(),
+  paths: z.array(z.string().min(1)),
+  privateHead: z.object({ before: z.string().optional(), after: z.string().optional() }).optional(),
+  branch: z.object({ before: z.string(), after: z.string() }).optional(),
+  configDiff: z.object({ added: z.array(z.string()), removed: z.array(z.string()) }).optional(),
+  hashes: z.record(z.string()).optional(),
+  transaction: TransactionJournalSchema.omit({
+    id: true,
+    pid: true,
+    startedAt: true,
+    steps: true,
+  }).optional(),
+  mainIndex: z
+    .object({ before: z.array(IndexEntrySchema), after: z.array(IndexEntrySchema) })
+    .optional(),
+  gitignore: z.object({ before: z.string(), after: z.string() }).optional(),
+  undoes: z.string().optional(),
+});
+
 /**
  * Zod schema for main private configuration
  */
@@ -30,10 +154,12 @@ export const PrivateConfigSchema = z.object({
   privateRepoPath: z.string().min(1),
   storagePath: z.string().min(1),
   trackedPaths: z.array(z.string()).default([]),
+  trackedFiles: z.array(TrackedFileRecordSchema).optional(),
   initialized: z.date(),
   lastCleanup: z.date().optional(),
   settings: ConfigSettingsSchema,
   metadata: ProjectMetadataSchema,
+  remotes: z.array(RemoteConfigSchema).optional(),
 });
 
 /**
@@ -90,6 +216,8 @@ export const SymlinkHealthSchema = z.object({
   healthy: z.number().int().min(0),
   broken: z.number().int().min(0),
   brokenLinks: z.array(BrokenLinkSchema),
+  strategies: z.record(z.enum(LINK_STRATEGIES), z.number().int().min(0)),
+  unsynced: z.array(z.string()),
 });
 
 /**
@@ -146,7 +274,6 @@ export const MigrationStepSchema = z.object({
   id: z.string().min(1),
   description: z.string().min(1),
   destructive: z.boolean(),
-  execute: z.function(),
 });
 
 /**
@@ -217,7 +344,11 @@ export const PrivateConfigJsonSchema = z.object({
   version: z.string(),
   privateRepoPath: z.string(),
   storagePath: z.string(),
-  trackedPaths: z.array(z.string()),
+  trackedFiles: z.array(
+    TrackedFileRecordSchema.extend({
+      addedAt: z.string().transform(str => new Date(str)),
+    }),
+  ),
   initialized: z.string().transform(str => new Date(str)),
   lastCleanup: z
     .string()
@@ -231,6 +362,7 @@ export const PrivateConfigJsonSchema = z.object({
     platform: z.string(),
     lastModified: z.string().transform(str => new Date(str)),
   }),
+  remotes: z.array(RemoteConfigSchema).optional(),
 });
 
 /**
@@ -247,7 +379,11 @@ export type SymlinkHealthType = z.infer<typeof SymlinkHealthSchema>;
 export type ConfigHealthType = z.infer<typeof ConfigHealthSchema>;
 export type SystemStatusType = z.infer<typeof SystemStatusSchema>;
 export type TrackedFileType = z.infer<typeof TrackedFileSchema>;
+export type TrackedFileRecordType = z.infer<typeof TrackedFileRecordSchema>;
 export type ValidationResultType = z.infer<typeof ValidationResultSchema>;
 export type MigrationStepType = z.infer<typeof MigrationStepSchema>;
 export type MigrationInfoType = z.infer<typeof MigrationInfoSchema>;
 export type ErrorInfoType = z.infer<typeof ErrorInfoSchema>;
+export type RemoteConfigType = z.infer<typeof RemoteConfigSchema>;
+export type PrivateManifestType = z.infer<typeof PrivateManifestSchema>;
+export type EncryptionMetadataType = z.infer<typeof EncryptionMetadataSchema>;
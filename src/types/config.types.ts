@@ -12,8 +12,17 @@ export interface ConfigSettings {
   createBackups: boolean;
   /** Maximum number of backup files to keep */
   maxBackups: number;
+  /** Ignore file of the main repository that lists the tracked paths */
+  excludeTrackedPaths: TrackedPathExclusion;
 }
 
+/**
+ * Where tracked paths are hidden from the main repository: its .git/info/exclude, its .gitignore or nowhere
+ */
+export const TRACKED_PATH_EXCLUSIONS = ['info-exclude', 'gitignore', 'off'] as const;
+
+export type TrackedPathExclusion = (typeof TRACKED_PATH_EXCLUSIONS)[number];
+
 /**
  * Main configuration for private git tracking
  */
@@ -24,8 +33,10 @@ export interface PrivateConfig {
   privateRepoPath: string;
   /** Path to private files storage */
   storagePath: string;
-  /** List of paths being tracked privately */
+  /** List of paths being tracked privately, derived from trackedFiles */
   trackedPaths: string[];
+  /** Record for each tracked path, always set on loaded configurations */
+  trackedFiles?: TrackedFileRecord[];
   /** When the system was initialized */
   initialized: Date;
   /** Last time cleanup was performed */
@@ -34,6 +45,88 @@ export interface PrivateConfig {
   settings: ConfigSettings;
   /** Project metadata */
   metadata: ProjectMetadata;
+  /** Remotes configured for the private repository */
+  remotes?: RemoteConfig[];
+}
+
+/**
+ * State of a path in the main repository before it was added to private tracking
+ */
+export type MainRepoState = 'tracked' | 'untracked' | 'ignored' | 'unknown';
+
+/**
+ * How a tracked path appears in the working tree: a symbolic link into private storage,
+ * a hard link to the stored file, or a real copy that is kept in sync with storage
+ */
+export const LINK_STRATEGIES = ['symlink', 'hardlink', 'copy'] as const;
+export type LinkStrategy = (typeof LINK_STRATEGIES)[number];
+
+/**
+ * Facts about a tracked path recorded when it was added
+ */
+export interface TrackedFileDetails {
+  /** State of the path in the main repository before it was added */
+  mainRepoState: MainRepoState;
+  /** Whether the path is a directory, unknown for records migrated from older versions */
+  isDirectory?: boolean;
+  /** Permission bits */
+  mode?: number;
+  /** Size in bytes, the total of all files for directories */
+  size?: number;
+  /** SHA-256 of the content, directories hash their file names and contents */
+  sha256?: string;
+  /** How the path appears in the working tree, a symbolic link when unset */
+  linkStrategy?: LinkStrategy;
+  /** SHA-256 of the content at the last sync, for hard linked and copied paths */
+  syncedSha256?: string;
+}
+
+/**
+ * Configuration record of a tracked path
+ */
+export interface TrackedFileRecord extends TrackedFileDetails {
+  /** Path relative to the project root */
+  path: string;
+  /** When the path was added to private tracking */
+  addedAt: Date;
+}
+
+/**
+ * Remote repository for the private storage
+ */
+export interface RemoteConfig {
+  /** Remote name (e.g. origin) */
+  name: string;
+  /** Remote URL (ssh, https or file://) */
+  url: string;
+}
+
+/**
+ * Manifest committed to the private repository so other machines can rebuild their configuration
+ */
+export interface PrivateManifest {
+  /** Manifest format version */
+  manifestVersion: number;
+  /** Paths tracked in the private repository, relative to the project root */
+  trackedPaths: string[];
+  /** Link strategy of every path that is not a symbolic link */
+  linkStrategies?: Record<string, LinkStrategy>;
+}
+
+/**
+ * Encryption settings committed to the private repository, the key itself is never stored there
+ */
+export interface EncryptionMetadata {
+  /** Metadata format version */
+  version: number;
+  /** Cipher used for file contents */
+  algorithm: 'aes-256-gcm';
+  /** How the key is obtained: derived from a passphrase or read from a key file */
+  kdf: 'scrypt' | 'keyfile';
+  /** Base64 salt for passphrase derived keys */
+  salt?: string;
+  /** HMAC used to verify a key before it is used */
+  keyCheck: string;
 }
 
 /**
@@ -80,6 +173,56 @@ export interface CommandOptions {
   message?: string;
   /** Dry run - show what would be done without doing it */
   dryRun?: boolean;
+  /** Patterns to exclude when adding directories or expanding globs */
+  exclude?: string[];
+  /** How added paths appear in the working tree */
+  link?: LinkStrategy;
+  /** What add does with paths that already exist in private storage with other content */
+  collision?: StorageCollisionResolution;
+}
+
+/**
+ * Which version add keeps when a path already exists in private storage, or whether it stops
+ */
+export type StorageCollisionResolution = 'keep-storage' | 'keep-working' | 'abort';
+
+/**
+ * How an add resolves paths that already exist in private storage
+ */
+export interface StorageCollisionPlan {
+  /** Version that ends up tracked */
+  resolution: Exclude<StorageCollisionResolution, 'abort'>;
+  /** Conflict copy relative to the project root of each colliding path, it holds the version not kept */
+  conflictCopies: Record<string, string>;
+}
+
+/**
+ * Repository affected by a planned operation
+ */
+export type PlannedRepository = 'main' | 'private';
+
+/**
+ * Plan of changes reported by --dry-run. All paths are relative to the project root.
+ */
+export interface DryRunPlan {
+  /** Command that produced the plan */
+  command: string;
+  /** Files and directories to move */
+  moves: Array<{ from: string; to: string }>;
+  /** Symbolic links to create, remove or repair */
+  symlinks: Array<{ action: 'create' | 'remove' | 'repair'; link: string; target?: string }>;
+  /** Index entries to add or drop */
+  indexChanges: Array<{ repository: PlannedRepository; action: 'add' | 'remove'; paths: string[] }>;
+  /** Commits to create */
+  commits: Array<{ repository: PlannedRepository; message: string; files: string[] }>;
+  /** Lines to add to or drop from ignore files */
+  ignoreFileEdits: Array<{ file: string; additions: string[]; removals?: string[] }>;
+  /** Branch switches, file checkouts and history rewrites */
+  refChanges: Array<{ repository: PlannedRepository; from: string; to: string; files: string[] }>;
+  /** Configuration updates */
+  configChanges: string[];
+  /** Warnings found during validation */
+  warnings: string[];
 }
 
 /**
@@ -104,6 +247,8 @@ export interface RepositoryStatus {
   exists: boolean;
   /** Any issues found with repository */
   issues: string[];
+  /** Files inside tracked directories ignored by .pgitignore (private repository only) */
+  ignoredFiles?: string[];
 }
 
 /**
@@ -126,22 +271,245 @@ export interface SystemStatus {
   issues: string[];
 }
 
+/**
+ * Private repository status with the state of each tracked path
+ */
+export interface PrivateStatus {
+  /** Private repository status */
+  privateRepo: RepositoryStatus;
+  /** Symbolic links health */
+  symlinks: SymlinkHealth;
+  /** Link and storage state of each tracked path */
+  trackedPaths: TrackedPathStatus[];
+}
+
+/**
+ * Link and storage state of a tracked path
+ */
+export interface TrackedPathStatus {
+  /** Tracked path relative to the project */
+  path: string;
+  /** Whether the path exists in the working tree */
+  linkExists: boolean;
+  /** Whether the file exists in private storage */
+  targetExists: boolean;
+}
+
+/**
+ * Cleanup result information
+ */
+export interface CleanupResult {
+  /** Number of symbolic links repaired */
+  repairedSymlinks: number;
+  /** Paths whose symbolic link was replaced by a file, the file was taken into storage */
+  reabsorbedPaths: string[];
+  /** Number of private paths removed from the main repository index */
+  cleanedIndexEntries: number;
+  /** Whether .gitignore was updated */
+  updatedGitignore: boolean;
+  /** Ignore files whose block of tracked paths was brought up to date */
+  updatedExcludeFiles: string[];
+  /** Whether the configuration was validated */
+  configValidated: boolean;
+  /** Problems that could not be fixed */
+  issues: string[];
+  /** Problems that were fixed or need attention */
+  warnings: string[];
+}
+
+/**
+ * Outcome of a single doctor check
+ */
+export type DoctorCheckStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Result of a single doctor check
+ */
+export interface DoctorCheck {
+  /** Name of the check */
+  name: string;
+  /** Outcome of the check */
+  status: DoctorCheckStatus;
+  /** What was found */
+  message: string;
+  /** Individual problems found by the check */
+  details: string[];
+  /** How to fix the problems found */
+  suggestions: Array<{ action: string; command?: string; description: string }>;
+}
+
+/**
+ * Environment and installation diagnostics
+ */
+export interface DoctorReport {
+  /** Results of all checks that ran */
+  checks: DoctorCheck[];
+  /** Number of checks that passed */
+  passed: number;
+  /** Number of checks with warnings */
+  warnings: number;
+  /** Number of checks that failed */
+  failures: number;
+}
+
+/**
+ * Mutating operations recorded in the transaction journal
+ */
+export type JournalOperation = 'add' | 'remove' | 'mv';
+
+/**
+ * A planned step of a journaled operation
+ */
+export interface JournalStep {
+  /** Name of the step */
+  name: string;
+  /** Path the step applies to, unset for steps covering all paths */
+  path?: string;
+  /** Whether the step completed */
+  done: boolean;
+}
+
+/**
+ * On-disk record of a running add, remove or mv, used to recover when it was interrupted
+ */
+export interface TransactionJournal {
+  /** Unique id of the operation */
+  id: string;
+  /** Operation that was running */
+  operation: JournalOperation;
+  /** Process that ran the operation */
+  pid: number;
+  /** When the operation started */
+  startedAt: Date;
+  /** Paths relative to the project root */
+  paths: string[];
+  /** Absolute path of private storage */
+  storagePath: string;
+  /** Commit of the private repository before the operation */
+  privateHead?: string;
+  /** Paths that were in the main repository index before the operation */
+  mainIndexPaths: string[];
+  /** Tracking details to restore in the configuration */
+  details: Record<string, TrackedFileDetails>;
+  /** Exclude rules were recorded in .pgitignore */
+  exclude?: boolean;
+  /** Restored paths are staged in the main repository */
+  stage?: boolean;
+  /** Removed paths are purged from the private history */
+  purge?: boolean;
+  /** New path of each moved path */
+  renames?: Record<string, string>;
+  /** Paths added over other content in private storage, and where the version not kept went */
+  collision?: StorageCollisionPlan;
+  /** Planned steps in execution order */
+  steps: JournalStep[];
+}
+
+/**
+ * What an add, remove or mv changed, enough to roll it back or complete it
+ */
+export type TransactionRecord = Omit<TransactionJournal, 'id' | 'pid' | 'startedAt' | 'steps'>;
+
+/**
+ * Operations recorded in the operation history
+ */
+export type HistoryOperation = 'add' | 'remove' | 'mv' | 'commit' | 'checkout' | 'cleanup' | 'undo';
+
+/**
+ * Entry of the main repository index, enough to put it back
+ */
+export interface IndexEntry {
+  /** File mode as shown by git ls-files */
+  mode: string;
+  /** Blob hash */
+  hash: string;
+  /** Path relative to the repository root */
+  path: string;
+}
+
+/**
+ * Entry of the append-only operation history
+ */
+export interface HistoryEntry {
+  /** Unique id of the entry */
+  id: string;
+  /** Operation that ran */
+  operation: HistoryOperation;
+  /** When the operation finished */
+  timestamp: Date;
+  /** Paths relative to the project root that the operation changed */
+  paths: string[];
+  /** Commit of the private repository before and after the operation */
+  privateHead?: { before?: string; after?: string };
+  /** Branch of the private repository before and after a checkout */
+  branch?: { before: string; after: string };
+  /** Paths added to and removed from the tracked paths of the configuration */
+  configDiff?: { added: string[]; removed: string[] };
+  /** SHA-256 of each path right after the operation, to detect later changes */
+  hashes?: Record<string, string>;
+  /** Add or remove as recorded in its transaction journal */
+  transaction?: TransactionRecord;
+  /** Main repository index entries of the paths before and after cleanup removed them */
+  mainIndex?: { before: IndexEntry[]; after: IndexEntry[] };
+  /** Content of .gitignore before and after cleanup updated it */
+  gitignore?: { before: string; after: string };
+  /** Entry reversed by an undo */
+  undoes?: string;
+}
+
+/**
+ * Owner of the process lock, written to the lock file
+ */
+export interface ProcessLockInfo {
+  /** Process holding the lock */
+  pid: number;
+  /** Command line of the process, for messages */
+  command: string;
+  /** When the lock was taken */
+  acquiredAt: Date;
+}
+
+/**
+ * Which way a sync copies changes: into storage, out to the working tree, or both
+ */
+export type SyncDirection = 'in' | 'out' | 'both';
+
+/**
+ * Outcome of syncing hard linked and copied paths with private storage
+ */
+export interface SyncReport {
+  /** Paths whose working tree changes were copied into storage */
+  syncedIn: string[];
+  /** Paths whose storage changes were copied to the working tree */
+  syncedOut: string[];
+  /** Paths whose symbolic link was replaced by a file, the file was taken into storage */
+  reabsorbed: string[];
+  /** Paths changed on both sides, since the last sync or for replaced links since the last private commit */
+  conflicts: string[];
+  /** Paths missing from both the working tree and storage */
+  missing: string[];
+}
+
 /**
  * Symbolic link health information
  */
 export interface SymlinkHealth {
-  /** Total number of tracked symbolic links */
+  /** Total number of tracked paths */
   total: number;
-  /** Number of healthy symbolic links */
+  /** Number of healthy links and copies */
   healthy: number;
-  /** Number of broken symbolic links */
+  /** Number of broken links and copies */
   broken: number;
   /** Details of broken links */
   brokenLinks: BrokenLink[];
+  /** Number of tracked paths per link strategy */
+  strategies: Record<LinkStrategy, number>;
+  /** Hard linked or copied paths whose working tree content differs from storage */
+  unsynced: string[];
 }
 
 /**
- * Information about a broken symbolic link
+ * Information about a broken symbolic link, hard link or copy
  */
 export interface BrokenLink {
   /** Path to the symbolic link */
@@ -230,8 +598,20 @@ export interface MigrationStep {
   description: string;
   /** Whether step is destructive */
   destructive: boolean;
-  /** Function to execute the step */
-  execute: () => Promise<void>;
+}
+
+/**
+ * Outcome of a configuration migration
+ */
+export interface MigrationResult {
+  /** Source version */
+  fromVersion: string;
+  /** Target version */
+  toVersion: string;
+  /** Steps that were applied */
+  steps: MigrationStep[];
+  /** Backup of the previous configuration file, if one was created */
+  backupPath?: string;
 }
 
 /**
@@ -261,6 +641,7 @@ export const DEFAULT_SETTINGS: ConfigSettings = {
   verboseOutput: false,
   createBackups: true,
   maxBackups: 5,
+  excludeTrackedPaths: 'info-exclude',
 };
 
 /**
@@ -271,12 +652,21 @@ export const DEFAULT_PATHS = {
   storage: '.private-storage',
   config: '.private-config.json',
   gitignore: '.gitignore',
+  pgitignore: '.pgitignore',
+  manifest: '.pgit-manifest.json',
+  gitattributes: '.gitattributes',
+  encryption: '.pgit-encryption.json',
+  journal: 'journal.json',
+  processLock: 'pgit.lock',
+  history: 'history.jsonl',
+  conflicts: 'conflicts',
+  backups: 'backups',
 } as const;
 
 /**
  * Current configuration version
  */
-export const CURRENT_CONFIG_VERSION = '1.1.0';
+export const CURRENT_CONFIG_VERSION = '1.2.0';
 
 /**
  * Supported file extensions for tracking
@@ -0,0 +1,156 @@
+import chalk from 'chalk';
+import { DryRunPlan } from '../types/config.types';
+import { ProjectPaths } from './project.paths';
+
+/**
+ * Builds and displays --dry-run plans. Plans hold paths relative to the project root,
+ * the display shows them relative to the invocation directory.
+ */
+export class DryRunReporter {
+  /**
+   * Create an empty plan for a command
+   */
+  public static createPlan(command: string): DryRunPlan {
+    return {
+      command,
+      moves: [],
+      symlinks: [],
+      indexChanges: [],
+      commits: [],
+      ignoreFileEdits: [],
+      refChanges: [],
+      configChanges: [],
+      warnings: [],
+    };
+  }
+
+  /**
+   * Check if executing the plan would change anything
+   */
+  public static hasChanges(plan: DryRunPlan): boolean {
+    return (
+      plan.moves.length > 0 ||
+      plan.symlinks.length > 0 ||
+      plan.indexChanges.length > 0 ||
+      plan.commits.length > 0 ||
+      plan.ignoreFileEdits.length > 0 ||
+      plan.refChanges.length > 0 ||
+      plan.configChanges.length > 0
+    );
+  }
+
+  /**
+   * Build the command result message for a plan
+   */
+  public static getSummary(plan: DryRunPlan): string {
+    return this.hasChanges(plan)
+      ? `Dry run: ${plan.command} would make the changes listed above, nothing was modified`
+      : `Dry run: ${plan.command} would not change anything`;
+  }
+
+  /**
+   * Display the plan in human readable form
+   */
+  public static display(plan: DryRunPlan): void {
+    console.log(chalk.blue.bold(`🔍 Dry run: ${plan.command} (no changes will be made)`));
+
+    if (plan.moves.length > 0) {
+      console.log(chalk.bold('   Files to move:'));
+      for (const move of plan.moves) {
+        console.log(
+          `     ${ProjectPaths.toDisplayPath(move.from)} ${chalk.gray('→')} ${ProjectPaths.toDisplayPath(move.to)}`,
+        );
+      }
+    }
+
+    if (plan.symlinks.length > 0) {
+      console.log(chalk.bold('   Symbolic links:'));
+      for (const symlink of plan.symlinks) {
+        const target = symlink.target
+          ? ` ${chalk.gray('→')} ${ProjectPaths.toDisplayPath(symlink.target)}`
+          : '';
+        console.log(
+          `     ${this.formatAction(symlink.action)} ${ProjectPaths.toDisplayPath(symlink.link)}${target}`,
+        );
+      }
+    }
+
+    if (plan.indexChanges.length > 0) {
+      console.log(chalk.bold('   Index changes:'));
+      for (const change of plan.indexChanges) {
+        const label = change.action === 'add' ? 'stage in' : 'drop from';
+        console.log(
+          `     ${this.formatAction(change.action)} ${label} ${change.repository} index:`,
+        );
+        for (const changedPath of change.paths) {
+          console.log(chalk.gray(`       ${ProjectPaths.toDisplayPath(changedPath)}`));
+        }
+      }
+    }
+
+    if (plan.commits.length > 0) {
+      console.log(chalk.bold('   Commits to create:'));
+      for (const commit of plan.commits) {
+        console.log(
+          `     ${commit.repository}: "${commit.message}" ${chalk.gray(`(${commit.files.length} file(s))`)}`,
+        );
+      }
+    }
+
+    if (plan.ignoreFileEdits.length > 0) {
+      console.log(chalk.bold('   Ignore file edits:'));
+      for (const edit of plan.ignoreFileEdits) {
+        console.log(`     ${ProjectPaths.toDisplayPath(edit.file)}:`);
+        for (const line of edit.additions) {
+          console.log(chalk.green(`       + ${line}`));
+        }
+        for (const line of edit.removals || []) {
+          console.log(chalk.red(`       - ${line}`));
+        }
+      }
+    }
+
+    if (plan.refChanges.length > 0) {
+      console.log(chalk.bold('   Working tree changes:'));
+      for (const ref of plan.refChanges) {
+        console.log(`     ${ref.repository}: ${ref.from} ${chalk.gray('→')} ${ref.to}`);
+        for (const changedFile of ref.files) {
+          console.log(chalk.gray(`       ${ProjectPaths.toDisplayPath(changedFile)}`));
+        }
+      }
+    }
+
+    if (plan.configChanges.length > 0) {
+      console.log(chalk.bold('   Configuration changes:'));
+      for (const change of plan.configChanges) {
+        console.log(`     ${change}`);
+      }
+    }
+
+    if (plan.warnings.length > 0) {
+      console.log(chalk.yellow.bold('   Warnings:'));
+      for (const warning of plan.warnings) {
+        console.log(chalk.yellow(`     ⚠ ${warning}`));
+      }
+    }
+
+    if (!this.hasChanges(plan)) {
+      console.log(chalk.gray('   Nothing to do'));
+    }
+  }
+
+  /**
+   * Format a plan action marker
+   */
+  private static formatAction(action: 'create' | 'remove' | 'repair' | 'add'): string {
+    switch (action) {
+      case 'create':
+      case 'add':
+        return chalk.green('+');
+      case 'remove':
+        return chalk.red('-');
+      case 'repair':
+        return chalk.yellow('~');
+    }
+  }
+}
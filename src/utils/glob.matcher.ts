@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import picomatch from 'picomatch';
+
+/**
+ * Glob expansion options
+ */
+export interface GlobExpansionOptions {
+  /** Directory or file names that are never matched or descended into */
+  excludedNames?: readonly string[];
+  /** Paths relative to the root that are never matched or descended into */
+  excludedPaths?: readonly string[];
+  /** Match directories as well as files (matched directories are not descended into) */
+  includeDirectories?: boolean;
+  /** Gitignore-style patterns for paths that are never matched or descended into */
+  excludePatterns?: readonly string[];
+}
+
+/**
+ * Glob pattern matching relative to a project root
+ */
+export class GlobMatcher {
+  /**
+   * Check if input contains glob syntax that should be expanded
+   */
+  public static isGlobPattern(input: string): boolean {
+    return picomatch.scan(input).isGlob;
+  }
+
+  /**
+   * Expand a glob pattern into matching paths relative to the root directory.
+   * Symbolic links are never matched, so already tracked paths are skipped.
+   */
+  public static async expand(
+    rootDir: string,
+    pattern: string,
+    options: GlobExpansionOptions = {},
+  ): Promise<string[]> {
+    const normalizedPattern = this.toPosix(pattern).replace(/^\.\//, '');
+    const isMatch = picomatch(normalizedPattern, { dot: true });
+    const excludedNames = new Set(options.excludedNames || []);
+    const excludedPaths = new Set(
+      (options.excludedPaths || []).map(excludedPath => path.normalize(excludedPath)),
+    );
+    const includeDirectories = options.includeDirectories !== false;
+    const isExcluded = this.createExcludeMatcher(options.excludePatterns || []);
+    const matches: string[] = [];
+
+    // Start walking from the static part of the pattern instead of the whole tree
+    const { base } = picomatch.scan(normalizedPattern);
+    const startDir = path.resolve(rootDir, base);
+    const relativeStart = path.relative(rootDir, startDir);
+    if (relativeStart.startsWith('..') || path.isAbsolute(relativeStart)) {
+      return matches;
+    }
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(path.join(rootDir, relativeDir), {
+          withFileTypes: true,
+        });
+      } catch {
+        return;
+      }
+
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const entry of entries) {
+        if (excludedNames.has(entry.name) || entry.isSymbolicLink()) {
+          continue;
+        }
+
+        const relativePath = relativeDir ? path.join(relativeDir, entry.name) : entry.name;
+        if (excludedPaths.has(relativePath)) {
+          continue;
+        }
+        if (isExcluded && isExcluded(this.toPosix(relativePath))) {
+          continue;
+        }
+
+        const matched = isMatch(this.toPosix(relativePath));
+
+        if (entry.isDirectory()) {
+          if (matched && includeDirectories) {
+            matches.push(relativePath);
+          } else {
+            await walk(relativePath);
+          }
+        } else if (matched) {
+          matches.push(relativePath);
+        }
+      }
+    };
+
+    await walk(relativeStart);
+    return matches;
+  }
+
+  /**
+   * Expand multiple inputs, passing literal paths through unchanged
+   */
+  public static async expandAll(
+    rootDir: string,
+    inputs: string[],
+    options: GlobExpansionOptions = {},
+  ): Promise<{ paths: string[]; expansions: Map<string, string[]> }> {
+    const paths: string[] = [];
+    const expansions = new Map<string, string[]>();
+
+    for (const input of inputs) {
+      if (this.isGlobPattern(input)) {
+        const matches = await this.expand(rootDir, input, options);
+        expansions.set(input, matches);
+        paths.push(...matches);
+      } else {
+        paths.push(input);
+      }
+    }
+
+    return { paths: [...new Set(paths)], expansions };
+  }
+
+  /**
+   * Build a matcher for exclude patterns. Patterns without a slash match the name at any depth.
+   */
+  private static createExcludeMatcher(patterns: readonly string[]): picomatch.Matcher | null {
+    const normalized = patterns
+      .map(pattern => this.toPosix(pattern.trim()).replace(/^\//, '').replace(/\/+$/, ''))
+      .filter(pattern => pattern.length > 0 && !pattern.startsWith('!'));
+
+    if (normalized.length === 0) {
+      return null;
+    }
+
+    return picomatch(normalized, { dot: true, basename: true });
+  }
+
+  /**
+   * Convert a path to forward slashes for matching
+   */
+  private static toPosix(inputPath: string): string {
+    return inputPath.split(path.sep).join('/');
+  }
+}
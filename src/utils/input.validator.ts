@@ -206,6 +206,40 @@ export class InputValidator {
     }
   }
 
+  /**
+   * Validate remote name
+   */
+  public static validateRemoteName(name: string): void {
+    if (!name || typeof name !== 'string') {
+      throw new MissingArgumentError('Remote name is required', 'remote');
+    }
+
+    if (!/^[A-Za-z0-9._-]+$/.test(name) || name.startsWith('-')) {
+      throw new InvalidArgumentError(
+        `Invalid remote name: ${name}`,
+        'Use letters, numbers, dots, hyphens and underscores',
+      );
+    }
+  }
+
+  /**
+   * Validate remote URL
+   */
+  public static validateRemoteUrl(url: string): void {
+    if (!url || typeof url !== 'string' || !url.trim()) {
+      throw new MissingArgumentError('Remote URL is required', 'remote');
+    }
+
+    if (url.startsWith('-')) {
+      throw new InvalidArgumentError(`Invalid remote URL: ${url}`, 'remote');
+    }
+
+    // The ext:: transport runs arbitrary commands
+    if (/^ext::/i.test(url)) {
+      throw new SecurityError(`Unsupported remote transport: ${url}`, 'remote');
+    }
+  }
+
   /**
    * Validate numeric arguments
    */
@@ -0,0 +1,251 @@
+import chalk from 'chalk';
+import { CommandResult } from '../types/config.types';
+import { BaseError } from '../errors/base.error';
+import { OUTPUT_VIEWS, ViewFormatter } from './output.views';
+
+/**
+ * Output formats selected by the global flags
+ */
+export type OutputFormat = 'human' | 'plain' | 'json';
+
+/**
+ * Options for rendering a command result
+ */
+export interface RenderOptions {
+  /** View used to display the result data, only the message is shown without one */
+  view?: string;
+  /** Also show the result message after the view */
+  summary?: boolean;
+  /** Whether verbose output was requested */
+  verbose?: boolean;
+  /** Message shown on success when the result has none */
+  successMessage?: string;
+  /** Message shown on failure when the result has none */
+  failureMessage?: string;
+}
+
+/**
+ * Turns command results and errors into output
+ */
+export interface OutputRenderer {
+  /** Render the result of a command */
+  renderResult(_result: CommandResult, _options: RenderOptions): void;
+  /** Render an error thrown outside of a command result */
+  renderError(_error: unknown, _verbose?: boolean): void;
+  /** Render a line a command prints while it runs, the result carries anything scripts need */
+  renderNotice(_line: string): void;
+}
+
+/**
+ * Colored output for terminals
+ */
+export class HumanRenderer implements OutputRenderer {
+  protected readonly views: Record<string, ViewFormatter>;
+  protected readonly quiet: boolean;
+
+  constructor(views: Record<string, ViewFormatter> = OUTPUT_VIEWS, quiet = false) {
+    this.views = views;
+    this.quiet = quiet;
+  }
+
+  public renderResult(result: CommandResult, options: RenderOptions): void {
+    const view = options.view && result.data !== undefined ? this.views[options.view] : undefined;
+
+    // The view is the output that was asked for, quiet only drops the messages around it
+    if (view) {
+      for (const line of view(result.data, !!options.verbose)) {
+        this.write(line);
+      }
+    }
+
+    if (!result.success) {
+      this.writeError(chalk.red(`✗ ${result.message || options.failureMessage || 'Failed'}`));
+      return;
+    }
+
+    if (!this.quiet && (!view || options.summary)) {
+      this.write(chalk.green(`✓ ${result.message || options.successMessage || 'Done'}`));
+    }
+  }
+
+  public renderError(error: unknown): void {
+    this.writeError(chalk.red(`✗ ${error instanceof Error ? error.message : String(error)}`));
+  }
+
+  public renderNotice(line: string): void {
+    if (!this.quiet) {
+      this.write(line);
+    }
+  }
+
+  /**
+   * Write a line to standard output
+   */
+  protected write(line: string): void {
+    process.stdout.write(`${line}\n`);
+  }
+
+  /**
+   * Write a line to standard error
+   */
+  protected writeError(line: string): void {
+    process.stderr.write(`${line}\n`);
+  }
+}
+
+/**
+ * Human readable output without colors, for NO_COLOR and --no-color
+ */
+export class PlainRenderer extends HumanRenderer {
+  protected override write(line: string): void {
+    super.write(PlainRenderer.stripColors(line));
+  }
+
+  protected override writeError(line: string): void {
+    super.writeError(PlainRenderer.stripColors(line));
+  }
+
+  /**
+   * Remove ANSI color codes from text
+   */
+  public static stripColors(text: string): string {
+    // eslint-disable-next-line no-control-regex
+    return text.replace(/\u001b\[[0-9;]*m/g, '');
+  }
+}
+
+/**
+ * A single JSON document per command on standard output
+ */
+export class JsonRenderer implements OutputRenderer {
+  public renderResult(result: CommandResult): void {
+    this.write({
+      success: result.success,
+      message: result.message,
+      exitCode: result.exitCode,
+      data: result.data,
+      error: result.error ? this.serializeError(result.error) : undefined,
+    });
+  }
+
+  public renderError(error: unknown, verbose?: boolean): void {
+    this.write({
+      success: false,
+      message: error instanceof Error ? error.message : String(error),
+      exitCode: 1,
+      error: this.serializeError(error, verbose),
+    });
+  }
+
+  public renderNotice(_line: string): void {
+    // Standard output holds nothing but the result document
+  }
+
+  /**
+   * Convert an error to JSON, stack traces are only included in verbose mode
+   */
+  private serializeError(error: unknown, verbose?: boolean): Record<string, unknown> {
+    const json: Record<string, unknown> =
+      error instanceof BaseError
+        ? error.toJSON()
+        : {
+            error: true,
+            name: error instanceof Error ? error.name : 'Error',
+            message: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+          };
+
+    if (!verbose) {
+      delete json['stack'];
+    }
+
+    return json;
+  }
+
+  private write(document: Record<string, unknown>): void {
+    process.stdout.write(`${JSON.stringify(document, null, 2)}\n`);
+  }
+}
+
+/**
+ * Global output settings shared by the CLI and the commands
+ */
+export class OutputService {
+  private static format: OutputFormat = 'human';
+  private static quiet = false;
+  private static renderer: OutputRenderer = new HumanRenderer();
+
+  /**
+   * Apply the global output flags.
+   * Inline progress output of commands is dropped in quiet and JSON mode, renderers write to the streams directly.
+   */
+  public static configure(options: { json?: boolean; quiet?: boolean; color?: boolean }): void {
+    const noColor = options.color === false || process.env['NO_COLOR'] !== undefined;
+
+    this.format = options.json ? 'json' : noColor ? 'plain' : 'human';
+    this.quiet = !!options.quiet;
+
+    if (this.format !== 'human') {
+      chalk.level = 0;
+    }
+
+    if (this.format === 'json' || this.quiet) {
+      const silent = (): void => undefined;
+      console.log = silent;
+      console.info = silent;
+      console.warn = silent;
+    }
+
+    // Output piped into head and similar tools may be cut short, which is not an error
+    process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'EPIPE') {
+        process.exit(0);
+      }
+      throw error;
+    });
+
+    this.renderer = this.createRenderer(this.format, this.quiet);
+  }
+
+  /**
+   * Get the active renderer
+   */
+  public static getRenderer(): OutputRenderer {
+    return this.renderer;
+  }
+
+  /**
+   * Replace the active renderer
+   */
+  public static setRenderer(renderer: OutputRenderer): void {
+    this.renderer = renderer;
+  }
+
+  /**
+   * Get the active output format
+   */
+  public static getFormat(): OutputFormat {
+    return this.format;
+  }
+
+  /**
+   * Check if only requested output and errors should be printed
+   */
+  public static isQuiet(): boolean {
+    return this.quiet;
+  }
+
+  /**
+   * Create the renderer for an output format
+   */
+  public static createRenderer(format: OutputFormat, quiet = false): OutputRenderer {
+    switch (format) {
+      case 'json':
+        return new JsonRenderer();
+      case 'plain':
+        return new PlainRenderer(OUTPUT_VIEWS, quiet);
+      default:
+        return new HumanRenderer(OUTPUT_VIEWS, quiet);
+    }
+  }
+}
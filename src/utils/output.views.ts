@@ -0,0 +1,452 @@
+import chalk from 'chalk';
+import {
+  CleanupResult,
+  ConfigSettings,
+  DEFAULT_PATHS,
+  DEFAULT_SETTINGS,
+  DoctorCheck,
+  DoctorReport,
+  HistoryEntry,
+  PrivateStatus,
+  RemoteConfig,
+  RepositoryStatus,
+  SymlinkHealth,
+  SystemStatus,
+  TrackedFileRecord,
+} from '../types/config.types';
+import { GitLogEntry } from '../core/git.service';
+import { HistoryService } from '../core/history.service';
+import { ProjectPaths } from './project.paths';
+
+/**
+ * Formats the data of a command result as lines of human readable output
+ */
+export type ViewFormatter = (_data: unknown, _verbose: boolean) => string[];
+
+/**
+ * Format repository status information
+ */
+const formatRepositoryStatus = (repo: RepositoryStatus, verbose: boolean): string[] => {
+  if (!repo.exists) {
+    return [chalk.red('   ✗ Repository not found')];
+  }
+
+  const lines = [
+    `   Branch: ${chalk.cyan(repo.branch)}`,
+    `   Status: ${repo.isClean ? chalk.green('Clean') : chalk.yellow('Has changes')}`,
+  ];
+
+  if (!repo.isClean || verbose) {
+    if (repo.stagedFiles > 0) {
+      lines.push(`   Staged files: ${chalk.green(repo.stagedFiles)}`);
+    }
+    if (repo.modifiedFiles > 0) {
+      lines.push(`   Modified files: ${chalk.yellow(repo.modifiedFiles)}`);
+    }
+    if (repo.untrackedFiles > 0) {
+      lines.push(`   Untracked files: ${chalk.cyan(repo.untrackedFiles)}`);
+    }
+    if (repo.deletedFiles > 0) {
+      lines.push(`   Deleted files: ${chalk.red(repo.deletedFiles)}`);
+    }
+  }
+
+  if (verbose && repo.ignoredFiles && repo.ignoredFiles.length > 0) {
+    lines.push(
+      `   Ignored files (${DEFAULT_PATHS.pgitignore}): ${chalk.gray(repo.ignoredFiles.length)}`,
+    );
+    for (const ignoredFile of repo.ignoredFiles) {
+      lines.push(chalk.gray(`     ${ignoredFile}`));
+    }
+  }
+
+  if (repo.issues.length > 0) {
+    lines.push(chalk.red('   Issues:'));
+    for (const issue of repo.issues) {
+      lines.push(`     ${chalk.red('•')} ${issue}`);
+    }
+  }
+
+  return lines;
+};
+
+/**
+ * Format a count of broken links, green when there are none
+ */
+const formatBrokenCount = (symlinks: SymlinkHealth): string =>
+  symlinks.broken > 0 ? chalk.red(symlinks.broken) : chalk.green(symlinks.broken);
+
+/**
+ * Format combined status (both repositories)
+ */
+const formatStatus = (status: SystemStatus, verbose: boolean): string[] => {
+  const lines = [
+    chalk.blue.bold('📊 Private Git Tracking Status'),
+    '',
+    status.isHealthy ? chalk.green('✓ System is healthy') : chalk.red('✗ System has issues'),
+    '',
+    chalk.blue.bold('📋 Main Repository'),
+    ...formatRepositoryStatus(status.mainRepo, verbose),
+    '',
+    chalk.blue.bold('🔒 Private Repository'),
+    ...formatRepositoryStatus(status.privateRepo, verbose),
+    '',
+  ];
+
+  if (status.symlinks.total > 0) {
+    lines.push(
+      chalk.blue.bold('🔗 Symbolic Links'),
+      `   Total: ${status.symlinks.total}`,
+      `   Healthy: ${chalk.green(status.symlinks.healthy)}`,
+      `   Broken: ${formatBrokenCount(status.symlinks)}`,
+    );
+
+    const { hardlink, copy } = status.symlinks.strategies;
+    if (hardlink > 0 || copy > 0) {
+      lines.push(
+        `   Strategies: ${status.symlinks.strategies.symlink} symlink, ${hardlink} hardlink, ${copy} copy`,
+      );
+    }
+    if (status.symlinks.unsynced.length > 0) {
+      lines.push(
+        `   Needs sync: ${chalk.yellow(status.symlinks.unsynced.join(', '))} (run "pgit sync")`,
+      );
+    }
+
+    if (verbose && status.symlinks.brokenLinks.length > 0) {
+      lines.push('   Broken links:');
+      for (const brokenLink of status.symlinks.brokenLinks) {
+        lines.push(
+          `     ${chalk.red('✗')} ${ProjectPaths.toDisplayPath(brokenLink.linkPath)}`,
+          `       Reason: ${brokenLink.reason}`,
+          `       Repairable: ${brokenLink.repairable ? chalk.green('Yes') : chalk.red('No')}`,
+        );
+      }
+    }
+    lines.push('');
+  }
+
+  if (status.config.needsMigration) {
+    lines.push(
+      chalk.yellow(
+        `⚠️  Configuration version ${status.config.currentVersion} is outdated, run "pgit migrate" to upgrade to ${status.config.targetVersion}`,
+      ),
+      '',
+    );
+  }
+
+  if (status.issues.length > 0) {
+    lines.push(chalk.red.bold('⚠️  Issues Found'));
+    for (const issue of status.issues) {
+      lines.push(`   ${chalk.red('•')} ${issue}`);
+    }
+    lines.push('');
+  }
+
+  return lines;
+};
+
+/**
+ * Format private repository status only
+ */
+const formatPrivateStatus = (status: PrivateStatus, verbose: boolean): string[] => {
+  const lines = [
+    chalk.blue.bold('🔒 Private Repository Status'),
+    '',
+    ...formatRepositoryStatus(status.privateRepo, verbose),
+  ];
+
+  if (verbose) {
+    lines.push('');
+    if (status.trackedPaths.length === 0) {
+      lines.push(chalk.gray('   No files are currently tracked'));
+    } else {
+      lines.push(chalk.blue.bold('📁 Tracked Files'));
+      for (const tracked of status.trackedPaths) {
+        let state: string;
+        if (tracked.linkExists && tracked.targetExists) {
+          state = chalk.green('✓');
+        } else if (tracked.targetExists) {
+          state = chalk.red('✗ Missing link');
+        } else if (tracked.linkExists) {
+          state = chalk.red('✗ Missing target');
+        } else {
+          state = chalk.red('✗ Both missing');
+        }
+        lines.push(`   ${state} ${ProjectPaths.toDisplayPath(tracked.path)}`);
+      }
+    }
+  }
+
+  if (status.symlinks.total > 0) {
+    lines.push(
+      '',
+      chalk.blue.bold('🔗 Tracked Files Summary'),
+      `   Total tracked files: ${status.symlinks.total}`,
+      `   Healthy symbolic links: ${chalk.green(status.symlinks.healthy)}`,
+      `   Broken symbolic links: ${formatBrokenCount(status.symlinks)}`,
+    );
+  }
+
+  return lines;
+};
+
+/**
+ * Format commit history
+ */
+const formatLog = (entries: GitLogEntry[], oneline: boolean): string[] => {
+  if (entries.length === 0) {
+    return [chalk.yellow('No commits found in private repository')];
+  }
+
+  const lines = [chalk.bold('📜 Commit History (Private Repository):'), ''];
+
+  for (const entry of entries) {
+    if (oneline) {
+      lines.push(`${chalk.yellow(entry.hash.substring(0, 7))} ${entry.message}`);
+    } else {
+      lines.push(
+        `${chalk.yellow('commit')} ${entry.hash}`,
+        `${chalk.cyan('Author:')} ${entry.author} <${entry.email}>`,
+        `${chalk.cyan('Date:')} ${entry.date}`,
+        '',
+        `    ${entry.message}`,
+        '',
+      );
+    }
+
+    if (entry.diff) {
+      lines.push(entry.diff);
+    }
+  }
+
+  return lines;
+};
+
+/**
+ * Format cleanup results
+ */
+const formatCleanup = (result: CleanupResult): string[] => {
+  const lines = ['', chalk.blue.bold('🧹 Cleanup Results')];
+
+  if (result.repairedSymlinks > 0) {
+    lines.push(`   ${chalk.green('✓')} Repaired ${result.repairedSymlinks} symbolic link(s)`);
+  }
+  if (result.reabsorbedPaths.length > 0) {
+    lines.push(
+      `   ${chalk.green('✓')} Took over ${result.reabsorbedPaths.length} file(s) that replaced their symbolic link: ${result.reabsorbedPaths.join(', ')}`,
+    );
+  }
+  if (result.cleanedIndexEntries > 0) {
+    lines.push(`   ${chalk.green('✓')} Cleaned ${result.cleanedIndexEntries} git index entries`);
+  }
+  if (result.updatedGitignore) {
+    lines.push(`   ${chalk.green('✓')} Updated .gitignore`);
+  }
+  if (result.updatedExcludeFiles.length > 0) {
+    lines.push(
+      `   ${chalk.green('✓')} Updated tracked paths in ${result.updatedExcludeFiles.join(', ')}`,
+    );
+  }
+  if (result.configValidated) {
+    lines.push(`   ${chalk.green('✓')} Configuration validated`);
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push('', chalk.yellow.bold('⚠️  Warnings:'));
+    for (const warning of result.warnings) {
+      lines.push(`   ${chalk.yellow('•')} ${warning}`);
+    }
+  }
+
+  if (result.issues.length > 0) {
+    lines.push('', chalk.red.bold('❌ Issues:'));
+    for (const issue of result.issues) {
+      lines.push(`   ${chalk.red('•')} ${issue}`);
+    }
+  }
+
+  if (result.issues.length === 0 && result.warnings.length === 0) {
+    lines.push(`   ${chalk.green('✓')} No issues found`);
+  }
+
+  return lines;
+};
+
+/**
+ * Format a byte count for display
+ */
+const formatSize = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return unit === 0 ? `${size} ${units[unit]}` : `${size.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * Format tracking records as an aligned table, unknown values are shown as '-'
+ */
+const formatTrackedFiles = (records: TrackedFileRecord[], verbose: boolean): string[] => {
+  if (records.length === 0) {
+    return [chalk.yellow('No paths are tracked')];
+  }
+
+  const rows = records.map(record => {
+    const type = record.isDirectory === undefined ? '?' : record.isDirectory ? 'd' : 'f';
+    const mode = record.mode === undefined ? '-' : record.mode.toString(8).padStart(4, '0');
+    const size = record.size === undefined ? '-' : formatSize(record.size);
+    const addedAt = isNaN(record.addedAt.getTime())
+      ? '-'
+      : verbose
+        ? record.addedAt.toISOString()
+        : record.addedAt.toISOString().slice(0, 10);
+    const sha256 = record.sha256 ? (verbose ? record.sha256 : record.sha256.slice(0, 12)) : '-';
+
+    return [
+      type,
+      ProjectPaths.toDisplayPath(record.path),
+      mode,
+      size,
+      addedAt,
+      sha256,
+      record.linkStrategy || 'symlink',
+      record.mainRepoState,
+    ];
+  });
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+
+  return rows.map(row => {
+    const [type, filePath, ...rest] = row.map((cell, column) =>
+      column === row.length - 1 ? cell : cell.padEnd(widths[column]),
+    );
+    return `${type} ${chalk.cyan(filePath)}  ${chalk.gray(rest.join('  '))}`;
+  });
+};
+
+/**
+ * Format configuration settings, verbose output marks the ones changed from their default
+ */
+const formatSettings = (settings: ConfigSettings, verbose: boolean): string[] =>
+  (Object.keys(settings) as (keyof ConfigSettings)[]).map(key => {
+    const line = `${key} = ${settings[key]}`;
+    return verbose && settings[key] !== DEFAULT_SETTINGS[key]
+      ? `${line} ${chalk.gray(`(default: ${DEFAULT_SETTINGS[key]})`)}`
+      : line;
+  });
+
+/**
+ * Format configured remotes, verbose output includes their URLs
+ */
+const formatRemotes = (remotes: RemoteConfig[], verbose: boolean): string[] =>
+  remotes.length === 0
+    ? [chalk.yellow('No remotes configured. Run "pgit remote add <name> <url>".')]
+    : remotes.map(remote => (verbose ? `${remote.name}\t${chalk.gray(remote.url)}` : remote.name));
+
+/**
+ * Format branches, marking the current one
+ */
+const formatBranches = (branches: { current: string; all: string[] }): string[] => [
+  chalk.bold('Branches:'),
+  ...branches.all.map(branch =>
+    branch === branches.current
+      ? `${chalk.green('* ')}${chalk.green(branch)}`
+      : `  ${chalk.white(branch)}`,
+  ),
+];
+
+/**
+ * Symbols for the outcome of a doctor check
+ */
+const formatDoctorStatus = (status: DoctorCheck['status']): string =>
+  status === 'pass' ? chalk.green('✓') : status === 'warn' ? chalk.yellow('⚠') : chalk.red('✗');
+
+/**
+ * Format a doctor report, suggestions are shown for every check that did not pass
+ */
+const formatDoctorReport = (report: DoctorReport, verbose: boolean): string[] => {
+  const lines = [chalk.blue.bold('🩺 Diagnostics'), ''];
+
+  for (const check of report.checks) {
+    lines.push(`${formatDoctorStatus(check.status)} ${chalk.bold(check.name)}: ${check.message}`);
+
+    if (check.status !== 'pass' || verbose) {
+      for (const detail of check.details) {
+        lines.push(chalk.gray(`     ${detail}`));
+      }
+    }
+
+    if (check.status !== 'pass') {
+      for (const suggestion of check.suggestions) {
+        lines.push(
+          `   ${chalk.cyan('→')} ${suggestion.action}: ${chalk.gray(suggestion.description)}`,
+        );
+        if (suggestion.command) {
+          lines.push(`     ${chalk.green('Run:')} ${chalk.white(suggestion.command)}`);
+        }
+      }
+    }
+  }
+
+  lines.push(
+    '',
+    `${chalk.green(report.passed)} passed, ${chalk.yellow(report.warnings)} warning(s), ${chalk.red(report.failures)} failed`,
+  );
+
+  return lines;
+};
+
+/**
+ * Format recorded operations, newest first. Undone operations are dimmed,
+ * verbose output includes the private commits before and after each operation.
+ */
+const formatHistory = (entries: HistoryEntry[], verbose: boolean): string[] => {
+  if (entries.length === 0) {
+    return [chalk.yellow('No operations recorded yet')];
+  }
+
+  const undone = new Set(entries.map(entry => entry.undoes).filter(Boolean));
+
+  return entries.flatMap(entry => {
+    const target = entries.find(candidate => candidate.id === entry.undoes);
+    const description = target
+      ? `undo ${HistoryService.describe(target)}`
+      : HistoryService.describe(entry);
+    const line = `${chalk.yellow(entry.id.substring(0, 8))} ${chalk.gray(entry.timestamp.toLocaleString())}  ${description}`;
+    const lines = [undone.has(entry.id) ? chalk.gray(`${line} (undone)`) : line];
+
+    if (verbose && entry.privateHead) {
+      lines.push(
+        chalk.gray(
+          `   ${entry.privateHead.before?.substring(0, 8) ?? 'none'} → ${entry.privateHead.after?.substring(0, 8) ?? 'none'}`,
+        ),
+      );
+    }
+
+    return lines;
+  });
+};
+
+/**
+ * Views available to the human and plain renderers, keyed by name
+ */
+export const OUTPUT_VIEWS: Record<string, ViewFormatter> = {
+  status: (data, verbose) => formatStatus(data as SystemStatus, verbose),
+  'private-status': (data, verbose) => formatPrivateStatus(data as PrivateStatus, verbose),
+  log: data => formatLog(data as GitLogEntry[], false),
+  'log-oneline': data => formatLog(data as GitLogEntry[], true),
+  diff: data => [(data as string).trim() ? (data as string) : chalk.yellow('No differences found')],
+  branches: data => formatBranches(data as { current: string; all: string[] }),
+  cleanup: data => formatCleanup(data as CleanupResult),
+  ls: (data, verbose) => formatTrackedFiles(data as TrackedFileRecord[], verbose),
+  settings: (data, verbose) => formatSettings(data as ConfigSettings, verbose),
+  setting: data => [String((data as { value: unknown }).value)],
+  remotes: (data, verbose) => formatRemotes(data as RemoteConfig[], verbose),
+  doctor: (data, verbose) => formatDoctorReport(data as DoctorReport, verbose),
+  history: (data, verbose) => formatHistory(data as HistoryEntry[], verbose),
+};
@@ -119,6 +119,48 @@ export class PlatformDetector {
     }
   }
 
+  /**
+   * Get a shell command that runs this CLI, used by git filters and hooks.
+   * The pgit command on PATH keeps working after node upgrades and reinstalls, so it is used when it runs
+   * this CLI. The current node binary and script are the fallback.
+   */
+  public static getCliCommand(): string {
+    const quote = (value: string): string => `"${value.replace(/(["\\$`])/g, '\\$1')}"`;
+    const cliPath = path.resolve(__dirname, '..', 'cli.js');
+
+    if (this.isCommandFor('pgit', cliPath)) {
+      return 'pgit';
+    }
+
+    return `${quote(process.execPath)} ${quote(cliPath)}`;
+  }
+
+  /**
+   * Check whether the first command of that name on PATH resolves to the given script
+   */
+  private static isCommandFor(command: string, scriptPath: string): boolean {
+    for (const dir of (process.env['PATH'] || '').split(path.delimiter)) {
+      if (!dir) {
+        continue;
+      }
+
+      const candidate = path.join(dir, command);
+      try {
+        fs.accessSync(candidate, fs.constants.X_OK);
+      } catch {
+        continue;
+      }
+
+      try {
+        return fs.realpathSync(candidate) === fs.realpathSync(scriptPath);
+      } catch {
+        return false;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Get platform-specific home directory
    */
@@ -126,6 +168,34 @@ export class PlatformDetector {
     return os.homedir();
   }
 
+  /**
+   * Get platform-specific directory for per-user application data
+   */
+  public static getDataDirectory(): string {
+    if (this.isWindows()) {
+      return process.env['LOCALAPPDATA'] || path.join(os.homedir(), 'AppData', 'Local');
+    }
+
+    if (this.isMacOS()) {
+      return path.join(os.homedir(), 'Library', 'Application Support');
+    }
+
+    return process.env['XDG_DATA_HOME'] || path.join(os.homedir(), '.local', 'share');
+  }
+
+  /**
+   * Check whether a process with the given id is running
+   */
+  public static isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to someone else
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
   /**
    * Get platform-specific temporary directory
    */
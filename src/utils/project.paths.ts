@@ -0,0 +1,61 @@
+import * as path from 'path';
+
+/**
+ * Translates paths between the directory pgit was started in and the project root.
+ * Path arguments are relative to the invocation directory, commands work with paths
+ * relative to the project root and output shows paths relative to the invocation directory again.
+ */
+export class ProjectPaths {
+  private static root: string | undefined;
+  private static invocationDir: string | undefined;
+
+  /**
+   * Set the project root and the directory pgit was started in
+   */
+  public static configure(root: string, invocationDir: string): void {
+    this.root = path.resolve(root);
+    this.invocationDir = path.resolve(invocationDir);
+  }
+
+  /**
+   * Get the project root, the current directory until one was configured
+   */
+  public static getRoot(): string {
+    return this.root || process.cwd();
+  }
+
+  /**
+   * Get the directory pgit was started in
+   */
+  public static getInvocationDir(): string {
+    return this.invocationDir || this.getRoot();
+  }
+
+  /**
+   * Rebase a path argument given relative to the invocation directory onto the project root.
+   * Paths outside the project stay relative, so the commands can reject them as before.
+   */
+  public static toProjectPath(inputPath: string): string {
+    const absolutePath = path.resolve(this.getInvocationDir(), inputPath);
+    return path.relative(this.getRoot(), absolutePath) || '.';
+  }
+
+  /**
+   * Resolve a path argument given relative to the invocation directory to an absolute path
+   */
+  public static toAbsolutePath(inputPath: string): string {
+    return path.resolve(this.getInvocationDir(), inputPath);
+  }
+
+  /**
+   * Show a path relative to the project root, or an absolute path, relative to the invocation directory
+   */
+  public static toDisplayPath(projectPath: string): string {
+    if (!this.root || this.root === this.invocationDir) {
+      return projectPath;
+    }
+
+    const absolutePath = path.resolve(this.root, projectPath);
+    return path.relative(this.getInvocationDir(), absolutePath) || '.';
+  }
+}
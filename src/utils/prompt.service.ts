@@ -0,0 +1,105 @@
+import * as readline from 'readline';
+import { MissingArgumentError, InvalidArgumentError } from '../errors/specific.errors';
+
+/**
+ * Interactive prompts on the terminal
+ */
+export class PromptService {
+  /**
+   * Check if the user can be prompted
+   */
+  public static isInteractive(): boolean {
+    return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+  }
+
+  /**
+   * Ask for a secret without echoing the typed characters
+   */
+  public static askSecret(question: string): Promise<string> {
+    return new Promise(resolve => {
+      const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+        terminal: true,
+      });
+
+      // Only the prompt itself is written, typed characters are swallowed
+      const output = rl as unknown as Record<string, unknown>;
+      let promptWritten = false;
+      output['_writeToOutput'] = (text: string): void => {
+        if (!promptWritten) {
+          process.stdout.write(text);
+          promptWritten = true;
+        }
+      };
+
+      rl.question(question, answer => {
+        rl.close();
+        process.stdout.write('\n');
+        resolve(answer);
+      });
+    });
+  }
+
+  /**
+   * Ask a yes or no question, anything but "y" or "yes" counts as no
+   */
+  public static confirm(question: string): Promise<boolean> {
+    return new Promise(resolve => {
+      const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+      });
+
+      rl.question(`${question} [y/N] `, answer => {
+        rl.close();
+        resolve(/^y(es)?$/i.test(answer.trim()));
+      });
+    });
+  }
+
+  /**
+   * Ask a question and return the trimmed answer
+   */
+  public static ask(question: string): Promise<string> {
+    return new Promise(resolve => {
+      const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+      });
+
+      rl.question(question, answer => {
+        rl.close();
+        resolve(answer.trim());
+      });
+    });
+  }
+
+  /**
+   * Get the passphrase for encrypted storage from PGIT_PASSPHRASE or by asking the user
+   */
+  public static async askPassphrase(confirm = false): Promise<string> {
+    const fromEnvironment = process.env['PGIT_PASSPHRASE'];
+    if (fromEnvironment) {
+      return fromEnvironment;
+    }
+
+    if (!this.isInteractive()) {
+      throw new MissingArgumentError(
+        'A passphrase is required. Set PGIT_PASSPHRASE or use --key-file.',
+        'passphrase',
+      );
+    }
+
+    const passphrase = await this.askSecret('Passphrase: ');
+    if (!passphrase) {
+      throw new InvalidArgumentError('Passphrase must not be empty', 'passphrase');
+    }
+
+    if (confirm && (await this.askSecret('Confirm passphrase: ')) !== passphrase) {
+      throw new InvalidArgumentError('Passphrases do not match', 'passphrase');
+    }
+
+    return passphrase;
+  }
+}